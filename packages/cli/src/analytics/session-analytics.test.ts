@@ -25,6 +25,7 @@ function mockEvent(overrides: Partial<BaseEvent> = {}): BaseEvent {
     toolName: "read_file",
     mcpMethod: "tools/call",
     upstreamKey: null,
+    batchId: null,
     startedAt: "2024-01-01T00:00:00.000Z",
     endedAt: "2024-01-01T00:00:01.000Z",
     status: "success",
@@ -88,6 +89,25 @@ describe("computeSessionSummary", () => {
     expect(summary.byToolName["write_file"]).toBe(1);
   });
 
+  it("leaves progress notifications out", () => {
+    const events = [
+      mockEvent({ id: "call", sequence: 1, toolName: "search" }),
+      mockEvent({
+        sequence: 2,
+        parentEventId: "call",
+        toolName: "search",
+        mcpMethod: "notifications/progress",
+      }),
+      mockEvent({ sequence: 3, toolName: "read_file", status: "error" }),
+    ];
+
+    const summary = computeSessionSummary(events);
+
+    expect(summary.totalEvents).toBe(2);
+    expect(summary.byToolName).toEqual({ search: 1, read_file: 1 });
+    expect(summary.errorRate).toBe(0.5);
+  });
+
   it("computes error rate correctly", () => {
     const events = [
       mockEvent({ sequence: 1, status: "success" }),
@@ -30,11 +30,17 @@ export interface SessionSummary {
 
 /**
  * Compute session summary from events.
+ * Progress notifications recorded under a streamed call are not calls
+ * themselves and are left out.
  */
 export function computeSessionSummary(
-  events: BaseEvent[],
+  allEvents: BaseEvent[],
   slowestCount = 10
 ): SessionSummary {
+  const events = allEvents.filter(
+    (event) => event.mcpMethod !== "notifications/progress"
+  );
+
   const byStatus: Record<string, number> = {};
   const byEventType: Record<string, number> = {};
   const byToolName: Record<string, number> = {};
@@ -0,0 +1,120 @@
+/**
+ * Tests for Markdown and HTML session reports.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { BaseEvent, Session } from "@agent-recorder/core";
+import { formatReportHtml, formatReportMarkdown } from "./session-report.js";
+
+const session: Session = {
+  id: "session-1",
+  startedAt: "2024-01-01T00:00:00.000Z",
+  endedAt: "2024-01-01T00:01:00.000Z",
+  status: "completed",
+  startSource: "startup",
+  endReason: "logout",
+  statsDurationMs: null,
+  statsToolCalls: null,
+  statsTokensUsed: null,
+  cwd: "/work/app",
+  gitBranch: "main",
+  gitCommit: "0123456789abcdef",
+  clientType: "claude-code",
+  hostname: null,
+  createdAt: "2024-01-01T00:00:00.000Z",
+};
+
+/** Create a mock event for testing */
+function mockEvent(overrides: Partial<BaseEvent> = {}): BaseEvent {
+  return {
+    id: "test-id",
+    sessionId: "session-1",
+    parentEventId: null,
+    sequence: 1,
+    eventType: "tool_call",
+    agentRole: "main",
+    agentName: "claude-code",
+    skillName: null,
+    toolName: "Read",
+    mcpMethod: null,
+    upstreamKey: null,
+    batchId: null,
+    startedAt: "2024-01-01T00:00:00.000Z",
+    endedAt: "2024-01-01T00:00:01.000Z",
+    status: "success",
+    inputJson: "{}",
+    outputJson: "{}",
+    errorCategory: null,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+const events = [
+  mockEvent(),
+  mockEvent({
+    id: "e2",
+    sequence: 2,
+    toolName: "query|rows",
+    upstreamKey: "postgres",
+    startedAt: "2024-01-01T00:00:30.000Z",
+    endedAt: "2024-01-01T00:00:45.000Z",
+    status: "error",
+    errorCategory: "jsonrpc_error",
+    inputJson: JSON.stringify({ sql: "select 1", token: "hunter2" }),
+    outputJson: JSON.stringify({ error: "<boom> ```" }),
+  }),
+];
+const options = { redactKeys: ["token"] };
+
+describe("formatReportMarkdown", () => {
+  it("includes metadata, summary, timeline and redacted errors", () => {
+    const report = formatReportMarkdown(session, events, options);
+
+    expect(report).toContain("# Session session-1");
+    expect(report).toContain("| Branch | main (0123456) |");
+    expect(report).toContain("| Duration | 1m 00s |");
+    expect(report).not.toContain("| Host |");
+    expect(report).toContain("| Error rate | 50.0% |");
+    expect(report).toContain(
+      "| 2 | +30.0s | postgres/query\\|rows | claude-code | error (jsonrpc_error) | 15.0s |"
+    );
+    expect(report).toContain(
+      "### #2 postgres/query|rows (error, jsonrpc_error)"
+    );
+    expect(report).toContain('"token":"[REDACTED]"');
+    expect(report).not.toContain("hunter2");
+    // Fence is longer than the backtick run in the payload
+    expect(report).toContain('````json\n{"error":"<boom> ```"}\n````');
+  });
+
+  it("truncates long payload excerpts", () => {
+    const report = formatReportMarkdown(
+      session,
+      [
+        mockEvent({
+          status: "error",
+          inputJson: JSON.stringify("x".repeat(500)),
+        }),
+      ],
+      { ...options, excerptLength: 100 }
+    );
+    expect(report).toContain("...[TRUNCATED]");
+    expect(report).not.toContain("x".repeat(100));
+  });
+});
+
+describe("formatReportHtml", () => {
+  it("renders a self-contained page with an SVG waterfall", () => {
+    const report = formatReportHtml(session, events, options);
+
+    expect(report.startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(report).not.toMatch(/<(link|script)\b/);
+    expect(report).toContain("<svg");
+    // Second call starts halfway through the session
+    expect(report).toMatch(/<rect x="560\.0" y="\d+" width="170\.0"/);
+    expect(report).toContain("&lt;boom&gt;");
+    expect(report).not.toContain("<boom>");
+    expect(report).not.toContain("hunter2");
+  });
+});
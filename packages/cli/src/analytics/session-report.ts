@@ -0,0 +1,404 @@
+/**
+ * Session reports - self-contained Markdown and HTML documents for pull
+ * requests and incident write-ups. Pure functions over a session and its
+ * events; payload excerpts are redacted again with the given keys and
+ * patterns, since reports are meant to be shared.
+ */
+
+import {
+  parsePayloadJson,
+  redactAndTruncate,
+  type BaseEvent,
+  type RedactionPattern,
+  type Session,
+} from "@agent-recorder/core";
+import {
+  computeSessionSummary,
+  type SessionSummary,
+} from "./session-analytics.js";
+
+export interface SessionReportOptions {
+  redactKeys: string[];
+  redactPatterns?: readonly RedactionPattern[];
+  /** Maximum length of each payload excerpt (default 1000) */
+  excerptLength?: number;
+}
+
+/** Events drawn in the HTML waterfall; later events are listed but not drawn */
+const MAX_WATERFALL_ROWS = 500;
+
+const DEFAULT_EXCERPT_LENGTH = 1000;
+
+/** An event that failed, with redacted payload excerpts */
+interface ErrorEntry {
+  event: BaseEvent;
+  input: string | null;
+  output: string | null;
+}
+
+/** Report contents shared by both formats */
+interface ReportData {
+  session: Session;
+  events: BaseEvent[];
+  summary: SessionSummary;
+  /** Start and end of the report's time axis (epoch ms) */
+  start: number;
+  end: number;
+  errors: ErrorEntry[];
+}
+
+function buildReportData(
+  session: Session,
+  events: BaseEvent[],
+  options: SessionReportOptions
+): ReportData {
+  const sorted = [...events].sort((a, b) => a.sequence - b.sequence);
+  const start = sorted.reduce(
+    (earliest, e) => Math.min(earliest, Date.parse(e.startedAt)),
+    Date.parse(session.startedAt)
+  );
+  const end = sorted.reduce(
+    (latest, e) => Math.max(latest, Date.parse(e.endedAt ?? e.startedAt)),
+    Date.parse(session.endedAt ?? session.startedAt)
+  );
+
+  const excerpt = (json: string | null): string | null =>
+    json === null
+      ? null
+      : redactAndTruncate(
+          parsePayloadJson(json),
+          options.redactKeys,
+          options.excerptLength ?? DEFAULT_EXCERPT_LENGTH,
+          options.redactPatterns
+        );
+
+  return {
+    session,
+    events: sorted,
+    summary: computeSessionSummary(sorted),
+    start,
+    end,
+    errors: sorted
+      .filter((e) => e.status === "error" || e.status === "timeout")
+      .map((event) => ({
+        event,
+        input: excerpt(event.inputJson),
+        output: excerpt(event.outputJson),
+      })),
+  };
+}
+
+/** Format milliseconds as "850ms", "12.3s" or "4m 05s" */
+function formatMs(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, "0")}s`;
+}
+
+function eventDuration(event: BaseEvent): string {
+  return event.endedAt
+    ? formatMs(Date.parse(event.endedAt) - Date.parse(event.startedAt))
+    : "-";
+}
+
+function eventLabel(event: BaseEvent): string {
+  const name = event.toolName ?? event.agentName;
+  return event.upstreamKey ? `${event.upstreamKey}/${name}` : name;
+}
+
+/** Session metadata as label/value rows, skipping unknown values */
+function metadataRows(data: ReportData): [string, string][] {
+  const { session } = data;
+  const rows: [string, string | null][] = [
+    ["Status", session.status],
+    ["Started", session.startedAt],
+    ["Ended", session.endedAt],
+    ["Duration", session.endedAt ? formatMs(data.end - data.start) : null],
+    ["Project", session.cwd],
+    [
+      "Branch",
+      session.gitBranch &&
+        (session.gitCommit
+          ? `${session.gitBranch} (${session.gitCommit.slice(0, 7)})`
+          : session.gitBranch),
+    ],
+    ["Client", session.clientType],
+    ["Host", session.hostname],
+    ["End reason", session.endReason],
+  ];
+  return rows.filter((row): row is [string, string] => row[1] !== null);
+}
+
+function summaryRows(summary: SessionSummary): [string, string][] {
+  return [
+    ["Events", String(summary.totalEvents)],
+    ["Succeeded", String(summary.successCount)],
+    ["Errors", String(summary.errorCount)],
+    ["Timeouts", String(summary.timeoutCount)],
+    ["Error rate", `${(summary.errorRate * 100).toFixed(1)}%`],
+    [
+      "Avg duration",
+      summary.avgDurationMs !== null ? formatMs(summary.avgDurationMs) : "N/A",
+    ],
+    ["Total tool time", formatMs(summary.totalDurationMs)],
+  ];
+}
+
+const TIMELINE_HEADERS = ["#", "Start", "Tool", "Agent", "Status", "Duration"];
+
+function timelineRows(data: ReportData): string[][] {
+  return data.events.map((event) => [
+    String(event.sequence),
+    `+${formatMs(Date.parse(event.startedAt) - data.start)}`,
+    eventLabel(event),
+    event.agentName,
+    event.errorCategory
+      ? `${event.status} (${event.errorCategory})`
+      : event.status,
+    eventDuration(event),
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+/** Escape text for a Markdown table cell */
+function mdCell(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+/** Fence a code block with more backticks than the content contains */
+function mdCode(text: string): string {
+  const longest = Math.max(
+    2,
+    ...(text.match(/`+/g) ?? []).map((run) => run.length)
+  );
+  const fence = "`".repeat(longest + 1);
+  return `${fence}json\n${text}\n${fence}`;
+}
+
+function mdTable(headers: string[], rows: string[][]): string[] {
+  return [
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(mdCell).join(" | ")} |`),
+  ];
+}
+
+/**
+ * Format a session report as Markdown.
+ */
+export function formatReportMarkdown(
+  session: Session,
+  events: BaseEvent[],
+  options: SessionReportOptions
+): string {
+  const data = buildReportData(session, events, options);
+  const { summary } = data;
+  const lines: string[] = [];
+
+  lines.push(`# Session ${session.id}`, "");
+  lines.push(...mdTable(["Field", "Value"], metadataRows(data)), "");
+
+  lines.push("## Summary", "");
+  lines.push(...mdTable(["Metric", "Value"], summaryRows(summary)), "");
+  if (summary.topTools.length > 0) {
+    lines.push(
+      ...mdTable(
+        ["Tool", "Calls"],
+        summary.topTools.map(({ name, count }) => [name, String(count)])
+      ),
+      ""
+    );
+  }
+
+  lines.push("## Timeline", "");
+  if (data.events.length === 0) {
+    lines.push("No events recorded.", "");
+  } else {
+    lines.push(...mdTable(TIMELINE_HEADERS, timelineRows(data)), "");
+  }
+
+  if (data.errors.length > 0) {
+    lines.push("## Errors", "");
+    for (const { event, input, output } of data.errors) {
+      const category = event.errorCategory ? `, ${event.errorCategory}` : "";
+      lines.push(
+        `### #${event.sequence} ${eventLabel(event)} (${event.status}${category})`,
+        ""
+      );
+      lines.push(
+        `Started ${event.startedAt}, took ${eventDuration(event)}.`,
+        ""
+      );
+      if (input !== null) lines.push("Input:", "", mdCode(input), "");
+      if (output !== null) lines.push("Output:", "", mdCode(output), "");
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function htmlTable(headers: string[], rows: string[][]): string {
+  const head = headers.map((h) => `<th>${escapeHtml(h)}</th>`).join("");
+  const body = rows
+    .map(
+      (row) =>
+        `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`
+    )
+    .join("\n");
+  return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+  success: "#3fb950",
+  error: "#f85149",
+  timeout: "#d29922",
+  cancelled: "#8b949e",
+  running: "#58a6ff",
+};
+
+/** Inline SVG waterfall: one row per event, bars positioned on the session's time axis */
+function waterfallSvg(data: ReportData): string {
+  const rows = data.events.slice(0, MAX_WATERFALL_ROWS);
+  const labelWidth = 220;
+  const chartWidth = 680;
+  const rowHeight = 18;
+  const axisHeight = 20;
+  const height = axisHeight + rows.length * rowHeight;
+  const span = Math.max(data.end - data.start, 1);
+  const x = (time: number) =>
+    labelWidth + ((time - data.start) / span) * chartWidth;
+
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map((fraction) => {
+    const tx = labelWidth + fraction * chartWidth;
+    const anchor = fraction === 0 ? "start" : fraction === 1 ? "end" : "middle";
+    return (
+      `<line x1="${tx}" y1="${axisHeight - 4}" x2="${tx}" y2="${height}" class="grid"/>` +
+      `<text x="${tx}" y="${axisHeight - 8}" text-anchor="${anchor}">+${formatMs(Math.round(span * fraction))}</text>`
+    );
+  });
+
+  const bars = rows.map((event, i) => {
+    const y = axisHeight + i * rowHeight;
+    const startX = x(Date.parse(event.startedAt));
+    const endX = x(event.endedAt ? Date.parse(event.endedAt) : data.end);
+    const width = Math.max(endX - startX, 1);
+    const color = STATUS_COLORS[event.status] ?? STATUS_COLORS["cancelled"]!;
+    const label = `#${event.sequence} ${eventLabel(event)}`;
+    const title = `${label}: ${event.status}, ${eventDuration(event)}`;
+    return (
+      `<g><title>${escapeHtml(title)}</title>` +
+      `<text x="4" y="${y + 13}">${escapeHtml(label.length > 32 ? `${label.slice(0, 31)}…` : label)}</text>` +
+      `<rect x="${startX.toFixed(1)}" y="${y + 3}" width="${width.toFixed(1)}" height="${rowHeight - 6}" rx="2" fill="${color}"/></g>`
+    );
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${labelWidth + chartWidth + 10}" height="${height}" class="waterfall">`,
+    ...ticks,
+    ...bars,
+    "</svg>",
+  ].join("\n");
+}
+
+const HTML_STYLE = `
+body { font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2328; max-width: 960px; margin: 2em auto; padding: 0 1em; }
+h1 { font-size: 1.6em; word-break: break-all; }
+h2 { border-bottom: 1px solid #d0d7de; padding-bottom: .3em; margin-top: 1.5em; }
+table { border-collapse: collapse; margin: 1em 0; }
+th, td { border: 1px solid #d0d7de; padding: 4px 10px; text-align: left; vertical-align: top; }
+th { background: #f6f8fa; }
+pre { background: #f6f8fa; padding: 8px 12px; overflow-x: auto; white-space: pre-wrap; word-break: break-all; }
+.waterfall text { font: 11px monospace; fill: #57606a; }
+.waterfall .grid { stroke: #d0d7de; stroke-dasharray: 2 2; }
+`.trim();
+
+/**
+ * Format a session report as a self-contained HTML page (inline CSS and
+ * SVG, no external resources).
+ */
+export function formatReportHtml(
+  session: Session,
+  events: BaseEvent[],
+  options: SessionReportOptions
+): string {
+  const data = buildReportData(session, events, options);
+  const { summary } = data;
+  const parts: string[] = [];
+
+  parts.push(`<h1>Session ${escapeHtml(session.id)}</h1>`);
+  parts.push(htmlTable(["Field", "Value"], metadataRows(data)));
+
+  parts.push("<h2>Summary</h2>");
+  parts.push(htmlTable(["Metric", "Value"], summaryRows(summary)));
+  if (summary.topTools.length > 0) {
+    parts.push(
+      htmlTable(
+        ["Tool", "Calls"],
+        summary.topTools.map(({ name, count }) => [name, String(count)])
+      )
+    );
+  }
+
+  parts.push("<h2>Timeline</h2>");
+  if (data.events.length === 0) {
+    parts.push("<p>No events recorded.</p>");
+  } else {
+    parts.push(waterfallSvg(data));
+    if (data.events.length > MAX_WATERFALL_ROWS) {
+      parts.push(
+        `<p>Waterfall shows the first ${MAX_WATERFALL_ROWS} of ${data.events.length} events.</p>`
+      );
+    }
+    parts.push(htmlTable(TIMELINE_HEADERS, timelineRows(data)));
+  }
+
+  if (data.errors.length > 0) {
+    parts.push("<h2>Errors</h2>");
+    for (const { event, input, output } of data.errors) {
+      const category = event.errorCategory ? `, ${event.errorCategory}` : "";
+      parts.push(
+        `<h3>#${event.sequence} ${escapeHtml(eventLabel(event))} (${escapeHtml(event.status + category)})</h3>`
+      );
+      parts.push(
+        `<p>Started ${escapeHtml(event.startedAt)}, took ${eventDuration(event)}.</p>`
+      );
+      if (input !== null) {
+        parts.push(`<p>Input:</p>\n<pre>${escapeHtml(input)}</pre>`);
+      }
+      if (output !== null) {
+        parts.push(`<p>Output:</p>\n<pre>${escapeHtml(output)}</pre>`);
+      }
+    }
+  }
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>Session ${escapeHtml(session.id)}</title>`,
+    `<style>\n${HTML_STYLE}\n</style>`,
+    "</head>",
+    "<body>",
+    ...parts,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
@@ -187,4 +187,21 @@ describe("Doctor Command - Hub Mode", () => {
     // Verify it does NOT show "not hubified"
     expect(output).not.toContain("Claude Config:  not hubified");
   });
+
+  it("reports events waiting in the hook spool", async () => {
+    const spoolPath = path.join(tempDir, ".agent-recorder", "hook-spool.jsonl");
+    fs.writeFileSync(
+      spoolPath,
+      '{"hook_type":"PreToolUse"}\n{"hook_type":"PostToolUse"}\n'
+    );
+
+    try {
+      await doctorCommand();
+    } catch {
+      // Expected to fail since daemon isn't running
+    }
+
+    const output = consoleLogSpy.mock.calls.map((call) => call[0]).join("\n");
+    expect(output).toContain("Hook spool:     2 event(s), 55 B");
+  });
 });
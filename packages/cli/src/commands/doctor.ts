@@ -10,6 +10,7 @@ import {
   type Session,
   readProvidersFile,
   getDefaultProvidersPath,
+  getHookSpoolStats,
   type HttpProvider,
 } from "@agent-recorder/core";
 import {
@@ -20,6 +21,11 @@ import {
   getV2ConfigPath,
   getLegacyConfigPath,
 } from "../config/claude-paths.js";
+import {
+  fetchProviderHealth,
+  formatProviderHealth,
+} from "../hub/provider-health.js";
+import { formatBytes } from "../utils/format.js";
 
 interface HealthResponse {
   status: string;
@@ -302,6 +308,25 @@ export async function doctorCommand(): Promise<void> {
       suggestions.push("Check unreachable HTTP providers (see providers.json)");
     }
 
+    // Health the running hub has tracked (circuit breaker, error rate)
+    const providerHealth = processRunning
+      ? await fetchProviderHealth(proxyBaseUrl)
+      : null;
+    if (providerHealth && providerHealth.length > 0) {
+      console.log("Health:");
+      for (const health of providerHealth) {
+        console.log(`  ${formatProviderHealth(health)}`);
+      }
+
+      const openCircuits = providerHealth.filter((h) => h.circuit === "open");
+      if (openCircuits.length > 0) {
+        hasErrors = true;
+        suggestions.push(
+          `Check providers with an open circuit: ${openCircuits.map((h) => h.id).join(", ")} (requests fast-fail until they recover)`
+        );
+      }
+    }
+
     // Check if Claude config is hubified
     if (claudeConfig.kind !== "none" && claudeConfig.path) {
       const configData = readJsonFile(claudeConfig.path);
@@ -404,6 +429,19 @@ export async function doctorCommand(): Promise<void> {
   } else {
     console.log("Session:        (daemon not running)");
   }
+
+  // Hook events spooled while the daemon was unreachable
+  const spool = getHookSpoolStats();
+  if (spool.entries > 0) {
+    console.log(
+      `Hook spool:     ${spool.entries} event(s), ${formatBytes(spool.bytes)} (replayed when the daemon starts)`
+    );
+    if (processRunning) {
+      suggestions.push("Run: agent-recorder restart to replay spooled events");
+    }
+  } else {
+    console.log("Hook spool:     empty");
+  }
   console.log("");
 
   // === SUGGESTED ACTIONS ===
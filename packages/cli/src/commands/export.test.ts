@@ -0,0 +1,120 @@
+/**
+ * Tests for the Chrome Trace Event Format export.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { BaseEvent, Session } from "@agent-recorder/core";
+import { toChromeTraceFormat } from "./export.js";
+
+const session = {
+  id: "sess-1",
+  startedAt: "2026-01-01T10:00:00.000Z",
+  endedAt: "2026-01-01T10:01:00.000Z",
+  status: "completed",
+} as Session;
+
+function event(
+  id: string,
+  startSec: number,
+  endSec: number | null,
+  extra: Partial<BaseEvent> = {}
+): BaseEvent {
+  const at = (sec: number) =>
+    new Date(Date.parse(session.startedAt) + sec * 1000).toISOString();
+  return {
+    id,
+    sessionId: session.id,
+    parentEventId: null,
+    sequence: 1,
+    eventType: "tool_call",
+    agentRole: "main",
+    agentName: "claude-code",
+    skillName: null,
+    toolName: id,
+    mcpMethod: null,
+    upstreamKey: null,
+    batchId: null,
+    startedAt: at(startSec),
+    endedAt: endSec === null ? null : at(endSec),
+    status: endSec === null ? "running" : "success",
+    inputJson: null,
+    outputJson: null,
+    errorCategory: null,
+    createdAt: at(startSec),
+    ...extra,
+  };
+}
+
+interface TraceEvent {
+  name: string;
+  ph: string;
+  ts: number;
+  dur: number;
+  tid: number;
+  args: Record<string, unknown>;
+}
+
+function convert(events: BaseEvent[]) {
+  const { traceEvents } = toChromeTraceFormat(session, events) as {
+    traceEvents: TraceEvent[];
+  };
+  const threads = new Map(
+    traceEvents
+      .filter((e) => e.name === "thread_name")
+      .map((e) => [e.tid, e.args.name])
+  );
+  const slices = new Map(
+    traceEvents.filter((e) => e.ph === "X").map((e) => [e.name, e])
+  );
+  return { threads, slices };
+}
+
+describe("toChromeTraceFormat", () => {
+  it("nests children on their parent's track and splits by upstream", () => {
+    const { threads, slices } = convert([
+      event("Task", 0, 10, { eventType: "subagent_call" }),
+      event("Grep", 2, 3, {
+        parentEventId: "Task",
+        agentRole: "subagent",
+        agentName: "Explore",
+      }),
+      event("search", 4, 5, {
+        upstreamKey: "github",
+        status: "error",
+        errorCategory: "downstream_timeout",
+      }),
+    ]);
+
+    const task = slices.get("Task")!;
+    expect(task).toMatchObject({ ts: Date.parse(session.startedAt) * 1000 });
+    expect(task.dur).toBe(10_000_000);
+    expect(slices.get("Grep")!.tid).toBe(task.tid);
+    expect(threads.get(task.tid)).toBe("claude-code");
+
+    const search = slices.get("search")!;
+    expect(threads.get(search.tid)).toBe("mcp: github");
+    expect(search.args).toMatchObject({
+      toolName: "search",
+      status: "error",
+      errorCategory: "downstream_timeout",
+    });
+  });
+
+  it("moves overlapping calls to extra lanes and extends running calls", () => {
+    const { threads, slices } = convert([
+      event("Read", 0, 5),
+      event("Bash", 2, 8),
+      event("Glob", 6, 7),
+      event("Edit", 20, null),
+    ]);
+
+    const read = slices.get("Read")!;
+    const bash = slices.get("Bash")!;
+    expect(bash.tid).not.toBe(read.tid);
+    expect(threads.get(bash.tid)).toBe("claude-code (2)");
+    // Fits back on the first lane once Read has finished
+    expect(slices.get("Glob")!.tid).toBe(read.tid);
+    // Running until the session ended
+    expect(slices.get("Edit")!.dur).toBe(40_000_000);
+  });
+});
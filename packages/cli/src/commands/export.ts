@@ -1,6 +1,6 @@
 /**
  * Export command - export session events to various formats.
- * Supports: JSON, JSONL, HAR, OpenTelemetry
+ * Supports: JSON, JSONL, HAR, OpenTelemetry, Chrome Trace Event Format
  */
 
 import { writeFileSync } from "node:fs";
@@ -9,14 +9,7 @@ import {
   type Session,
   type BaseEvent,
 } from "@agent-recorder/core";
-
-async function fetchJson<T>(url: string): Promise<T> {
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`HTTP ${response.status}`);
-  }
-  return response.json() as Promise<T>;
-}
+import { fetchJson } from "../utils/http.js";
 
 export interface ExportCommandOptions {
   format?: string;
@@ -230,6 +223,143 @@ function toOpenTelemetryFormat(session: Session, events: BaseEvent[]): object {
   return { resourceSpans };
 }
 
+/** A Chrome trace thread: one lane of a track */
+interface TraceLane {
+  tid: number;
+  /** Intervals still open on this lane, outermost first */
+  open: { end: number }[];
+}
+
+/**
+ * Convert events to Chrome Trace Event Format (chrome://tracing, Perfetto).
+ *
+ * Each event is a complete ("X") event. Top-level events get one track per
+ * MCP server, or per agent for built-in tools; nested events stay on their
+ * top-level ancestor's track so they draw under their parent. Calls that
+ * overlap without nesting (parallel tool calls) spill onto extra lanes of
+ * the same track. Running events extend to the end of the trace.
+ */
+export function toChromeTraceFormat(
+  session: Session,
+  events: BaseEvent[]
+): object {
+  const byId = new Map(events.map((e) => [e.id, e]));
+  const toMicros = (iso: string) => new Date(iso).getTime() * 1000;
+  const traceEnd = events.reduce(
+    (latest, e) => Math.max(latest, toMicros(e.endedAt ?? e.startedAt)),
+    toMicros(session.endedAt ?? session.startedAt)
+  );
+
+  const trackOf = (event: BaseEvent): string => {
+    let root = event;
+    const seen = new Set([root.id]);
+    while (root.parentEventId) {
+      const parent = byId.get(root.parentEventId);
+      if (!parent || seen.has(parent.id)) break;
+      seen.add(parent.id);
+      root = parent;
+    }
+    return root.upstreamKey ? `mcp: ${root.upstreamKey}` : root.agentName;
+  };
+
+  // Outer events first, so parents are placed before their children
+  const spans = events
+    .map((event) => {
+      const start = toMicros(event.startedAt);
+      const end = event.endedAt ? toMicros(event.endedAt) : traceEnd;
+      return { event, start, end: Math.max(end, start) };
+    })
+    .sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const tracks = new Map<string, TraceLane[]>();
+  const laneOf = new Map<string, TraceLane>();
+  const threadNames: { tid: number; name: string }[] = [];
+
+  // A span fits a lane if it nests inside whatever is still open there
+  const fits = (lane: TraceLane, start: number, end: number): boolean => {
+    while (
+      lane.open.length > 0 &&
+      lane.open[lane.open.length - 1]!.end <= start
+    ) {
+      lane.open.pop();
+    }
+    const top = lane.open[lane.open.length - 1];
+    return !top || top.end >= end;
+  };
+
+  const traceEvents: object[] = spans.map(({ event, start, end }) => {
+    const track = trackOf(event);
+    const lanes = tracks.get(track) ?? [];
+    tracks.set(track, lanes);
+
+    const parentLane = event.parentEventId
+      ? laneOf.get(event.parentEventId)
+      : undefined;
+    let lane =
+      parentLane && fits(parentLane, start, end)
+        ? parentLane
+        : lanes.find((l) => fits(l, start, end));
+    if (!lane) {
+      lane = { tid: threadNames.length + 1, open: [] };
+      lanes.push(lane);
+      threadNames.push({
+        tid: lane.tid,
+        name: lanes.length > 1 ? `${track} (${lanes.length})` : track,
+      });
+    }
+    lane.open.push({ end });
+    laneOf.set(event.id, lane);
+
+    return {
+      name: event.toolName ?? event.agentName,
+      cat: event.eventType,
+      ph: "X",
+      ts: start,
+      dur: end - start,
+      pid: 1,
+      tid: lane.tid,
+      args: {
+        eventId: event.id,
+        parentEventId: event.parentEventId,
+        toolName: event.toolName,
+        status: event.status,
+        errorCategory: event.errorCategory,
+        agentName: event.agentName,
+        upstreamKey: event.upstreamKey,
+        mcpMethod: event.mcpMethod,
+      },
+    };
+  });
+
+  return {
+    traceEvents: [
+      {
+        name: "process_name",
+        ph: "M",
+        pid: 1,
+        args: { name: `Session ${session.id}` },
+      },
+      ...threadNames.flatMap(({ tid, name }) => [
+        { name: "thread_name", ph: "M", pid: 1, tid, args: { name } },
+        {
+          name: "thread_sort_index",
+          ph: "M",
+          pid: 1,
+          tid,
+          args: { sort_index: tid },
+        },
+      ]),
+      ...traceEvents,
+    ],
+    displayTimeUnit: "ms",
+    otherData: {
+      sessionId: session.id,
+      sessionStatus: session.status,
+      startedAt: session.startedAt,
+    },
+  };
+}
+
 /**
  * Export a session's events to various formats.
  */
@@ -241,7 +371,7 @@ export async function exportCommand(
   const format = options.format ?? "jsonl";
 
   // Validate format
-  const validFormats = ["json", "jsonl", "har", "otlp"];
+  const validFormats = ["json", "jsonl", "har", "otlp", "chrome-trace"];
   if (!validFormats.includes(format)) {
     console.error(`Invalid format. Use one of: ${validFormats.join(", ")}`);
     process.exit(1);
@@ -288,6 +418,13 @@ export async function exportCommand(
         break;
       }
 
+      case "chrome-trace": {
+        // Trace Event Format: chrome://tracing, ui.perfetto.dev
+        const trace = toChromeTraceFormat(session, events);
+        output = JSON.stringify(trace) + "\n";
+        break;
+      }
+
       default:
         output = "";
     }
@@ -104,6 +104,7 @@ export async function hooksInstallCommand(): Promise<void> {
 
   // Hook types we want to install
   const hookTypes = [
+    "PreToolUse", // Opens a running event so durations are real
     "PostToolUse", // Main one - captures all tool calls with responses
     "SessionStart",
     "SessionEnd",
@@ -0,0 +1,135 @@
+/**
+ * Import command - backfill recordings from outside sources.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { getActualListenPort } from "@agent-recorder/core";
+
+interface TranscriptImportResponse {
+  sessionId: string;
+  createdSession: boolean;
+  inserted: number;
+  repaired: number;
+  unchanged: number;
+}
+
+interface SessionImportResponse {
+  sessions: {
+    sourceId: string;
+    id: string;
+    events: number;
+    skipped: boolean;
+    renumbered: boolean;
+  }[];
+}
+
+export interface ImportCommandOptions {
+  remapIds?: boolean;
+  skipExisting?: boolean;
+}
+
+/**
+ * Import sessions from a JSON or JSONL export. The daemon validates every
+ * record and imports all sessions in one transaction, so a failed import
+ * leaves the database unchanged.
+ */
+export async function importCommand(
+  file: string,
+  options: ImportCommandOptions
+): Promise<void> {
+  const baseUrl = `http://127.0.0.1:${getActualListenPort()}`;
+
+  if (options.remapIds && options.skipExisting) {
+    console.error("Use either --remap-ids or --skip-existing, not both");
+    process.exit(1);
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(file, "utf-8");
+  } catch {
+    console.error(`Cannot read file: ${file}`);
+    process.exit(1);
+  }
+
+  let result: SessionImportResponse;
+  try {
+    const response = await fetch(`${baseUrl}/api/import`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        content,
+        remapIds: options.remapIds ?? false,
+        skipExisting: options.skipExisting ?? false,
+      }),
+    });
+    if (!response.ok) {
+      const error = (await response.json()) as { error?: string };
+      console.error(
+        `Import failed: ${error.error ?? `HTTP ${response.status}`}`
+      );
+      if (response.status === 409) {
+        console.error(
+          "Use --skip-existing to keep existing sessions or --remap-ids to import a copy"
+        );
+      }
+      process.exit(1);
+    }
+    result = (await response.json()) as SessionImportResponse;
+  } catch {
+    console.error("Failed to import sessions. Is the daemon running?");
+    process.exit(1);
+  }
+
+  for (const session of result.sessions) {
+    if (session.skipped) {
+      console.log(`Session ${session.id}: already exists, skipped`);
+      continue;
+    }
+    const copy =
+      session.id !== session.sourceId ? ` (copy of ${session.sourceId})` : "";
+    const renumbered = session.renumbered ? ", sequences renumbered" : "";
+    console.log(
+      `Session ${session.id}${copy}: ${session.events} event(s)${renumbered}`
+    );
+  }
+}
+
+/**
+ * Import a Claude Code transcript, given as a file path or a session ID
+ * (looked up in ~/.claude/projects by the daemon).
+ */
+export async function importTranscriptCommand(target: string): Promise<void> {
+  const baseUrl = `http://127.0.0.1:${getActualListenPort()}`;
+  const body = existsSync(target)
+    ? { path: resolve(target) }
+    : { sessionId: target };
+
+  let result: TranscriptImportResponse;
+  try {
+    const response = await fetch(`${baseUrl}/api/import/transcript`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const error = (await response.json()) as { error?: string };
+      console.error(
+        `Import failed: ${error.error ?? `HTTP ${response.status}`}`
+      );
+      process.exit(1);
+    }
+    result = (await response.json()) as TranscriptImportResponse;
+  } catch {
+    console.error("Failed to import transcript. Is the daemon running?");
+    process.exit(1);
+  }
+
+  console.log(
+    `Session ${result.sessionId}${result.createdSession ? " (new)" : ""}`
+  );
+  console.log(`  Inserted:  ${result.inserted} tool call(s)`);
+  console.log(`  Repaired:  ${result.repaired} tool call(s)`);
+  console.log(`  Unchanged: ${result.unchanged} tool call(s)`);
+}
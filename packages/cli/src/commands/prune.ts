@@ -0,0 +1,108 @@
+/**
+ * Prune command - delete old sessions (or their payloads) and compact the DB.
+ */
+
+import {
+  getActualListenPort,
+  parseDuration,
+  type PruneResult,
+} from "@agent-recorder/core";
+import { formatBytes } from "../utils/format.js";
+
+export interface PruneCommandOptions {
+  olderThan?: string;
+  keepLast?: string;
+  maxSize?: string;
+  payloadsOnly?: boolean;
+  dryRun?: boolean;
+  vacuum?: boolean;
+}
+
+export async function pruneCommand(
+  options: PruneCommandOptions
+): Promise<void> {
+  const baseUrl = `http://127.0.0.1:${getActualListenPort()}`;
+
+  if (!options.olderThan && !options.keepLast && !options.maxSize) {
+    console.error(
+      "Specify at least one of --older-than, --keep-last, --max-size"
+    );
+    process.exit(1);
+  }
+
+  if (options.olderThan && parseDuration(options.olderThan) === null) {
+    console.error(
+      `Invalid duration: ${options.olderThan} (use e.g. 30d, 12h, 2w)`
+    );
+    process.exit(1);
+  }
+
+  if (options.keepLast && !/^[1-9]\d*$/.test(options.keepLast)) {
+    console.error(
+      `Invalid --keep-last: ${options.keepLast} (use a positive integer)`
+    );
+    process.exit(1);
+  }
+
+  const maxSizeMb = options.maxSize ? Number(options.maxSize) : undefined;
+  if (
+    maxSizeMb !== undefined &&
+    (!Number.isFinite(maxSizeMb) || maxSizeMb <= 0)
+  ) {
+    console.error(
+      `Invalid --max-size: ${options.maxSize} (use a size in MB, e.g. 500)`
+    );
+    process.exit(1);
+  }
+
+  const body = {
+    ...(options.olderThan ? { olderThan: options.olderThan } : {}),
+    ...(options.keepLast ? { keepLast: parseInt(options.keepLast, 10) } : {}),
+    ...(maxSizeMb !== undefined ? { maxDbSizeMb: maxSizeMb } : {}),
+    payloadsOnly: options.payloadsOnly ?? false,
+    dryRun: options.dryRun ?? false,
+    vacuum: options.vacuum ?? true,
+  };
+
+  let result: PruneResult;
+  try {
+    const response = await fetch(`${baseUrl}/api/prune`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const error = (await response.json()) as { error?: string };
+      console.error(
+        `Prune failed: ${error.error ?? `HTTP ${response.status}`}`
+      );
+      process.exit(1);
+    }
+    result = (await response.json()) as PruneResult;
+  } catch {
+    console.error("Failed to prune sessions. Is the daemon running?");
+    process.exit(1);
+  }
+
+  const prefix = result.dryRun ? "[dry run] Would prune" : "Pruned";
+  const what = result.payloadsOnly ? "payloads from" : "";
+
+  if (result.sessionIds.length === 0) {
+    console.log("Nothing to prune.");
+    return;
+  }
+
+  console.log(
+    `${prefix} ${what ? `${what} ` : ""}${result.sessionIds.length} session(s), ${result.eventCount} event(s)`
+  );
+  for (const id of result.sessionIds) {
+    console.log(`  ${id}`);
+  }
+
+  if (!result.dryRun) {
+    console.log("");
+    console.log(
+      `Database size: ${formatBytes(result.sizeBeforeBytes)} -> ${formatBytes(result.sizeAfterBytes)}${result.vacuumed ? " (vacuumed)" : ""}`
+    );
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Report command - write a shareable Markdown or HTML session report.
+ */
+
+import { writeFileSync } from "node:fs";
+import {
+  getActualListenPort,
+  loadConfig,
+  type Session,
+  type BaseEvent,
+} from "@agent-recorder/core";
+import {
+  formatReportHtml,
+  formatReportMarkdown,
+} from "../analytics/session-report.js";
+import { fetchJson } from "../utils/http.js";
+
+export interface ReportCommandOptions {
+  format?: string;
+  out?: string;
+}
+
+/**
+ * Generate a session report: metadata, summary stats, timeline and errors
+ * (plus an SVG waterfall in HTML).
+ */
+export async function reportCommand(
+  id: string,
+  options: ReportCommandOptions
+): Promise<void> {
+  const baseUrl = `http://127.0.0.1:${getActualListenPort()}`;
+  const format = options.format ?? "md";
+
+  const validFormats = ["md", "html"];
+  if (!validFormats.includes(format)) {
+    console.error(`Invalid format. Use one of: ${validFormats.join(", ")}`);
+    process.exit(1);
+  }
+
+  let session: Session;
+  let events: BaseEvent[];
+  try {
+    session = await fetchJson<Session>(`${baseUrl}/api/sessions/${id}`);
+    events = await fetchJson<BaseEvent[]>(
+      `${baseUrl}/api/sessions/${id}/events`
+    );
+  } catch {
+    console.error(`Failed to fetch session: ${id}. Is the daemon running?`);
+    process.exit(1);
+  }
+
+  const config = loadConfig();
+  const reportOptions = {
+    redactKeys: config.redactKeys,
+    redactPatterns: config.redactPatterns,
+  };
+  const output =
+    format === "html"
+      ? formatReportHtml(session, events, reportOptions)
+      : formatReportMarkdown(session, events, reportOptions);
+
+  if (options.out) {
+    writeFileSync(options.out, output);
+    console.log(
+      `Wrote ${format} report for ${events.length} events to ${options.out}`
+    );
+  } else {
+    process.stdout.write(output);
+  }
+}
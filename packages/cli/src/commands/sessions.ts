@@ -2,29 +2,27 @@
  * Sessions commands - list, show, current, tail, view, stats, grep, summarize.
  */
 
+import { basename, resolve } from "node:path";
 import {
   getActualListenPort,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
   type Session,
   type BaseEvent,
+  type EventSearchResult,
 } from "@agent-recorder/core";
 import {
   computeSessionSummary,
   formatStatsText,
   formatConciseSummary,
 } from "../analytics/session-analytics.js";
+import { followEvents } from "../stream/event-stream.js";
+import { fetchJson } from "../utils/http.js";
 
 interface SessionWithCount extends Session {
   eventCount: number;
 }
 
-async function fetchJson<T>(url: string): Promise<T> {
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`HTTP ${response.status}`);
-  }
-  return response.json() as Promise<T>;
-}
-
 async function getEventCount(
   baseUrl: string,
   sessionId: string
@@ -39,6 +37,13 @@ async function getEventCount(
   }
 }
 
+/** Project label for a session: directory plus git branch */
+function formatProject(session: Session): string {
+  if (!session.cwd) return session.clientType ?? "-";
+  const name = basename(session.cwd) || session.cwd;
+  return session.gitBranch ? `${name} (${session.gitBranch})` : name;
+}
+
 function formatTable(sessions: SessionWithCount[]): void {
   if (sessions.length === 0) {
     console.log("No sessions found.");
@@ -47,31 +52,41 @@ function formatTable(sessions: SessionWithCount[]): void {
 
   // Header
   console.log(
-    "ID".padEnd(38) + "STATUS".padEnd(12) + "STARTED".padEnd(25) + "EVENTS"
+    "ID".padEnd(38) +
+      "STATUS".padEnd(12) +
+      "STARTED".padEnd(25) +
+      "EVENTS".padEnd(8) +
+      "PROJECT"
   );
-  console.log("-".repeat(80));
+  console.log("-".repeat(100));
 
   // Rows
   for (const session of sessions) {
     const id = session.id.padEnd(38);
     const status = session.status.padEnd(12);
     const started = session.startedAt.padEnd(25);
-    const events = String(session.eventCount);
-    console.log(`${id}${status}${started}${events}`);
+    const events = String(session.eventCount).padEnd(8);
+    console.log(`${id}${status}${started}${events}${formatProject(session)}`);
   }
 }
 
 export async function sessionsListCommand(options: {
   status?: string;
+  project?: string;
 }): Promise<void> {
   const baseUrl = `http://127.0.0.1:${getActualListenPort()}`;
 
   try {
     // Fetch sessions
-    let url = `${baseUrl}/api/sessions`;
+    const params = new URLSearchParams();
     if (options.status) {
-      url += `?status=${options.status}`;
+      params.set("status", options.status);
+    }
+    if (options.project) {
+      params.set("project", resolve(options.project));
     }
+    const query = params.toString();
+    const url = `${baseUrl}/api/sessions${query ? `?${query}` : ""}`;
 
     const sessions = await fetchJson<Session[]>(url);
 
@@ -107,6 +122,43 @@ export async function sessionsShowCommand(id: string): Promise<void> {
     console.log(`Started:  ${session.startedAt}`);
     console.log(`Ended:    ${session.endedAt ?? "N/A"}`);
     console.log(`Events:   ${eventCount}`);
+    if (session.cwd) {
+      console.log(`Project:  ${session.cwd}`);
+    }
+    if (session.gitBranch || session.gitCommit) {
+      const commit = session.gitCommit ? session.gitCommit.slice(0, 12) : "";
+      console.log(
+        `Git:      ${[session.gitBranch, commit].filter(Boolean).join(" @ ")}`
+      );
+    }
+    if (session.clientType) {
+      console.log(`Client:   ${session.clientType}`);
+    }
+    if (session.hostname) {
+      console.log(`Host:     ${session.hostname}`);
+    }
+    if (session.startSource) {
+      console.log(`Source:   ${session.startSource}`);
+    }
+    if (session.endReason) {
+      console.log(`Reason:   ${session.endReason}`);
+    }
+
+    // Statistics reported by the client at session end
+    const reported = [
+      session.statsDurationMs !== null
+        ? `duration ${(session.statsDurationMs / 1000).toFixed(1)}s`
+        : null,
+      session.statsToolCalls !== null
+        ? `${session.statsToolCalls} tool calls`
+        : null,
+      session.statsTokensUsed !== null
+        ? `${session.statsTokensUsed} tokens`
+        : null,
+    ].filter((part): part is string => part !== null);
+    if (reported.length > 0) {
+      console.log(`Reported: ${reported.join(", ")}`);
+    }
   } catch {
     console.error(`Session not found: ${id}`);
     process.exit(1);
@@ -148,10 +200,58 @@ function printEvent(event: BaseEvent): void {
 }
 
 export interface SessionsTailOptions {
-  interval?: string;
   n?: string;
 }
 
+/**
+ * Follow a session's live event stream from the given sequence, printing
+ * new events and completions. Runs until Ctrl+C.
+ */
+async function followSession(
+  baseUrl: string,
+  id: string,
+  loaded: BaseEvent[],
+  print: (event: BaseEvent) => void,
+  stopMessage: string
+): Promise<void> {
+  const after = loaded.reduce(
+    (last, event) => Math.max(last, event.sequence),
+    0
+  );
+  let connected = false;
+  const subscription = followEvents(
+    baseUrl,
+    id,
+    {
+      onEvent: (event) => print(event),
+      onOpen: () => {
+        connected = true;
+      },
+      onError: (error) => {
+        if (connected) {
+          console.error(
+            `Stream interrupted (${error.message}), reconnecting...`
+          );
+        }
+        connected = false;
+      },
+    },
+    { after, loaded }
+  );
+
+  // Handle Ctrl+C
+  process.on("SIGINT", () => {
+    subscription.close();
+    console.log(`\n${stopMessage}`);
+    process.exit(0);
+  });
+
+  // Keep process alive
+  await new Promise(() => {
+    // Never resolves - runs until SIGINT
+  });
+}
+
 /**
  * Tail session events (like tail -f).
  * Runs indefinitely until Ctrl+C.
@@ -161,61 +261,34 @@ export async function sessionsTailCommand(
   options: SessionsTailOptions
 ): Promise<void> {
   const baseUrl = `http://127.0.0.1:${getActualListenPort()}`;
-  const intervalMs = parseInt(options.interval ?? "1000", 10);
   const initialLimit = parseInt(options.n ?? "50", 10);
 
-  let lastSequence = 0;
-
   console.log(`Tailing session ${id} (Ctrl+C to stop)...\n`);
 
-  /**
-   * Fetch events after lastSequence.
-   * For initial fetch, we get last N events by fetching all and slicing.
-   */
-  const fetchEvents = async (
-    after: number,
-    limit: number
-  ): Promise<BaseEvent[]> => {
-    const url = `${baseUrl}/api/sessions/${id}/events?after=${after}&limit=${limit}`;
-    try {
-      return await fetchJson<BaseEvent[]>(url);
-    } catch {
-      return [];
-    }
-  };
-
   // Initial fetch: get last N events
-  const initialEvents = await fetchEvents(0, 1000); // Get up to 1000 events
+  let initialEvents: BaseEvent[] = [];
+  try {
+    initialEvents = await fetchJson<BaseEvent[]>(
+      `${baseUrl}/api/sessions/${id}/events?after=0&limit=1000`
+    );
+  } catch {
+    // Start from the beginning; the stream replays what was missed
+  }
   const startIndex = Math.max(0, initialEvents.length - initialLimit);
   const recentEvents = initialEvents.slice(startIndex);
 
   for (const event of recentEvents) {
     printEvent(event);
-    lastSequence = Math.max(lastSequence, event.sequence);
   }
 
-  // Poll for new events
-  const poll = async () => {
-    const events = await fetchEvents(lastSequence, 200);
-    for (const event of events) {
-      printEvent(event);
-      lastSequence = Math.max(lastSequence, event.sequence);
-    }
-  };
-
-  const timer = setInterval(poll, intervalMs);
-
-  // Handle Ctrl+C
-  process.on("SIGINT", () => {
-    clearInterval(timer);
-    console.log("\nStopped tailing.");
-    process.exit(0);
-  });
-
-  // Keep process alive
-  await new Promise(() => {
-    // Never resolves - runs until SIGINT
-  });
+  // Stream new events and completions
+  await followSession(
+    baseUrl,
+    id,
+    initialEvents,
+    printEvent,
+    "Stopped tailing."
+  );
 }
 
 /**
@@ -238,7 +311,6 @@ function printEventDetailed(event: BaseEvent): void {
 export interface SessionsViewOptions {
   tail?: string;
   follow?: boolean;
-  interval?: string;
 }
 
 /**
@@ -250,7 +322,6 @@ export async function sessionsViewCommand(
 ): Promise<void> {
   const baseUrl = `http://127.0.0.1:${getActualListenPort()}`;
   const tailCount = options.tail ? parseInt(options.tail, 10) : 200;
-  const intervalMs = parseInt(options.interval ?? "1000", 10);
 
   try {
     // Fetch session info
@@ -295,36 +366,17 @@ export async function sessionsViewCommand(
       printEventDetailed(event);
     }
 
-    // If follow mode, poll for new events
+    // If follow mode, stream new events and completions
     if (options.follow) {
-      let lastSequence =
-        events.length > 0 ? events[events.length - 1]!.sequence : 0;
-
       console.log("\n-- Following new events (Ctrl+C to stop) --\n");
 
-      const poll = async () => {
-        try {
-          const newEvents = await fetchJson<BaseEvent[]>(
-            `${baseUrl}/api/sessions/${id}/events?after=${lastSequence}&limit=200`
-          );
-          for (const event of newEvents) {
-            printEventDetailed(event);
-            lastSequence = Math.max(lastSequence, event.sequence);
-          }
-        } catch {
-          // Silently ignore polling errors
-        }
-      };
-
-      const timer = setInterval(poll, intervalMs);
-
-      process.on("SIGINT", () => {
-        clearInterval(timer);
-        console.log("\nStopped following.");
-        process.exit(0);
-      });
-
-      await new Promise(() => {});
+      await followSession(
+        baseUrl,
+        id,
+        events,
+        printEventDetailed,
+        "Stopped following."
+      );
     }
   } catch {
     console.error(`Failed to view session: ${id}`);
@@ -357,44 +409,146 @@ export async function sessionsStatsCommand(id: string): Promise<void> {
 }
 
 export interface SessionsGrepOptions {
+  text?: string;
   tool?: string;
   status?: string;
   error?: string;
   sinceSeq?: string;
+  limit?: string;
   json?: boolean;
 }
 
+/**
+ * Apply grep filters to events (client-side).
+ */
+function filterEvents(
+  events: BaseEvent[],
+  options: SessionsGrepOptions
+): BaseEvent[] {
+  let filtered = events;
+
+  if (options.tool) {
+    filtered = filtered.filter((e) => e.toolName === options.tool);
+  }
+  if (options.status) {
+    filtered = filtered.filter((e) => e.status === options.status);
+  }
+  if (options.error) {
+    filtered = filtered.filter((e) => e.errorCategory === options.error);
+  }
+  if (options.sinceSeq) {
+    const sinceSeq = parseInt(options.sinceSeq, 10);
+    filtered = filtered.filter((e) => e.sequence > sinceSeq);
+  }
+
+  return filtered;
+}
+
+/**
+ * Render search highlight markers (bold when writing to a terminal).
+ */
+function renderSnippet(snippet: string): string {
+  const [start, end] = process.stdout.isTTY
+    ? ["\x1b[1m", "\x1b[22m"]
+    : [">>", "<<"];
+  return snippet
+    .split(SEARCH_HIGHLIGHT_START)
+    .join(start)
+    .split(SEARCH_HIGHLIGHT_END)
+    .join(end);
+}
+
+/**
+ * Full-text search in event payloads via /api/search.
+ */
+async function grepText(
+  baseUrl: string,
+  id: string | undefined,
+  text: string,
+  options: SessionsGrepOptions
+): Promise<void> {
+  // Filters run in the daemon, before its result limit
+  const limit = options.limit ?? "50";
+  const params = new URLSearchParams({ q: text, limit });
+  if (id) params.set("session", id);
+  if (options.tool) params.set("tool", options.tool);
+  if (options.status) params.set("status", options.status);
+  if (options.error) params.set("error", options.error);
+  if (options.sinceSeq) params.set("sinceSeq", options.sinceSeq);
+
+  const filtered = await fetchJson<EventSearchResult[]>(
+    `${baseUrl}/api/search?${params.toString()}`
+  );
+
+  if (options.json) {
+    console.log(JSON.stringify(filtered, null, 2));
+    return;
+  }
+
+  if (filtered.length === 0) {
+    console.log("No matching events found.");
+    return;
+  }
+
+  for (const { event, inputSnippet, outputSnippet } of filtered) {
+    if (!id) {
+      console.log(`Session ${event.sessionId}`);
+    }
+    printEventDetailed(event);
+    if (inputSnippet) {
+      console.log(`       input:  ${renderSnippet(inputSnippet)}`);
+    }
+    if (outputSnippet) {
+      console.log(`       output: ${renderSnippet(outputSnippet)}`);
+    }
+  }
+
+  const sessionCount = new Set(filtered.map((r) => r.event.sessionId)).size;
+  console.log("");
+  console.log(
+    `Found ${filtered.length} matching event(s) in ${sessionCount} session(s).`
+  );
+  if (filtered.length === parseInt(limit, 10)) {
+    console.log(`Showing the first ${limit}; use --limit to see more.`);
+  }
+}
+
 /**
  * Search/filter session events.
  */
 export async function sessionsGrepCommand(
-  id: string,
+  id: string | undefined,
   options: SessionsGrepOptions
 ): Promise<void> {
   const baseUrl = `http://127.0.0.1:${getActualListenPort()}`;
 
+  if (options.text) {
+    if (options.limit !== undefined && !/^[1-9]\d*$/.test(options.limit)) {
+      console.error("--limit must be a positive integer");
+      process.exit(1);
+    }
+    try {
+      await grepText(baseUrl, id, options.text, options);
+    } catch {
+      console.error("Failed to search events. Is the daemon running?");
+      process.exit(1);
+    }
+    return;
+  }
+
+  if (!id) {
+    console.error("Session id is required unless --text is given.");
+    process.exit(1);
+  }
+
   try {
     // Fetch all events
     const events = await fetchJson<BaseEvent[]>(
       `${baseUrl}/api/sessions/${id}/events`
     );
 
-    // Filter client-side (per spec: no new REST endpoints for grep)
-    let filtered = events;
-
-    if (options.tool) {
-      filtered = filtered.filter((e) => e.toolName === options.tool);
-    }
-    if (options.status) {
-      filtered = filtered.filter((e) => e.status === options.status);
-    }
-    if (options.error) {
-      filtered = filtered.filter((e) => e.errorCategory === options.error);
-    }
-    if (options.sinceSeq) {
-      const sinceSeq = parseInt(options.sinceSeq, 10);
-      filtered = filtered.filter((e) => e.sequence > sinceSeq);
-    }
+    // Filter client-side
+    const filtered = filterEvents(events, options);
 
     if (options.json) {
       console.log(JSON.stringify(filtered, null, 2));
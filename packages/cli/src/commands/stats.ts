@@ -0,0 +1,130 @@
+/**
+ * Stats command - call volume, error rate and latency across sessions.
+ */
+
+import {
+  getActualListenPort,
+  STATS_GROUP_BY,
+  type CallStats,
+  type CallStatsResult,
+  type StatsGroupBy,
+} from "@agent-recorder/core";
+
+export interface StatsCommandOptions {
+  since?: string;
+  groupBy?: string;
+  format?: string;
+}
+
+/** Format milliseconds as "850ms" or "12.3s" */
+function formatMs(ms: number | null): string {
+  if (ms === null) return "-";
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatPercent(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function formatRow(label: string, stats: CallStats): string {
+  const name = label.length > 30 ? `${label.slice(0, 29)}…` : label;
+  return (
+    name.padEnd(32) +
+    String(stats.calls).padStart(7) +
+    String(stats.sessions).padStart(10) +
+    formatPercent(stats.errorRate).padStart(8) +
+    formatMs(stats.p50Ms).padStart(9) +
+    formatMs(stats.p95Ms).padStart(9) +
+    formatMs(stats.p99Ms).padStart(9)
+  );
+}
+
+function formatStats(result: CallStatsResult, since: string | null): string {
+  const lines: string[] = [];
+  const window = since ? `in the last ${since}` : "across all sessions";
+  lines.push(`Calls ${window}, by ${result.groupBy}`);
+  lines.push("");
+
+  if (result.totals.calls === 0) {
+    lines.push("No calls recorded.");
+    return lines.join("\n");
+  }
+
+  lines.push(
+    result.groupBy.toUpperCase().padEnd(32) +
+      "CALLS".padStart(7) +
+      "SESSIONS".padStart(10) +
+      "ERROR%".padStart(8) +
+      "P50".padStart(9) +
+      "P95".padStart(9) +
+      "P99".padStart(9)
+  );
+  lines.push("-".repeat(84));
+  for (const group of result.groups) {
+    lines.push(formatRow(group.key, group));
+  }
+  lines.push("-".repeat(84));
+  lines.push(formatRow("Total", result.totals));
+
+  if (result.mostFailingTools.length > 0) {
+    lines.push("");
+    lines.push("Most failing tools:");
+    for (const {
+      tool,
+      calls,
+      failures,
+      errorRate,
+    } of result.mostFailingTools) {
+      lines.push(
+        `  ${tool.padEnd(30)} ${failures} of ${calls} calls failed (${formatPercent(errorRate)})`
+      );
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Show call statistics across sessions over a time window.
+ */
+export async function statsCommand(
+  options: StatsCommandOptions
+): Promise<void> {
+  const baseUrl = `http://127.0.0.1:${getActualListenPort()}`;
+  const groupBy = options.groupBy ?? "day";
+  const format = options.format ?? "text";
+
+  if (!STATS_GROUP_BY.includes(groupBy as StatsGroupBy)) {
+    console.error(
+      `Invalid --group-by. Use one of: ${STATS_GROUP_BY.join(", ")}`
+    );
+    process.exit(1);
+  }
+
+  const params = new URLSearchParams({ groupBy });
+  if (options.since && options.since !== "all") {
+    params.set("since", options.since);
+  }
+
+  let result: CallStatsResult;
+  try {
+    const response = await fetch(`${baseUrl}/api/stats?${params}`);
+    if (!response.ok) {
+      const error = (await response.json()) as { error?: string };
+      console.error(
+        `Stats failed: ${error.error ?? `HTTP ${response.status}`}`
+      );
+      process.exit(1);
+    }
+    result = (await response.json()) as CallStatsResult;
+  } catch {
+    console.error("Failed to fetch stats. Is the daemon running?");
+    process.exit(1);
+  }
+
+  if (format === "json") {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    console.log(formatStats(result, params.get("since")));
+  }
+}
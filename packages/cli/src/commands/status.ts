@@ -12,6 +12,11 @@ import {
   getDefaultProvidersPath,
   type HttpProvider,
 } from "@agent-recorder/core";
+import {
+  fetchProviderHealth,
+  formatProviderHealth,
+  isProviderUnhealthy,
+} from "../hub/provider-health.js";
 
 interface HealthResponse {
   status: string;
@@ -162,13 +167,35 @@ export async function statusCommand(): Promise<void> {
 
   console.log(`DB Path:      ${paths.dbFile}`);
 
-  // Show provider health
+  // Show provider health as tracked by the hub (circuit, errors, latency)
+  const providerHealth = mcpProxyReachable
+    ? await fetchProviderHealth(`http://127.0.0.1:${config.mcpProxyPort}`)
+    : null;
+
+  if (providerHealth && providerHealth.length > 0) {
+    console.log("");
+    console.log("Providers:");
+    for (const health of providerHealth) {
+      console.log(`  ${formatProviderHealth(health)}`);
+    }
+
+    const unhealthyCount = providerHealth.filter(isProviderUnhealthy).length;
+    if (unhealthyCount > 0) {
+      console.log("");
+      console.log(
+        `⚠ ${unhealthyCount}/${providerHealth.length} provider(s) unhealthy`
+      );
+      console.log("  Run 'agent-recorder doctor' for details");
+    }
+  }
+
+  // Fall back to pinging providers when the hub has no health to report
   const providersFile = readProvidersFile(getDefaultProvidersPath());
   const httpProviders = providersFile.providers.filter(
     (p): p is HttpProvider => p.type === "http"
   );
 
-  if (httpProviders.length > 0) {
+  if (!providerHealth?.length && httpProviders.length > 0) {
     console.log("");
     console.log("Providers:");
 
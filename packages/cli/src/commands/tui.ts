@@ -2,14 +2,21 @@
  * TUI command - interactive session explorer.
  */
 
-export async function tuiCommand(): Promise<void> {
+export interface TuiOptions {
+  /** Only show sessions recorded in this project directory */
+  project?: string;
+}
+
+export async function tuiCommand(options: TuiOptions = {}): Promise<void> {
   // Dynamic imports to avoid loading React unless needed
   const { render } = await import("ink");
   const React = await import("react");
   const { App } = await import("../tui/App.js");
+  const { resolve } = await import("node:path");
 
   // Render the TUI app
-  const { waitUntilExit } = render(React.createElement(App));
+  const project = options.project ? resolve(options.project) : undefined;
+  const { waitUntilExit } = render(React.createElement(App, { project }));
 
   // Wait for the app to exit
   await waitUntilExit();
@@ -349,6 +349,21 @@ describe("Hubify", () => {
       expect(result.providers.find((p) => p.id === "new")).toBeDefined();
     });
 
+    it("keeps the policy of the existing file", () => {
+      const existingFile: ProvidersFile = {
+        version: 1,
+        providers: [],
+        policy: { default: { deny: ["delete_*"] } },
+      };
+
+      const result = mergeProviders(existingFile, [
+        { id: "github", type: "http", url: "https://api.github.com/mcp" },
+      ]);
+
+      expect(result.providers).toHaveLength(1);
+      expect(result.policy).toEqual({ default: { deny: ["delete_*"] } });
+    });
+
     it("handles multiple providers with same ids", () => {
       const existingFile: ProvidersFile = {
         version: 1,
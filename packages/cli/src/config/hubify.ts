@@ -145,7 +145,8 @@ export function hubifyClaudeConfig(
 
 /**
  * Merge providers into providers file.
- * Upserts providers by ID.
+ * Upserts providers by ID; other fields of the file (such as policy)
+ * are kept.
  *
  * @param existingFile - Existing providers file
  * @param newProviders - Providers to merge
@@ -168,6 +169,7 @@ export function mergeProviders(
   }
 
   return {
+    ...existingFile,
     version: 1,
     providers: Array.from(providerMap.values()),
   };
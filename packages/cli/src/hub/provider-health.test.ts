@@ -0,0 +1,53 @@
+/**
+ * Tests for hub provider health formatting.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { ProviderHealth } from "@agent-recorder/core";
+import {
+  formatProviderHealth,
+  isProviderUnhealthy,
+} from "./provider-health.js";
+
+function mockHealth(overrides: Partial<ProviderHealth> = {}): ProviderHealth {
+  return {
+    id: "github",
+    type: "http",
+    circuit: "closed",
+    errorRate: 0,
+    requests: 4,
+    failures: 0,
+    consecutiveFailures: 0,
+    avgLatencyMs: 120,
+    lastLatencyMs: 100,
+    lastSuccessAt: "2024-01-01T00:00:00.000Z",
+    lastFailureAt: null,
+    lastError: null,
+    retryAt: null,
+    ...overrides,
+  };
+}
+
+describe("formatProviderHealth", () => {
+  const now = Date.parse("2024-01-01T00:00:12.000Z");
+
+  it("summarizes a healthy provider", () => {
+    expect(formatProviderHealth(mockHealth(), now)).toBe(
+      "✓ github  circuit closed, 0% errors, avg 120ms, last ok 12s ago"
+    );
+  });
+
+  it("flags an open circuit with its last error", () => {
+    const health = mockHealth({
+      circuit: "open",
+      errorRate: 1,
+      lastSuccessAt: null,
+      lastError: "HTTP 503",
+    });
+
+    expect(isProviderUnhealthy(health)).toBe(true);
+    expect(formatProviderHealth(health, now)).toBe(
+      "✗ github  circuit open, 100% errors, avg 120ms, never succeeded (HTTP 503)"
+    );
+  });
+});
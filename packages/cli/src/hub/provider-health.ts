@@ -0,0 +1,73 @@
+/**
+ * Client for the daemon's hub provider health (GET /hub/providers on the
+ * MCP proxy port), shared by `status` and `doctor`.
+ */
+
+import type { ProviderHealth } from "@agent-recorder/core";
+
+/**
+ * Fetch provider health from a running daemon.
+ * Returns null if the proxy isn't reachable (or predates the endpoint).
+ */
+export async function fetchProviderHealth(
+  proxyBaseUrl: string
+): Promise<ProviderHealth[] | null> {
+  try {
+    const response = await fetch(`${proxyBaseUrl}/hub/providers`, {
+      signal: AbortSignal.timeout(2000),
+    });
+    if (!response.ok) return null;
+    const data = (await response.json()) as { providers?: ProviderHealth[] };
+    return Array.isArray(data.providers) ? data.providers : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a provider needs attention: circuit not closed, or at least half
+ * of its recent requests failed.
+ */
+export function isProviderUnhealthy(health: ProviderHealth): boolean {
+  return health.circuit !== "closed" || (health.errorRate ?? 0) >= 0.5;
+}
+
+/**
+ * Format one provider as a status line, e.g.
+ * "✓ github  circuit closed, 0% errors, avg 120ms, last ok 12s ago".
+ */
+export function formatProviderHealth(
+  health: ProviderHealth,
+  now: number = Date.now()
+): string {
+  const icon =
+    health.circuit === "open" ? "✗" : isProviderUnhealthy(health) ? "⚠" : "✓";
+
+  const parts = [`circuit ${health.circuit.replace("_", "-")}`];
+  if (health.errorRate !== null) {
+    parts.push(`${Math.round(health.errorRate * 100)}% errors`);
+  }
+  if (health.avgLatencyMs !== null) {
+    parts.push(`avg ${health.avgLatencyMs}ms`);
+  }
+  if (health.lastSuccessAt) {
+    const seconds = Math.max(
+      0,
+      Math.floor((now - new Date(health.lastSuccessAt).getTime()) / 1000)
+    );
+    parts.push(`last ok ${seconds}s ago`);
+  } else if (health.requests > 0) {
+    parts.push("never succeeded");
+  } else {
+    parts.push("no requests yet");
+  }
+  if (health.processState) {
+    parts.push(`process ${health.processState}`);
+  }
+
+  let line = `${icon} ${health.id}  ${parts.join(", ")}`;
+  if (health.circuit === "open" && health.lastError) {
+    line += ` (${health.lastError})`;
+  }
+  return line;
+}
@@ -3,8 +3,9 @@
  * @agent-recorder/cli
  *
  * CLI for Agent Recorder.
- * Commands: start, stop, restart, status, logs, sessions, export, install,
- *           doctor, configure, diagnose, mock-mcp
+ * Commands: start, stop, restart, status, logs, sessions, export, report,
+ *           stats, prune, import, install, doctor, configure, diagnose,
+ *           mock-mcp
  */
 
 import { Command } from "commander";
@@ -25,6 +26,10 @@ import {
   sessionsSummarizeCommand,
 } from "./commands/sessions.js";
 import { exportCommand } from "./commands/export.js";
+import { reportCommand } from "./commands/report.js";
+import { statsCommand } from "./commands/stats.js";
+import { pruneCommand } from "./commands/prune.js";
+import { importCommand, importTranscriptCommand } from "./commands/import.js";
 import { installCommand } from "./commands/install.js";
 import { doctorCommand } from "./commands/doctor.js";
 import {
@@ -124,6 +129,7 @@ sessions
     "-s, --status <status>",
     "Filter by status (active|completed|error|cancelled)"
   )
+  .option("-p, --project <path>", "Filter by project directory")
   .action(async (options) => {
     await sessionsListCommand(options);
   });
@@ -145,7 +151,7 @@ sessions
 sessions
   .command("tail <id>")
   .description("Tail session events (like tail -f)")
-  .option("-i, --interval <ms>", "Poll interval in milliseconds", "1000")
+  .option("-i, --interval <ms>", "Deprecated: ignored, events are streamed")
   .option("-n, --n <count>", "Number of recent events to show initially", "50")
   .action(async (id, options) => {
     await sessionsTailCommand(id, options);
@@ -156,7 +162,7 @@ sessions
   .description("View session events with header summary")
   .option("-t, --tail <n>", "Show last N events (default 200)")
   .option("-f, --follow", "Follow new events (like tail -f)")
-  .option("-i, --interval <ms>", "Poll interval for follow mode", "1000")
+  .option("-i, --interval <ms>", "Deprecated: ignored, events are streamed")
   .action(async (id, options) => {
     await sessionsViewCommand(id, options);
   });
@@ -169,8 +175,11 @@ sessions
   });
 
 sessions
-  .command("grep <id>")
-  .description("Search/filter session events")
+  .command("grep [id]")
+  .description(
+    "Search/filter session events (omit id with --text to search all sessions)"
+  )
+  .option("--text <query>", "Full-text search in tool inputs and outputs")
   .option("--tool <name>", "Filter by tool name")
   .option(
     "--status <status>",
@@ -178,6 +187,7 @@ sessions
   )
   .option("--error <category>", "Filter by error category")
   .option("--since-seq <n>", "Only events after sequence N")
+  .option("--limit <n>", "Maximum --text matches (default: 50)")
   .option("--json", "Output as JSON")
   .action(async (id, options) => {
     await sessionsGrepCommand(id, options);
@@ -194,13 +204,84 @@ sessions
 // Export command
 program
   .command("export <id>")
-  .description("Export session events to JSON or JSONL")
-  .option("-f, --format <format>", "Output format: json or jsonl", "jsonl")
+  .description("Export session events to a file or stdout")
+  .option(
+    "-f, --format <format>",
+    "Output format: jsonl, json, har, otlp or chrome-trace",
+    "jsonl"
+  )
   .option("-o, --out <path>", "Output file path (stdout if not specified)")
   .action(async (id, options) => {
     await exportCommand(id, options);
   });
 
+// Report command
+program
+  .command("report <id>")
+  .description("Write a Markdown or HTML session report")
+  .option("-f, --format <format>", "Output format: md or html", "md")
+  .option("-o, --out <path>", "Output file path (stdout if not specified)")
+  .action(async (id, options) => {
+    await reportCommand(id, options);
+  });
+
+// Stats command
+program
+  .command("stats")
+  .description("Show call volume, error rate and latency across sessions")
+  .option("--since <duration>", 'Time window, e.g. 24h, 7d, 4w, or "all"', "7d")
+  .option(
+    "--group-by <dimension>",
+    "Group by: day, tool, upstream or project",
+    "day"
+  )
+  .option("-f, --format <format>", "Output format: text or json", "text")
+  .action(async (options) => {
+    await statsCommand(options);
+  });
+
+// Prune command
+program
+  .command("prune")
+  .description("Delete old sessions (or their payloads) and compact the DB")
+  .option("--older-than <duration>", "Sessions inactive for longer (e.g. 30d)")
+  .option("--keep-last <n>", "Keep only the N most recent sessions")
+  .option("--max-size <mb>", "Prune oldest sessions until DB is under size")
+  .option("--payloads-only", "Drop input/output payloads, keep metadata")
+  .option("--dry-run", "Show what would be pruned without changing anything")
+  .option("--no-vacuum", "Skip VACUUM after pruning")
+  .action(async (options) => {
+    await pruneCommand(options);
+  });
+
+// Import command group
+const importCmd = program
+  .command("import")
+  .description(
+    "Import sessions from a JSON/JSONL export, or backfill from other sources"
+  )
+  .argument(
+    "[file]",
+    "Session export (agent-recorder export --format json|jsonl)"
+  )
+  .option("--remap-ids", "Give imported sessions and events new IDs")
+  .option("--skip-existing", "Skip sessions that already exist")
+  .action(async (file, options) => {
+    if (!file) {
+      importCmd.help();
+    }
+    await importCommand(file, options);
+  });
+
+importCmd
+  .command("transcript <target>")
+  .description(
+    "Import tool calls from a Claude Code transcript (path or session ID)"
+  )
+  .action(async (target) => {
+    await importTranscriptCommand(target);
+  });
+
 // Install command
 program
   .command("install")
@@ -321,8 +402,9 @@ program
 program
   .command("tui")
   .description("Interactive session explorer")
-  .action(async () => {
-    await tuiCommand();
+  .option("-p, --project <path>", "Only show sessions from this project")
+  .action(async (options) => {
+    await tuiCommand(options);
   });
 
 // Configure command group
@@ -0,0 +1,106 @@
+/**
+ * Tests for the live event stream client helpers.
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { BaseEvent } from "@agent-recorder/core";
+import { followEvents, upsertEvent } from "./event-stream.js";
+
+/** Create a mock event for testing */
+function mockEvent(overrides: Partial<BaseEvent> = {}): BaseEvent {
+  const sequence = overrides.sequence ?? 1;
+  return {
+    id: `event-${sequence}`,
+    sessionId: "session-1",
+    parentEventId: null,
+    sequence,
+    eventType: "tool_call",
+    agentRole: "main",
+    agentName: "claude-code",
+    skillName: null,
+    toolName: "read_file",
+    mcpMethod: "tools/call",
+    upstreamKey: null,
+    batchId: null,
+    startedAt: "2024-01-01T00:00:00.000Z",
+    endedAt: null,
+    status: "running",
+    inputJson: null,
+    outputJson: null,
+    errorCategory: null,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+describe("upsertEvent", () => {
+  it("appends new events and replaces updated ones", () => {
+    let events = upsertEvent([], mockEvent({ sequence: 1 }));
+    events = upsertEvent(events, mockEvent({ sequence: 2 }));
+    events = upsertEvent(events, mockEvent({ sequence: 1, status: "success" }));
+
+    expect(events.map((e) => `${e.sequence}:${e.status}`)).toEqual([
+      "1:success",
+      "2:running",
+    ]);
+  });
+
+  it("keeps events ordered by sequence", () => {
+    const events = upsertEvent(
+      [mockEvent({ sequence: 1 }), mockEvent({ sequence: 3 })],
+      mockEvent({ sequence: 2 })
+    );
+
+    expect(events.map((e) => e.sequence)).toEqual([1, 2, 3]);
+  });
+});
+
+describe("followEvents", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("re-fetches running events missed while disconnected", async () => {
+    const requests: string[] = [];
+    vi.stubGlobal("fetch", async (url: string) => {
+      requests.push(url);
+      if (url.includes("/api/stream")) {
+        // Open stream that never sends anything
+        return new Response(new ReadableStream());
+      }
+      return Response.json([
+        mockEvent({ sequence: 2, status: "success" }),
+        mockEvent({ sequence: 3 }),
+        mockEvent({ sequence: 4, status: "error" }),
+      ]);
+    });
+
+    const received: string[] = [];
+    const subscription = followEvents(
+      "http://daemon",
+      "session-1",
+      {
+        onEvent: (event, change) => {
+          received.push(`${change}:${event.sequence}:${event.status}`);
+        },
+      },
+      {
+        after: 4,
+        loaded: [
+          mockEvent({ sequence: 1, status: "success" }),
+          mockEvent({ sequence: 2 }),
+          mockEvent({ sequence: 3 }),
+          mockEvent({ sequence: 4 }),
+        ],
+      }
+    );
+
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+    subscription.close();
+
+    expect(received).toEqual(["update:2:success", "update:4:error"]);
+    expect(requests[1]).toBe(
+      "http://daemon/api/sessions/session-1/events?after=1&limit=500"
+    );
+  });
+});
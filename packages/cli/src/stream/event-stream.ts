@@ -0,0 +1,193 @@
+/**
+ * Client for the daemon's live event stream (GET /api/stream).
+ *
+ * Parses Server-Sent Events from a fetch body and reconnects with
+ * Last-Event-ID so no events are missed across daemon restarts.
+ * Completions carry no id, so events still running when the connection
+ * dropped are re-fetched after reconnecting.
+ */
+
+import {
+  SseParser,
+  type BaseEvent,
+  type EventChangeType,
+} from "@agent-recorder/core";
+
+/** Page size when re-checking running events after (re)connecting */
+const RECHECK_BATCH_SIZE = 500;
+
+/**
+ * Insert an event into a sequence-ordered list, or replace it if an event
+ * with the same ID is already present (completion updates).
+ */
+export function upsertEvent(
+  events: BaseEvent[],
+  event: BaseEvent
+): BaseEvent[] {
+  const index = events.findIndex((e) => e.id === event.id);
+  if (index !== -1) {
+    const next = events.slice();
+    next[index] = event;
+    return next;
+  }
+
+  const last = events[events.length - 1];
+  if (!last || last.sequence < event.sequence) {
+    return [...events, event];
+  }
+  return [...events, event].sort((a, b) => a.sequence - b.sequence);
+}
+
+export interface EventStreamHandlers {
+  /** Called for each inserted or completed event */
+  onEvent: (event: BaseEvent, change: EventChangeType) => void;
+  /** Called when the connection is (re)established */
+  onOpen?: () => void;
+  /** Called when the connection fails or drops (it will be retried) */
+  onError?: (error: Error) => void;
+}
+
+export interface FollowEventsOptions {
+  /** Only stream events with sequence greater than this */
+  after?: number;
+  /** Delay before reconnecting in ms (default: server hint or 1000) */
+  retryMs?: number;
+  /** Events the caller already loaded; running ones are re-checked */
+  loaded?: BaseEvent[];
+}
+
+export interface EventStreamSubscription {
+  close: () => void;
+}
+
+/**
+ * Follow live events for a session (or "*" for all sessions).
+ * Keeps reconnecting until closed.
+ */
+export function followEvents(
+  baseUrl: string,
+  sessionId: string,
+  handlers: EventStreamHandlers,
+  options: FollowEventsOptions = {}
+): EventStreamSubscription {
+  const controller = new AbortController();
+  const url = `${baseUrl}/api/stream?session=${encodeURIComponent(sessionId)}`;
+  let lastEventId = options.after ? String(options.after) : null;
+  let retryMs = options.retryMs ?? 1000;
+
+  // Running events by ID -> sequence, so completions that happened while
+  // disconnected can be recovered (single-session streams only)
+  const running = new Map<string, number>();
+  const track = (event: BaseEvent) => {
+    if (event.status === "running") {
+      running.set(event.id, event.sequence);
+    } else {
+      running.delete(event.id);
+    }
+  };
+  for (const event of options.loaded ?? []) {
+    track(event);
+  }
+
+  const deliver = (event: BaseEvent, change: EventChangeType) => {
+    track(event);
+    handlers.onEvent(event, change);
+  };
+
+  const recheckRunning = async () => {
+    if (running.size === 0 || sessionId === "*") return;
+
+    const sequences = [...running.values()];
+    const last = Math.max(...sequences);
+    let cursor = Math.min(...sequences) - 1;
+    while (cursor < last) {
+      const response = await fetch(
+        `${baseUrl}/api/sessions/${encodeURIComponent(sessionId)}/events?after=${cursor}&limit=${RECHECK_BATCH_SIZE}`,
+        { signal: controller.signal }
+      );
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const page = (await response.json()) as BaseEvent[];
+      for (const event of page) {
+        cursor = event.sequence;
+        if (running.has(event.id) && event.status !== "running") {
+          deliver(event, "update");
+        }
+      }
+      if (page.length < RECHECK_BATCH_SIZE) break;
+    }
+  };
+
+  const waitForRetry = () =>
+    new Promise<void>((resolve) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        controller.signal.removeEventListener("abort", onAbort);
+        resolve();
+      }, retryMs);
+      controller.signal.addEventListener("abort", onAbort, { once: true });
+    });
+
+  const connect = async () => {
+    const response = await fetch(url, {
+      headers: lastEventId ? { "Last-Event-ID": lastEventId } : {},
+      signal: controller.signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    handlers.onOpen?.();
+    // The stream is subscribed now, so nothing can complete unseen after this
+    await recheckRunning();
+
+    const parser = new SseParser();
+    const decoder = new TextDecoder();
+    const reader = response.body.getReader();
+
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+
+      for (const message of parser.push(
+        decoder.decode(value, { stream: true })
+      )) {
+        if (message.retry !== null && options.retryMs === undefined) {
+          retryMs = message.retry;
+        }
+        if (message.id !== null) {
+          lastEventId = message.id;
+        }
+        if (message.event === "insert" || message.event === "update") {
+          deliver(JSON.parse(message.data) as BaseEvent, message.event);
+        }
+      }
+    }
+  };
+
+  const run = async () => {
+    while (!controller.signal.aborted) {
+      try {
+        await connect();
+        if (!controller.signal.aborted) {
+          handlers.onError?.(new Error("Stream closed by daemon"));
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        handlers.onError?.(
+          error instanceof Error ? error : new Error(String(error))
+        );
+      }
+      await waitForRetry();
+    }
+  };
+
+  void run();
+
+  return {
+    close: () => controller.abort(),
+  };
+}
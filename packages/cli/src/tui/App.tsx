@@ -20,7 +20,12 @@ interface AppState {
   error: string | null;
 }
 
-export function App(): React.ReactElement {
+export interface AppProps {
+  /** Initial project directory filter for the sessions list */
+  project?: string | undefined;
+}
+
+export function App({ project }: AppProps): React.ReactElement {
   const baseUrl = `http://127.0.0.1:${getActualListenPort()}`;
 
   const [state, setState] = useState<AppState>({
@@ -113,6 +118,7 @@ export function App(): React.ReactElement {
       return (
         <SessionsScreen
           baseUrl={baseUrl}
+          project={project}
           onSelectSession={handleSelectSession}
         />
       );
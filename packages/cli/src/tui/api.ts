@@ -12,10 +12,12 @@ import type {
  * Fetch all sessions from the API (with last activity).
  */
 export async function fetchSessions(
-  baseUrl: string
+  baseUrl: string,
+  project?: string | null
 ): Promise<SessionWithActivity[]> {
   try {
-    const response = await fetch(`${baseUrl}/api/sessions`, {
+    const query = project ? `?project=${encodeURIComponent(project)}` : "";
+    const response = await fetch(`${baseUrl}/api/sessions${query}`, {
       signal: AbortSignal.timeout(5000),
     });
     if (!response.ok) {
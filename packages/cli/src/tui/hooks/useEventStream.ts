@@ -1,16 +1,15 @@
 /**
- * Hook for polling events from the API.
+ * Hook for streaming live events from the API.
  */
 
 import { useState, useEffect, useRef, useCallback } from "react";
 import type { BaseEvent } from "@agent-recorder/core";
 import { fetchEvents } from "../api.js";
+import { followEvents, upsertEvent } from "../../stream/event-stream.js";
 
 export interface UseEventStreamOptions {
-  /** Whether to poll for new events */
+  /** Whether to follow live events */
   enabled: boolean;
-  /** Polling interval in ms (default: 1000) */
-  interval?: number;
 }
 
 export interface UseEventStreamResult {
@@ -21,57 +20,52 @@ export interface UseEventStreamResult {
 }
 
 /**
- * Poll for events from a session.
- * Tracks last sequence to fetch only new events.
+ * Load a session's events, then follow the daemon's event stream.
+ * Tracks last sequence so the stream resumes where the load left off;
+ * completions replace their running event in place.
  */
 export function useEventStream(
   baseUrl: string,
   sessionId: string,
   options: UseEventStreamOptions
 ): UseEventStreamResult {
-  const { enabled, interval = 1000 } = options;
+  const { enabled } = options;
 
   const [events, setEvents] = useState<BaseEvent[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const [generation, setGeneration] = useState(0);
 
   const lastSequenceRef = useRef(0);
   const mountedRef = useRef(true);
-
-  const loadEvents = useCallback(
-    async (incremental: boolean) => {
-      try {
-        const newEvents = await fetchEvents(baseUrl, sessionId, {
-          after: incremental ? lastSequenceRef.current : 0,
-          limit: 200,
-        });
-
-        if (!mountedRef.current) return;
-
-        if (newEvents.length > 0) {
-          const maxSeq = Math.max(...newEvents.map((e) => e.sequence));
-          lastSequenceRef.current = maxSeq;
-
-          if (incremental) {
-            setEvents((prev) => [...prev, ...newEvents]);
-          } else {
-            setEvents(newEvents);
-          }
-        }
-
-        setError(null);
-      } catch (err) {
-        if (mountedRef.current) {
-          setError(err instanceof Error ? err : new Error(String(err)));
-        }
-      } finally {
-        if (mountedRef.current) {
-          setLoading(false);
-        }
+  const eventsRef = useRef<BaseEvent[]>([]);
+  eventsRef.current = events;
+
+  const loadEvents = useCallback(async () => {
+    try {
+      const loaded = await fetchEvents(baseUrl, sessionId, {
+        after: 0,
+        limit: 200,
+      });
+
+      if (!mountedRef.current) return;
+
+      lastSequenceRef.current =
+        loaded.length > 0 ? Math.max(...loaded.map((e) => e.sequence)) : 0;
+      setEvents(loaded);
+      setError(null);
+    } catch (err) {
+      if (mountedRef.current) {
+        setError(err instanceof Error ? err : new Error(String(err)));
+      }
+    } finally {
+      if (mountedRef.current) {
+        setLoading(false);
+        // Restart the stream from the freshly loaded position
+        setGeneration((g) => g + 1);
       }
-    },
-    [baseUrl, sessionId]
-  );
+    }
+  }, [baseUrl, sessionId]);
 
   // Initial load
   useEffect(() => {
@@ -79,28 +73,45 @@ export function useEventStream(
     lastSequenceRef.current = 0;
     setEvents([]);
     setLoading(true);
-    loadEvents(false);
+    loadEvents();
 
     return () => {
       mountedRef.current = false;
     };
   }, [baseUrl, sessionId, loadEvents]);
 
-  // Polling
+  // Live stream (starts once the initial load has completed)
   useEffect(() => {
-    if (!enabled) return;
-
-    const timer = setInterval(() => {
-      loadEvents(true);
-    }, interval);
-
-    return () => clearInterval(timer);
-  }, [enabled, interval, loadEvents]);
+    if (!enabled || generation === 0) return;
+
+    const subscription = followEvents(
+      baseUrl,
+      sessionId,
+      {
+        onEvent: (event) => {
+          if (!mountedRef.current) return;
+          lastSequenceRef.current = Math.max(
+            lastSequenceRef.current,
+            event.sequence
+          );
+          setEvents((prev) => upsertEvent(prev, event));
+        },
+        onOpen: () => {
+          if (mountedRef.current) setError(null);
+        },
+        onError: (err) => {
+          if (mountedRef.current) setError(err);
+        },
+      },
+      { after: lastSequenceRef.current, loaded: eventsRef.current }
+    );
+
+    return () => subscription.close();
+  }, [enabled, generation, baseUrl, sessionId]);
 
   const refresh = useCallback(async () => {
-    lastSequenceRef.current = 0;
     setLoading(true);
-    await loadEvents(false);
+    await loadEvents();
   }, [loadEvents]);
 
   return { events, loading, error, refresh };
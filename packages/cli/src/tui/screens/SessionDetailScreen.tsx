@@ -102,10 +102,7 @@ export function SessionDetailScreen({
   const { events, loading, error, refresh } = useEventStream(
     baseUrl,
     sessionId,
-    {
-      enabled: followMode,
-      interval: 1000,
-    }
+    { enabled: followMode }
   );
 
   // Load session info
@@ -5,6 +5,7 @@
 import React, { useState, useEffect, useCallback } from "react";
 import { Box, Text, useInput, useApp } from "ink";
 import TextInput from "ink-text-input";
+import { basename } from "node:path";
 import type { SessionWithActivity } from "@agent-recorder/core";
 import {
   Header,
@@ -17,6 +18,8 @@ import { fetchSessions, fetchEventCount } from "../api.js";
 
 export interface SessionsScreenProps {
   baseUrl: string;
+  /** Initial project directory filter */
+  project?: string | undefined;
   onSelectSession: (sessionId: string) => void;
 }
 
@@ -39,12 +42,14 @@ function formatTimeAgo(isoDate: string): string {
 }
 
 /**
- * Format duration.
+ * Format duration, preferring the duration reported by the client.
  */
-function formatDuration(startedAt: string, endedAt: string | null): string {
-  const start = new Date(startedAt).getTime();
-  const end = endedAt ? new Date(endedAt).getTime() : Date.now();
-  const seconds = Math.floor((end - start) / 1000);
+function formatDuration(session: SessionWithActivity): string {
+  const start = new Date(session.startedAt).getTime();
+  const end = session.endedAt
+    ? new Date(session.endedAt).getTime()
+    : Date.now();
+  const seconds = Math.floor((session.statsDurationMs ?? end - start) / 1000);
 
   if (seconds < 60) return `${seconds}s`;
   if (seconds < 3600) {
@@ -57,8 +62,39 @@ function formatDuration(startedAt: string, endedAt: string | null): string {
   return `${h}h ${m}m`;
 }
 
+/**
+ * Whether the client reported tool call or token statistics at session end.
+ */
+function hasReportedStats(session: SessionWithActivity): boolean {
+  return session.statsToolCalls !== null || session.statsTokensUsed !== null;
+}
+
+/**
+ * Short project label: directory name plus git branch.
+ */
+function formatProject(session: SessionWithActivity): string {
+  if (!session.cwd) return session.clientType ?? "-";
+  const name = basename(session.cwd) || session.cwd;
+  return session.gitBranch ? `${name}@${session.gitBranch}` : name;
+}
+
+/**
+ * Whether a session matches a search query by ID or context.
+ */
+function matchesQuery(session: SessionWithActivity, query: string): boolean {
+  const needle = query.toLowerCase();
+  return [
+    session.id,
+    session.cwd,
+    session.gitBranch,
+    session.clientType,
+    session.hostname,
+  ].some((value) => value?.toLowerCase().includes(needle));
+}
+
 export function SessionsScreen({
   baseUrl,
+  project,
   onSelectSession,
 }: SessionsScreenProps): React.ReactElement {
   const { exit } = useApp();
@@ -69,13 +105,16 @@ export function SessionsScreen({
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [searchMode, setSearchMode] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  const [projectFilter, setProjectFilter] = useState<string | null>(
+    project ?? null
+  );
 
   const loadSessions = useCallback(async () => {
     setLoading(true);
     setError(null);
 
     try {
-      const sessionsData = await fetchSessions(baseUrl);
+      const sessionsData = await fetchSessions(baseUrl, projectFilter);
 
       // Fetch event counts for each session
       const sessionsWithCounts = await Promise.all(
@@ -91,7 +130,7 @@ export function SessionsScreen({
     } finally {
       setLoading(false);
     }
-  }, [baseUrl]);
+  }, [baseUrl, projectFilter]);
 
   // Initial load
   useEffect(() => {
@@ -104,11 +143,9 @@ export function SessionsScreen({
     return () => clearInterval(timer);
   }, [loadSessions]);
 
-  // Filter sessions by search query
+  // Filter sessions by search query (ID, project, branch, client, host)
   const filteredSessions = searchQuery
-    ? sessions.filter((s) =>
-        s.id.toLowerCase().includes(searchQuery.toLowerCase())
-      )
+    ? sessions.filter((s) => matchesQuery(s, searchQuery))
     : sessions;
 
   // Handle keyboard input
@@ -136,6 +173,12 @@ export function SessionsScreen({
       return;
     }
 
+    if (input === "p") {
+      // Toggle filtering to the current (or initially given) project
+      setProjectFilter((prev) => (prev ? null : (project ?? process.cwd())));
+      return;
+    }
+
     if (key.upArrow) {
       setSelectedIndex((prev) => Math.max(0, prev - 1));
     } else if (key.downArrow) {
@@ -157,6 +200,8 @@ export function SessionsScreen({
     }
   }, [filteredSessions.length, selectedIndex]);
 
+  const highlightedSession = filteredSessions[selectedIndex];
+
   const columns: Column<SessionWithCount>[] = [
     {
       key: "id",
@@ -174,6 +219,22 @@ export function SessionsScreen({
         </Text>
       ),
     },
+    {
+      key: "project",
+      header: "Project",
+      width: 20,
+      render: (row) => <Text>{formatProject(row)}</Text>,
+    },
+    {
+      key: "lifecycle",
+      header: "Start → End",
+      width: 22,
+      render: (row) => (
+        <Text dimColor>
+          {row.startSource ?? "-"} → {row.endReason ?? "-"}
+        </Text>
+      ),
+    },
     {
       key: "events",
       header: "Events",
@@ -194,9 +255,7 @@ export function SessionsScreen({
       key: "duration",
       header: "Duration",
       width: 10,
-      render: (row) => (
-        <Text dimColor>{formatDuration(row.startedAt, row.endedAt)}</Text>
-      ),
+      render: (row) => <Text dimColor>{formatDuration(row)}</Text>,
     },
   ];
 
@@ -223,10 +282,11 @@ export function SessionsScreen({
   return (
     <Box flexDirection="column">
       <Header
-        title="Sessions"
+        title={projectFilter ? `Sessions — ${projectFilter}` : "Sessions"}
         hints={[
           { key: "q", label: "quit" },
           { key: "/", label: "search" },
+          { key: "p", label: projectFilter ? "all projects" : "this project" },
         ]}
       />
 
@@ -236,7 +296,7 @@ export function SessionsScreen({
           <TextInput
             value={searchQuery}
             onChange={setSearchQuery}
-            placeholder="session id..."
+            placeholder="session id, project, branch..."
           />
           <Text dimColor> (Esc to cancel)</Text>
         </Box>
@@ -259,6 +319,15 @@ export function SessionsScreen({
         )}
       </Box>
 
+      {highlightedSession && hasReportedStats(highlightedSession) && (
+        <Box marginTop={1}>
+          <Text dimColor>
+            Reported: {highlightedSession.statsToolCalls ?? "-"} tool calls,{" "}
+            {highlightedSession.statsTokensUsed ?? "-"} tokens
+          </Text>
+        </Box>
+      )}
+
       <Box marginTop={1}>
         <Text dimColor>
           [↑/↓] navigate [Enter] view [r] refresh
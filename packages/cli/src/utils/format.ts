@@ -0,0 +1,12 @@
+/**
+ * Shared formatting helpers for CLI output.
+ */
+
+/**
+ * Format a byte count in human-readable form.
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
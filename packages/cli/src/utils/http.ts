@@ -0,0 +1,14 @@
+/**
+ * Shared HTTP helpers for talking to the daemon's REST API.
+ */
+
+/**
+ * GET a JSON resource, throwing on a non-2xx response.
+ */
+export async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+}
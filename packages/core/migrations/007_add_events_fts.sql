@@ -0,0 +1,35 @@
+-- Agent Recorder: Full-text search over event payloads
+-- Migration: 007_add_events_fts
+--
+-- External-content FTS5 index over events.input_json / output_json.
+-- Trigram tokenizer gives substring matches (file paths, ticket ids)
+-- without requiring FTS query syntax from users.
+
+CREATE VIRTUAL TABLE IF NOT EXISTS events_fts USING fts5(
+    input_json,
+    output_json,
+    content='events',
+    content_rowid='rowid',
+    tokenize='trigram'
+);
+
+-- Keep the index in sync with the events table
+CREATE TRIGGER IF NOT EXISTS events_fts_insert AFTER INSERT ON events BEGIN
+    INSERT INTO events_fts (rowid, input_json, output_json)
+    VALUES (new.rowid, new.input_json, new.output_json);
+END;
+
+CREATE TRIGGER IF NOT EXISTS events_fts_delete AFTER DELETE ON events BEGIN
+    INSERT INTO events_fts (events_fts, rowid, input_json, output_json)
+    VALUES ('delete', old.rowid, old.input_json, old.output_json);
+END;
+
+CREATE TRIGGER IF NOT EXISTS events_fts_update AFTER UPDATE OF input_json, output_json ON events BEGIN
+    INSERT INTO events_fts (events_fts, rowid, input_json, output_json)
+    VALUES ('delete', old.rowid, old.input_json, old.output_json);
+    INSERT INTO events_fts (rowid, input_json, output_json)
+    VALUES (new.rowid, new.input_json, new.output_json);
+END;
+
+-- Index events recorded before this migration
+INSERT INTO events_fts (events_fts) VALUES ('rebuild');
@@ -0,0 +1,10 @@
+-- Add session lifecycle metadata reported by Claude Code hooks
+-- start_source: how the session started (e.g., "startup", "resume")
+-- end_reason: why the session ended (e.g., "logout", "clear")
+-- stats_*: statistics reported by the client at session end
+
+ALTER TABLE sessions ADD COLUMN start_source TEXT;
+ALTER TABLE sessions ADD COLUMN end_reason TEXT;
+ALTER TABLE sessions ADD COLUMN stats_duration_ms INTEGER;
+ALTER TABLE sessions ADD COLUMN stats_tool_calls INTEGER;
+ALTER TABLE sessions ADD COLUMN stats_tokens_used INTEGER;
@@ -0,0 +1,14 @@
+-- Add session context metadata captured when a session starts
+-- cwd: working directory of the client (project directory)
+-- git_branch / git_commit: git branch and HEAD commit of cwd at start
+-- client_type: "claude-code" (hooks), "mcp-client" (stdio proxy) or "hub"
+-- hostname: machine the client ran on
+
+ALTER TABLE sessions ADD COLUMN cwd TEXT;
+ALTER TABLE sessions ADD COLUMN git_branch TEXT;
+ALTER TABLE sessions ADD COLUMN git_commit TEXT;
+ALTER TABLE sessions ADD COLUMN client_type TEXT;
+ALTER TABLE sessions ADD COLUMN hostname TEXT;
+
+-- Index for filtering sessions by project
+CREATE INDEX IF NOT EXISTS idx_sessions_cwd ON sessions(cwd);
@@ -0,0 +1,7 @@
+-- Add batch_id column for JSON-RPC batches
+-- Tool calls that arrived in the same batch request share this correlation id
+
+ALTER TABLE events ADD COLUMN batch_id TEXT;
+
+-- Index for grouping a batch's events
+CREATE INDEX IF NOT EXISTS idx_events_batch_id ON events(batch_id);
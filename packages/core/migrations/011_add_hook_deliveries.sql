@@ -0,0 +1,9 @@
+-- Idempotency keys of hook events the daemon has processed
+-- Lets spooled events that also reached the daemon be skipped on replay
+
+CREATE TABLE IF NOT EXISTS hook_deliveries (
+    idempotency_key TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    received_at TEXT NOT NULL,
+    FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
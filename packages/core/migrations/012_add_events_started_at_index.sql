@@ -0,0 +1,3 @@
+-- Index event start times for cross-session stats over a time window
+
+CREATE INDEX IF NOT EXISTS idx_events_started_at ON events(started_at);
@@ -19,6 +19,10 @@ describe("Config", () => {
     delete process.env["AR_MCP_PROXY_PORT"];
     delete process.env["AR_DOWNSTREAM_MCP_URL"];
     delete process.env["AR_REDACT_KEYS"];
+    delete process.env["AR_REDACT_PATTERNS"];
+    delete process.env["AR_REDACT_BUILTIN_PATTERNS"];
+    delete process.env["AR_HUB_RETRIES"];
+    delete process.env["AR_HUB_BREAKER_COOLDOWN"];
   });
 
   afterEach(() => {
@@ -95,6 +99,30 @@ describe("Config", () => {
       const config = loadConfig();
       expect(config.downstreamMcpUrl).toBe("http://localhost:9999");
     });
+
+    it("includes built-in redaction patterns by default", () => {
+      const config = loadConfig();
+      const names = config.redactPatterns.map((p) => p.name);
+      expect(names).toContain("github_token");
+      expect(names).toContain("private_key");
+    });
+
+    it("adds AR_REDACT_PATTERNS and can disable built-ins", () => {
+      process.env["AR_REDACT_PATTERNS"] = '{"internal_id":"INT-[0-9]+"}';
+      process.env["AR_REDACT_BUILTIN_PATTERNS"] = "0";
+      const config = loadConfig();
+      expect(config.redactPatterns.map((p) => p.name)).toEqual(["internal_id"]);
+    });
+
+    it("reads hub retry and circuit breaker settings", () => {
+      expect(loadConfig().hub.retries).toBe(2);
+
+      process.env["AR_HUB_RETRIES"] = "0";
+      process.env["AR_HUB_BREAKER_COOLDOWN"] = "2m";
+      const { hub } = loadConfig();
+      expect(hub.retries).toBe(0);
+      expect(hub.breakerCooldownMs).toBe(120_000);
+    });
   });
 
   describe("getActualListenPort", () => {
@@ -6,6 +6,12 @@
 import { homedir } from "node:os";
 import { join } from "node:path";
 import { readPortFile, checkDaemonStatus } from "./daemon-paths.js";
+import { parseDuration } from "./utils/duration.js";
+import {
+  DEFAULT_REDACTION_PATTERNS,
+  parseRedactionPatterns,
+  type RedactionPattern,
+} from "./utils/redact.js";
 
 /** Get the default database path in user's home directory */
 export function getDefaultDbPath(): string {
@@ -17,6 +23,32 @@ export function getDefaultUpstreamsPath(): string {
   return join(homedir(), ".agent-recorder", "upstreams.json");
 }
 
+/** Retention policy applied on a schedule by the daemon */
+export interface RetentionPolicy {
+  /** Prune sessions with no activity for this long, in ms (AR_RETENTION_MAX_AGE, e.g. "30d") */
+  maxAgeMs: number | null;
+  /** Prune oldest sessions until the DB is under this size, in bytes (AR_RETENTION_MAX_DB_MB) */
+  maxDbSizeBytes: number | null;
+  /** Keep only the N most recent sessions (AR_RETENTION_KEEP_LAST) */
+  keepLast: number | null;
+  /** Drop payloads instead of deleting sessions (AR_RETENTION_PAYLOADS_ONLY=1) */
+  payloadsOnly: boolean;
+  /** How often the daemon applies the policy, in ms (AR_RETENTION_INTERVAL, default "24h") */
+  intervalMs: number;
+}
+
+/** Retries and circuit breaking for hub providers */
+export interface HubResilienceConfig {
+  /** Retries of idempotent methods after transient failures (AR_HUB_RETRIES, default 2) */
+  retries: number;
+  /** First retry delay in ms, doubled per attempt (AR_HUB_RETRY_DELAY_MS, default 200) */
+  retryDelayMs: number;
+  /** Consecutive failures that open a provider's circuit (AR_HUB_BREAKER_THRESHOLD, default 5) */
+  breakerThreshold: number;
+  /** How long an open circuit fast-fails before a trial request, in ms (AR_HUB_BREAKER_COOLDOWN, default "30s") */
+  breakerCooldownMs: number;
+}
+
 export interface Config {
   /** Port for the daemon to listen on (default: 8787) */
   listenPort: number;
@@ -27,6 +59,9 @@ export interface Config {
   /** Keys to redact from JSON payloads */
   redactKeys: string[];
 
+  /** Secret formats redacted from string values (built-ins + AR_REDACT_PATTERNS) */
+  redactPatterns: RedactionPattern[];
+
   /** Port for MCP proxy to listen on (default: 8788) */
   mcpProxyPort: number;
 
@@ -38,6 +73,15 @@ export interface Config {
 
   /** Enable debug logging for MCP proxy (tools/call only) */
   debugProxy: boolean;
+
+  /** Retention policy (disabled unless at least one limit is set) */
+  retention: RetentionPolicy;
+
+  /** Hub provider retries and circuit breaker */
+  hub: HubResilienceConfig;
+
+  /** Backfill sessions from their Claude Code transcript on SessionEnd (AR_IMPORT_TRANSCRIPTS=1) */
+  importTranscripts: boolean;
 }
 
 const DEFAULT_REDACT_KEYS = [
@@ -52,6 +96,78 @@ const DEFAULT_REDACT_KEYS = [
   "password",
 ];
 
+const DEFAULT_RETENTION_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/** Parse a positive number from an env var, or null if unset/invalid */
+function parsePositiveNumber(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/** Parse a non-negative integer from an env var, or null if unset/invalid */
+function parseNonNegativeInt(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+/**
+ * Load hub provider resilience settings from environment variables.
+ */
+function loadHubResilience(): HubResilienceConfig {
+  const cooldownRaw = process.env["AR_HUB_BREAKER_COOLDOWN"];
+
+  return {
+    retries: parseNonNegativeInt(process.env["AR_HUB_RETRIES"]) ?? 2,
+    retryDelayMs:
+      parseNonNegativeInt(process.env["AR_HUB_RETRY_DELAY_MS"]) ?? 200,
+    breakerThreshold:
+      parsePositiveNumber(process.env["AR_HUB_BREAKER_THRESHOLD"]) ?? 5,
+    breakerCooldownMs:
+      (cooldownRaw ? parseDuration(cooldownRaw) : null) ?? 30_000,
+  };
+}
+
+/**
+ * Load retention policy from environment variables.
+ */
+function loadRetentionPolicy(): RetentionPolicy {
+  const maxAgeRaw = process.env["AR_RETENTION_MAX_AGE"];
+  const maxDbMb = parsePositiveNumber(process.env["AR_RETENTION_MAX_DB_MB"]);
+  const keepLast = parsePositiveNumber(process.env["AR_RETENTION_KEEP_LAST"]);
+  const intervalRaw = process.env["AR_RETENTION_INTERVAL"];
+
+  return {
+    maxAgeMs: maxAgeRaw ? parseDuration(maxAgeRaw) : null,
+    maxDbSizeBytes: maxDbMb !== null ? Math.round(maxDbMb * 1024 * 1024) : null,
+    keepLast: keepLast !== null ? Math.floor(keepLast) : null,
+    payloadsOnly: process.env["AR_RETENTION_PAYLOADS_ONLY"] === "1",
+    intervalMs:
+      (intervalRaw ? parseDuration(intervalRaw) : null) ??
+      DEFAULT_RETENTION_INTERVAL_MS,
+  };
+}
+
+/**
+ * Load value redaction patterns from environment variables.
+ * AR_REDACT_PATTERNS adds patterns as a JSON object of name → regex;
+ * AR_REDACT_BUILTIN_PATTERNS=0 disables the built-in token detectors.
+ */
+function loadRedactPatterns(): RedactionPattern[] {
+  const builtins =
+    process.env["AR_REDACT_BUILTIN_PATTERNS"] === "0"
+      ? []
+      : [...DEFAULT_REDACTION_PATTERNS];
+  const raw = process.env["AR_REDACT_PATTERNS"];
+  const custom = raw
+    ? parseRedactionPatterns(raw, (message) =>
+        console.warn(`[config] AR_REDACT_PATTERNS: ${message}`)
+      )
+    : [];
+  return [...builtins, ...custom];
+}
+
 /**
  * Load configuration from environment variables.
  */
@@ -62,20 +178,28 @@ export function loadConfig(): Config {
   const redactKeys = redactKeysRaw
     ? redactKeysRaw.split(",").map((k) => k.trim())
     : DEFAULT_REDACT_KEYS;
+  const redactPatterns = loadRedactPatterns();
   const mcpProxyPort = parseInt(process.env["AR_MCP_PROXY_PORT"] ?? "8788", 10);
   const downstreamMcpUrl = process.env["AR_DOWNSTREAM_MCP_URL"] ?? null;
   const upstreamsPath =
     process.env["AR_UPSTREAMS_PATH"] ?? getDefaultUpstreamsPath();
   const debugProxy = process.env["AR_DEBUG_PROXY"] === "1";
+  const retention = loadRetentionPolicy();
+  const hub = loadHubResilience();
+  const importTranscripts = process.env["AR_IMPORT_TRANSCRIPTS"] === "1";
 
   return {
     listenPort,
     dbPath,
     redactKeys,
+    redactPatterns,
     mcpProxyPort,
     downstreamMcpUrl,
     upstreamsPath,
     debugProxy,
+    retention,
+    hub,
+    importTranscripts,
   };
 }
 
@@ -40,6 +40,9 @@ describe("getDaemonPaths", () => {
     expect(paths.portFile).toBe(
       path.join(home, ".agent-recorder", "agent-recorder.port")
     );
+    expect(paths.hookSpoolFile).toBe(
+      path.join(home, ".agent-recorder", "hook-spool.jsonl")
+    );
   });
 });
 
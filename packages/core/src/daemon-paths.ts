@@ -14,6 +14,7 @@ export interface DaemonPaths {
   logFile: string;
   dbFile: string;
   portFile: string;
+  hookSpoolFile: string;
 }
 
 /**
@@ -29,6 +30,7 @@ export function getDaemonPaths(): DaemonPaths {
     logFile: path.join(baseDir, "agent-recorder.log"),
     dbFile: path.join(baseDir, "agent-recorder.sqlite"),
     portFile: path.join(baseDir, "agent-recorder.port"),
+    hookSpoolFile: path.join(baseDir, "hook-spool.jsonl"),
   };
 }
 
@@ -12,7 +12,7 @@ import type {
 } from "../types/index.js";
 
 /** Row shape from SQLite */
-interface EventRow {
+export interface EventRow {
   id: string;
   session_id: string;
   parent_event_id: string | null;
@@ -24,6 +24,7 @@ interface EventRow {
   tool_name: string | null;
   mcp_method: string | null;
   upstream_key: string | null;
+  batch_id: string | null;
   started_at: string;
   ended_at: string | null;
   status: string;
@@ -34,7 +35,7 @@ interface EventRow {
 }
 
 /** Convert DB row to BaseEvent type */
-function rowToEvent(row: EventRow): BaseEvent {
+export function rowToEvent(row: EventRow): BaseEvent {
   return {
     id: row.id,
     sessionId: row.session_id,
@@ -47,6 +48,7 @@ function rowToEvent(row: EventRow): BaseEvent {
     toolName: row.tool_name,
     mcpMethod: row.mcp_method,
     upstreamKey: row.upstream_key,
+    batchId: row.batch_id,
     startedAt: row.started_at,
     endedAt: row.ended_at,
     status: row.status as EventStatus,
@@ -70,6 +72,7 @@ export interface InsertEventInput {
   toolName?: string | null;
   mcpMethod?: string | null;
   upstreamKey?: string | null;
+  batchId?: string | null;
   startedAt: string;
   endedAt?: string | null;
   status: EventStatus;
@@ -87,8 +90,9 @@ export function insertEvent(
     INSERT INTO events (
       id, session_id, parent_event_id, sequence, event_type,
       agent_role, agent_name, skill_name, tool_name, mcp_method, upstream_key,
-      started_at, ended_at, status, input_json, output_json, error_category, created_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+      batch_id, started_at, ended_at, status, input_json, output_json,
+      error_category, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
   `);
 
   stmt.run(
@@ -103,6 +107,7 @@ export function insertEvent(
     event.toolName ?? null,
     event.mcpMethod ?? null,
     event.upstreamKey ?? null,
+    event.batchId ?? null,
     event.startedAt,
     event.endedAt ?? null,
     event.status,
@@ -190,6 +195,42 @@ export function updateEventStatus(
   return getEventById(db, id);
 }
 
+/** Final state for a running event */
+export interface CompleteEventInput {
+  status: EventStatus;
+  endedAt: string;
+  outputJson?: string | null;
+  errorCategory?: ErrorCategory | null;
+}
+
+/**
+ * Complete a running event with its final status, end time and output.
+ * Used when the result of a call arrives after the event was inserted.
+ */
+export function completeEvent(
+  db: Database.Database,
+  id: string,
+  input: CompleteEventInput
+): BaseEvent | null {
+  const stmt = db.prepare(`
+    UPDATE events SET status = ?, ended_at = ?, output_json = ?, error_category = ?
+    WHERE id = ?
+  `);
+  const result = stmt.run(
+    input.status,
+    input.endedAt,
+    input.outputJson ?? null,
+    input.errorCategory ?? null,
+    id
+  );
+
+  if (result.changes === 0) {
+    return null;
+  }
+
+  return getEventById(db, id);
+}
+
 /** Filter options for event queries */
 export interface EventFilterOptions {
   /** Filter by tool name */
@@ -0,0 +1,25 @@
+/**
+ * Idempotency keys of processed hook events.
+ * Rows are removed with their session.
+ */
+
+import type Database from "better-sqlite3";
+
+/**
+ * Record that a hook event was delivered.
+ * Returns false if the key was already recorded (a duplicate delivery).
+ */
+export function recordHookDelivery(
+  db: Database.Database,
+  idempotencyKey: string,
+  sessionId: string,
+  receivedAt: string = new Date().toISOString()
+): boolean {
+  const result = db
+    .prepare(
+      `INSERT OR IGNORE INTO hook_deliveries (idempotency_key, session_id, received_at)
+       VALUES (?, ?, ?)`
+    )
+    .run(idempotencyKey, sessionId, receivedAt);
+  return result.changes === 1;
+}
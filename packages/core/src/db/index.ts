@@ -6,12 +6,17 @@ export { openDatabase, openMemoryDatabase } from "./connection.js";
 export { runMigrations, getDefaultMigrationsDir } from "./migrations.js";
 export {
   createSession,
+  insertSession,
   startSession,
   endSession,
+  recordSessionStart,
+  setSessionContext,
   getSessionById,
   listSessions,
   listSessionsWithActivity,
   type SessionWithActivity,
+  type EndSessionDetails,
+  type SessionListFilter,
 } from "./sessions.js";
 export {
   insertEvent,
@@ -21,9 +26,41 @@ export {
   getEventsBySessionFiltered,
   countEventsBySession,
   updateEventStatus,
+  completeEvent,
   getLatestToolCallEvent,
   type InsertEventInput,
+  type CompleteEventInput,
   type EventQueryOptions,
   type EventFilterOptions,
 } from "./events.js";
-export { allocateSequence, getCurrentSequence } from "./sequences.js";
+export {
+  allocateSequence,
+  getCurrentSequence,
+  reserveSequencesThrough,
+  renumberEventsByStartTime,
+} from "./sequences.js";
+export { recordHookDelivery } from "./hook-deliveries.js";
+export {
+  searchEvents,
+  SEARCH_HIGHLIGHT_START,
+  SEARCH_HIGHLIGHT_END,
+  type EventSearchOptions,
+  type EventSearchResult,
+} from "./search.js";
+export {
+  pruneSessions,
+  getDatabaseSize,
+  vacuumDatabase,
+  type PruneOptions,
+  type PruneResult,
+} from "./retention.js";
+export {
+  getCallStats,
+  STATS_GROUP_BY,
+  type StatsGroupBy,
+  type CallStatsOptions,
+  type CallStats,
+  type CallStatsGroup,
+  type FailingTool,
+  type CallStatsResult,
+} from "./stats.js";
@@ -0,0 +1,158 @@
+/**
+ * Tests for retention pruning.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { randomUUID } from "node:crypto";
+import {
+  openMemoryDatabase,
+  runMigrations,
+  getDefaultMigrationsDir,
+  insertEvent,
+  createSession,
+  getSessionById,
+  getEventsBySession,
+  allocateSequence,
+  pruneSessions,
+  searchEvents,
+} from "../index.js";
+import type Database from "better-sqlite3";
+
+describe("pruneSessions", () => {
+  let db: Database.Database;
+
+  /** Create a session with one event at the given day offset (days ago) */
+  function seedSession(daysAgo: number, payload = "payload-data"): string {
+    const id = randomUUID();
+    const at = new Date(Date.now() - daysAgo * 86_400_000).toISOString();
+    createSession(db, id, at);
+    insertEvent(db, {
+      id: randomUUID(),
+      sessionId: id,
+      sequence: allocateSequence(db, id),
+      eventType: "tool_call",
+      agentRole: "main",
+      agentName: "claude-code",
+      toolName: "Read",
+      startedAt: at,
+      status: "success",
+      inputJson: JSON.stringify({ file: payload }),
+      outputJson: JSON.stringify({ text: payload.repeat(10) }),
+    });
+    return id;
+  }
+
+  function daysAgoIso(days: number): string {
+    return new Date(Date.now() - days * 86_400_000).toISOString();
+  }
+
+  beforeEach(() => {
+    db = openMemoryDatabase();
+    runMigrations(db, getDefaultMigrationsDir());
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("deletes sessions older than the cutoff with their events", () => {
+    const old = seedSession(40, "old-session-file");
+    const recent = seedSession(2);
+
+    const result = pruneSessions(db, { olderThan: daysAgoIso(30) });
+
+    expect(result.sessionIds).toEqual([old]);
+    expect(result.eventCount).toBe(1);
+    expect(getSessionById(db, old)).toBeNull();
+    expect(getEventsBySession(db, old)).toHaveLength(0);
+    expect(getSessionById(db, recent)).not.toBeNull();
+    // Full-text index stays in sync with deletes
+    expect(searchEvents(db, "old-session-file")).toHaveLength(0);
+  });
+
+  it("does not change anything in dry-run mode", () => {
+    const old = seedSession(40);
+
+    const result = pruneSessions(db, {
+      olderThan: daysAgoIso(30),
+      dryRun: true,
+    });
+
+    expect(result.sessionIds).toEqual([old]);
+    expect(result.dryRun).toBe(true);
+    expect(getSessionById(db, old)).not.toBeNull();
+  });
+
+  it("keeps only the N most recent sessions, oldest reported first", () => {
+    const oldest = seedSession(5);
+    const older = seedSession(4);
+    seedSession(3);
+    seedSession(1);
+
+    const result = pruneSessions(db, { keepLast: 2 });
+
+    expect(result.sessionIds).toEqual([oldest, older]);
+  });
+
+  it("never prunes protected sessions", () => {
+    const current = seedSession(60);
+
+    const result = pruneSessions(db, {
+      olderThan: daysAgoIso(30),
+      protectedSessionIds: [current],
+    });
+
+    expect(result.sessionIds).toEqual([]);
+    expect(getSessionById(db, current)).not.toBeNull();
+  });
+
+  it("drops payloads but keeps metadata with payloadsOnly", () => {
+    const old = seedSession(40);
+
+    const result = pruneSessions(db, {
+      olderThan: daysAgoIso(30),
+      payloadsOnly: true,
+    });
+
+    expect(result.sessionIds).toEqual([old]);
+    const [event] = getEventsBySession(db, old);
+    expect(event!.toolName).toBe("Read");
+    expect(event!.inputJson).toBeNull();
+    expect(event!.outputJson).toBeNull();
+
+    // Second run has nothing left to drop
+    const again = pruneSessions(db, {
+      olderThan: daysAgoIso(30),
+      payloadsOnly: true,
+    });
+    expect(again.sessionIds).toEqual([]);
+  });
+
+  it("prunes oldest sessions until under the size cap", () => {
+    const big = "x".repeat(50_000);
+    const oldest = seedSession(3, big);
+    seedSession(2, big);
+    seedSession(1, big);
+
+    const result = pruneSessions(db, { maxDbSizeBytes: 2_500_000 });
+
+    expect(result.sessionIds[0]).toBe(oldest);
+    expect(result.sessionIds.length).toBeGreaterThan(0);
+    expect(result.sessionIds.length).toBeLessThan(3);
+  });
+
+  it("vacuums and keeps search working afterwards", () => {
+    seedSession(40);
+    const recent = seedSession(1, "survivor-file");
+
+    const result = pruneSessions(db, {
+      olderThan: daysAgoIso(30),
+      vacuum: true,
+    });
+
+    expect(result.vacuumed).toBe(true);
+    const hits = searchEvents(db, "survivor-file");
+    expect(hits).toHaveLength(1);
+    expect(hits[0]!.event.sessionId).toBe(recent);
+  });
+});
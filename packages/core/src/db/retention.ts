@@ -0,0 +1,231 @@
+/**
+ * Data retention: pruning old sessions and compacting the database.
+ * Uses better-sqlite3 sync API.
+ */
+
+import type Database from "better-sqlite3";
+
+/** Rough per-event weight of metadata columns when estimating size shares */
+const EVENT_OVERHEAD_BYTES = 256;
+
+/** Options for pruneSessions */
+export interface PruneOptions {
+  /** Prune sessions whose last activity is before this ISO timestamp */
+  olderThan?: string;
+  /** Keep only the N most recent sessions */
+  keepLast?: number;
+  /** Prune oldest sessions until the database is estimated under this size */
+  maxDbSizeBytes?: number;
+  /** Drop input/output payloads but keep session and event metadata */
+  payloadsOnly?: boolean;
+  /** Sessions that are never pruned (e.g. the daemon's current session) */
+  protectedSessionIds?: string[];
+  /** Report what would be pruned without changing anything */
+  dryRun?: boolean;
+  /** Run VACUUM after pruning to return space to the filesystem */
+  vacuum?: boolean;
+}
+
+/** Outcome of a prune run */
+export interface PruneResult {
+  /** Sessions that were (or would be) pruned, oldest activity first */
+  sessionIds: string[];
+  /** Events deleted, or events whose payloads were dropped */
+  eventCount: number;
+  payloadsOnly: boolean;
+  dryRun: boolean;
+  vacuumed: boolean;
+  /** Database size in bytes before pruning */
+  sizeBeforeBytes: number;
+  /** Database size in bytes after pruning (and vacuum) */
+  sizeAfterBytes: number;
+}
+
+/** Per-session retention stats row */
+interface SessionRetentionRow {
+  id: string;
+  last_activity_at: string;
+  event_count: number;
+  payload_event_count: number;
+  payload_bytes: number;
+}
+
+/**
+ * Get the database size in bytes (used pages only, excluding free pages).
+ */
+export function getDatabaseSize(db: Database.Database): number {
+  const pageSize = db.pragma("page_size", { simple: true }) as number;
+  const pageCount = db.pragma("page_count", { simple: true }) as number;
+  const freePages = db.pragma("freelist_count", { simple: true }) as number;
+  return (pageCount - freePages) * pageSize;
+}
+
+/**
+ * Rebuild the database file to reclaim free pages.
+ * VACUUM may renumber event rowids, so the external-content
+ * full-text index is rebuilt afterwards.
+ */
+export function vacuumDatabase(db: Database.Database): void {
+  db.exec("VACUUM");
+  db.exec("INSERT INTO events_fts (events_fts) VALUES ('rebuild')");
+}
+
+/**
+ * Select session IDs matching the retention criteria.
+ * Sessions are ordered newest-first by last activity (latest event,
+ * end time or start time).
+ */
+function selectSessions(
+  db: Database.Database,
+  options: PruneOptions
+): string[] {
+  const rows = db
+    .prepare(
+      `
+    SELECT
+      s.id,
+      MAX(
+        COALESCE(MAX(e.started_at), s.started_at),
+        COALESCE(s.ended_at, s.started_at)
+      ) AS last_activity_at,
+      COUNT(e.id) AS event_count,
+      COALESCE(SUM(
+        CASE WHEN e.input_json IS NOT NULL OR e.output_json IS NOT NULL
+        THEN 1 ELSE 0 END
+      ), 0) AS payload_event_count,
+      COALESCE(SUM(
+        COALESCE(LENGTH(e.input_json), 0) + COALESCE(LENGTH(e.output_json), 0)
+      ), 0) AS payload_bytes
+    FROM sessions s
+    LEFT JOIN events e ON e.session_id = s.id
+    GROUP BY s.id
+    ORDER BY last_activity_at DESC
+  `
+    )
+    .all() as SessionRetentionRow[];
+
+  const payloadsOnly = options.payloadsOnly ?? false;
+  const protectedIds = new Set(options.protectedSessionIds ?? []);
+  const selected = new Set<string>();
+
+  // Nothing to drop for sessions whose payloads are already gone
+  const isCandidate = (row: SessionRetentionRow) =>
+    !protectedIds.has(row.id) && (!payloadsOnly || row.payload_event_count > 0);
+
+  rows.forEach((row, index) => {
+    if (!isCandidate(row)) return;
+
+    if (options.keepLast !== undefined && index >= options.keepLast) {
+      selected.add(row.id);
+    }
+    if (options.olderThan && row.last_activity_at < options.olderThan) {
+      selected.add(row.id);
+    }
+  });
+
+  // Size cap: keep selecting the oldest remaining sessions until the
+  // estimated freed space brings the database under the limit. Each
+  // session is assumed to own a share of the file proportional to its
+  // payload and event count (indexes and FTS data scale the same way).
+  if (options.maxDbSizeBytes !== undefined) {
+    const weight = (row: SessionRetentionRow) =>
+      payloadsOnly
+        ? row.payload_bytes
+        : row.payload_bytes + row.event_count * EVENT_OVERHEAD_BYTES;
+    const sizeBytes = getDatabaseSize(db);
+    const totalWeight = rows.reduce(
+      (sum, row) =>
+        sum + row.payload_bytes + row.event_count * EVENT_OVERHEAD_BYTES,
+      0
+    );
+    const estimateBytes = (row: SessionRetentionRow) =>
+      totalWeight > 0 ? (sizeBytes * weight(row)) / totalWeight : 0;
+
+    let remaining = sizeBytes;
+    for (const row of rows) {
+      if (selected.has(row.id)) {
+        remaining -= estimateBytes(row);
+      }
+    }
+
+    for (let i = rows.length - 1; i >= 0; i--) {
+      if (remaining <= options.maxDbSizeBytes) break;
+      const row = rows[i]!;
+      if (selected.has(row.id) || !isCandidate(row)) continue;
+      selected.add(row.id);
+      remaining -= estimateBytes(row);
+    }
+  }
+
+  // Oldest first
+  return rows
+    .filter((row) => selected.has(row.id))
+    .map((row) => row.id)
+    .reverse();
+}
+
+/**
+ * Prune sessions according to retention criteria.
+ * Deletes sessions (events and sequences cascade), or with payloadsOnly
+ * clears input/output JSON while keeping all metadata.
+ */
+export function pruneSessions(
+  db: Database.Database,
+  options: PruneOptions
+): PruneResult {
+  const payloadsOnly = options.payloadsOnly ?? false;
+  const dryRun = options.dryRun ?? false;
+  const sizeBeforeBytes = getDatabaseSize(db);
+  const sessionIds = selectSessions(db, options);
+
+  const countStmt = db.prepare(
+    payloadsOnly
+      ? `SELECT COUNT(*) AS count FROM events
+         WHERE session_id = ? AND (input_json IS NOT NULL OR output_json IS NOT NULL)`
+      : "SELECT COUNT(*) AS count FROM events WHERE session_id = ?"
+  );
+  const eventCount = sessionIds.reduce(
+    (sum, id) => sum + (countStmt.get(id) as { count: number }).count,
+    0
+  );
+
+  if (dryRun || sessionIds.length === 0) {
+    return {
+      sessionIds,
+      eventCount,
+      payloadsOnly,
+      dryRun,
+      vacuumed: false,
+      sizeBeforeBytes,
+      sizeAfterBytes: sizeBeforeBytes,
+    };
+  }
+
+  const pruneStmt = db.prepare(
+    payloadsOnly
+      ? `UPDATE events SET input_json = NULL, output_json = NULL
+         WHERE session_id = ? AND (input_json IS NOT NULL OR output_json IS NOT NULL)`
+      : "DELETE FROM sessions WHERE id = ?"
+  );
+
+  db.transaction(() => {
+    for (const id of sessionIds) {
+      pruneStmt.run(id);
+    }
+  })();
+
+  const vacuumed = options.vacuum ?? false;
+  if (vacuumed) {
+    vacuumDatabase(db);
+  }
+
+  return {
+    sessionIds,
+    eventCount,
+    payloadsOnly,
+    dryRun,
+    vacuumed,
+    sizeBeforeBytes,
+    sizeAfterBytes: getDatabaseSize(db),
+  };
+}
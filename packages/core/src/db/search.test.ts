@@ -0,0 +1,126 @@
+/**
+ * Tests for full-text event search.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { randomUUID } from "node:crypto";
+import {
+  openMemoryDatabase,
+  runMigrations,
+  getDefaultMigrationsDir,
+  insertEvent,
+  createSession,
+  completeEvent,
+  searchEvents,
+} from "../index.js";
+import type Database from "better-sqlite3";
+
+describe("searchEvents", () => {
+  let db: Database.Database;
+  let sessionA: string;
+  let sessionB: string;
+  let nextSequence = 1;
+
+  function insertToolCall(
+    sessionId: string,
+    input: unknown,
+    output: unknown = null,
+    toolName = "Read"
+  ) {
+    return insertEvent(db, {
+      id: randomUUID(),
+      sessionId,
+      sequence: nextSequence++,
+      eventType: "tool_call",
+      agentRole: "main",
+      agentName: "claude-code",
+      toolName,
+      startedAt: new Date().toISOString(),
+      status: "success",
+      inputJson: JSON.stringify(input),
+      outputJson: output === null ? null : JSON.stringify(output),
+    });
+  }
+
+  beforeEach(() => {
+    db = openMemoryDatabase();
+    runMigrations(db, getDefaultMigrationsDir());
+    nextSequence = 1;
+
+    sessionA = randomUUID();
+    sessionB = randomUUID();
+    createSession(db, sessionA, new Date().toISOString());
+    createSession(db, sessionB, new Date().toISOString());
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("finds events by substring of a file path across sessions", () => {
+    insertToolCall(sessionA, { file_path: "/repo/src/server.ts" });
+    insertToolCall(sessionB, { file_path: "/repo/src/server.test.ts" });
+    insertToolCall(sessionB, { file_path: "/repo/README.md" });
+
+    const results = searchEvents(db, "src/server");
+
+    expect(results).toHaveLength(2);
+    expect(new Set(results.map((r) => r.event.sessionId))).toEqual(
+      new Set([sessionA, sessionB])
+    );
+  });
+
+  it("matches case-insensitively and highlights the match", () => {
+    insertToolCall(sessionA, { command: "git commit -m 'PROJ-1234 fix'" });
+
+    const [result] = searchEvents(db, "proj-1234");
+
+    expect(result).toBeDefined();
+    expect(result!.inputSnippet).toContain("«PROJ-1234»");
+    expect(result!.outputSnippet).toBeNull();
+  });
+
+  it("searches outputs and restricts to a session", () => {
+    insertToolCall(sessionA, { q: "x" }, { text: "ticket ABC-42 resolved" });
+    insertToolCall(sessionB, { q: "y" }, { text: "ticket ABC-42 opened" });
+
+    const results = searchEvents(db, "ABC-42", { sessionId: sessionB });
+
+    expect(results).toHaveLength(1);
+    expect(results[0]!.event.sessionId).toBe(sessionB);
+    expect(results[0]!.outputSnippet).toContain("«ABC-42»");
+  });
+
+  it("filters by tool before applying the limit", () => {
+    for (let i = 0; i < 5; i++) {
+      insertToolCall(sessionA, { note: `deploy step ${i}` });
+    }
+    insertToolCall(sessionA, { command: "deploy" }, null, "Bash");
+
+    const results = searchEvents(db, "deploy", { toolName: "Bash", limit: 3 });
+    expect(results).toHaveLength(1);
+    expect(results[0]!.event.toolName).toBe("Bash");
+
+    expect(
+      searchEvents(db, "deploy", { sinceSeq: 4, status: "success" })
+    ).toHaveLength(2);
+  });
+
+  it("indexes outputs written after the event was inserted", () => {
+    const event = insertToolCall(sessionA, { q: "x" });
+    completeEvent(db, event.id, {
+      status: "success",
+      endedAt: new Date().toISOString(),
+      outputJson: JSON.stringify({ body: "late-arriving-output" }),
+    });
+
+    expect(searchEvents(db, "late-arriving")).toHaveLength(1);
+  });
+
+  it("treats FTS syntax in the query as literal text", () => {
+    insertToolCall(sessionA, { pattern: 'say "hello" OR bye' });
+
+    expect(searchEvents(db, '"hello" OR')).toHaveLength(1);
+    expect(searchEvents(db, "")).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Full-text search over recorded event payloads.
+ * Backed by the events_fts FTS5 table (trigram tokenizer).
+ */
+
+import type Database from "better-sqlite3";
+import type { BaseEvent } from "../types/index.js";
+import { rowToEvent, type EventRow } from "./events.js";
+
+/** Marker inserted before a matched fragment in search snippets */
+export const SEARCH_HIGHLIGHT_START = "«";
+
+/** Marker inserted after a matched fragment in search snippets */
+export const SEARCH_HIGHLIGHT_END = "»";
+
+/** Options for searchEvents */
+export interface EventSearchOptions {
+  /** Restrict search to a single session (default: all sessions) */
+  sessionId?: string;
+  /** Only events of this tool */
+  toolName?: string;
+  /** Only events with this status */
+  status?: string;
+  /** Only events with this error category */
+  errorCategory?: string;
+  /** Only events after this sequence number */
+  sinceSeq?: number;
+  /** Maximum number of results (default: 50) */
+  limit?: number;
+}
+
+/** A single search hit with highlighted snippets */
+export interface EventSearchResult {
+  event: BaseEvent;
+  /** Snippet from inputJson with matches highlighted (null if no match there) */
+  inputSnippet: string | null;
+  /** Snippet from outputJson with matches highlighted (null if no match there) */
+  outputSnippet: string | null;
+}
+
+/**
+ * Convert free text into an FTS5 phrase query.
+ * The text is JSON-escaped first so it matches payloads as stored
+ * (quotes and backslashes are escaped inside input_json/output_json).
+ * Quoting the whole query lets users search for paths and ids
+ * ("src/app.ts", "PROJ-123") without knowing FTS syntax.
+ */
+function toPhraseQuery(text: string): string {
+  const escaped = JSON.stringify(text).slice(1, -1);
+  return `"${escaped.replace(/"/g, '""')}"`;
+}
+
+/** Keep a snippet only if it actually contains a highlighted match */
+function matchedSnippet(snippet: string | null): string | null {
+  return snippet && snippet.includes(SEARCH_HIGHLIGHT_START) ? snippet : null;
+}
+
+/**
+ * Search event inputs and outputs for a text fragment.
+ * Matching is case-insensitive substring matching; queries shorter than
+ * three characters never match (trigram tokenizer).
+ * Results are ordered by relevance.
+ */
+export function searchEvents(
+  db: Database.Database,
+  text: string,
+  options: EventSearchOptions = {}
+): EventSearchResult[] {
+  const query = text.trim();
+  if (!query) {
+    return [];
+  }
+
+  const limit = options.limit ?? 50;
+  const params: unknown[] = [
+    SEARCH_HIGHLIGHT_START,
+    SEARCH_HIGHLIGHT_END,
+    SEARCH_HIGHLIGHT_START,
+    SEARCH_HIGHLIGHT_END,
+    toPhraseQuery(query),
+  ];
+
+  // Filters apply before the limit, so matches are never cut off by it
+  const filters: string[] = [];
+  if (options.sessionId) {
+    filters.push("AND e.session_id = ?");
+    params.push(options.sessionId);
+  }
+  if (options.toolName) {
+    filters.push("AND e.tool_name = ?");
+    params.push(options.toolName);
+  }
+  if (options.status) {
+    filters.push("AND e.status = ?");
+    params.push(options.status);
+  }
+  if (options.errorCategory) {
+    filters.push("AND e.error_category = ?");
+    params.push(options.errorCategory);
+  }
+  if (options.sinceSeq !== undefined) {
+    filters.push("AND e.sequence > ?");
+    params.push(options.sinceSeq);
+  }
+  params.push(limit);
+
+  const stmt = db.prepare(`
+    SELECT
+      e.*,
+      snippet(events_fts, 0, ?, ?, '…', 16) AS input_snippet,
+      snippet(events_fts, 1, ?, ?, '…', 16) AS output_snippet
+    FROM events_fts
+    JOIN events e ON e.rowid = events_fts.rowid
+    WHERE events_fts MATCH ? ${filters.join(" ")}
+    ORDER BY rank
+    LIMIT ?
+  `);
+
+  const rows = stmt.all(...params) as (EventRow & {
+    input_snippet: string | null;
+    output_snippet: string | null;
+  })[];
+
+  return rows.map((row) => ({
+    event: rowToEvent(row),
+    inputSnippet: matchedSnippet(row.input_snippet),
+    outputSnippet: matchedSnippet(row.output_snippet),
+  }));
+}
@@ -52,3 +52,53 @@ export function getCurrentSequence(
   const row = stmt.get(sessionId) as { next_sequence: number } | undefined;
   return row ? row.next_sequence : null;
 }
+
+/**
+ * Make sure sequences allocated for a session start after `sequence`
+ * (e.g. after inserting events with explicit sequences).
+ */
+export function reserveSequencesThrough(
+  db: Database.Database,
+  sessionId: string,
+  sequence: number
+): void {
+  const stmt = db.prepare(`
+    INSERT INTO session_sequences (session_id, next_sequence)
+    VALUES (?, ?)
+    ON CONFLICT(session_id) DO UPDATE
+      SET next_sequence = MAX(next_sequence, excluded.next_sequence)
+  `);
+  stmt.run(sessionId, sequence + 1);
+}
+
+/**
+ * Reorder a session's events by start time (ties keep their order), e.g.
+ * after backfilling calls that happened before already recorded ones. The
+ * session keeps the same set of sequence numbers.
+ * Returns true if any event moved.
+ */
+export function renumberEventsByStartTime(
+  db: Database.Database,
+  sessionId: string
+): boolean {
+  const rows = db
+    .prepare(
+      "SELECT id, sequence FROM events WHERE session_id = ? ORDER BY started_at ASC, sequence ASC"
+    )
+    .all(sessionId) as Array<{ id: string; sequence: number }>;
+  const sequences = rows.map((row) => row.sequence).sort((a, b) => a - b);
+  if (rows.every((row, i) => row.sequence === sequences[i])) {
+    return false;
+  }
+
+  const renumber = db.transaction(() => {
+    // Move everything out of the way first: (session, sequence) is unique
+    db.prepare(
+      "UPDATE events SET sequence = -sequence WHERE session_id = ?"
+    ).run(sessionId);
+    const update = db.prepare("UPDATE events SET sequence = ? WHERE id = ?");
+    rows.forEach((row, i) => update.run(sequences[i], row.id));
+  });
+  renumber();
+  return true;
+}
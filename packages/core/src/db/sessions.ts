@@ -5,7 +5,13 @@
 
 import type Database from "better-sqlite3";
 import { randomUUID } from "node:crypto";
-import type { Session, SessionStatus } from "../types/index.js";
+import type {
+  ClientType,
+  Session,
+  SessionContext,
+  SessionStatistics,
+  SessionStatus,
+} from "../types/index.js";
 
 /** Row shape from SQLite */
 interface SessionRow {
@@ -13,6 +19,16 @@ interface SessionRow {
   started_at: string;
   ended_at: string | null;
   status: string;
+  start_source: string | null;
+  end_reason: string | null;
+  stats_duration_ms: number | null;
+  stats_tool_calls: number | null;
+  stats_tokens_used: number | null;
+  cwd: string | null;
+  git_branch: string | null;
+  git_commit: string | null;
+  client_type: string | null;
+  hostname: string | null;
   created_at: string;
 }
 
@@ -23,6 +39,16 @@ function rowToSession(row: SessionRow): Session {
     startedAt: row.started_at,
     endedAt: row.ended_at,
     status: row.status as SessionStatus,
+    startSource: row.start_source,
+    endReason: row.end_reason,
+    statsDurationMs: row.stats_duration_ms,
+    statsToolCalls: row.stats_tool_calls,
+    statsTokensUsed: row.stats_tokens_used,
+    cwd: row.cwd,
+    gitBranch: row.git_branch,
+    gitCommit: row.git_commit,
+    clientType: row.client_type as ClientType | null,
+    hostname: row.hostname,
     createdAt: row.created_at,
   };
 }
@@ -42,6 +68,38 @@ export function createSession(
   return getSessionById(db, id)!;
 }
 
+/** Insert a session with all of its recorded fields (e.g. from an export) */
+export function insertSession(
+  db: Database.Database,
+  session: Omit<Session, "createdAt">
+): Session {
+  const stmt = db.prepare(`
+    INSERT INTO sessions (
+      id, started_at, ended_at, status, start_source, end_reason,
+      stats_duration_ms, stats_tool_calls, stats_tokens_used,
+      cwd, git_branch, git_commit, client_type, hostname, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+  `);
+  stmt.run(
+    session.id,
+    session.startedAt,
+    session.endedAt,
+    session.status,
+    session.startSource,
+    session.endReason,
+    session.statsDurationMs,
+    session.statsToolCalls,
+    session.statsTokensUsed,
+    session.cwd,
+    session.gitBranch,
+    session.gitCommit,
+    session.clientType,
+    session.hostname
+  );
+
+  return getSessionById(db, session.id)!;
+}
+
 /** Create a new session with auto-generated ID. Returns the session. */
 export function startSession(db: Database.Database): Session {
   const id = randomUUID();
@@ -49,18 +107,101 @@ export function startSession(db: Database.Database): Session {
   return createSession(db, id, startedAt);
 }
 
+/** Optional lifecycle details recorded when a session ends */
+export interface EndSessionDetails {
+  /** Why the session ended, as reported by the client */
+  endReason?: string;
+  /** Statistics reported by the client */
+  statistics?: SessionStatistics;
+}
+
 /** End a session by setting status and ended_at */
 export function endSession(
   db: Database.Database,
   id: string,
   endedAt: string,
-  status: SessionStatus = "completed"
+  status: SessionStatus = "completed",
+  details: EndSessionDetails = {}
+): Session | null {
+  const stmt = db.prepare(`
+    UPDATE sessions SET
+      ended_at = ?,
+      status = ?,
+      end_reason = COALESCE(?, end_reason),
+      stats_duration_ms = COALESCE(?, stats_duration_ms),
+      stats_tool_calls = COALESCE(?, stats_tool_calls),
+      stats_tokens_used = COALESCE(?, stats_tokens_used)
+    WHERE id = ?
+  `);
+  const result = stmt.run(
+    endedAt,
+    status,
+    details.endReason ?? null,
+    details.statistics?.durationMs ?? null,
+    details.statistics?.toolCalls ?? null,
+    details.statistics?.tokensUsed ?? null,
+    id
+  );
+
+  if (result.changes === 0) {
+    return null;
+  }
+
+  return getSessionById(db, id);
+}
+
+/**
+ * Record how a session started.
+ * A session that had ended (e.g., a resumed conversation) becomes active again.
+ */
+export function recordSessionStart(
+  db: Database.Database,
+  id: string,
+  startSource: string | null
 ): Session | null {
   const stmt = db.prepare(`
-    UPDATE sessions SET ended_at = ?, status = ?
+    UPDATE sessions SET
+      start_source = COALESCE(?, start_source),
+      status = 'active',
+      ended_at = NULL,
+      end_reason = NULL
     WHERE id = ?
   `);
-  const result = stmt.run(endedAt, status, id);
+  const result = stmt.run(startSource, id);
+
+  if (result.changes === 0) {
+    return null;
+  }
+
+  return getSessionById(db, id);
+}
+
+/**
+ * Record the context a session was started in.
+ * Only fills fields that are still unset, so the values reflect the start.
+ */
+export function setSessionContext(
+  db: Database.Database,
+  id: string,
+  context: SessionContext
+): Session | null {
+  const stmt = db.prepare(`
+    UPDATE sessions SET
+      cwd = COALESCE(cwd, ?),
+      git_branch = COALESCE(git_branch, ?),
+      git_commit = COALESCE(git_commit, ?),
+      client_type = COALESCE(client_type, ?),
+      hostname = COALESCE(hostname, ?)
+    WHERE id = ?
+  `);
+  const result = stmt.run(
+    context.cwd ?? null,
+    context.gitBranch ?? null,
+    context.gitCommit ?? null,
+    context.clientType ?? null,
+    context.hostname ?? null,
+    id
+  );
 
   if (result.changes === 0) {
     return null;
@@ -101,25 +242,47 @@ export interface SessionWithActivity extends Session {
   lastActivityAt: string | null;
 }
 
+/** Filters for listSessionsWithActivity */
+export interface SessionListFilter {
+  status?: SessionStatus;
+  /** Only sessions whose working directory is this path or inside it */
+  project?: string;
+}
+
 /** List sessions with last activity timestamp from events */
 export function listSessionsWithActivity(
   db: Database.Database,
-  status?: SessionStatus
+  filter: SessionListFilter = {}
 ): SessionWithActivity[] {
+  const { status, project } = filter;
+
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (status) {
+    conditions.push("s.status = ?");
+    params.push(status);
+  }
+  if (project) {
+    // Exact match or a subdirectory (prefix compare avoids LIKE wildcards)
+    const dir = project.replace(/\/+$/, "") || "/";
+    const prefix = dir === "/" ? "/" : dir + "/";
+    conditions.push("(s.cwd = ? OR substr(s.cwd, 1, ?) = ?)");
+    params.push(dir, prefix.length, prefix);
+  }
+
   const query = `
     SELECT
       s.*,
       (SELECT MAX(e.started_at) FROM events e WHERE e.session_id = s.id) as last_activity_at
     FROM sessions s
-    ${status ? "WHERE s.status = ?" : ""}
+    ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
     ORDER BY COALESCE(
       (SELECT MAX(e.started_at) FROM events e WHERE e.session_id = s.id),
       s.started_at
     ) DESC
   `;
 
-  const stmt = db.prepare(query);
-  const rows = (status ? stmt.all(status) : stmt.all()) as (SessionRow & {
+  const rows = db.prepare(query).all(...params) as (SessionRow & {
     last_activity_at: string | null;
   })[];
 
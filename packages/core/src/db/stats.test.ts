@@ -0,0 +1,166 @@
+/**
+ * Tests for cross-session call statistics.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type Database from "better-sqlite3";
+import {
+  openMemoryDatabase,
+  runMigrations,
+  getDefaultMigrationsDir,
+  createSession,
+  setSessionContext,
+  insertEvent,
+  allocateSequence,
+} from "./index.js";
+import { getCallStats } from "./stats.js";
+import type { EventStatus, EventType } from "../types/index.js";
+
+describe("getCallStats", () => {
+  let db: Database.Database;
+  let count = 0;
+
+  /** Record a call starting at `startedAt` that took `durationMs` */
+  function call(
+    sessionId: string,
+    toolName: string,
+    startedAt: string,
+    durationMs: number | null,
+    status: EventStatus = "success",
+    upstreamKey: string | null = null,
+    eventType: EventType = "tool_call"
+  ): void {
+    insertEvent(db, {
+      id: `evt-${++count}`,
+      sessionId,
+      sequence: allocateSequence(db, sessionId),
+      eventType,
+      agentRole: "main",
+      agentName: "claude-code",
+      toolName,
+      upstreamKey,
+      startedAt,
+      endedAt:
+        durationMs === null
+          ? null
+          : new Date(Date.parse(startedAt) + durationMs).toISOString(),
+      status,
+    });
+  }
+
+  beforeEach(() => {
+    db = openMemoryDatabase();
+    runMigrations(db, getDefaultMigrationsDir());
+
+    createSession(db, "s1", "2026-01-01T09:00:00.000Z");
+    setSessionContext(db, "s1", { cwd: "/work/app" });
+    createSession(db, "s2", "2026-01-02T09:00:00.000Z");
+
+    // Ten Read calls of 10..100ms on day one
+    for (let i = 1; i <= 10; i++) {
+      call("s1", "Read", "2026-01-01T10:00:00.000Z", i * 10);
+    }
+    call("s1", "search", "2026-01-01T11:00:00.000Z", 500, "error", "github");
+    call("s2", "search", "2026-01-02T10:00:00.000Z", 900, "timeout", "github");
+    call("s2", "search", "2026-01-02T10:01:00.000Z", 100, "success", "github");
+    call("s2", "Bash", "2026-01-02T11:00:00.000Z", null, "running");
+    // Not a tool call: never counted
+    call(
+      "s2",
+      "Task",
+      "2026-01-02T09:30:00.000Z",
+      60_000,
+      "error",
+      null,
+      "subagent_call"
+    );
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("groups by day with totals and percentiles", () => {
+    const stats = getCallStats(db);
+
+    expect(stats.totals).toMatchObject({
+      calls: 14,
+      sessions: 2,
+      errors: 1,
+      timeouts: 1,
+      errorRate: 2 / 14,
+      maxMs: 900,
+    });
+    expect(stats.groups.map((g) => g.key)).toEqual([
+      "2026-01-01",
+      "2026-01-02",
+    ]);
+    expect(stats.groups[0]).toMatchObject({
+      calls: 11,
+      p50Ms: 60,
+      p95Ms: 500,
+      p99Ms: 500,
+    });
+    // The running call counts as volume but has no latency
+    expect(stats.groups[1]).toMatchObject({ calls: 3, p50Ms: 100, avgMs: 500 });
+  });
+
+  it("groups by tool, upstream and project", () => {
+    const byTool = getCallStats(db, { groupBy: "tool" });
+    expect(byTool.groups.map((g) => [g.key, g.calls])).toEqual([
+      ["Read", 10],
+      ["github/search", 3],
+      ["Bash", 1],
+    ]);
+    expect(byTool.groups[0]).toMatchObject({ p50Ms: 50, p95Ms: 100 });
+
+    const byUpstream = getCallStats(db, { groupBy: "upstream" });
+    expect(byUpstream.groups.map((g) => [g.key, g.calls])).toEqual([
+      ["builtin", 11],
+      ["github", 3],
+    ]);
+
+    const byProject = getCallStats(db, { groupBy: "project" });
+    expect(byProject.groups.map((g) => [g.key, g.calls])).toEqual([
+      ["/work/app", 11],
+      ["(unknown)", 3],
+    ]);
+  });
+
+  it("reports the most failing tools within the window", () => {
+    expect(getCallStats(db).mostFailingTools).toEqual([
+      { tool: "github/search", calls: 3, failures: 2, errorRate: 2 / 3 },
+    ]);
+
+    const recent = getCallStats(db, { since: "2026-01-02T00:00:00.000Z" });
+    expect(recent.totals).toMatchObject({ calls: 3, sessions: 1 });
+    expect(recent.mostFailingTools).toEqual([
+      { tool: "github/search", calls: 2, failures: 1, errorRate: 0.5 },
+    ]);
+
+    const empty = getCallStats(db, { since: "2027-01-01T00:00:00.000Z" });
+    expect(empty.totals).toMatchObject({ calls: 0, errorRate: 0, p50Ms: null });
+    expect(empty.groups).toEqual([]);
+  });
+
+  it("does not count progress notifications as calls", () => {
+    insertEvent(db, {
+      id: "evt-progress",
+      sessionId: "s2",
+      sequence: allocateSequence(db, "s2"),
+      eventType: "tool_call",
+      agentRole: "main",
+      agentName: "mcp-client",
+      toolName: "search",
+      mcpMethod: "notifications/progress",
+      upstreamKey: "github",
+      startedAt: "2026-01-02T10:01:00.050Z",
+      endedAt: "2026-01-02T10:01:00.050Z",
+      status: "success",
+    });
+
+    const stats = getCallStats(db, { groupBy: "tool" });
+    expect(stats.totals.calls).toBe(14);
+    expect(stats.groups.find((g) => g.key === "github/search")!.calls).toBe(3);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Cross-session call statistics: volume, error rate and latency
+ * percentiles of tool calls over a time window, aggregated in SQL.
+ * Agent, subagent and skill events are not counted, nor are the progress
+ * notifications recorded under a streamed call.
+ * Uses better-sqlite3 sync API.
+ */
+
+import type Database from "better-sqlite3";
+
+/** Dimension that stats are grouped by */
+export type StatsGroupBy = "day" | "tool" | "upstream" | "project";
+
+export const STATS_GROUP_BY: readonly StatsGroupBy[] = [
+  "day",
+  "tool",
+  "upstream",
+  "project",
+];
+
+/** Options for getCallStats */
+export interface CallStatsOptions {
+  /** Only count calls started at or after this ISO timestamp */
+  since?: string;
+  /** Group rows by this dimension (default: "day") */
+  groupBy?: StatsGroupBy;
+  /** Number of most-failing tools to report (default: 10) */
+  failingLimit?: number;
+}
+
+/** Volume, errors and latency for a set of calls */
+export interface CallStats {
+  calls: number;
+  sessions: number;
+  errors: number;
+  timeouts: number;
+  /** (errors + timeouts) / calls */
+  errorRate: number;
+  /** Latency of finished calls in ms (null when none finished) */
+  avgMs: number | null;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  p99Ms: number | null;
+  maxMs: number | null;
+}
+
+export interface CallStatsGroup extends CallStats {
+  /** Day (UTC, YYYY-MM-DD), tool, upstream or project directory */
+  key: string;
+}
+
+export interface FailingTool {
+  /** Tool name, prefixed with its upstream for MCP tools ("github/search") */
+  tool: string;
+  calls: number;
+  /** Calls that ended in error or timeout */
+  failures: number;
+  errorRate: number;
+}
+
+export interface CallStatsResult {
+  since: string | null;
+  groupBy: StatsGroupBy;
+  totals: CallStats;
+  groups: CallStatsGroup[];
+  mostFailingTools: FailingTool[];
+}
+
+interface CallStatsRow {
+  key: string;
+  calls: number;
+  sessions: number;
+  errors: number;
+  timeouts: number;
+  avg_ms: number | null;
+  p50_ms: number | null;
+  p95_ms: number | null;
+  p99_ms: number | null;
+  max_ms: number | null;
+}
+
+/** Upstream-qualified tool name, as shown in reports */
+const TOOL_KEY =
+  "COALESCE(e.upstream_key || '/', '') || COALESCE(e.tool_name, e.agent_name)";
+
+const GROUP_KEYS: Record<StatsGroupBy, string> = {
+  // Timestamps are stored as UTC ISO strings
+  day: "substr(e.started_at, 1, 10)",
+  tool: TOOL_KEY,
+  upstream: "COALESCE(e.upstream_key, 'builtin')",
+  project: "COALESCE(s.cwd, '(unknown)')",
+};
+
+/**
+ * Aggregate calls by a key expression. Percentiles use the nearest-rank
+ * method: each call's rank among its group's finished calls is computed
+ * with window functions, so no rows are loaded into memory.
+ */
+function aggregateCalls(
+  db: Database.Database,
+  keyExpr: string,
+  since: string | null
+): CallStatsRow[] {
+  const stmt = db.prepare(`
+    WITH calls AS (
+      SELECT
+        ${keyExpr} AS key,
+        e.session_id,
+        e.status,
+        CASE WHEN e.ended_at IS NOT NULL THEN
+          CAST(ROUND((julianday(e.ended_at) - julianday(e.started_at)) * 86400000) AS INTEGER)
+        END AS duration_ms
+      FROM events e
+      JOIN sessions s ON s.id = e.session_id
+      WHERE e.event_type = 'tool_call'
+        AND e.mcp_method IS NOT 'notifications/progress'
+        AND (? IS NULL OR e.started_at >= ?)
+    ),
+    ranked AS (
+      SELECT
+        *,
+        ROW_NUMBER() OVER (
+          PARTITION BY key ORDER BY duration_ms IS NULL, duration_ms
+        ) AS rank,
+        COUNT(duration_ms) OVER (PARTITION BY key) AS finished
+      FROM calls
+    )
+    SELECT
+      key,
+      COUNT(*) AS calls,
+      COUNT(DISTINCT session_id) AS sessions,
+      SUM(status = 'error') AS errors,
+      SUM(status = 'timeout') AS timeouts,
+      AVG(duration_ms) AS avg_ms,
+      MIN(CASE WHEN rank <= finished AND rank >= finished * 0.50 THEN duration_ms END) AS p50_ms,
+      MIN(CASE WHEN rank <= finished AND rank >= finished * 0.95 THEN duration_ms END) AS p95_ms,
+      MIN(CASE WHEN rank <= finished AND rank >= finished * 0.99 THEN duration_ms END) AS p99_ms,
+      MAX(duration_ms) AS max_ms
+    FROM ranked
+    GROUP BY key
+  `);
+  return stmt.all(since, since) as CallStatsRow[];
+}
+
+function rowToStats(row: CallStatsRow | undefined): CallStats {
+  const calls = row?.calls ?? 0;
+  const errors = row?.errors ?? 0;
+  const timeouts = row?.timeouts ?? 0;
+  return {
+    calls,
+    sessions: row?.sessions ?? 0,
+    errors,
+    timeouts,
+    errorRate: calls > 0 ? (errors + timeouts) / calls : 0,
+    avgMs: row && row.avg_ms !== null ? Math.round(row.avg_ms) : null,
+    p50Ms: row?.p50_ms ?? null,
+    p95Ms: row?.p95_ms ?? null,
+    p99Ms: row?.p99_ms ?? null,
+    maxMs: row?.max_ms ?? null,
+  };
+}
+
+/**
+ * Compute call statistics across sessions, grouped by day, tool, upstream
+ * or project. Days are listed oldest first; other groups by call volume.
+ */
+export function getCallStats(
+  db: Database.Database,
+  options: CallStatsOptions = {}
+): CallStatsResult {
+  const since = options.since ?? null;
+  const groupBy = options.groupBy ?? "day";
+
+  const groupRows = aggregateCalls(db, GROUP_KEYS[groupBy], since);
+  const toolRows =
+    groupBy === "tool" ? groupRows : aggregateCalls(db, TOOL_KEY, since);
+
+  const groups = groupRows
+    .map((row) => ({ key: row.key, ...rowToStats(row) }))
+    .sort((a, b) =>
+      groupBy === "day"
+        ? a.key.localeCompare(b.key)
+        : b.calls - a.calls || a.key.localeCompare(b.key)
+    );
+
+  const mostFailingTools = toolRows
+    .filter((row) => row.errors + row.timeouts > 0)
+    .map((row) => ({
+      tool: row.key,
+      calls: row.calls,
+      failures: row.errors + row.timeouts,
+      errorRate: (row.errors + row.timeouts) / row.calls,
+    }))
+    .sort((a, b) => b.failures - a.failures || b.errorRate - a.errorRate)
+    .slice(0, options.failingLimit ?? 10);
+
+  return {
+    since,
+    groupBy,
+    totals: rowToStats(aggregateCalls(db, "'all'", since)[0]),
+    groups,
+    mostFailingTools,
+  };
+}
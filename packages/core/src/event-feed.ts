@@ -0,0 +1,116 @@
+/**
+ * In-process feed of event changes.
+ *
+ * The ingestion pipeline publishes every insert and completion here so the
+ * daemon can push live updates (SSE) instead of clients polling the database.
+ * Subscriptions are scoped to a database handle. Changes written inside
+ * runEventTransaction are held back until the transaction commits and then
+ * published with the committed state of the event.
+ */
+
+import type Database from "better-sqlite3";
+import { getEventById } from "./db/events.js";
+import type { BaseEvent } from "./types/index.js";
+
+/** Kind of change: a new event, or an existing event that was completed */
+export type EventChangeType = "insert" | "update";
+
+/** Listener called synchronously after an event is written */
+export type EventChangeListener = (
+  event: BaseEvent,
+  change: EventChangeType
+) => void;
+
+const listenersByDb = new WeakMap<
+  Database.Database,
+  Set<EventChangeListener>
+>();
+
+/** Changes (by event ID) held back by the open runEventTransaction */
+const deferredByDb = new WeakMap<
+  Database.Database,
+  Array<{ id: string; change: EventChangeType }>
+>();
+
+/**
+ * Subscribe to event changes written through the given database handle.
+ * Returns an unsubscribe function.
+ */
+export function subscribeEventChanges(
+  db: Database.Database,
+  listener: EventChangeListener
+): () => void {
+  let listeners = listenersByDb.get(db);
+  if (!listeners) {
+    listeners = new Set();
+    listenersByDb.set(db, listeners);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Notify subscribers of an event change.
+ * Listener errors are logged and never propagate to the writer.
+ */
+export function publishEventChange(
+  db: Database.Database,
+  event: BaseEvent,
+  change: EventChangeType
+): void {
+  const deferred = deferredByDb.get(db);
+  if (deferred) {
+    deferred.push({ id: event.id, change });
+    return;
+  }
+
+  const listeners = listenersByDb.get(db);
+  if (!listeners) return;
+
+  for (const listener of [...listeners]) {
+    try {
+      listener(event, change);
+    } catch (error) {
+      console.error("Event change listener failed:", error);
+    }
+  }
+}
+
+/**
+ * Run fn in a database transaction and publish the event changes it makes
+ * only after the transaction commits, so subscribers never see writes that
+ * are rolled back. Nested calls run as savepoints; changes of a nested call
+ * that throws are dropped.
+ */
+export function runEventTransaction<T>(db: Database.Database, fn: () => T): T {
+  const outer = deferredByDb.get(db);
+  if (outer) {
+    const mark = outer.length;
+    try {
+      return db.transaction(fn)();
+    } catch (error) {
+      outer.length = mark;
+      throw error;
+    }
+  }
+
+  const deferred: Array<{ id: string; change: EventChangeType }> = [];
+  deferredByDb.set(db, deferred);
+  let result: T;
+  try {
+    result = db.transaction(fn)();
+  } finally {
+    deferredByDb.delete(db);
+  }
+
+  for (const { id, change } of deferred) {
+    const event = getEventById(db, id);
+    if (event) {
+      publishEventChange(db, event, change);
+    }
+  }
+  return result;
+}
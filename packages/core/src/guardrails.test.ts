@@ -0,0 +1,85 @@
+/**
+ * Tests for guardrail rule loading and evaluation.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import {
+  evaluateGuardrails,
+  loadGuardrails,
+  type GuardrailRule,
+} from "./guardrails.js";
+
+const RULES: GuardrailRule[] = [
+  { name: "allow-tmp-cleanup", action: "allow", input: { command: "/tmp/" } },
+  {
+    name: "no-force-delete",
+    tool: "Bash",
+    input: { command: "rm\\s+-(rf|fr)\\b" },
+    reason: "Recursive force deletes are not allowed",
+  },
+  {
+    name: "project-writes-only",
+    tool: ["Write", "Edit"],
+    outsideProject: ["file_path"],
+  },
+  { name: "no-github-deletes", server: "github", tool: "mcp__*__delete_*" },
+];
+
+describe("guardrails", () => {
+  const cwd = "/work/project";
+  const decide = (toolName: string, toolInput: Record<string, unknown>) =>
+    evaluateGuardrails(RULES, { toolName, toolInput, cwd });
+
+  let tempDir: string | null = null;
+
+  afterEach(() => {
+    if (tempDir) fs.rmSync(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  });
+
+  it("blocks on the first matching rule and leaves other calls alone", () => {
+    expect(decide("Bash", { command: "rm -rf build" })).toEqual({
+      action: "block",
+      rule: "no-force-delete",
+      reason: "Recursive force deletes are not allowed",
+    });
+    expect(decide("Bash", { command: "rm -rf /tmp/cache" })?.action).toBe(
+      "allow"
+    );
+    expect(decide("Bash", { command: "ls -la" })).toBeNull();
+  });
+
+  it("matches paths outside the project and MCP servers", () => {
+    expect(decide("Write", { file_path: "../other/x.ts" })?.rule).toBe(
+      "project-writes-only"
+    );
+    expect(decide("Write", { file_path: "src/x.ts" })).toBeNull();
+    expect(decide("Write", { file_path: "/work/project/src/x.ts" })).toBeNull();
+
+    expect(decide("mcp__github__delete_repo", {})?.rule).toBe(
+      "no-github-deletes"
+    );
+    expect(decide("mcp__gitlab__delete_repo", {})).toBeNull();
+  });
+
+  it("loads rules from YAML and rejects invalid files", () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "ar-guardrails-"));
+    const yamlPath = path.join(tempDir, "guardrails.yaml");
+    fs.writeFileSync(
+      yamlPath,
+      "version: 1\nrules:\n  - name: no-curl\n    tool: Bash\n    input:\n      command: 'curl\\s'\n"
+    );
+    const file = loadGuardrails([path.join(tempDir, "missing.json"), yamlPath]);
+    expect(file?.rules).toEqual([
+      { name: "no-curl", tool: "Bash", input: { command: "curl\\s" } },
+    ]);
+
+    const badPath = path.join(tempDir, "guardrails.json");
+    fs.writeFileSync(badPath, JSON.stringify({ version: 1, rules: [{}] }));
+    expect(() => loadGuardrails([badPath])).toThrow("missing a name");
+    expect(loadGuardrails([path.join(tempDir, "missing.json")])).toBeNull();
+  });
+});
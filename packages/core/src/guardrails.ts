@@ -0,0 +1,203 @@
+/**
+ * Guardrail rules for Claude Code tool calls (PreToolUse hook).
+ *
+ * Rules are read from a JSON or YAML file and matched against the tool
+ * name, MCP server and tool input. The first matching rule decides: "block"
+ * stops the call with the rule's reason, "allow" lets it through (so allow
+ * rules listed first can carve out exceptions). Calls no rule matches are
+ * left alone.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { parse as parseYaml } from "yaml";
+import { globToRegExp } from "./utils/glob.js";
+
+/** What a matching rule does with the call */
+export type GuardrailAction = "block" | "allow";
+
+/**
+ * A guardrail rule. Every condition that is set must match.
+ */
+export interface GuardrailRule {
+  /** Rule name, recorded with its decisions */
+  name: string;
+  /** Action when the rule matches (default: "block") */
+  action?: GuardrailAction;
+  /** Glob(s) over the tool name, e.g. "Bash", ["Write", "Edit"], "mcp__github__*" */
+  tool?: string | string[];
+  /** Glob(s) over the MCP server of "mcp__<server>__<tool>" tools */
+  server?: string | string[];
+  /** Regular expressions over input fields, e.g. { command: "rm\\s+-rf" } */
+  input?: Record<string, string>;
+  /** Input fields holding paths; matches when any points outside the project (cwd) */
+  outsideProject?: string[];
+  /** Reason shown to Claude when the call is blocked */
+  reason?: string;
+}
+
+/**
+ * Guardrails file schema (stable, versioned).
+ */
+export interface GuardrailsFile {
+  version: 1;
+  rules: GuardrailRule[];
+}
+
+/** A tool call to check */
+export interface GuardrailCall {
+  toolName: string;
+  toolInput: Record<string, unknown>;
+  /** Project directory; relative paths resolve against it */
+  cwd: string;
+}
+
+/** The decision of the first matching rule */
+export interface GuardrailDecision {
+  action: GuardrailAction;
+  rule: string;
+  reason: string;
+}
+
+/**
+ * Candidate paths for the guardrails file, in lookup order:
+ * AR_GUARDRAILS_PATH, then guardrails.json/.yaml/.yml in ~/.agent-recorder.
+ */
+export function getGuardrailsPaths(): string[] {
+  const envPath = process.env["AR_GUARDRAILS_PATH"];
+  if (envPath) return [envPath];
+
+  const baseDir = path.join(os.homedir(), ".agent-recorder");
+  return ["guardrails.json", "guardrails.yaml", "guardrails.yml"].map((name) =>
+    path.join(baseDir, name)
+  );
+}
+
+/**
+ * Parse and validate guardrails file content (YAML for .yaml/.yml files,
+ * JSON otherwise).
+ * @throws Error if the content is invalid
+ */
+export function parseGuardrailsFile(
+  content: string,
+  filePath: string
+): GuardrailsFile {
+  const parsed = (
+    /\.ya?ml$/i.test(filePath) ? parseYaml(content) : JSON.parse(content)
+  ) as unknown;
+
+  const file = parsed as Partial<GuardrailsFile> | null;
+  if (
+    typeof file !== "object" ||
+    file === null ||
+    file.version !== 1 ||
+    !Array.isArray(file.rules)
+  ) {
+    throw new Error("Expected { version: 1, rules: [...] }");
+  }
+
+  file.rules.forEach((rule, i) => {
+    if (!rule || typeof rule.name !== "string" || !rule.name) {
+      throw new Error(`Rule ${i + 1} is missing a name`);
+    }
+    if (rule.action && rule.action !== "block" && rule.action !== "allow") {
+      throw new Error(`Rule ${rule.name}: action must be "block" or "allow"`);
+    }
+    for (const pattern of Object.values(rule.input ?? {})) {
+      // Surface bad regular expressions when loading, not per call
+      new RegExp(pattern);
+    }
+  });
+
+  return file as GuardrailsFile;
+}
+
+/**
+ * Load guardrail rules from the first existing guardrails file.
+ * Returns null if there is none; throws if it can't be read or is invalid.
+ */
+export function loadGuardrails(
+  filePaths: string[] = getGuardrailsPaths()
+): GuardrailsFile | null {
+  const filePath = filePaths.find((p) => fs.existsSync(p));
+  if (!filePath) return null;
+
+  try {
+    return parseGuardrailsFile(fs.readFileSync(filePath, "utf-8"), filePath);
+  } catch (error) {
+    throw new Error(
+      `Invalid guardrails file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/** Whether a path (relative to cwd) resolves outside cwd */
+function isOutsideProject(value: unknown, cwd: string): boolean {
+  if (typeof value !== "string" || !value) return false;
+  const relative = path.relative(cwd, path.resolve(cwd, value));
+  return (
+    relative === ".." ||
+    relative.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relative)
+  );
+}
+
+/** Whether a name matches a glob or any of a list of globs */
+function matchesGlobs(patterns: string | string[], name: string): boolean {
+  return (Array.isArray(patterns) ? patterns : [patterns]).some((pattern) =>
+    globToRegExp(pattern).test(name)
+  );
+}
+
+function matchesRule(rule: GuardrailRule, call: GuardrailCall): boolean {
+  if (rule.tool && !matchesGlobs(rule.tool, call.toolName)) {
+    return false;
+  }
+
+  if (rule.server) {
+    const server = /^mcp__(.+?)__/.exec(call.toolName)?.[1];
+    if (!server || !matchesGlobs(rule.server, server)) return false;
+  }
+
+  for (const [field, pattern] of Object.entries(rule.input ?? {})) {
+    const value = call.toolInput[field];
+    const text =
+      typeof value === "string" ? value : JSON.stringify(value ?? null);
+    if (value === undefined || !new RegExp(pattern).test(text)) return false;
+  }
+
+  if (
+    rule.outsideProject &&
+    !rule.outsideProject.some((field) =>
+      isOutsideProject(call.toolInput[field], call.cwd)
+    )
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Decide a tool call: the first matching rule wins.
+ * Returns null when no rule matches.
+ */
+export function evaluateGuardrails(
+  rules: GuardrailRule[],
+  call: GuardrailCall
+): GuardrailDecision | null {
+  const rule = rules.find((r) => matchesRule(r, call));
+  if (!rule) return null;
+
+  const action = rule.action ?? "block";
+  return {
+    action,
+    rule: rule.name,
+    reason:
+      rule.reason ??
+      (action === "block"
+        ? `Blocked by guardrail rule "${rule.name}"`
+        : `Allowed by guardrail rule "${rule.name}"`),
+  };
+}
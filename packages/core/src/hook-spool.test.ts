@@ -0,0 +1,91 @@
+/**
+ * Tests for the hook event spool.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import {
+  appendToHookSpool,
+  getHookSpoolStats,
+  replayHookSpool,
+} from "./hook-spool.js";
+
+describe("hook spool", () => {
+  let tempDir: string;
+  let spoolPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "ar-spool-test-"));
+    spoolPath = path.join(tempDir, "nested", "hook-spool.jsonl");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("appends events as JSON lines and reports stats", () => {
+    expect(getHookSpoolStats(spoolPath)).toEqual({ entries: 0, bytes: 0 });
+
+    expect(appendToHookSpool({ hook_type: "Stop" }, spoolPath)).toBe(true);
+    expect(appendToHookSpool({ hook_type: "SessionEnd" }, spoolPath)).toBe(
+      true
+    );
+
+    const stats = getHookSpoolStats(spoolPath);
+    expect(stats.entries).toBe(2);
+    expect(stats.bytes).toBe(fs.statSync(spoolPath).size);
+    // Payloads are unredacted: only the owner may read them
+    expect(fs.statSync(spoolPath).mode & 0o777).toBe(0o600);
+  });
+
+  it("replays events in order and removes the spool", async () => {
+    appendToHookSpool({ n: 1 }, spoolPath);
+    appendToHookSpool({ n: 2 }, spoolPath);
+
+    const seen: unknown[] = [];
+    const result = await replayHookSpool(async (payload) => {
+      seen.push(payload["n"]);
+    }, spoolPath);
+
+    expect(seen).toEqual([1, 2]);
+    expect(result).toEqual({ replayed: 2, failed: 0 });
+    expect(getHookSpoolStats(spoolPath).entries).toBe(0);
+  });
+
+  it("counts failed and unparseable events without retrying them", async () => {
+    appendToHookSpool({ n: 1 }, spoolPath);
+    fs.appendFileSync(spoolPath, "{not json\n");
+    appendToHookSpool({ n: 2 }, spoolPath);
+
+    const result = await replayHookSpool(async (payload) => {
+      if (payload["n"] === 2) throw new Error("rejected");
+    }, spoolPath);
+
+    expect(result).toEqual({ replayed: 1, failed: 2 });
+    expect(getHookSpoolStats(spoolPath).entries).toBe(0);
+  });
+
+  it("replays a spool left by an interrupted replay first", async () => {
+    appendToHookSpool({ n: 1 }, spoolPath);
+    fs.renameSync(spoolPath, `${spoolPath}.replaying`);
+    appendToHookSpool({ n: 2 }, spoolPath);
+    expect(getHookSpoolStats(spoolPath).entries).toBe(2);
+
+    const seen: unknown[] = [];
+    await replayHookSpool(async (payload) => {
+      seen.push(payload["n"]);
+    }, spoolPath);
+
+    expect(seen).toEqual([1, 2]);
+    expect(fs.existsSync(`${spoolPath}.replaying`)).toBe(false);
+  });
+
+  it("does nothing when there is no spool", async () => {
+    const result = await replayHookSpool(async () => {
+      throw new Error("unexpected");
+    }, spoolPath);
+    expect(result).toEqual({ replayed: 0, failed: 0 });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Offline spool for hook events.
+ *
+ * When the daemon can't be reached, the hook handler appends the event
+ * payload as a JSON line to ~/.agent-recorder/hook-spool.jsonl. The daemon
+ * replays the spool when it starts. Payloads carry their own timestamp and
+ * idempotency key, so replayed events keep their original times and events
+ * that did reach the daemon (e.g. a send that timed out late) are skipped.
+ * Payloads are spooled before redaction, so the file is private to the user.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { getDaemonPaths } from "./daemon-paths.js";
+
+/** The spool stops growing past this size; later events are dropped */
+export const MAX_HOOK_SPOOL_BYTES = 50 * 1024 * 1024;
+
+export interface HookSpoolStats {
+  /** Number of spooled events */
+  entries: number;
+  bytes: number;
+}
+
+export interface HookSpoolReplayResult {
+  replayed: number;
+  /** Events the replay callback rejected, and unparseable lines */
+  failed: number;
+}
+
+/** File the spool is moved to while it is being replayed */
+function claimedPath(spoolPath: string): string {
+  return `${spoolPath}.replaying`;
+}
+
+function readLines(filePath: string): string[] {
+  try {
+    return fs
+      .readFileSync(filePath, "utf-8")
+      .split("\n")
+      .filter((line) => line.trim());
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Append a hook event payload to the spool.
+ * Returns false if the spool is full.
+ */
+export function appendToHookSpool(
+  payload: object,
+  spoolPath: string = getDaemonPaths().hookSpoolFile
+): boolean {
+  fs.mkdirSync(path.dirname(spoolPath), { recursive: true });
+
+  try {
+    if (fs.statSync(spoolPath).size >= MAX_HOOK_SPOOL_BYTES) {
+      return false;
+    }
+  } catch {
+    // No spool yet
+  }
+
+  fs.appendFileSync(spoolPath, JSON.stringify(payload) + "\n", {
+    encoding: "utf-8",
+    mode: 0o600,
+  });
+  return true;
+}
+
+/**
+ * Count the events waiting in the spool, including any left over from an
+ * interrupted replay.
+ */
+export function getHookSpoolStats(
+  spoolPath: string = getDaemonPaths().hookSpoolFile
+): HookSpoolStats {
+  let entries = 0;
+  let bytes = 0;
+  for (const filePath of [spoolPath, claimedPath(spoolPath)]) {
+    try {
+      bytes += fs.statSync(filePath).size;
+      entries += readLines(filePath).length;
+    } catch {
+      // Missing file
+    }
+  }
+  return { entries, bytes };
+}
+
+/**
+ * Replay and remove the spooled events, oldest first.
+ *
+ * The spool is renamed before reading so hook handlers can keep appending
+ * to a fresh file meanwhile. A spool left behind by an interrupted replay is
+ * replayed first; events it already delivered are deduplicated by the
+ * daemon. Failed events are counted and dropped, not retried.
+ */
+export async function replayHookSpool(
+  replay: (payload: Record<string, unknown>) => Promise<void>,
+  spoolPath: string = getDaemonPaths().hookSpoolFile
+): Promise<HookSpoolReplayResult> {
+  const claimed = claimedPath(spoolPath);
+  const result: HookSpoolReplayResult = { replayed: 0, failed: 0 };
+
+  // First pass: leftover claimed file (if any), second: the current spool
+  for (let pass = 0; pass < 2; pass++) {
+    if (!fs.existsSync(claimed)) {
+      try {
+        fs.renameSync(spoolPath, claimed);
+      } catch {
+        break; // Nothing spooled
+      }
+    }
+
+    for (const line of readLines(claimed)) {
+      try {
+        const payload = JSON.parse(line) as unknown;
+        if (typeof payload !== "object" || payload === null) {
+          throw new Error("Spooled event is not an object");
+        }
+        await replay(payload as Record<string, unknown>);
+        result.replayed++;
+      } catch {
+        result.failed++;
+      }
+    }
+    fs.rmSync(claimed, { force: true });
+  }
+
+  return result;
+}
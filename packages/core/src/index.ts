@@ -13,6 +13,8 @@ export {
   getActualListenPort,
   getDefaultUpstreamsPath,
   type Config,
+  type RetentionPolicy,
+  type HubResilienceConfig,
 } from "./config.js";
 export * from "./daemon-paths.js";
 export * from "./lockfile.js";
@@ -20,4 +22,11 @@ export * from "./wrap-utils.js";
 export * from "./claude-config.js";
 export * from "./providers/index.js";
 export * from "./config-discovery.js";
+export * from "./session-context.js";
+export * from "./ingest.js";
+export * from "./event-feed.js";
 export * from "./logger.js";
+export * from "./guardrails.js";
+export * from "./hook-spool.js";
+export * from "./transcript.js";
+export * from "./session-import.js";
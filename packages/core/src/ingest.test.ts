@@ -0,0 +1,203 @@
+/**
+ * Tests for the shared ingestion pipeline.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { randomUUID } from "node:crypto";
+import {
+  openMemoryDatabase,
+  runMigrations,
+  getDefaultMigrationsDir,
+  createSession,
+  ingestEvent,
+  ingestCompletion,
+  parsePayloadJson,
+  runEventTransaction,
+  subscribeEventChanges,
+  type IngestOptions,
+} from "./index.js";
+import type Database from "better-sqlite3";
+
+describe("ingestion pipeline", () => {
+  let db: Database.Database;
+  let sessionId: string;
+  const options: IngestOptions = { redactKeys: ["password"] };
+
+  function baseEvent() {
+    return {
+      sessionId,
+      eventType: "tool_call" as const,
+      agentRole: "main",
+      agentName: "claude-code",
+      toolName: "Bash",
+      startedAt: new Date().toISOString(),
+    };
+  }
+
+  beforeEach(() => {
+    db = openMemoryDatabase();
+    runMigrations(db, getDefaultMigrationsDir());
+    sessionId = randomUUID();
+    createSession(db, sessionId, new Date().toISOString());
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("allocates sequences and ids when not given", () => {
+    const first = ingestEvent(
+      db,
+      { ...baseEvent(), status: "running" },
+      options
+    );
+    const second = ingestEvent(
+      db,
+      { ...baseEvent(), status: "running" },
+      options
+    );
+
+    expect(first.sequence).toBe(1);
+    expect(second.sequence).toBe(2);
+    expect(first.id).not.toBe(second.id);
+  });
+
+  it("keeps an explicit sequence", () => {
+    const event = ingestEvent(
+      db,
+      { ...baseEvent(), sequence: 42, status: "success" },
+      options
+    );
+    expect(event.sequence).toBe(42);
+  });
+
+  it("redacts keys and secret values in payloads", () => {
+    const token = "ghp_" + "a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8";
+    const event = ingestEvent(
+      db,
+      {
+        ...baseEvent(),
+        status: "success",
+        input: { command: `gh auth login --with-token ${token}` },
+        output: { password: "hunter2" },
+      },
+      options
+    );
+
+    expect(event.inputJson).toBe(
+      '{"command":"gh auth login --with-token [REDACTED:github_token]"}'
+    );
+    expect(event.outputJson).toBe('{"password":"[REDACTED]"}');
+  });
+
+  it("truncates large payloads and stores null for missing ones", () => {
+    const event = ingestEvent(
+      db,
+      {
+        ...baseEvent(),
+        status: "success",
+        input: { body: "x".repeat(500) },
+      },
+      { ...options, maxPayloadLength: 100 }
+    );
+
+    expect(event.inputJson).toHaveLength(100);
+    expect(event.inputJson!.endsWith("...[TRUNCATED]")).toBe(true);
+    expect(event.outputJson).toBeNull();
+  });
+
+  it("derives the error category from the stored output", () => {
+    const event = ingestEvent(
+      db,
+      {
+        ...baseEvent(),
+        status: "error",
+        output: { code: -32601, message: "Method not found" },
+      },
+      options
+    );
+    expect(event.errorCategory).toBe("jsonrpc_error");
+  });
+
+  it("completes a running event with redacted output", () => {
+    const running = ingestEvent(
+      db,
+      { ...baseEvent(), status: "running" },
+      options
+    );
+
+    const completed = ingestCompletion(
+      db,
+      running.id,
+      {
+        status: "timeout",
+        endedAt: new Date().toISOString(),
+        output: { password: "x" },
+      },
+      options
+    );
+
+    expect(completed!.status).toBe("timeout");
+    expect(completed!.outputJson).toBe('{"password":"[REDACTED]"}');
+    expect(completed!.errorCategory).toBe("downstream_timeout");
+  });
+
+  it("parses serialized payloads, keeping invalid JSON as text", () => {
+    expect(parsePayloadJson('{"a":1}')).toEqual({ a: 1 });
+    expect(parsePayloadJson("not json")).toBe("not json");
+    expect(parsePayloadJson(null)).toBeNull();
+  });
+
+  it("publishes inserts and completions to the event feed", () => {
+    const changes: string[] = [];
+    const unsubscribe = subscribeEventChanges(db, (event, change) => {
+      changes.push(`${change}:${event.sequence}:${event.status}`);
+    });
+
+    const running = ingestEvent(
+      db,
+      { ...baseEvent(), status: "running" },
+      options
+    );
+    ingestCompletion(
+      db,
+      running.id,
+      { status: "success", endedAt: new Date().toISOString() },
+      options
+    );
+    unsubscribe();
+    ingestEvent(db, { ...baseEvent(), status: "success" }, options);
+
+    expect(changes).toEqual(["insert:1:running", "update:1:success"]);
+  });
+
+  it("publishes changes made in a transaction only once it commits", () => {
+    const changes: string[] = [];
+    subscribeEventChanges(db, (event, change) => {
+      changes.push(`${change}:${event.sequence}`);
+    });
+
+    expect(() =>
+      runEventTransaction(db, () => {
+        ingestEvent(db, { ...baseEvent(), status: "success" }, options);
+        throw new Error("rolled back");
+      })
+    ).toThrow("rolled back");
+    expect(changes).toEqual([]);
+
+    runEventTransaction(db, () => {
+      ingestEvent(db, { ...baseEvent(), status: "success" }, options);
+      // A failed nested transaction drops only its own changes
+      try {
+        runEventTransaction(db, () => {
+          ingestEvent(db, { ...baseEvent(), status: "success" }, options);
+          throw new Error("nested");
+        });
+      } catch {
+        // Ignored
+      }
+      expect(changes).toEqual([]);
+    });
+    expect(changes).toEqual(["insert:1"]);
+  });
+});
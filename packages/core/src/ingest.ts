@@ -0,0 +1,151 @@
+/**
+ * Shared event ingestion pipeline.
+ *
+ * Every recording path (hooks, STDIO proxy, HTTP proxy, /api/events) goes
+ * through here so payloads are always redacted and truncated, error
+ * categories are derived consistently and sequences are allocated atomically.
+ * Every write is published to the event feed for live streaming.
+ */
+
+import type Database from "better-sqlite3";
+import { randomUUID } from "node:crypto";
+import type { BaseEvent, ErrorCategory, EventStatus } from "./types/index.js";
+import {
+  allocateSequence,
+  completeEvent,
+  insertEvent,
+  type InsertEventInput,
+} from "./db/index.js";
+import { redactAndTruncate, type RedactionPattern } from "./utils/redact.js";
+import { deriveErrorCategory } from "./utils/error-category.js";
+import { publishEventChange } from "./event-feed.js";
+
+/** Redaction and truncation settings applied to recorded payloads */
+export interface IngestOptions {
+  /** Keys to redact from payloads */
+  redactKeys: string[];
+  /** Secret formats redacted from string values (default: built-in detectors) */
+  redactPatterns?: readonly RedactionPattern[];
+  /** Maximum serialized payload length (default: 10KB) */
+  maxPayloadLength?: number;
+}
+
+/** Event to ingest: raw payload values instead of serialized JSON */
+export interface IngestEventInput extends Omit<
+  InsertEventInput,
+  "id" | "sequence" | "inputJson" | "outputJson" | "errorCategory"
+> {
+  /** Event ID (default: random UUID) */
+  id?: string;
+  /** Explicit sequence; allocated atomically when omitted */
+  sequence?: number;
+  /** Raw input payload (null/undefined → no payload) */
+  input?: unknown;
+  /** Raw output payload (null/undefined → no payload) */
+  output?: unknown;
+  /** Explicit error category (default: derived from status and output) */
+  errorCategory?: ErrorCategory | null;
+}
+
+/** Completion of a running event with its raw output */
+export interface IngestCompletionInput {
+  status: EventStatus;
+  endedAt: string;
+  output?: unknown;
+  errorCategory?: ErrorCategory | null;
+}
+
+/**
+ * Redact and truncate a payload value for storage.
+ * Returns null when there is no payload.
+ */
+export function preparePayload(
+  value: unknown,
+  options: IngestOptions
+): string | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  return redactAndTruncate(
+    value,
+    options.redactKeys,
+    options.maxPayloadLength,
+    options.redactPatterns
+  );
+}
+
+/**
+ * Parse a payload that arrives already serialized (e.g. /api/events).
+ * Text that isn't valid JSON is kept as a plain string value.
+ */
+export function parsePayloadJson(json: string | null | undefined): unknown {
+  if (json === null || json === undefined) {
+    return null;
+  }
+  try {
+    return JSON.parse(json) as unknown;
+  } catch {
+    return json;
+  }
+}
+
+/**
+ * Record an event: allocate its sequence (unless given), redact and
+ * truncate payloads, and derive the error category from the stored output.
+ */
+export function ingestEvent(
+  db: Database.Database,
+  input: IngestEventInput,
+  options: IngestOptions
+): BaseEvent {
+  const {
+    id,
+    sequence,
+    input: rawInput,
+    output,
+    errorCategory,
+    ...rest
+  } = input;
+  const outputJson = preparePayload(output, options);
+
+  const event = insertEvent(db, {
+    ...rest,
+    id: id ?? randomUUID(),
+    sequence: sequence ?? allocateSequence(db, input.sessionId),
+    inputJson: preparePayload(rawInput, options),
+    outputJson,
+    errorCategory:
+      errorCategory !== undefined
+        ? errorCategory
+        : deriveErrorCategory(input.status, outputJson),
+  });
+  publishEventChange(db, event, "insert");
+  return event;
+}
+
+/**
+ * Complete a running event with its final status and redacted output.
+ * Returns null if the event does not exist.
+ */
+export function ingestCompletion(
+  db: Database.Database,
+  id: string,
+  input: IngestCompletionInput,
+  options: IngestOptions
+): BaseEvent | null {
+  const outputJson = preparePayload(input.output, options);
+
+  const event = completeEvent(db, id, {
+    status: input.status,
+    endedAt: input.endedAt,
+    outputJson,
+    errorCategory:
+      input.errorCategory !== undefined
+        ? input.errorCategory
+        : deriveErrorCategory(input.status, outputJson),
+  });
+  if (event) {
+    publishEventChange(db, event, "update");
+  }
+  return event;
+}
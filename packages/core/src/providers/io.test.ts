@@ -258,6 +258,24 @@ describe("Providers I/O", () => {
       expect(result.providers.find((p) => p.id === "new")).toBeDefined();
     });
 
+    it("keeps the policy of the existing file", () => {
+      const file: ProvidersFile = {
+        version: 1,
+        providers: [],
+        policy: {
+          default: { deny: ["delete_*"] },
+          providers: { github: { readOnly: true } },
+        },
+      };
+
+      const result = upsertProviders(file, [
+        { id: "github", type: "http", url: "http://localhost:3000" },
+      ]);
+
+      expect(result.providers).toHaveLength(1);
+      expect(result.policy).toEqual(file.policy);
+    });
+
     it("handles multiple upserts correctly", () => {
       const file: ProvidersFile = {
         version: 1,
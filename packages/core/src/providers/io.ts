@@ -84,6 +84,7 @@ export function writeProvidersFile(
 /**
  * Upsert providers into a providers file.
  * Merges providers by provider.id - replaces if exists, adds if new.
+ * Other fields of the file (such as policy) are kept.
  *
  * @param file - Existing providers file
  * @param providers - Providers to upsert
@@ -109,6 +110,7 @@ export function upsertProviders(
   const mergedProviders = Array.from(existingMap.values());
 
   return {
+    ...file,
     version: 1,
     providers: mergedProviders,
   };
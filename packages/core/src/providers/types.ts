@@ -15,7 +15,7 @@ export interface HttpProvider {
 
 /**
  * Stdio-based MCP provider (process spawned via command).
- * Runtime spawning not implemented yet - type system only.
+ * The hub spawns and supervises the process, restarting it if it crashes.
  */
 export interface StdioProvider {
   id: string;
@@ -30,10 +30,70 @@ export interface StdioProvider {
  */
 export type Provider = HttpProvider | StdioProvider;
 
+/**
+ * Which of a provider's tools the hub exposes. Patterns are globs over the
+ * provider's own tool names (without the hub prefix): `*` matches any run
+ * of characters, `?` a single character.
+ */
+export interface ProviderToolPolicy {
+  /** Only tools matching one of these are exposed (default: all) */
+  allow?: string[];
+  /** Tools matching one of these are hidden and rejected (wins over allow) */
+  deny?: string[];
+  /**
+   * Only expose tools the provider annotates as read-only
+   * (`annotations.readOnlyHint`)
+   */
+  readOnly?: boolean;
+}
+
+/**
+ * Hub tool policies: a default for every provider, overridden per
+ * provider ID.
+ */
+export interface ProvidersPolicy {
+  default?: ProviderToolPolicy;
+  providers?: Record<string, ProviderToolPolicy>;
+}
+
 /**
  * Providers file schema (stable, versioned).
  */
 export interface ProvidersFile {
   version: 1;
   providers: Provider[];
+  /** Tool allow/deny policies (default: every tool is exposed) */
+  policy?: ProvidersPolicy;
+}
+
+/**
+ * Circuit breaker state of a hub provider.
+ * "open" fast-fails requests; "half_open" lets one trial request through.
+ */
+export type ProviderCircuitState = "closed" | "open" | "half_open";
+
+/**
+ * Runtime health of a hub provider (daemon's GET /hub/providers).
+ * Failures are transport-level: unreachable, timeout, HTTP 5xx/429.
+ */
+export interface ProviderHealth {
+  id: string;
+  type: Provider["type"];
+  circuit: ProviderCircuitState;
+  /** Failure rate over recent requests (null before the first request) */
+  errorRate: number | null;
+  /** Requests and failures since the daemon started */
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  /** Average latency over recent requests in ms (null before the first request) */
+  avgLatencyMs: number | null;
+  lastLatencyMs: number | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  /** When an open circuit lets the next trial request through */
+  retryAt: string | null;
+  /** Child process state (stdio providers only) */
+  processState?: "starting" | "ready" | "restarting" | "stopped";
 }
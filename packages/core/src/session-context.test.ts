@@ -0,0 +1,95 @@
+/**
+ * Tests for session context collection.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { readGitInfo, collectSessionContext } from "./session-context.js";
+
+const SHA_MAIN = "1111111111111111111111111111111111111111";
+const SHA_PACKED = "2222222222222222222222222222222222222222";
+
+describe("session context", () => {
+  let tempDir: string;
+  let repoDir: string;
+  let gitDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "ar-context-test-"));
+    repoDir = path.join(tempDir, "repo");
+    gitDir = path.join(repoDir, ".git");
+    fs.mkdirSync(path.join(gitDir, "refs", "heads"), { recursive: true });
+    fs.writeFileSync(path.join(gitDir, "HEAD"), "ref: refs/heads/main\n");
+    fs.writeFileSync(path.join(gitDir, "refs", "heads", "main"), SHA_MAIN);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("reads branch and commit from a subdirectory of the repo", () => {
+    const nested = path.join(repoDir, "src", "lib");
+    fs.mkdirSync(nested, { recursive: true });
+
+    expect(readGitInfo(nested)).toEqual({ branch: "main", commit: SHA_MAIN });
+  });
+
+  it("resolves branches from packed-refs", () => {
+    fs.writeFileSync(path.join(gitDir, "HEAD"), "ref: refs/heads/feature/x\n");
+    fs.writeFileSync(
+      path.join(gitDir, "packed-refs"),
+      `# pack-refs with: peeled\n${SHA_PACKED} refs/heads/feature/x\n`
+    );
+
+    expect(readGitInfo(repoDir)).toEqual({
+      branch: "feature/x",
+      commit: SHA_PACKED,
+    });
+  });
+
+  it("reports a detached HEAD without a branch", () => {
+    fs.writeFileSync(path.join(gitDir, "HEAD"), `${SHA_MAIN}\n`);
+
+    expect(readGitInfo(repoDir)).toEqual({ branch: null, commit: SHA_MAIN });
+  });
+
+  it("follows gitdir files used by worktrees", () => {
+    const worktreeGitDir = path.join(gitDir, "worktrees", "wt");
+    fs.mkdirSync(worktreeGitDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(worktreeGitDir, "HEAD"),
+      "ref: refs/heads/main\n"
+    );
+    fs.writeFileSync(path.join(worktreeGitDir, "commondir"), "../..\n");
+
+    const worktree = path.join(tempDir, "wt");
+    fs.mkdirSync(worktree);
+    fs.writeFileSync(
+      path.join(worktree, ".git"),
+      `gitdir: ${worktreeGitDir}\n`
+    );
+
+    expect(readGitInfo(worktree)).toEqual({ branch: "main", commit: SHA_MAIN });
+  });
+
+  it("collects context without git fields outside a repository", () => {
+    const plain = path.join(tempDir, "plain");
+    fs.mkdirSync(plain);
+
+    const context = collectSessionContext("mcp-client", plain);
+
+    expect(context.cwd).toBe(plain);
+    expect(context.clientType).toBe("mcp-client");
+    expect(context.hostname).toBe(os.hostname());
+    expect(context).not.toHaveProperty("gitBranch");
+  });
+
+  it("includes git branch and commit inside a repository", () => {
+    const context = collectSessionContext("claude-code", repoDir);
+
+    expect(context.gitBranch).toBe("main");
+    expect(context.gitCommit).toBe(SHA_MAIN);
+  });
+});
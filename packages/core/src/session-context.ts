@@ -0,0 +1,129 @@
+/**
+ * Session context collection: working directory, git state and host.
+ * Git state is read straight from the .git directory (no git binary needed)
+ * so it is cheap enough to run on every hook invocation.
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { ClientType, SessionContext } from "./types/index.js";
+
+/** Git branch and HEAD commit of a working directory */
+export interface GitInfo {
+  /** Branch name (null when HEAD is detached) */
+  branch: string | null;
+  /** HEAD commit SHA (null for a repository without commits) */
+  commit: string | null;
+}
+
+/** Read a trimmed text file, or null if it can't be read */
+function readText(filePath: string): string | null {
+  try {
+    return fs.readFileSync(filePath, "utf-8").trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Locate the git directory for a working directory.
+ * Walks up to the repository root; follows "gitdir:" files used by
+ * worktrees and submodules.
+ */
+function findGitDir(cwd: string): string | null {
+  let dir = path.resolve(cwd);
+
+  for (;;) {
+    const candidate = path.join(dir, ".git");
+    try {
+      const stat = fs.statSync(candidate);
+      if (stat.isDirectory()) {
+        return candidate;
+      }
+      if (stat.isFile()) {
+        const match = /^gitdir:\s*(.+)$/m.exec(readText(candidate) ?? "");
+        return match?.[1] ? path.resolve(dir, match[1].trim()) : null;
+      }
+    } catch {
+      // Not here - keep walking up
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/** Resolve a ref (e.g., "refs/heads/main") to a commit SHA */
+function resolveRef(gitDir: string, ref: string): string | null {
+  // Worktrees keep shared refs in the common directory
+  const commonDir = readText(path.join(gitDir, "commondir"));
+  const dirs = commonDir ? [gitDir, path.resolve(gitDir, commonDir)] : [gitDir];
+
+  for (const dir of dirs) {
+    const loose = readText(path.join(dir, ref));
+    if (loose) {
+      return loose;
+    }
+
+    const packed = readText(path.join(dir, "packed-refs"));
+    for (const line of packed?.split("\n") ?? []) {
+      const [sha, name] = line.trim().split(" ");
+      if (name === ref && sha) {
+        return sha;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the git branch and HEAD commit for a working directory.
+ * Returns null if the directory is not inside a git repository.
+ */
+export function readGitInfo(cwd: string): GitInfo | null {
+  const gitDir = findGitDir(cwd);
+  if (!gitDir) {
+    return null;
+  }
+
+  const head = readText(path.join(gitDir, "HEAD"));
+  if (!head) {
+    return null;
+  }
+
+  const refMatch = /^ref:\s*(.+)$/.exec(head);
+  if (!refMatch?.[1]) {
+    // Detached HEAD contains the commit SHA directly
+    return { branch: null, commit: head };
+  }
+
+  const ref = refMatch[1];
+  return {
+    branch: ref.replace(/^refs\/heads\//, ""),
+    commit: resolveRef(gitDir, ref),
+  };
+}
+
+/**
+ * Collect the context for a session started by a client in a directory.
+ * Fails open: unreadable git state just leaves those fields out.
+ */
+export function collectSessionContext(
+  clientType: ClientType,
+  cwd: string = process.cwd()
+): SessionContext {
+  const git = readGitInfo(cwd);
+
+  return {
+    cwd: path.resolve(cwd),
+    clientType,
+    hostname: os.hostname(),
+    ...(git?.branch && { gitBranch: git.branch }),
+    ...(git?.commit && { gitCommit: git.commit }),
+  };
+}
@@ -0,0 +1,237 @@
+/**
+ * Tests for session export import: parsing, validation, conflicts and
+ * sequence handling.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  openMemoryDatabase,
+  runMigrations,
+  getDefaultMigrationsDir,
+  allocateSequence,
+  getEventsBySession,
+  getSessionById,
+} from "./index.js";
+import {
+  importSessions,
+  parseSessionExport,
+  SessionImportConflictError,
+} from "./session-import.js";
+import type Database from "better-sqlite3";
+
+const session = {
+  id: "sess-1",
+  startedAt: "2026-01-01T10:00:00.000Z",
+  endedAt: "2026-01-01T10:05:00.000Z",
+  status: "completed",
+  startSource: "startup",
+  endReason: "logout",
+  statsDurationMs: null,
+  statsToolCalls: null,
+  statsTokensUsed: null,
+  cwd: "/work",
+  gitBranch: "main",
+  gitCommit: null,
+  clientType: "claude-code",
+  hostname: "dev",
+  createdAt: "2026-01-01T10:00:00.000Z",
+};
+
+function event(id: string, sequence: number, extra: object = {}) {
+  return {
+    id,
+    sessionId: "sess-1",
+    parentEventId: null,
+    sequence,
+    eventType: "tool_call",
+    agentRole: "main",
+    agentName: "claude-code",
+    skillName: null,
+    toolName: "Bash",
+    mcpMethod: null,
+    upstreamKey: null,
+    batchId: null,
+    startedAt: `2026-01-01T10:00:0${sequence}.000Z`,
+    endedAt: null,
+    status: "success",
+    inputJson: '{"command":"ls"}',
+    outputJson: null,
+    errorCategory: null,
+    createdAt: "2026-01-01T10:00:00.000Z",
+    ...extra,
+  };
+}
+
+const exportJson = JSON.stringify({
+  session,
+  events: [
+    event("evt-task", 1, { eventType: "subagent_call", toolName: "Task" }),
+    event("evt-grep", 2, { parentEventId: "evt-task" }),
+  ],
+});
+
+describe("parseSessionExport", () => {
+  it("reads JSON and JSONL exports alike", () => {
+    const jsonl = [
+      { type: "session", ...session },
+      { type: "event", ...event("evt-task", 1) },
+      { type: "event", ...event("evt-grep", 2) },
+    ]
+      .map((record) => JSON.stringify(record))
+      .join("\n");
+
+    const [fromJson] = parseSessionExport(exportJson);
+    const [fromJsonl] = parseSessionExport(jsonl);
+
+    expect(fromJson!.session.id).toBe("sess-1");
+    expect(fromJson!.events.map((e) => e.id)).toEqual(["evt-task", "evt-grep"]);
+    expect(fromJsonl!.session).toEqual(fromJson!.session);
+    expect(fromJsonl!.events).toHaveLength(2);
+  });
+
+  it("reports the first invalid record", () => {
+    expect(() =>
+      parseSessionExport(
+        JSON.stringify({ session, events: [event("e", 1, { status: "ok" })] })
+      )
+    ).toThrow(
+      "events[0]: status must be running | success | error | timeout | cancelled"
+    );
+    expect(() =>
+      parseSessionExport(
+        [
+          JSON.stringify({ type: "session", ...session }),
+          JSON.stringify({ type: "event", ...event("e", 0) }),
+        ].join("\n")
+      )
+    ).toThrow("Line 2: sequence must be positive");
+    expect(() =>
+      parseSessionExport(
+        JSON.stringify({ type: "event", ...event("e", 1) }) + "\n"
+      )
+    ).toThrow("Line 1: event before its session record (sess-1)");
+    expect(() =>
+      parseSessionExport(
+        JSON.stringify({
+          session,
+          events: [event("e", 1), event("e", 2)],
+        })
+      )
+    ).toThrow("Event e appears more than once");
+    expect(() => parseSessionExport("  \n")).toThrow("Export is empty");
+  });
+});
+
+describe("importSessions", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = openMemoryDatabase();
+    runMigrations(db, getDefaultMigrationsDir());
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("inserts sessions and events as exported", () => {
+    const result = importSessions(db, parseSessionExport(exportJson));
+
+    expect(result.sessions).toEqual([
+      {
+        sourceId: "sess-1",
+        id: "sess-1",
+        events: 2,
+        skipped: false,
+        renumbered: false,
+      },
+    ]);
+    expect(getSessionById(db, "sess-1")).toMatchObject({
+      status: "completed",
+      cwd: "/work",
+      hostname: "dev",
+    });
+    const [task, grep] = getEventsBySession(db, "sess-1");
+    expect(task).toMatchObject({ id: "evt-task", eventType: "subagent_call" });
+    expect(grep).toMatchObject({ id: "evt-grep", parentEventId: "evt-task" });
+
+    // New events continue after the imported ones
+    expect(allocateSequence(db, "sess-1")).toBe(3);
+  });
+
+  it("rejects existing sessions unless skipped or remapped", () => {
+    const exports = parseSessionExport(exportJson);
+    importSessions(db, exports);
+
+    expect(() => importSessions(db, exports)).toThrow(
+      SessionImportConflictError
+    );
+
+    const skipped = importSessions(db, exports, { skipExisting: true });
+    expect(skipped.sessions[0]).toMatchObject({ skipped: true, events: 0 });
+
+    const remapped = importSessions(db, exports, { remapIds: true });
+    const copy = remapped.sessions[0]!;
+    expect(copy.id).not.toBe("sess-1");
+    const [task, grep] = getEventsBySession(db, copy.id);
+    expect(task!.id).not.toBe("evt-task");
+    expect(grep!.parentEventId).toBe(task!.id);
+    expect(getEventsBySession(db, "sess-1")).toHaveLength(2);
+  });
+
+  it("rolls back everything when an event conflicts", () => {
+    importSessions(db, parseSessionExport(exportJson));
+    const other = JSON.stringify({
+      session: { ...session, id: "sess-2" },
+      events: [event("evt-task", 1, { sessionId: "sess-2" })],
+    });
+
+    expect(() => importSessions(db, parseSessionExport(other))).toThrow(
+      "ID evt-task already exists"
+    );
+    expect(getSessionById(db, "sess-2")).toBeNull();
+  });
+
+  it("renumbers repeated sequences and drops dangling parents", () => {
+    const exports = parseSessionExport(
+      JSON.stringify({
+        session,
+        events: [
+          event("evt-b", 2),
+          event("evt-a", 2, { startedAt: "2026-01-01T10:00:00.000Z" }),
+          event("evt-c", 7, { parentEventId: "not-exported" }),
+        ],
+      })
+    );
+
+    const result = importSessions(db, exports);
+    expect(result.sessions[0]!.renumbered).toBe(true);
+
+    const events = getEventsBySession(db, "sess-1");
+    expect(events.map((e) => [e.id, e.sequence])).toEqual([
+      ["evt-a", 1],
+      ["evt-b", 2],
+      ["evt-c", 3],
+    ]);
+    expect(events[2]!.parentEventId).toBeNull();
+  });
+
+  it("stores timestamps with offsets as UTC", () => {
+    importSessions(
+      db,
+      parseSessionExport(
+        JSON.stringify({
+          session: { ...session, startedAt: "2026-01-01T11:00:00+01:00" },
+          events: [event("evt-a", 1, { endedAt: "2026-01-01T05:00:02-05:00" })],
+        })
+      )
+    );
+
+    expect(getSessionById(db, "sess-1")!.startedAt).toBe(
+      "2026-01-01T10:00:00.000Z"
+    );
+    expect(getEventsBySession(db, "sess-1")[0]!.endedAt).toBe(
+      "2026-01-01T10:00:02.000Z"
+    );
+  });
+});
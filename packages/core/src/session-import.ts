@@ -0,0 +1,434 @@
+/**
+ * Import of session exports (`agent-recorder export --format json|jsonl`).
+ *
+ * JSON exports hold one `{ session, events }` document (or an array of
+ * them); JSONL exports hold one record per line, tagged `"type": "session"`
+ * or `"type": "event"`. Every record is validated before anything is
+ * written, and all sessions are imported in one transaction.
+ */
+
+import type Database from "better-sqlite3";
+import { randomUUID } from "node:crypto";
+import type {
+  BaseEvent,
+  ClientType,
+  ErrorCategory,
+  EventStatus,
+  EventType,
+  Session,
+  SessionStatus,
+} from "./types/index.js";
+import {
+  getEventById,
+  getSessionById,
+  insertEvent,
+  insertSession,
+  reserveSequencesThrough,
+} from "./db/index.js";
+
+/** A session and its events as exported */
+export interface SessionExport {
+  session: Omit<Session, "createdAt">;
+  events: Omit<BaseEvent, "createdAt">[];
+}
+
+export interface SessionImportOptions {
+  /** Give sessions and events new IDs, so a copy can sit next to the original */
+  remapIds?: boolean;
+  /** Leave sessions that already exist alone instead of failing */
+  skipExisting?: boolean;
+}
+
+export interface ImportedSession {
+  /** Session ID in the export */
+  sourceId: string;
+  /** Session ID in the database (new with remapIds) */
+  id: string;
+  /** Events imported */
+  events: number;
+  /** The session already existed and was skipped */
+  skipped: boolean;
+  /** Sequences were renumbered because the export repeated some */
+  renumbered: boolean;
+}
+
+export interface SessionImportResult {
+  sessions: ImportedSession[];
+}
+
+/**
+ * Thrown when an imported session or event ID is already in the database.
+ */
+export class SessionImportConflictError extends Error {
+  override name = "SessionImportConflictError";
+
+  constructor(readonly id: string) {
+    super(`ID ${id} already exists`);
+  }
+}
+
+const SESSION_STATUSES: readonly SessionStatus[] = [
+  "active",
+  "completed",
+  "error",
+  "cancelled",
+];
+const CLIENT_TYPES: readonly ClientType[] = [
+  "claude-code",
+  "mcp-client",
+  "hub",
+];
+const EVENT_TYPES: readonly EventType[] = [
+  "agent_call",
+  "subagent_call",
+  "skill_call",
+  "tool_call",
+];
+const EVENT_STATUSES: readonly EventStatus[] = [
+  "running",
+  "success",
+  "error",
+  "timeout",
+  "cancelled",
+];
+const ERROR_CATEGORIES: readonly ErrorCategory[] = [
+  "downstream_timeout",
+  "downstream_unreachable",
+  "jsonrpc_invalid",
+  "jsonrpc_error",
+  "policy_denied",
+  "unknown",
+];
+
+/**
+ * Reads typed fields from an untrusted record, throwing with the record's
+ * location on the first invalid one. Missing nullable fields read as null.
+ */
+class RecordReader {
+  private record: Record<string, unknown>;
+
+  constructor(
+    value: unknown,
+    private where: string
+  ) {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new Error(`${where}: expected an object`);
+    }
+    this.record = value as Record<string, unknown>;
+  }
+
+  private fail(key: string, expected: string): never {
+    throw new Error(`${this.where}: ${key} must be ${expected}`);
+  }
+
+  string(key: string): string {
+    const value = this.record[key];
+    if (typeof value !== "string" || !value) this.fail(key, "a string");
+    return value;
+  }
+
+  nullableString(key: string): string | null {
+    const value = this.record[key] ?? null;
+    if (value !== null && typeof value !== "string") {
+      this.fail(key, "a string or null");
+    }
+    return value;
+  }
+
+  /** Timestamps are normalized to UTC ISO strings, as the recorder stores them */
+  timestamp(key: string): string {
+    const value = this.record[key];
+    if (typeof value !== "string" || isNaN(Date.parse(value))) {
+      this.fail(key, "an ISO 8601 timestamp");
+    }
+    return new Date(value).toISOString();
+  }
+
+  nullableTimestamp(key: string): string | null {
+    return (this.record[key] ?? null) === null ? null : this.timestamp(key);
+  }
+
+  integer(key: string): number {
+    const value = this.record[key];
+    if (!Number.isInteger(value)) this.fail(key, "an integer");
+    return value as number;
+  }
+
+  nullableInteger(key: string): number | null {
+    return (this.record[key] ?? null) === null ? null : this.integer(key);
+  }
+
+  oneOf<T extends string>(key: string, values: readonly T[]): T {
+    const value = this.record[key];
+    if (!values.includes(value as T)) this.fail(key, values.join(" | "));
+    return value as T;
+  }
+
+  nullableOneOf<T extends string>(key: string, values: readonly T[]): T | null {
+    return (this.record[key] ?? null) === null ? null : this.oneOf(key, values);
+  }
+}
+
+function readSession(value: unknown, where: string): SessionExport["session"] {
+  const r = new RecordReader(value, where);
+  return {
+    id: r.string("id"),
+    startedAt: r.timestamp("startedAt"),
+    endedAt: r.nullableTimestamp("endedAt"),
+    status: r.oneOf("status", SESSION_STATUSES),
+    startSource: r.nullableString("startSource"),
+    endReason: r.nullableString("endReason"),
+    statsDurationMs: r.nullableInteger("statsDurationMs"),
+    statsToolCalls: r.nullableInteger("statsToolCalls"),
+    statsTokensUsed: r.nullableInteger("statsTokensUsed"),
+    cwd: r.nullableString("cwd"),
+    gitBranch: r.nullableString("gitBranch"),
+    gitCommit: r.nullableString("gitCommit"),
+    clientType: r.nullableOneOf("clientType", CLIENT_TYPES),
+    hostname: r.nullableString("hostname"),
+  };
+}
+
+function readEvent(
+  value: unknown,
+  where: string
+): SessionExport["events"][number] {
+  const r = new RecordReader(value, where);
+  const sequence = r.integer("sequence");
+  if (sequence < 1) {
+    throw new Error(`${where}: sequence must be positive`);
+  }
+  return {
+    id: r.string("id"),
+    sessionId: r.string("sessionId"),
+    parentEventId: r.nullableString("parentEventId"),
+    sequence,
+    eventType: r.oneOf("eventType", EVENT_TYPES),
+    agentRole: r.string("agentRole"),
+    agentName: r.string("agentName"),
+    skillName: r.nullableString("skillName"),
+    toolName: r.nullableString("toolName"),
+    mcpMethod: r.nullableString("mcpMethod"),
+    upstreamKey: r.nullableString("upstreamKey"),
+    batchId: r.nullableString("batchId"),
+    startedAt: r.timestamp("startedAt"),
+    endedAt: r.nullableTimestamp("endedAt"),
+    status: r.oneOf("status", EVENT_STATUSES),
+    inputJson: r.nullableString("inputJson"),
+    outputJson: r.nullableString("outputJson"),
+    errorCategory: r.nullableOneOf("errorCategory", ERROR_CATEGORIES),
+  };
+}
+
+/** Check that session and event IDs are unique and events match their session */
+function checkConsistency(exports: SessionExport[]): void {
+  const sessionIds = new Set<string>();
+  const eventIds = new Set<string>();
+  for (const { session, events } of exports) {
+    if (sessionIds.has(session.id)) {
+      throw new Error(`Session ${session.id} appears more than once`);
+    }
+    sessionIds.add(session.id);
+
+    for (const event of events) {
+      if (event.sessionId !== session.id) {
+        throw new Error(
+          `Event ${event.id} belongs to session ${event.sessionId}, not ${session.id}`
+        );
+      }
+      if (eventIds.has(event.id)) {
+        throw new Error(`Event ${event.id} appears more than once`);
+      }
+      eventIds.add(event.id);
+    }
+  }
+}
+
+function parseJsonl(content: string): SessionExport[] {
+  const exports = new Map<string, SessionExport>();
+
+  content.split("\n").forEach((line, i) => {
+    if (!line.trim()) return;
+    const where = `Line ${i + 1}`;
+
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`${where}: invalid JSON`);
+    }
+
+    const type = (record as { type?: unknown } | null)?.type;
+    if (type === "session") {
+      const session = readSession(record, where);
+      if (exports.has(session.id)) {
+        throw new Error(
+          `${where}: session ${session.id} appears more than once`
+        );
+      }
+      exports.set(session.id, { session, events: [] });
+    } else if (type === "event") {
+      const event = readEvent(record, where);
+      const owner = exports.get(event.sessionId);
+      if (!owner) {
+        throw new Error(
+          `${where}: event before its session record (${event.sessionId})`
+        );
+      }
+      owner.events.push(event);
+    } else {
+      throw new Error(`${where}: type must be "session" or "event"`);
+    }
+  });
+
+  return [...exports.values()];
+}
+
+function parseJsonDocument(document: unknown): SessionExport[] {
+  const documents = Array.isArray(document) ? document : [document];
+  return documents.map((doc: unknown, i) => {
+    const where = Array.isArray(document) ? `[${i}]` : "";
+    const { session, events } = (doc ?? {}) as {
+      session?: unknown;
+      events?: unknown;
+    };
+    if (!Array.isArray(events)) {
+      throw new Error(`${where || "Export"}: events must be an array`);
+    }
+    return {
+      session: readSession(session, `${where}session`),
+      events: events.map((event, j) =>
+        readEvent(event, `${where}events[${j}]`)
+      ),
+    };
+  });
+}
+
+/**
+ * Parse and validate a JSON or JSONL session export.
+ * @throws Error describing the first invalid record
+ */
+export function parseSessionExport(content: string): SessionExport[] {
+  const trimmed = content.trim();
+  if (!trimmed) {
+    throw new Error("Export is empty");
+  }
+
+  // A JSON export is a single document; a JSONL line has a "type" tag
+  let document: unknown;
+  try {
+    document = JSON.parse(trimmed);
+  } catch {
+    document = undefined;
+  }
+  const exports =
+    document !== undefined &&
+    (Array.isArray(document) ||
+      (typeof document === "object" &&
+        document !== null &&
+        "session" in document))
+      ? parseJsonDocument(document)
+      : parseJsonl(trimmed);
+
+  if (exports.length === 0) {
+    throw new Error("Export has no sessions");
+  }
+  checkConsistency(exports);
+  return exports;
+}
+
+/**
+ * Give events sequences that are unique within their session, keeping the
+ * exported order. Exported sequences are kept unless some repeat.
+ */
+function resolveSequences(events: SessionExport["events"]): {
+  events: SessionExport["events"];
+  renumbered: boolean;
+} {
+  const sorted = [...events].sort(
+    (a, b) =>
+      a.sequence - b.sequence ||
+      Date.parse(a.startedAt) - Date.parse(b.startedAt)
+  );
+  const unique = new Set(sorted.map((e) => e.sequence)).size === sorted.length;
+  return unique
+    ? { events: sorted, renumbered: false }
+    : {
+        events: sorted.map((event, i) => ({ ...event, sequence: i + 1 })),
+        renumbered: true,
+      };
+}
+
+/**
+ * Insert exported sessions and their events, all in one transaction.
+ * Parent links to events outside the export are dropped.
+ *
+ * @throws SessionImportConflictError if a session or event ID already
+ *   exists (unless remapIds, or skipExisting for existing sessions)
+ */
+export function importSessions(
+  db: Database.Database,
+  exports: SessionExport[],
+  options: SessionImportOptions = {}
+): SessionImportResult {
+  const run = db.transaction((): SessionImportResult => {
+    // Parents may be inserted after their children
+    db.pragma("defer_foreign_keys = ON");
+
+    const sessions: ImportedSession[] = [];
+    for (const { session, events } of exports) {
+      if (!options.remapIds && getSessionById(db, session.id)) {
+        if (!options.skipExisting) {
+          throw new SessionImportConflictError(session.id);
+        }
+        sessions.push({
+          sourceId: session.id,
+          id: session.id,
+          events: 0,
+          skipped: true,
+          renumbered: false,
+        });
+        continue;
+      }
+
+      const sessionId = options.remapIds ? randomUUID() : session.id;
+      const eventIds = new Map(
+        events.map((e) => [e.id, options.remapIds ? randomUUID() : e.id])
+      );
+      const resolved = resolveSequences(events);
+
+      insertSession(db, { ...session, id: sessionId });
+      for (const event of resolved.events) {
+        const id = eventIds.get(event.id)!;
+        if (!options.remapIds && getEventById(db, id)) {
+          throw new SessionImportConflictError(id);
+        }
+        insertEvent(db, {
+          ...event,
+          id,
+          sessionId,
+          parentEventId: event.parentEventId
+            ? (eventIds.get(event.parentEventId) ?? null)
+            : null,
+        });
+      }
+
+      const last = resolved.events[resolved.events.length - 1];
+      if (last) {
+        reserveSequencesThrough(db, sessionId, last.sequence);
+      }
+
+      sessions.push({
+        sourceId: session.id,
+        id: sessionId,
+        events: events.length,
+        skipped: false,
+        renumbered: resolved.renumbered,
+      });
+    }
+
+    return { sessions };
+  });
+
+  return run();
+}
@@ -0,0 +1,144 @@
+/**
+ * Tests for Claude Code transcript parsing.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { findTranscriptPath, parseTranscript } from "./transcript.js";
+
+function line(entry: Record<string, unknown>): string {
+  return JSON.stringify({ sessionId: "sess-1", cwd: "/work", ...entry });
+}
+
+describe("parseTranscript", () => {
+  it("pairs tool_use with tool_result and ignores conversation text", () => {
+    const content = [
+      line({
+        type: "user",
+        timestamp: "2026-01-01T10:00:00.000Z",
+        gitBranch: "main",
+        message: { role: "user", content: "secret prompt" },
+      }),
+      line({
+        type: "assistant",
+        timestamp: "2026-01-01T10:00:01.000Z",
+        message: {
+          role: "assistant",
+          content: [
+            { type: "thinking", thinking: "private reasoning" },
+            { type: "text", text: "Let me look" },
+            {
+              type: "tool_use",
+              id: "toolu_1",
+              name: "Bash",
+              input: { command: "ls" },
+            },
+          ],
+        },
+      }),
+      "not json",
+      line({
+        type: "user",
+        timestamp: "2026-01-01T10:00:03.000Z",
+        message: {
+          role: "user",
+          content: [
+            { type: "tool_result", tool_use_id: "toolu_1", content: "a.txt" },
+          ],
+        },
+        toolUseResult: { stdout: "a.txt", stderr: "" },
+      }),
+    ].join("\n");
+
+    const transcript = parseTranscript(content);
+
+    expect(transcript).toMatchObject({
+      sessionId: "sess-1",
+      cwd: "/work",
+      gitBranch: "main",
+      startedAt: "2026-01-01T10:00:00.000Z",
+      endedAt: "2026-01-01T10:00:03.000Z",
+    });
+    expect(transcript.toolCalls).toEqual([
+      {
+        toolUseId: "toolu_1",
+        toolName: "Bash",
+        input: { command: "ls" },
+        startedAt: "2026-01-01T10:00:01.000Z",
+        endedAt: "2026-01-01T10:00:03.000Z",
+        output: { stdout: "a.txt", stderr: "" },
+        isError: false,
+        sidechain: false,
+      },
+    ]);
+    expect(JSON.stringify(transcript)).not.toContain("secret prompt");
+    expect(JSON.stringify(transcript)).not.toContain("private reasoning");
+  });
+
+  it("marks errors, sidechain calls and calls without a result", () => {
+    const content = [
+      line({
+        type: "assistant",
+        isSidechain: true,
+        timestamp: "2026-01-01T10:00:00.000Z",
+        message: {
+          content: [
+            { type: "tool_use", id: "toolu_a", name: "Read", input: {} },
+            { type: "tool_use", id: "toolu_b", name: "Grep", input: {} },
+          ],
+        },
+      }),
+      line({
+        type: "user",
+        isSidechain: true,
+        timestamp: "2026-01-01T10:00:01.000Z",
+        message: {
+          content: [
+            {
+              type: "tool_result",
+              tool_use_id: "toolu_a",
+              content: "denied",
+              is_error: true,
+            },
+          ],
+        },
+      }),
+    ].join("\n");
+
+    const [read, grep] = parseTranscript(content).toolCalls;
+    expect(read).toMatchObject({
+      sidechain: true,
+      isError: true,
+      output: "denied",
+    });
+    expect(grep).toMatchObject({ endedAt: null, output: undefined });
+  });
+});
+
+describe("findTranscriptPath", () => {
+  let projectsDir: string;
+
+  beforeEach(() => {
+    projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), "ar-transcript-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectsDir, { recursive: true, force: true });
+  });
+
+  it("finds a session transcript in any project directory", () => {
+    const projectDir = path.join(projectsDir, "-home-dev-app");
+    fs.mkdirSync(projectDir);
+    fs.writeFileSync(path.join(projectDir, "sess-1.jsonl"), "");
+
+    expect(findTranscriptPath("sess-1", projectsDir)).toBe(
+      path.join(projectDir, "sess-1.jsonl")
+    );
+    expect(findTranscriptPath("sess-2", projectsDir)).toBeNull();
+    expect(findTranscriptPath("sess-1", path.join(projectsDir, "x"))).toBe(
+      null
+    );
+  });
+});
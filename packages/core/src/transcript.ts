@@ -0,0 +1,185 @@
+/**
+ * Claude Code transcript parsing.
+ *
+ * Claude Code writes each session to a JSONL transcript under
+ * ~/.claude/projects/<project>/<session-id>.jsonl. Only tool calls are read
+ * from it: tool_use blocks paired with their tool_result, with timestamps
+ * and whether a subagent (sidechain) made the call. Prompts, replies and
+ * reasoning are never extracted.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+/** A tool call found in a transcript */
+export interface TranscriptToolCall {
+  /** Claude Code tool use ID (toolu_...) */
+  toolUseId: string;
+  /** Tool name as Claude Code reports it (e.g. "Bash", "mcp__github__search") */
+  toolName: string;
+  input: Record<string, unknown>;
+  startedAt: string;
+  /** When the result arrived (null if the transcript has no result) */
+  endedAt: string | null;
+  /** Tool result (undefined if there is none) */
+  output: unknown;
+  isError: boolean;
+  /** Made by a subagent rather than the main agent */
+  sidechain: boolean;
+}
+
+/** The parts of a transcript Agent Recorder uses */
+export interface Transcript {
+  sessionId: string | null;
+  cwd: string | null;
+  gitBranch: string | null;
+  /** First and last entry timestamps */
+  startedAt: string | null;
+  endedAt: string | null;
+  /** Tool calls in the order they were made */
+  toolCalls: TranscriptToolCall[];
+}
+
+/** Transcript line fields this parser reads */
+interface TranscriptEntry {
+  type?: string;
+  sessionId?: string;
+  cwd?: string;
+  gitBranch?: string;
+  timestamp?: string;
+  isSidechain?: boolean;
+  message?: { content?: unknown };
+  /** Structured tool result, as passed to PostToolUse hooks */
+  toolUseResult?: unknown;
+}
+
+/** Content block of a transcript message */
+interface ContentBlock {
+  type?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  content?: unknown;
+  is_error?: boolean;
+}
+
+/**
+ * Get the directory Claude Code keeps transcripts in (~/.claude/projects).
+ */
+export function getClaudeProjectsDir(): string {
+  return path.join(os.homedir(), ".claude", "projects");
+}
+
+/**
+ * Find the transcript of a session by ID in any project directory.
+ * Returns null if there is none.
+ */
+export function findTranscriptPath(
+  sessionId: string,
+  projectsDir: string = getClaudeProjectsDir()
+): string | null {
+  let projects: string[];
+  try {
+    projects = fs.readdirSync(projectsDir);
+  } catch {
+    return null;
+  }
+
+  for (const project of projects) {
+    const candidate = path.join(projectsDir, project, `${sessionId}.jsonl`);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+function contentBlocks(entry: TranscriptEntry): ContentBlock[] {
+  const content = entry.message?.content;
+  return Array.isArray(content)
+    ? content.filter(
+        (block): block is ContentBlock =>
+          typeof block === "object" && block !== null
+      )
+    : [];
+}
+
+/**
+ * Parse a Claude Code transcript (JSONL). Lines that aren't valid JSON are
+ * skipped.
+ */
+export function parseTranscript(content: string): Transcript {
+  const transcript: Transcript = {
+    sessionId: null,
+    cwd: null,
+    gitBranch: null,
+    startedAt: null,
+    endedAt: null,
+    toolCalls: [],
+  };
+  const callsById = new Map<string, TranscriptToolCall>();
+
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+
+    let entry: TranscriptEntry;
+    try {
+      entry = JSON.parse(line) as TranscriptEntry;
+    } catch {
+      continue;
+    }
+    if (typeof entry !== "object" || entry === null) continue;
+
+    transcript.sessionId ??= entry.sessionId ?? null;
+    transcript.cwd ??= entry.cwd ?? null;
+    transcript.gitBranch ??= entry.gitBranch || null;
+
+    // Entries without a timestamp (e.g. summaries) carry no tool calls
+    const timestamp = entry.timestamp;
+    if (!timestamp || isNaN(Date.parse(timestamp))) continue;
+    transcript.startedAt ??= timestamp;
+    transcript.endedAt = timestamp;
+
+    const blocks = contentBlocks(entry);
+    // toolUseResult is only unambiguous for a single result per entry
+    const results = blocks.filter((b) => b.type === "tool_result").length;
+
+    for (const block of blocks) {
+      if (
+        block.type === "tool_use" &&
+        block.id &&
+        block.name &&
+        !callsById.has(block.id)
+      ) {
+        const call: TranscriptToolCall = {
+          toolUseId: block.id,
+          toolName: block.name,
+          input:
+            typeof block.input === "object" && block.input !== null
+              ? (block.input as Record<string, unknown>)
+              : {},
+          startedAt: timestamp,
+          endedAt: null,
+          output: undefined,
+          isError: false,
+          sidechain: entry.isSidechain === true,
+        };
+        callsById.set(call.toolUseId, call);
+        transcript.toolCalls.push(call);
+      } else if (block.type === "tool_result" && block.tool_use_id) {
+        const call = callsById.get(block.tool_use_id);
+        if (!call) continue;
+        call.endedAt = timestamp;
+        call.output =
+          results === 1
+            ? (entry.toolUseResult ?? block.content)
+            : block.content;
+        call.isError = block.is_error === true;
+      }
+    }
+  }
+
+  return transcript;
+}
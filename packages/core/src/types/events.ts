@@ -24,6 +24,7 @@ export type ErrorCategory =
   | "downstream_unreachable"
   | "jsonrpc_invalid"
   | "jsonrpc_error"
+  | "policy_denied"
   | "unknown";
 
 /**
@@ -64,6 +65,9 @@ export interface BaseEvent {
   /** Upstream server key (for router mode, null for legacy single-upstream) */
   upstreamKey: string | null;
 
+  /** Correlation ID shared by calls from one JSON-RPC batch (null otherwise) */
+  batchId: string | null;
+
   /** When this event started (ISO 8601) */
   startedAt: string;
 
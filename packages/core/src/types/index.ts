@@ -10,4 +10,10 @@ export type {
   RecordedEvent,
 } from "./events.js";
 
-export type { SessionStatus, Session } from "./session.js";
+export type {
+  SessionStatus,
+  Session,
+  SessionStatistics,
+  SessionContext,
+  ClientType,
+} from "./session.js";
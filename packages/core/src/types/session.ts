@@ -6,6 +6,9 @@
 /** Status of a recording session */
 export type SessionStatus = "active" | "completed" | "error" | "cancelled";
 
+/** Kind of client that produced a session */
+export type ClientType = "claude-code" | "mcp-client" | "hub";
+
 /**
  * A recording session containing a tree of events.
  */
@@ -22,6 +25,52 @@ export interface Session {
   /** Current status of this session */
   status: SessionStatus;
 
+  /** How the session was started (e.g., "startup", "resume"), null if unknown */
+  startSource: string | null;
+
+  /** Why the session ended (e.g., "logout", "clear"), null if unknown */
+  endReason: string | null;
+
+  /** Duration reported by the client at session end (ms) */
+  statsDurationMs: number | null;
+
+  /** Tool call count reported by the client at session end */
+  statsToolCalls: number | null;
+
+  /** Tokens used as reported by the client at session end */
+  statsTokensUsed: number | null;
+
+  /** Working directory (project) of the client at start */
+  cwd: string | null;
+
+  /** Git branch of the working directory at start (null if detached or not a repo) */
+  gitBranch: string | null;
+
+  /** Git HEAD commit of the working directory at start */
+  gitCommit: string | null;
+
+  /** Kind of client that produced this session */
+  clientType: ClientType | null;
+
+  /** Hostname of the machine the client ran on */
+  hostname: string | null;
+
   /** When this record was created (ISO 8601) */
   createdAt: string;
 }
+
+/** Context captured by clients when a session starts */
+export interface SessionContext {
+  cwd?: string;
+  gitBranch?: string;
+  gitCommit?: string;
+  clientType?: ClientType;
+  hostname?: string;
+}
+
+/** Statistics reported by the client when a session ends */
+export interface SessionStatistics {
+  durationMs?: number;
+  toolCalls?: number;
+  tokensUsed?: number;
+}
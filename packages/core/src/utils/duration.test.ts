@@ -0,0 +1,28 @@
+/**
+ * Tests for duration parsing.
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseDuration } from "./duration.js";
+
+describe("parseDuration", () => {
+  it("parses supported units", () => {
+    expect(parseDuration("45s")).toBe(45_000);
+    expect(parseDuration("90m")).toBe(90 * 60_000);
+    expect(parseDuration("12h")).toBe(12 * 3_600_000);
+    expect(parseDuration("30d")).toBe(30 * 86_400_000);
+    expect(parseDuration("2w")).toBe(14 * 86_400_000);
+  });
+
+  it("accepts fractional amounts and surrounding whitespace", () => {
+    expect(parseDuration(" 1.5h ")).toBe(5_400_000);
+  });
+
+  it("returns null for invalid input", () => {
+    expect(parseDuration("")).toBeNull();
+    expect(parseDuration("30")).toBeNull();
+    expect(parseDuration("30y")).toBeNull();
+    expect(parseDuration("0d")).toBeNull();
+    expect(parseDuration("-1d")).toBeNull();
+  });
+});
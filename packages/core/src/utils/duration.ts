@@ -0,0 +1,30 @@
+/**
+ * Human-friendly duration parsing ("30d", "12h", "90m").
+ */
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a duration like "30d", "12h", "90m", "45s" or "2w" into milliseconds.
+ * Returns null if the value is not a positive number followed by a known unit.
+ */
+export function parseDuration(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)\s*([smhdw])$/i.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const amount = parseFloat(match[1]!);
+  const unitMs = UNIT_MS[match[2]!.toLowerCase()]!;
+  if (amount <= 0) {
+    return null;
+  }
+
+  return Math.round(amount * unitMs);
+}
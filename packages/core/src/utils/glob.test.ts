@@ -0,0 +1,15 @@
+/**
+ * Tests for glob pattern matching.
+ */
+
+import { describe, it, expect } from "vitest";
+import { globToRegExp } from "./glob.js";
+
+describe("globToRegExp", () => {
+  it("matches globs against the whole name", () => {
+    expect(globToRegExp("delete_*").test("delete_repo")).toBe(true);
+    expect(globToRegExp("delete_*").test("undelete_repo")).toBe(false);
+    expect(globToRegExp("get.?").test("get.x")).toBe(true);
+    expect(globToRegExp("get.?").test("getxx")).toBe(false);
+  });
+});
@@ -0,0 +1,19 @@
+/**
+ * Glob patterns for names ("delete_*", "mcp__github__*").
+ */
+
+/**
+ * Compile a glob (`*` any run of characters, `?` one character) to an
+ * anchored regular expression.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`);
+}
@@ -2,5 +2,16 @@
  * Utility module exports.
  */
 
-export { redactJson, truncateJson, redactAndTruncate } from "./redact.js";
+export {
+  redactJson,
+  redactString,
+  truncateJson,
+  redactAndTruncate,
+  parseRedactionPatterns,
+  DEFAULT_REDACTION_PATTERNS,
+  type RedactionPattern,
+} from "./redact.js";
 export { deriveErrorCategory } from "./error-category.js";
+export { parseDuration } from "./duration.js";
+export { SseParser, type SseMessage } from "./sse.js";
+export { globToRegExp } from "./glob.js";
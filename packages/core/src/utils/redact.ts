@@ -1,21 +1,135 @@
 /**
  * Redaction and truncation utilities for sensitive data.
+ * Secrets are redacted by key name and by value pattern (token formats).
  */
 
 const REDACTED_VALUE = "[REDACTED]";
 const DEFAULT_MAX_LENGTH = 10240; // 10KB
 
+/** A named secret format detected in string values */
+export interface RedactionPattern {
+  /** Name used in the marker, e.g. "github_token" → "[REDACTED:github_token]" */
+  name: string;
+  /** Pattern matching the secret (must have the global flag) */
+  pattern: RegExp;
+}
+
+/**
+ * Built-in detectors for common token formats.
+ * Context such as "Bearer " or the AWS key name is kept outside the match
+ * so redacted payloads stay readable.
+ */
+export const DEFAULT_REDACTION_PATTERNS: readonly RedactionPattern[] = [
+  {
+    name: "private_key",
+    // Also matches blocks cut off by truncation (no END line)
+    pattern:
+      /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY-----[\s\S]*?(?:-----END (?:[A-Z0-9]+ )*PRIVATE KEY-----|$)/g,
+  },
+  {
+    name: "github_token",
+    pattern:
+      /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g,
+  },
+  {
+    name: "aws_access_key",
+    pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    name: "aws_secret_key",
+    pattern:
+      /(?<=aws_secret_access_key["']?\s*[=:]\s*["']?)[A-Za-z0-9/+=]{40}(?![A-Za-z0-9/+=])/gi,
+  },
+  {
+    name: "slack_token",
+    pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+  },
+  {
+    name: "slack_webhook",
+    pattern: /https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9/_-]+/g,
+  },
+  {
+    name: "bearer_token",
+    pattern: /(?<=\bBearer\s+)[A-Za-z0-9._~+/-]{8,}=*/gi,
+  },
+  {
+    name: "jwt",
+    pattern:
+      /\beyJ[A-Za-z0-9_-]{5,}\.eyJ[A-Za-z0-9_-]{5,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+];
+
+/**
+ * Parse user-defined redaction patterns from a JSON object of name → regex source,
+ * e.g. {"ticket_secret": "SEC-[0-9]{8}"}.
+ * Invalid JSON or regexes are reported via onError and skipped.
+ */
+export function parseRedactionPatterns(
+  raw: string,
+  onError: (message: string) => void = () => {}
+): RedactionPattern[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    onError("redaction patterns must be a JSON object of name → regex");
+    return [];
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    onError("redaction patterns must be a JSON object of name → regex");
+    return [];
+  }
+
+  const patterns: RedactionPattern[] = [];
+  for (const [name, source] of Object.entries(parsed)) {
+    if (typeof source !== "string") {
+      onError(`redaction pattern "${name}" must be a string`);
+      continue;
+    }
+    try {
+      patterns.push({ name, pattern: new RegExp(source, "g") });
+    } catch {
+      onError(`invalid redaction pattern "${name}": ${source}`);
+    }
+  }
+  return patterns;
+}
+
+/**
+ * Replace secrets matching any pattern with a typed marker.
+ */
+export function redactString(
+  value: string,
+  patterns: readonly RedactionPattern[] = DEFAULT_REDACTION_PATTERNS
+): string {
+  let result = value;
+  for (const { name, pattern } of patterns) {
+    result = result.replace(pattern, `[REDACTED:${name}]`);
+  }
+  return result;
+}
+
 /**
  * Recursively redact sensitive keys from a JSON value.
- * Keys are matched case-insensitively.
+ * Keys are matched case-insensitively; string values anywhere in the
+ * tree are scanned for secret patterns.
  */
-export function redactJson(value: unknown, keys: string[]): unknown {
+export function redactJson(
+  value: unknown,
+  keys: string[],
+  patterns: readonly RedactionPattern[] = DEFAULT_REDACTION_PATTERNS
+): unknown {
   if (value === null || value === undefined) {
     return value;
   }
 
+  if (typeof value === "string") {
+    return redactString(value, patterns);
+  }
+
   if (Array.isArray(value)) {
-    return value.map((item) => redactJson(item, keys));
+    return value.map((item) => redactJson(item, keys, patterns));
   }
 
   if (typeof value === "object") {
@@ -26,7 +140,7 @@ export function redactJson(value: unknown, keys: string[]): unknown {
       if (lowerKeys.has(k.toLowerCase())) {
         result[k] = REDACTED_VALUE;
       } else {
-        result[k] = redactJson(v, keys);
+        result[k] = redactJson(v, keys, patterns);
       }
     }
     return result;
@@ -60,8 +174,9 @@ export function truncateJson(
 export function redactAndTruncate(
   value: unknown,
   keys: string[],
-  maxLength: number = DEFAULT_MAX_LENGTH
+  maxLength: number = DEFAULT_MAX_LENGTH,
+  patterns: readonly RedactionPattern[] = DEFAULT_REDACTION_PATTERNS
 ): string {
-  const redacted = redactJson(value, keys);
+  const redacted = redactJson(value, keys, patterns);
   return truncateJson(redacted, maxLength);
 }
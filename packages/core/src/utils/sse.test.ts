@@ -0,0 +1,31 @@
+/**
+ * Tests for Server-Sent Events parsing.
+ */
+
+import { describe, it, expect } from "vitest";
+import { SseParser } from "./sse.js";
+
+describe("SseParser", () => {
+  it("parses messages split across chunks", () => {
+    const parser = new SseParser();
+
+    expect(parser.push("retry: 500\n\nid: 3\nevent: ins")).toEqual([
+      { id: null, event: "message", data: "", retry: 500 },
+    ]);
+    expect(parser.push('ert\ndata: {"a":1}\n\n')).toEqual([
+      { id: "3", event: "insert", data: '{"a":1}', retry: null },
+    ]);
+  });
+
+  it("skips comments and joins multi-line data", () => {
+    const parser = new SseParser();
+
+    const messages = parser.push(
+      ": ping\r\n\r\ndata: one\r\ndata: two\r\n\r\n"
+    );
+
+    expect(messages).toEqual([
+      { id: null, event: "message", data: "one\ntwo", retry: null },
+    ]);
+  });
+});
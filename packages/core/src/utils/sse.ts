@@ -0,0 +1,67 @@
+/**
+ * Server-Sent Events parsing.
+ * Shared by the MCP proxy (downstream SSE responses) and CLI stream clients.
+ */
+
+/** A parsed SSE message */
+export interface SseMessage {
+  id: string | null;
+  event: string;
+  data: string;
+  retry: number | null;
+}
+
+/**
+ * Incremental SSE parser.
+ * Feed it decoded text chunks; it returns complete messages.
+ */
+export class SseParser {
+  private buffer = "";
+
+  push(chunk: string): SseMessage[] {
+    this.buffer += chunk.replace(/\r\n?/g, "\n");
+    const messages: SseMessage[] = [];
+
+    let end: number;
+    while ((end = this.buffer.indexOf("\n\n")) !== -1) {
+      const block = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+
+      const message: SseMessage = {
+        id: null,
+        event: "message",
+        data: "",
+        retry: null,
+      };
+      const data: string[] = [];
+
+      for (const line of block.split("\n")) {
+        // Lines starting with ":" are comments (keep-alives)
+        if (!line || line.startsWith(":")) continue;
+        const colon = line.indexOf(":");
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? "" : line.slice(colon + 1);
+        if (value.startsWith(" ")) value = value.slice(1);
+
+        if (field === "data") data.push(value);
+        else if (field === "event") message.event = value;
+        else if (field === "id") message.id = value;
+        else if (field === "retry" && /^\d+$/.test(value)) {
+          message.retry = parseInt(value, 10);
+        }
+      }
+
+      message.data = data.join("\n");
+      if (data.length > 0 || message.retry !== null) {
+        messages.push(message);
+      }
+    }
+
+    return messages;
+  }
+
+  /** Parse a trailing message that wasn't followed by a blank line */
+  end(): SseMessage[] {
+    return this.buffer.trim() ? this.push("\n\n") : [];
+  }
+}
@@ -119,3 +119,49 @@ export function getOriginalUrl(
   const registry = loadUpstreamsRegistry(upstreamsPath);
   return registry[serverKey]?.url ?? null;
 }
+
+/** Binary that records stdio MCP servers (from @agent-recorder/stdio-proxy) */
+export const STDIO_PROXY_COMMAND = "agent-recorder-proxy";
+
+/** Launch command of a stdio MCP server */
+export interface StdioServerCommand {
+  command: string;
+  args: string[];
+}
+
+/**
+ * Check if a stdio server already launches through the STDIO proxy,
+ * directly or via a runner such as `npx agent-recorder-proxy`.
+ */
+export function isStdioProxyCommand(server: StdioServerCommand): boolean {
+  const separator = server.args.indexOf("--");
+  const runnerArgs =
+    separator === -1 ? server.args : server.args.slice(0, separator);
+  return [server.command, ...runnerArgs].some(
+    (part) => path.basename(part) === STDIO_PROXY_COMMAND
+  );
+}
+
+/**
+ * Build STDIO proxy arguments that launch the original server and report
+ * its traffic to the daemon under the given session, tagged with the
+ * server's config key.
+ */
+export function getStdioProxyArgs(
+  server: StdioServerCommand,
+  listenPort: number,
+  sessionId: string,
+  upstreamKey: string
+): string[] {
+  return [
+    "--endpoint",
+    `http://127.0.0.1:${listenPort}/api/stdio`,
+    "--session",
+    sessionId,
+    "--upstream",
+    upstreamKey,
+    "--",
+    server.command,
+    ...server.args,
+  ];
+}
@@ -4,8 +4,19 @@
  *
  * This script is called by Claude Code hooks. It:
  * 1. Reads hook event JSON from stdin
- * 2. POSTs the event to the Agent Recorder service
- * 3. Returns appropriate exit code (0 = success, 1 = error)
+ * 2. On PreToolUse, checks the call against the guardrail rules
+ *    (~/.agent-recorder/guardrails.json or .yaml, or AR_GUARDRAILS_PATH)
+ * 3. POSTs the event, with session context (cwd, git, host) and any
+ *    guardrail decision, to the Agent Recorder service
+ * 4. If the service can't be reached, appends the event to the offline
+ *    spool (~/.agent-recorder/hook-spool.jsonl), replayed when the daemon
+ *    starts
+ * 5. Prints a block decision for Claude if a rule blocked the call
+ *
+ * Guardrails are evaluated here rather than in the daemon so they still
+ * apply when the daemon is down. Every event carries the time it fired and
+ * an idempotency key, so spooled events keep their times when replayed and
+ * are recorded once.
  *
  * Usage in .claude/settings.json:
  * {
@@ -21,8 +32,17 @@
  * }
  */
 
+import { randomUUID } from "node:crypto";
 import type { HookEvent, HookOutput } from "./types.js";
-import { getActualListenPort } from "@agent-recorder/core";
+import {
+  appendToHookSpool,
+  collectSessionContext,
+  evaluateGuardrails,
+  getActualListenPort,
+  loadGuardrails,
+  type GuardrailDecision,
+  type SessionContext,
+} from "@agent-recorder/core";
 
 /** Resolve the service URL, reading the daemon's runtime port file if available */
 function getServiceUrl(): string {
@@ -77,9 +97,51 @@ function parseHookEvent(input: string, hookType: string): HookEvent {
   }
 }
 
+/**
+ * Check a PreToolUse call against the guardrail rules.
+ * Returns null when there are no rules or none matches. An invalid rules
+ * file is reported on stderr and doesn't block anything.
+ */
+function checkGuardrails(
+  event: HookEvent,
+  debug: boolean
+): GuardrailDecision | null {
+  if (event.hook_type !== "PreToolUse" || !event.tool_name) return null;
+
+  try {
+    const guardrails = loadGuardrails();
+    if (!guardrails) return null;
+
+    const decision = evaluateGuardrails(guardrails.rules, {
+      toolName: event.tool_name,
+      toolInput: event.tool_input ?? {},
+      cwd: event.cwd ?? process.cwd(),
+    });
+    if (debug && decision) {
+      console.error(
+        `[agent-recorder-hook] Guardrail ${decision.rule}: ${decision.action}`
+      );
+    }
+    return decision;
+  } catch (error) {
+    console.error(
+      `[agent-recorder-hook] ${error instanceof Error ? error.message : "Failed to load guardrails"}`
+    );
+    return null;
+  }
+}
+
+/** Hook event as sent to the service */
+type HookPayload = HookEvent & {
+  context: SessionContext;
+  guardrail?: GuardrailDecision;
+  timestamp: string;
+  idempotency_key: string;
+};
+
 /** Send hook event to Agent Recorder service */
 async function sendToService(
-  event: HookEvent,
+  event: HookPayload,
   serviceUrl: string
 ): Promise<void> {
   const url = `${serviceUrl}/api/hooks`;
@@ -106,6 +168,26 @@ async function sendToService(
   }
 }
 
+/** Keep an event the service didn't accept for replay (fail open) */
+function spoolEvent(payload: HookPayload, debug: boolean): void {
+  try {
+    const spooled = appendToHookSpool(payload);
+    if (debug) {
+      console.error(
+        spooled
+          ? `[agent-recorder-hook] Event spooled for replay`
+          : `[agent-recorder-hook] Spool is full, event dropped`
+      );
+    }
+  } catch (error) {
+    if (debug) {
+      console.error(
+        `[agent-recorder-hook] Spool error: ${error instanceof Error ? error.message : "Unknown"}`
+      );
+    }
+  }
+}
+
 /** Main handler function */
 async function main(): Promise<void> {
   const args = process.argv.slice(2);
@@ -118,6 +200,13 @@ async function main(): Promise<void> {
     console.error(`[agent-recorder-hook] Service URL: ${serviceUrl}`);
   }
 
+  const timestamp = new Date().toISOString();
+
+  // Set once the guardrails have decided, so it holds even if sending fails
+  let guardrail: GuardrailDecision | null = null;
+  // Set once the payload is built, so it can be spooled if sending fails
+  let payload: HookPayload | null = null;
+
   try {
     // Read and parse stdin
     const input = await readStdin();
@@ -134,18 +223,25 @@ async function main(): Promise<void> {
       );
     }
 
+    guardrail = checkGuardrails(event, debug);
+
     // Send to service (fire and forget - don't block Claude)
-    await sendToService(event, serviceUrl);
+    const context = collectSessionContext(
+      "claude-code",
+      event.cwd ?? process.cwd()
+    );
+    payload = {
+      ...event,
+      context,
+      ...(guardrail && { guardrail }),
+      timestamp,
+      idempotency_key: randomUUID(),
+    };
+    await sendToService(payload, serviceUrl);
 
     if (debug) {
       console.error(`[agent-recorder-hook] Event sent successfully`);
     }
-
-    // Output empty JSON to indicate success without modification
-    const output: HookOutput = {};
-    console.log(JSON.stringify(output));
-
-    process.exit(0);
   } catch (error) {
     // Log error but don't block Claude - fail open
     if (debug) {
@@ -153,13 +249,18 @@ async function main(): Promise<void> {
         `[agent-recorder-hook] Error: ${error instanceof Error ? error.message : "Unknown"}`
       );
     }
+    if (payload) spoolEvent(payload, debug);
+  }
 
-    // Still return success to not block Claude
-    const output: HookOutput = {};
-    console.log(JSON.stringify(output));
+  // Empty JSON lets the call proceed unmodified; "allow" rules only exempt
+  // a call from later rules and don't bypass Claude's permission prompts
+  const output: HookOutput =
+    guardrail?.action === "block"
+      ? { decision: "block", reason: guardrail.reason }
+      : {};
+  console.log(JSON.stringify(output));
 
-    process.exit(0);
-  }
+  process.exit(0);
 }
 
 main();
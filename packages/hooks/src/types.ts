@@ -11,6 +11,8 @@ export interface BaseHookEvent {
   session_id: string;
   /** Path to the full transcript JSON file */
   transcript_path?: string;
+  /** Working directory of the Claude Code session */
+  cwd?: string;
 }
 
 /** PreToolUse hook - fires BEFORE a tool is executed */
@@ -20,6 +22,8 @@ export interface PreToolUseEvent extends BaseHookEvent {
   tool_name: string;
   /** Input parameters for the tool */
   tool_input: Record<string, unknown>;
+  /** Tool use ID, shared with the matching PostToolUse */
+  tool_use_id?: string;
 }
 
 /** PostToolUse hook - fires AFTER a tool completes successfully */
@@ -31,6 +35,8 @@ export interface PostToolUseEvent extends BaseHookEvent {
   tool_input: Record<string, unknown>;
   /** Response/output from the tool */
   tool_response: unknown;
+  /** Tool use ID, shared with the matching PreToolUse */
+  tool_use_id?: string;
 }
 
 /** Stop hook - fires when the main agent finishes responding */
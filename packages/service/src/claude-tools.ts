@@ -0,0 +1,65 @@
+/**
+ * Mapping of Claude Code tool calls to the event model, shared by the hooks
+ * endpoint and transcript import.
+ */
+
+/** Get the subagent type from Task tool input */
+export function getSubagentType(
+  toolInput: Record<string, unknown> | undefined
+) {
+  const type = toolInput?.subagent_type;
+  return typeof type === "string" && type ? type : "subagent";
+}
+
+/** Map Claude Code tool names to our event model */
+export function parseToolName(toolName: string): {
+  eventType: "tool_call" | "subagent_call" | "skill_call";
+  cleanName: string;
+  upstreamKey: string | null;
+} {
+  // MCP tool names are prefixed with "mcp__<server>__<tool>"
+  if (toolName.startsWith("mcp__")) {
+    const parts = toolName.split("__");
+    if (parts.length >= 3) {
+      const serverKey = parts[1];
+      const mcpToolName = parts.slice(2).join("__");
+      return {
+        eventType: "tool_call",
+        cleanName: mcpToolName ?? toolName,
+        upstreamKey: serverKey ?? null,
+      };
+    }
+  }
+
+  // Task tool = subagent call
+  if (toolName === "Task") {
+    return {
+      eventType: "subagent_call",
+      cleanName: toolName,
+      upstreamKey: null,
+    };
+  }
+
+  // Skill tool = skill call
+  if (toolName === "Skill") {
+    return {
+      eventType: "skill_call",
+      cleanName: toolName,
+      upstreamKey: null,
+    };
+  }
+
+  // Built-in tools (Bash, Read, Write, Edit, Glob, Grep, etc.)
+  return {
+    eventType: "tool_call",
+    cleanName: toolName,
+    upstreamKey: "builtin",
+  };
+}
+
+/** Determine MCP method from tool input if available */
+export function getMcpMethod(
+  toolInput: Record<string, unknown> | undefined
+): string {
+  return toolInput?.method ? String(toolInput.method) : "tools/call";
+}
@@ -0,0 +1,47 @@
+/**
+ * Replay of hook events spooled by the hook handler while the daemon was
+ * down. Events go through the regular /api/hooks route, so they are paired
+ * and deduplicated exactly like live ones.
+ */
+
+import type { FastifyInstance } from "fastify";
+import {
+  replayHookSpool,
+  type HookSpoolReplayResult,
+} from "@agent-recorder/core";
+
+/**
+ * Replay the hook spool into the server. Fails open: errors are logged,
+ * never thrown.
+ */
+export async function replaySpooledHookEvents(
+  app: FastifyInstance,
+  spoolPath?: string
+): Promise<HookSpoolReplayResult> {
+  try {
+    const result = await replayHookSpool(async (payload) => {
+      const response = await app.inject({
+        method: "POST",
+        url: "/api/hooks",
+        payload,
+      });
+      if (response.statusCode !== 200) {
+        throw new Error(`Hooks route returned ${response.statusCode}`);
+      }
+    }, spoolPath);
+
+    if (result.replayed > 0 || result.failed > 0) {
+      console.log(
+        `[hooks] Replayed ${result.replayed} spooled hook event(s)` +
+          (result.failed > 0 ? `, ${result.failed} failed` : "")
+      );
+    }
+    return result;
+  } catch (error) {
+    console.error(
+      "[hooks] Spool replay failed:",
+      error instanceof Error ? error.message : "Unknown error"
+    );
+    return { replayed: 0, failed: 0 };
+  }
+}
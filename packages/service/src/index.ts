@@ -25,11 +25,15 @@ import {
 import { createServer, startServer } from "./server.js";
 import { createMcpProxy } from "./mcp/index.js";
 import { createSessionManager } from "./session-manager.js";
+import { createRetentionScheduler } from "./retention-scheduler.js";
 import { AutoWrapManager } from "./mcp/auto-wrap-manager.js";
+import { replaySpooledHookEvents } from "./hook-spool-replay.js";
 
 export { createServer, startServer } from "./server.js";
 export { createMcpProxy } from "./mcp/index.js";
 export { createSessionManager } from "./session-manager.js";
+export { createRetentionScheduler } from "./retention-scheduler.js";
+export { replaySpooledHookEvents } from "./hook-spool-replay.js";
 
 export interface DaemonHandle {
   shutdown: (status?: SessionStatus) => Promise<void>;
@@ -90,21 +94,56 @@ export async function startDaemon(
   const migrationsDir = getDefaultMigrationsDir();
   runMigrations(db, migrationsDir);
 
+  // Hub mode (providers.json) takes precedence over the legacy downstream
+  // and router modes
+  const providersFile = readProvidersFile(getDefaultProvidersPath());
+  const hubProviders = providersFile.providers.filter(
+    (p) => p.type === "http" || p.type === "stdio"
+  );
+
   // Create session manager (core generates ID)
-  const sessionManager = createSessionManager(db);
+  const sessionManager = createSessionManager(
+    db,
+    hubProviders.length > 0 ? "hub" : "mcp-client"
+  );
   const startedAt = new Date().toISOString();
 
   // Store for health endpoint
   daemonSessionId = sessionManager.sessionId;
   daemonStartedAt = startedAt;
 
-  // Initialize auto-wrap manager (fail-open: errors logged, not thrown)
+  // Apply retention policy now and on a schedule (no-op if not configured)
+  const retentionScheduler = createRetentionScheduler(db, config.retention, [
+    sessionManager.sessionId,
+  ]);
+
+  // Create and start REST API server (pass currentSessionId for /api/sessions/current)
+  const app = await createServer({
+    db,
+    currentSessionId: sessionManager.sessionId,
+    ingest: {
+      redactKeys: config.redactKeys,
+      redactPatterns: config.redactPatterns,
+    },
+  });
+  const actualListenPort = await startServer(app, config.listenPort);
+
+  // Write actual port so CLI commands can find the daemon even if it fell back
+  writePortFile(actualListenPort);
+
+  // Record hook events spooled while the daemon was down. Runs once the
+  // server is listening, so hooks firing meanwhile aren't spooled again.
+  await replaySpooledHookEvents(app);
+
+  // Initialize auto-wrap manager once the REST API is up, so wrapped stdio
+  // servers report to the actual port (fail-open: errors logged, not thrown)
   let autoWrapManager: AutoWrapManager | null = null;
   try {
     autoWrapManager = new AutoWrapManager({
       config,
       sessionId: sessionManager.sessionId,
       db,
+      listenPort: actualListenPort,
     });
     await autoWrapManager.initialize();
   } catch (error) {
@@ -115,28 +154,13 @@ export async function startDaemon(
     console.error("Continuing in manual wrap mode...");
   }
 
-  // Create and start REST API server (pass currentSessionId for /api/sessions/current)
-  const app = await createServer({
-    db,
-    currentSessionId: sessionManager.sessionId,
-  });
-  const actualListenPort = await startServer(app, config.listenPort);
-
-  // Write actual port so CLI commands can find the daemon even if it fell back
-  writePortFile(actualListenPort);
-
   // Always start MCP proxy (handles missing downstream with 503)
   console.log(`MCP proxy port: ${config.mcpProxyPort}`);
 
-  // Show mode status - hub mode takes precedence
-  const providersFile = readProvidersFile(getDefaultProvidersPath());
-  const httpProviders = providersFile.providers.filter(
-    (p) => p.type === "http"
-  );
-
-  if (httpProviders.length > 0) {
+  // Show mode status
+  if (hubProviders.length > 0) {
     console.log(
-      `Hub mode: ${httpProviders.length} provider(s) [${httpProviders.map((p) => p.id).join(", ")}]`
+      `Hub mode: ${hubProviders.length} provider(s) [${hubProviders.map((p) => `${p.id} (${p.type})`).join(", ")}]`
     );
   } else if (config.downstreamMcpUrl) {
     console.log(`Legacy mode: ${config.downstreamMcpUrl}`);
@@ -173,6 +197,7 @@ export async function startDaemon(
 
     console.log(`\nShutting down (status: ${status})...`);
     sessionManager.shutdown(status);
+    retentionScheduler.stop();
     await proxy.close();
     await app.close();
 
@@ -0,0 +1,106 @@
+/**
+ * Tests for auto-wrapping stdio MCP servers from Claude Code config.
+ * Uses a temporary HOME so the real Claude config is never touched.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type Database from "better-sqlite3";
+import { loadConfig, openMemoryDatabase } from "@agent-recorder/core";
+import { AutoWrapManager } from "./auto-wrap-manager.js";
+
+describe("AutoWrapManager stdio servers", () => {
+  let home: string;
+  let originalHome: string | undefined;
+  let settingsPath: string;
+  let db: Database.Database;
+
+  const originalSettings = {
+    theme: "dark",
+    mcpServers: {
+      github: {
+        command: "npx",
+        args: ["-y", "@modelcontextprotocol/server-github"],
+        env: { GITHUB_TOKEN: "token" },
+      },
+      wrapped: {
+        command: "agent-recorder-proxy",
+        args: ["--", "node", "server.js"],
+      },
+    },
+  };
+
+  beforeEach(() => {
+    originalHome = process.env["HOME"];
+    home = fs.mkdtempSync(join(tmpdir(), "ar-autowrap-"));
+    process.env["HOME"] = home;
+
+    settingsPath = join(home, ".claude", "settings.json");
+    fs.mkdirSync(join(home, ".claude"), { recursive: true });
+    fs.writeFileSync(settingsPath, JSON.stringify(originalSettings, null, 2));
+
+    db = openMemoryDatabase();
+  });
+
+  afterEach(() => {
+    process.env["HOME"] = originalHome;
+    fs.rmSync(home, { recursive: true, force: true });
+    db.close();
+  });
+
+  function createManager(): AutoWrapManager {
+    return new AutoWrapManager({
+      config: {
+        ...loadConfig(),
+        upstreamsPath: join(home, "upstreams.json"),
+      },
+      sessionId: "daemon-session",
+      db,
+      listenPort: 9999,
+    });
+  }
+
+  function readSettings(): typeof originalSettings {
+    return JSON.parse(
+      fs.readFileSync(settingsPath, "utf-8")
+    ) as typeof originalSettings;
+  }
+
+  it("launches stdio servers through the proxy with command, args and env preserved", async () => {
+    await createManager().initialize();
+
+    const { github } = readSettings().mcpServers;
+    expect(github.command).toBe("agent-recorder-proxy");
+    expect(github.args).toEqual([
+      "--endpoint",
+      "http://127.0.0.1:9999/api/stdio",
+      "--session",
+      "daemon-session",
+      "--upstream",
+      "github",
+      "--",
+      "npx",
+      "-y",
+      "@modelcontextprotocol/server-github",
+    ]);
+    expect(github.env).toEqual({ GITHUB_TOKEN: "token" });
+  });
+
+  it("leaves servers that already use the proxy untouched", async () => {
+    await createManager().initialize();
+
+    expect(readSettings().mcpServers.wrapped).toEqual(
+      originalSettings.mcpServers.wrapped
+    );
+  });
+
+  it("restores the original entries on cleanup", async () => {
+    const manager = createManager();
+    await manager.initialize();
+    await manager.cleanup();
+
+    expect(readSettings()).toEqual(originalSettings);
+  });
+});
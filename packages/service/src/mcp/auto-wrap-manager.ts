@@ -1,15 +1,20 @@
 /**
  * Auto-Wrap Manager
  * Automatically discovers and wraps MCP servers from Claude Code config.
- * Supports URL-based servers (stdio support in later phase).
+ * URL servers are routed through the MCP proxy; stdio servers are launched
+ * through agent-recorder-proxy and report to the daemon's session.
  */
 
 import type Database from "better-sqlite3";
 import type { Config } from "@agent-recorder/core";
+import type { StdioServerCommand } from "@agent-recorder/core";
 import {
   registerUrlServer,
   unregisterServer,
   isAlreadyWrapped,
+  isStdioProxyCommand,
+  getStdioProxyArgs,
+  STDIO_PROXY_COMMAND,
   detectClaudeConfig,
   readJsonFile,
   writeJsonFileAtomic,
@@ -19,18 +24,20 @@ interface WrappedServer {
   key: string;
   type: "url" | "stdio";
   originalUrl?: string;
-  originalCommand?: { command: string; args: string[] };
+  originalCommand?: StdioServerCommand;
 }
 
 interface DiscoveredServers {
   url: Map<string, string>;
-  stdio: Map<string, { command: string; args: string[] }>;
+  stdio: Map<string, StdioServerCommand>;
 }
 
 export interface AutoWrapManagerOptions {
   config: Config;
   sessionId: string;
   db: Database.Database;
+  /** REST API port stdio proxies report to (default: config.listenPort) */
+  listenPort?: number;
 }
 
 export class AutoWrapManager {
@@ -38,6 +45,7 @@ export class AutoWrapManager {
   private config: Config;
   private sessionId: string;
   private db: Database.Database;
+  private listenPort: number;
   private claudeConfigPath: string | null = null;
   private originalClaudeConfig: unknown = null;
 
@@ -45,6 +53,7 @@ export class AutoWrapManager {
     this.config = options.config;
     this.sessionId = options.sessionId;
     this.db = options.db;
+    this.listenPort = options.listenPort ?? options.config.listenPort;
   }
 
   /**
@@ -95,16 +104,22 @@ export class AutoWrapManager {
         }
       }
 
-      if (wrappedCount > 0) {
-        console.log(
-          `[AutoWrap] Successfully wrapped ${wrappedCount} server(s)`
-        );
+      // Wrap stdio servers
+      for (const [key, server] of discovered.stdio.entries()) {
+        try {
+          this.wrapStdioServer(key, server);
+          wrappedCount++;
+        } catch (error) {
+          console.error(
+            `[AutoWrap] Failed to wrap server "${key}":`,
+            error instanceof Error ? error.message : "Unknown error"
+          );
+        }
       }
 
-      // TODO: Wrap stdio servers (later phase)
-      if (discovered.stdio.size > 0) {
+      if (wrappedCount > 0) {
         console.log(
-          `[AutoWrap] Skipping ${discovered.stdio.size} stdio server(s) (not yet supported)`
+          `[AutoWrap] Successfully wrapped ${wrappedCount} server(s)`
         );
       }
     } catch (error) {
@@ -145,8 +160,14 @@ export class AutoWrapManager {
           newServers.set(key, url);
         }
       }
+      const newStdioServers = new Map<string, StdioServerCommand>();
+      for (const [key, server] of discovered.stdio.entries()) {
+        if (!this.wrappedServers.has(key)) {
+          newStdioServers.set(key, server);
+        }
+      }
 
-      if (newServers.size === 0) {
+      if (newServers.size === 0 && newStdioServers.size === 0) {
         console.log("[AutoWrap] No new servers to wrap");
         return;
       }
@@ -164,6 +185,17 @@ export class AutoWrapManager {
           );
         }
       }
+      for (const [key, server] of newStdioServers.entries()) {
+        try {
+          this.wrapStdioServer(key, server);
+          wrappedCount++;
+        } catch (error) {
+          console.error(
+            `[AutoWrap] Failed to wrap new server "${key}":`,
+            error instanceof Error ? error.message : "Unknown error"
+          );
+        }
+      }
 
       console.log(`[AutoWrap] Wrapped ${wrappedCount} new server(s)`);
     } catch (error) {
@@ -175,7 +207,7 @@ export class AutoWrapManager {
   }
 
   /**
-   * Cleanup: restore config, unregister servers.
+   * Cleanup: restore config (original URLs and stdio commands), unregister servers.
    */
   async cleanup(): Promise<void> {
     try {
@@ -225,7 +257,7 @@ export class AutoWrapManager {
     configData: unknown
   ): Promise<DiscoveredServers> {
     const url = new Map<string, string>();
-    const stdio = new Map<string, { command: string; args: string[] }>();
+    const stdio = new Map<string, StdioServerCommand>();
 
     if (
       !configData ||
@@ -271,7 +303,15 @@ export class AutoWrapManager {
         const args = Array.isArray(serverEntry.args)
           ? (serverEntry.args as string[])
           : [];
-        stdio.set(key, { command: serverEntry.command, args });
+        const server = { command: serverEntry.command, args };
+        // Skip servers already launched through the STDIO proxy
+        if (isStdioProxyCommand(server)) {
+          console.log(
+            `[AutoWrap] Skipping "${key}" - already uses stdio proxy`
+          );
+          continue;
+        }
+        stdio.set(key, server);
         continue;
       }
     }
@@ -337,4 +377,54 @@ export class AutoWrapManager {
 
     console.log(`[AutoWrap] Wrapped "${key}": ${url} -> ${proxyUrl}`);
   }
+
+  /**
+   * Wrap a single stdio MCP server.
+   * The entry keeps its env and other fields; only the launch command
+   * changes, so the proxy starts the original server with the same
+   * environment (it passes its own env through to the child).
+   */
+  private wrapStdioServer(key: string, server: StdioServerCommand): void {
+    if (!this.claudeConfigPath) {
+      throw new Error("Claude config path not set");
+    }
+
+    const configData = readJsonFile(this.claudeConfigPath);
+    if (!configData) {
+      throw new Error("Could not read Claude config");
+    }
+
+    const config = configData as Record<string, unknown>;
+    const mcpServers = config.mcpServers as Record<string, unknown>;
+    const serverEntry = mcpServers[key] as Record<string, unknown>;
+
+    // Launch through the proxy, reporting to the daemon session
+    const newEntry = {
+      ...serverEntry,
+      command: STDIO_PROXY_COMMAND,
+      args: getStdioProxyArgs(server, this.listenPort, this.sessionId, key),
+    };
+
+    const newConfig = {
+      ...config,
+      mcpServers: {
+        ...mcpServers,
+        [key]: newEntry,
+      },
+    };
+
+    // Write updated config atomically
+    writeJsonFileAtomic(this.claudeConfigPath, newConfig);
+
+    // Track wrapped server
+    this.wrappedServers.set(key, {
+      key,
+      type: "stdio",
+      originalCommand: server,
+    });
+
+    console.log(
+      `[AutoWrap] Wrapped "${key}": ${server.command} -> ${STDIO_PROXY_COMMAND}`
+    );
+  }
 }
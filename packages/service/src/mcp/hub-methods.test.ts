@@ -0,0 +1,74 @@
+/**
+ * Tests for hub method namespacing and routed call parsing.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  getHubCapabilities,
+  getRoutedCall,
+  namespaceRoutedResult,
+  parseNamespacedName,
+  setRoutedName,
+} from "./hub-methods.js";
+import type { JsonRpcRequest } from "./types.js";
+
+describe("hub methods", () => {
+  it("advertises resources and prompts only when a provider may offer them", () => {
+    expect(getHubCapabilities([{ tools: {} }])).toEqual({ tools: {} });
+    expect(
+      getHubCapabilities([{ tools: {} }, { resources: { subscribe: true } }])
+    ).toEqual({ tools: {}, resources: {} });
+    // Unknown capabilities (not initialized yet) count as everything
+    expect(getHubCapabilities([{ tools: {} }, null])).toEqual({
+      tools: {},
+      resources: {},
+      prompts: {},
+    });
+  });
+
+  it("splits the provider prefix at the first dot only", () => {
+    expect(parseNamespacedName("docs.file:///a.txt")).toEqual({
+      providerId: "docs",
+      name: "file:///a.txt",
+    });
+    expect(parseNamespacedName("no-prefix")).toBeNull();
+    expect(parseNamespacedName(".hidden")).toBeNull();
+  });
+
+  it("describes routed calls by their target param", () => {
+    const read: JsonRpcRequest = {
+      jsonrpc: "2.0",
+      method: "resources/read",
+      params: { uri: "docs.file:///a.txt" },
+      id: 1,
+    };
+    const prompt: JsonRpcRequest = {
+      jsonrpc: "2.0",
+      method: "prompts/get",
+      params: { name: "docs.summarize", arguments: { lang: "en" } },
+      id: 2,
+    };
+
+    expect(getRoutedCall(read)).toEqual({
+      method: "resources/read",
+      name: "docs.file:///a.txt",
+      input: { uri: "docs.file:///a.txt" },
+    });
+    expect(getRoutedCall(prompt)?.input).toEqual({ lang: "en" });
+    expect(
+      getRoutedCall({ jsonrpc: "2.0", method: "resources/list", id: 3 })
+    ).toBeNull();
+
+    setRoutedName(read, "file:///a.txt");
+    expect(read.params).toEqual({ uri: "file:///a.txt" });
+  });
+
+  it("prefixes resource contents URIs in read results only", () => {
+    const result = { contents: [{ uri: "file:///a.txt", text: "hi" }] };
+
+    expect(namespaceRoutedResult("resources/read", "docs", result)).toEqual({
+      contents: [{ uri: "docs.file:///a.txt", text: "hi" }],
+    });
+    expect(namespaceRoutedResult("prompts/get", "docs", result)).toBe(result);
+  });
+});
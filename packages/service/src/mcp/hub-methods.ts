@@ -0,0 +1,180 @@
+/**
+ * MCP methods the hub aggregates or routes across providers.
+ *
+ * List methods are answered by merging every provider's items, with each
+ * item's name (or URI) prefixed by its provider ID ("github.search",
+ * "docs.file:///readme.md"). Routed methods carry such a prefixed name and
+ * are forwarded to that provider with the prefix stripped.
+ */
+
+import type { JsonRpcRequest } from "./types.js";
+
+/** How a list method's items are found and namespaced */
+export interface HubListMethod {
+  /** Key of the item array in the result */
+  resultKey: "tools" | "resources" | "resourceTemplates" | "prompts";
+  /** Item field carrying the provider-prefixed identifier */
+  idField: "name" | "uri" | "uriTemplate";
+}
+
+/** List methods aggregated from all providers */
+export const HUB_LIST_METHODS: Readonly<Record<string, HubListMethod>> = {
+  "tools/list": { resultKey: "tools", idField: "name" },
+  "resources/list": { resultKey: "resources", idField: "uri" },
+  "resources/templates/list": {
+    resultKey: "resourceTemplates",
+    idField: "uriTemplate",
+  },
+  "prompts/list": { resultKey: "prompts", idField: "name" },
+};
+
+/** Methods routed to one provider, by the param carrying the prefixed name */
+export const HUB_ROUTED_METHODS: Readonly<Record<string, "name" | "uri">> = {
+  "tools/call": "name",
+  "prompts/get": "name",
+  "resources/read": "uri",
+};
+
+/** Capabilities that only some providers offer, by their list methods */
+const OPTIONAL_CAPABILITIES = ["resources", "prompts"] as const;
+
+/** Read-only methods that are safe to retry against a provider */
+const IDEMPOTENT_METHODS: ReadonlySet<string> = new Set([
+  ...Object.keys(HUB_LIST_METHODS),
+  "resources/read",
+  "prompts/get",
+  "ping",
+]);
+
+/** A routed call as recorded: method, target name and input payload */
+export interface RoutedCall {
+  method: string;
+  /** Tool or prompt name, or resource URI */
+  name: string;
+  input: unknown;
+}
+
+/**
+ * Get the list method descriptor for a method, if the hub aggregates it.
+ */
+export function getHubListMethod(method: string): HubListMethod | null {
+  return HUB_LIST_METHODS[method] ?? null;
+}
+
+/**
+ * Capabilities the hub advertises on initialize. Tools are always offered;
+ * resources and prompts when any provider offers them. A provider whose
+ * capabilities aren't known yet (null) is assumed to offer everything.
+ */
+export function getHubCapabilities(
+  providerCapabilities: (Record<string, unknown> | null)[]
+): Record<string, object> {
+  const capabilities: Record<string, object> = { tools: {} };
+  for (const name of OPTIONAL_CAPABILITIES) {
+    if (providerCapabilities.some((c) => c === null || c[name])) {
+      capabilities[name] = {};
+    }
+  }
+  return capabilities;
+}
+
+/**
+ * Whether a method may be retried after a transient provider failure.
+ * tools/call never is: tools can have side effects.
+ */
+export function isIdempotentMethod(method: string): boolean {
+  return IDEMPOTENT_METHODS.has(method);
+}
+
+/**
+ * Describe a routed (and recorded) request: tools/call, prompts/get or
+ * resources/read with its target param present. Returns null otherwise.
+ */
+export function getRoutedCall(request: JsonRpcRequest): RoutedCall | null {
+  const param = HUB_ROUTED_METHODS[request.method];
+  const params = request.params;
+  if (!param || typeof params !== "object" || params === null) {
+    return null;
+  }
+
+  const name = (params as Record<string, unknown>)[param];
+  if (typeof name !== "string") {
+    return null;
+  }
+
+  const args = (params as { arguments?: unknown }).arguments;
+  return {
+    method: request.method,
+    name,
+    // Resources have no arguments; record the URI that was read
+    input: param === "uri" ? { uri: name } : (args ?? {}),
+  };
+}
+
+/**
+ * Rewrite a routed request's target param (e.g. to strip the prefix).
+ */
+export function setRoutedName(request: JsonRpcRequest, name: string): void {
+  const param = HUB_ROUTED_METHODS[request.method];
+  if (param) {
+    (request.params as Record<string, unknown>)[param] = name;
+  }
+}
+
+/**
+ * Prefix a name or URI with its provider ID.
+ */
+export function namespaceName(providerId: string, name: string): string {
+  return `${providerId}.${name}`;
+}
+
+/**
+ * Parse a provider-prefixed name or URI into provider ID and name.
+ * Returns null if format is invalid.
+ */
+export function parseNamespacedName(
+  name: string
+): { providerId: string; name: string } | null {
+  const dotIndex = name.indexOf(".");
+  if (dotIndex === -1 || dotIndex === 0 || dotIndex === name.length - 1) {
+    return null;
+  }
+
+  return {
+    providerId: name.slice(0, dotIndex),
+    name: name.slice(dotIndex + 1),
+  };
+}
+
+/**
+ * Prefix the URIs in a provider's resources/read result, so contents match
+ * the URI the client asked for. Other results are returned unchanged.
+ */
+export function namespaceRoutedResult(
+  method: string,
+  providerId: string,
+  result: unknown
+): unknown {
+  if (method !== "resources/read" || typeof result !== "object" || !result) {
+    return result;
+  }
+
+  const contents = (result as { contents?: unknown }).contents;
+  if (!Array.isArray(contents)) {
+    return result;
+  }
+
+  return {
+    ...result,
+    contents: contents.map((content: unknown) =>
+      content &&
+      typeof content === "object" &&
+      typeof (content as { uri?: unknown }).uri === "string"
+        ? {
+            ...content,
+            uri: namespaceName(providerId, (content as { uri: string }).uri),
+          }
+        : content
+    ),
+  };
+}
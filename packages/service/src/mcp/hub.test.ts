@@ -12,43 +12,94 @@ import {
   runMigrations,
   writeProvidersFile,
   getDefaultProvidersPath,
+  type ProviderHealth,
 } from "@agent-recorder/core";
 import { createMcpProxy } from "./proxy.js";
 import * as fs from "node:fs";
+import { tmpdir } from "node:os";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+type MockMcpServer = {
+  app: FastifyInstance;
+  close: () => Promise<void>;
+  /** Sizes of the JSON-RPC batches received */
+  batchSizes: number[];
+};
+
 /**
- * Create a mock MCP server that responds to tools/list and tools/call.
+ * Create a mock MCP server that responds to tools/list and tools/call
+ * (plus one resource and one prompt), singly or in JSON-RPC batches.
+ * Reads of file:///live.txt are answered as an SSE stream.
  */
 async function createMockMcpServer(
   port: number,
-  tools: Array<{ name: string; description: string }>
-): Promise<{ app: FastifyInstance; close: () => Promise<void> }> {
+  tools: Array<{
+    name: string;
+    description: string;
+    annotations?: Record<string, unknown>;
+  }>
+): Promise<MockMcpServer> {
   const app = Fastify({ logger: false });
+  const batchSizes: number[] = [];
 
-  // Mock tools/list endpoint
-  app.post("/", async (request, reply) => {
-    const body = request.body as {
+  const answer = (
+    request: unknown
+  ): { statusCode: number; payload: unknown } => {
+    const body = request as {
       method: string;
       params?: unknown;
       id?: unknown;
     };
 
     if (body.method === "tools/list") {
-      return reply.code(200).send({
-        jsonrpc: "2.0",
-        result: {
-          tools: tools.map((t) => ({
-            name: t.name,
-            description: t.description,
-            inputSchema: { type: "object", properties: {} },
-          })),
+      return {
+        statusCode: 200,
+        payload: {
+          jsonrpc: "2.0",
+          result: {
+            tools: tools.map((t) => ({
+              name: t.name,
+              description: t.description,
+              inputSchema: { type: "object", properties: {} },
+              ...(t.annotations && { annotations: t.annotations }),
+            })),
+          },
+          id: body.id ?? null,
         },
-        id: body.id ?? null,
+      };
+    }
+
+    const ok = (result: unknown) => ({
+      statusCode: 200,
+      payload: { jsonrpc: "2.0", result, id: body.id ?? null },
+    });
+    const params = body.params as Record<string, unknown> | undefined;
+    if (body.method === "resources/list") {
+      return ok({ resources: [{ uri: "file:///notes.txt", name: "notes" }] });
+    }
+    if (body.method === "resources/templates/list") {
+      return ok({ resourceTemplates: [{ uriTemplate: "file:///{path}" }] });
+    }
+    if (body.method === "resources/read") {
+      return ok({
+        contents: [{ uri: params?.uri, text: `port ${port}` }],
+      });
+    }
+    if (body.method === "prompts/list") {
+      return ok({ prompts: [{ name: "summarize" }] });
+    }
+    if (body.method === "prompts/get") {
+      return ok({
+        messages: [
+          {
+            role: "user",
+            content: { type: "text", text: `${String(params?.name)}@${port}` },
+          },
+        ],
       });
     }
 
@@ -57,45 +108,89 @@ async function createMockMcpServer(
       const tool = tools.find((t) => t.name === params.name);
 
       if (!tool) {
-        return reply.code(200).send({
-          jsonrpc: "2.0",
-          error: {
-            code: -32602,
-            message: `Unknown tool: ${params.name}`,
+        return {
+          statusCode: 200,
+          payload: {
+            jsonrpc: "2.0",
+            error: {
+              code: -32602,
+              message: `Unknown tool: ${params.name}`,
+            },
+            id: body.id ?? null,
           },
-          id: body.id ?? null,
-        });
+        };
       }
 
-      return reply.code(200).send({
+      return {
+        statusCode: 200,
+        payload: {
+          jsonrpc: "2.0",
+          result: { success: true, tool: params.name },
+          id: body.id ?? null,
+        },
+      };
+    }
+
+    return {
+      statusCode: 400,
+      payload: {
         jsonrpc: "2.0",
-        result: { success: true, tool: params.name },
+        error: { code: -32601, message: "Method not found" },
         id: body.id ?? null,
-      });
-    }
+      },
+    };
+  };
 
-    return reply.code(400).send({
-      jsonrpc: "2.0",
-      error: { code: -32601, message: "Method not found" },
-      id: body.id ?? null,
-    });
+  app.post("/", async (request, reply) => {
+    if (Array.isArray(request.body)) {
+      batchSizes.push(request.body.length);
+      return reply.code(200).send(request.body.map((b) => answer(b).payload));
+    }
+    const { statusCode, payload } = answer(request.body);
+    const params = (request.body as { params?: { uri?: unknown } }).params;
+    if (params?.uri === "file:///live.txt") {
+      return reply
+        .code(statusCode)
+        .header("Content-Type", "text/event-stream")
+        .send(`event: message\ndata: ${JSON.stringify(payload)}\n\n`);
+    }
+    return reply.code(statusCode).send(payload);
   });
 
   await app.listen({ port, host: "127.0.0.1" });
 
   return {
     app,
+    batchSizes,
     close: async () => {
       await app.close();
     },
   };
 }
 
+/** Minimal stdio MCP server: newline-delimited JSON-RPC on stdin/stdout */
+const MOCK_STDIO_SERVER = `
+import { createInterface } from "node:readline";
+createInterface({ input: process.stdin }).on("line", (line) => {
+  const msg = JSON.parse(line);
+  if (msg.id === undefined) return;
+  const reply = (result) =>
+    process.stdout.write(JSON.stringify({ jsonrpc: "2.0", result, id: msg.id }) + "\\n");
+  if (msg.method === "initialize") {
+    reply({ protocolVersion: "2024-11-05", capabilities: { tools: {} } });
+  } else if (msg.method === "tools/list") {
+    reply({ tools: [{ name: "read", description: "Read tool", inputSchema: { type: "object" } }] });
+  } else if (msg.method === "tools/call") {
+    reply({ content: [{ type: "text", text: "stdio:" + msg.params.name }] });
+  }
+});
+`;
+
 describe("MCP Hub Mode", () => {
   let db: Database.Database;
   let sessionId: string;
-  let mockServer1: { app: FastifyInstance; close: () => Promise<void> };
-  let mockServer2: { app: FastifyInstance; close: () => Promise<void> };
+  let mockServer1: MockMcpServer;
+  let mockServer2: MockMcpServer;
 
   beforeEach(async () => {
     // Create in-memory database with migrations
@@ -123,7 +218,11 @@ describe("MCP Hub Mode", () => {
     ]);
 
     mockServer2 = await createMockMcpServer(9992, [
-      { name: "reverse", description: "Reverse tool" },
+      {
+        name: "reverse",
+        description: "Reverse tool",
+        annotations: { readOnlyHint: true },
+      },
       { name: "lowercase", description: "Lowercase tool" },
     ]);
   });
@@ -285,6 +384,195 @@ describe("MCP Hub Mode", () => {
     }
   });
 
+  it("fans a batch out per provider and reassembles responses in order", async () => {
+    writeProvidersFile(
+      {
+        version: 1,
+        providers: [
+          { id: "server1", type: "http", url: "http://127.0.0.1:9991/" },
+          { id: "server2", type: "http", url: "http://127.0.0.1:9992/" },
+        ],
+      },
+      getDefaultProvidersPath()
+    );
+
+    const { app, close } = await createMcpProxy({
+      db,
+      config: { ...loadConfig(), mcpProxyPort: 19996 },
+      sessionId,
+    });
+
+    try {
+      await app.listen({ port: 19996, host: "127.0.0.1" });
+
+      const call = (name: string, id: number) => ({
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name, arguments: {} },
+        id,
+      });
+      const response = await fetch("http://127.0.0.1:19996/", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify([
+          call("server1.echo", 1),
+          call("server2.reverse", 2),
+          { jsonrpc: "2.0", method: "notifications/cancelled" },
+          call("server1.uppercase", 3),
+        ]),
+      });
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as Array<{
+        id: number;
+        result: { tool: string };
+      }>;
+      expect(body.map((r) => [r.id, r.result.tool])).toEqual([
+        [1, "echo"],
+        [2, "reverse"],
+        [3, "uppercase"],
+      ]);
+
+      // One forwarded batch per provider
+      expect(mockServer1.batchSizes).toEqual([2]);
+      expect(mockServer2.batchSizes).toEqual([1]);
+
+      const events = db
+        .prepare(
+          "SELECT tool_name, upstream_key, batch_id FROM events WHERE session_id = ?"
+        )
+        .all(sessionId) as Array<{
+        tool_name: string;
+        upstream_key: string;
+        batch_id: string | null;
+      }>;
+      expect(events).toHaveLength(3);
+      expect(new Set(events.map((e) => e.batch_id)).size).toBe(1);
+      expect(events[0]!.batch_id).not.toBeNull();
+    } finally {
+      await close();
+      if (fs.existsSync(getDefaultProvidersPath())) {
+        fs.unlinkSync(getDefaultProvidersPath());
+      }
+    }
+  });
+
+  it("aggregates resources and prompts and routes reads to their provider", async () => {
+    writeProvidersFile(
+      {
+        version: 1,
+        providers: [
+          { id: "server1", type: "http", url: "http://127.0.0.1:9991/" },
+          { id: "server2", type: "http", url: "http://127.0.0.1:9992/" },
+        ],
+      },
+      getDefaultProvidersPath()
+    );
+
+    const { app, close } = await createMcpProxy({
+      db,
+      config: { ...loadConfig(), mcpProxyPort: 19997 },
+      sessionId,
+    });
+
+    try {
+      await app.listen({ port: 19997, host: "127.0.0.1" });
+      const rpc = async (method: string, params?: unknown) => {
+        const response = await fetch("http://127.0.0.1:19997/", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ jsonrpc: "2.0", method, params, id: 1 }),
+        });
+        return ((await response.json()) as { result: Record<string, unknown> })
+          .result;
+      };
+
+      const resources = await rpc("resources/list");
+      expect(resources.resources).toEqual([
+        { uri: "server1.file:///notes.txt", name: "notes" },
+        { uri: "server2.file:///notes.txt", name: "notes" },
+      ]);
+      const templates = await rpc("resources/templates/list");
+      expect(templates.resourceTemplates).toEqual([
+        { uriTemplate: "server1.file:///{path}" },
+        { uriTemplate: "server2.file:///{path}" },
+      ]);
+      const prompts = await rpc("prompts/list");
+      expect(prompts.prompts).toEqual([
+        { name: "server1.summarize" },
+        { name: "server2.summarize" },
+      ]);
+
+      const read = await rpc("resources/read", {
+        uri: "server2.file:///notes.txt",
+      });
+      expect(read.contents).toEqual([
+        { uri: "server2.file:///notes.txt", text: "port 9992" },
+      ]);
+      // Streamed reads are namespaced too
+      const streamed = await fetch("http://127.0.0.1:19997/", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+        },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          method: "resources/read",
+          params: { uri: "server1.file:///live.txt" },
+          id: 2,
+        }),
+      });
+      expect(streamed.headers.get("content-type")).toContain(
+        "text/event-stream"
+      );
+      const frame = (await streamed.text()).match(/^data: (.*)$/m)!;
+      expect(JSON.parse(frame[1]!)).toEqual({
+        jsonrpc: "2.0",
+        result: {
+          contents: [{ uri: "server1.file:///live.txt", text: "port 9991" }],
+        },
+        id: 2,
+      });
+
+      const prompt = await rpc("prompts/get", { name: "server1.summarize" });
+      expect(prompt.messages).toEqual([
+        {
+          role: "user",
+          content: { type: "text", text: "summarize@9991" },
+        },
+      ]);
+
+      const events = db
+        .prepare(
+          "SELECT tool_name, mcp_method, upstream_key FROM events WHERE session_id = ? ORDER BY sequence ASC"
+        )
+        .all(sessionId);
+      expect(events).toEqual([
+        {
+          tool_name: "file:///notes.txt",
+          mcp_method: "resources/read",
+          upstream_key: "server2",
+        },
+        {
+          tool_name: "file:///live.txt",
+          mcp_method: "resources/read",
+          upstream_key: "server1",
+        },
+        {
+          tool_name: "summarize",
+          mcp_method: "prompts/get",
+          upstream_key: "server1",
+        },
+      ]);
+    } finally {
+      await close();
+      if (fs.existsSync(getDefaultProvidersPath())) {
+        fs.unlinkSync(getDefaultProvidersPath());
+      }
+    }
+  });
+
   it("handles unknown provider gracefully", async () => {
     // Write providers BEFORE creating proxy so it loads them during init
     writeProvidersFile(
@@ -408,4 +696,317 @@ describe("MCP Hub Mode", () => {
       }
     }
   });
+
+  it("filters and rejects tools denied by the providers.json policy", async () => {
+    writeProvidersFile(
+      {
+        version: 1,
+        providers: [
+          { id: "server1", type: "http", url: "http://127.0.0.1:9991/" },
+          { id: "server2", type: "http", url: "http://127.0.0.1:9992/" },
+        ],
+        policy: {
+          providers: {
+            server1: { deny: ["upper*"] },
+            server2: { readOnly: true },
+          },
+        },
+      },
+      getDefaultProvidersPath()
+    );
+
+    const { app, close } = await createMcpProxy({
+      db,
+      config: { ...loadConfig(), mcpProxyPort: 19989 },
+      sessionId,
+    });
+
+    try {
+      await app.listen({ port: 19989, host: "127.0.0.1" });
+      const rpc = (method: string, params?: unknown) =>
+        fetch("http://127.0.0.1:19989/", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ jsonrpc: "2.0", method, params, id: 1 }),
+        });
+
+      const list = (await (await rpc("tools/list")).json()) as {
+        result: { tools: Array<{ name: string }> };
+      };
+      expect(list.result.tools.map((t) => t.name)).toEqual([
+        "server1.echo",
+        "server2.reverse",
+      ]);
+
+      const denied = await rpc("tools/call", {
+        name: "server1.uppercase",
+        arguments: { text: "hi" },
+      });
+      expect(denied.status).toBe(200);
+      const body = (await denied.json()) as {
+        error: { message: string; data: { category: string } };
+      };
+      expect(body.error.data.category).toBe("policy_denied");
+      expect(body.error.message).toContain("server1.uppercase");
+
+      const lowercase = await rpc("tools/call", { name: "server2.lowercase" });
+      expect(lowercase.status).toBe(200);
+      expect(
+        ((await lowercase.json()) as typeof body).error.data.category
+      ).toBe("policy_denied");
+      expect(
+        (await rpc("tools/call", { name: "server2.reverse" })).status
+      ).toBe(200);
+
+      const events = db
+        .prepare(
+          "SELECT tool_name, status, error_category FROM events WHERE session_id = ? ORDER BY sequence ASC"
+        )
+        .all(sessionId);
+      expect(events).toEqual([
+        {
+          tool_name: "uppercase",
+          status: "error",
+          error_category: "policy_denied",
+        },
+        {
+          tool_name: "lowercase",
+          status: "error",
+          error_category: "policy_denied",
+        },
+        { tool_name: "reverse", status: "success", error_category: null },
+      ]);
+    } finally {
+      await close();
+      if (fs.existsSync(getDefaultProvidersPath())) {
+        fs.unlinkSync(getDefaultProvidersPath());
+      }
+    }
+  });
+
+  it("retries a failing provider, opens its circuit and reports its health", async () => {
+    writeProvidersFile(
+      {
+        version: 1,
+        providers: [
+          { id: "server1", type: "http", url: "http://127.0.0.1:9991/" },
+          { id: "unreachable", type: "http", url: "http://127.0.0.1:19999/" },
+        ],
+      },
+      getDefaultProvidersPath()
+    );
+
+    const { app, close } = await createMcpProxy({
+      db,
+      config: {
+        ...loadConfig(),
+        mcpProxyPort: 19998,
+        hub: {
+          retries: 1,
+          retryDelayMs: 1,
+          breakerThreshold: 2,
+          breakerCooldownMs: 60_000,
+        },
+      },
+      sessionId,
+    });
+
+    try {
+      await app.listen({ port: 19998, host: "127.0.0.1" });
+      const rpc = (method: string, params?: unknown) =>
+        fetch("http://127.0.0.1:19998/", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ jsonrpc: "2.0", method, params, id: 1 }),
+        });
+
+      // tools/list is retried once; both attempts fail and open the circuit
+      expect((await rpc("tools/list")).status).toBe(200);
+
+      const call = await rpc("tools/call", {
+        name: "unreachable.echo",
+        arguments: {},
+      });
+      expect(call.status).toBe(503);
+      const body = (await call.json()) as {
+        error: { data: { category: string } };
+      };
+      expect(body.error.data.category).toBe("circuit_open");
+
+      const healthResponse = await fetch(
+        "http://127.0.0.1:19998/hub/providers"
+      );
+      const { providers } = (await healthResponse.json()) as {
+        providers: ProviderHealth[];
+      };
+      expect(providers.map((p) => [p.id, p.circuit, p.failures])).toEqual([
+        ["server1", "closed", 0],
+        ["unreachable", "open", 2],
+      ]);
+      expect(providers[0]!.errorRate).toBe(0);
+      expect(providers[1]!.retryAt).not.toBeNull();
+
+      const event = db
+        .prepare(
+          "SELECT status, upstream_key FROM events WHERE session_id = ? AND tool_name = 'echo'"
+        )
+        .get(sessionId);
+      expect(event).toEqual({ status: "error", upstream_key: "unreachable" });
+    } finally {
+      await close();
+      if (fs.existsSync(getDefaultProvidersPath())) {
+        fs.unlinkSync(getDefaultProvidersPath());
+      }
+    }
+  });
+
+  it("spawns stdio providers and routes tools/list and tools/call to them", async () => {
+    const scriptDir = fs.mkdtempSync(join(tmpdir(), "ar-hub-stdio-"));
+    const scriptPath = join(scriptDir, "server.mjs");
+    fs.writeFileSync(scriptPath, MOCK_STDIO_SERVER);
+
+    writeProvidersFile(
+      {
+        version: 1,
+        providers: [
+          { id: "server1", type: "http", url: "http://127.0.0.1:9991/" },
+          {
+            id: "local",
+            type: "stdio",
+            command: process.execPath,
+            args: [scriptPath],
+          },
+        ],
+      },
+      getDefaultProvidersPath()
+    );
+
+    const config = loadConfig();
+    const { app, close } = await createMcpProxy({
+      db,
+      config: {
+        ...config,
+        mcpProxyPort: 19995,
+      },
+      sessionId,
+    });
+
+    try {
+      await app.listen({ port: 19995, host: "127.0.0.1" });
+
+      const listResponse = await fetch("http://127.0.0.1:19995/", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jsonrpc: "2.0", method: "tools/list", id: 6 }),
+      });
+      const listData = (await listResponse.json()) as {
+        result: { tools: Array<{ name: string }> };
+      };
+      expect(listData.result.tools.map((t) => t.name).sort()).toEqual([
+        "local.read",
+        "server1.echo",
+        "server1.uppercase",
+      ]);
+
+      const callResponse = await fetch("http://127.0.0.1:19995/", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          method: "tools/call",
+          params: { name: "local.read", arguments: { path: "/tmp" } },
+          id: "call-7",
+        }),
+      });
+
+      expect(callResponse.status).toBe(200);
+      const callData = (await callResponse.json()) as {
+        result: { content: Array<{ text: string }> };
+        id: string;
+      };
+      expect(callData.id).toBe("call-7");
+      expect(callData.result.content[0]!.text).toBe("stdio:read");
+
+      const events = db
+        .prepare("SELECT * FROM events WHERE session_id = ?")
+        .all(sessionId) as Array<{
+        tool_name: string;
+        upstream_key: string;
+        status: string;
+      }>;
+      expect(events).toHaveLength(1);
+      expect(events[0]!.tool_name).toBe("read");
+      expect(events[0]!.upstream_key).toBe("local");
+      expect(events[0]!.status).toBe("success");
+    } finally {
+      await close();
+      fs.rmSync(scriptDir, { recursive: true, force: true });
+      if (fs.existsSync(getDefaultProvidersPath())) {
+        fs.unlinkSync(getDefaultProvidersPath());
+      }
+    }
+  });
+
+  it("advertises only the capabilities its providers offer on initialize", async () => {
+    const scriptDir = fs.mkdtempSync(join(tmpdir(), "ar-hub-stdio-"));
+    const scriptPath = join(scriptDir, "server.mjs");
+    fs.writeFileSync(scriptPath, MOCK_STDIO_SERVER);
+
+    writeProvidersFile(
+      {
+        version: 1,
+        providers: [
+          {
+            id: "local",
+            type: "stdio",
+            command: process.execPath,
+            args: [scriptPath],
+          },
+        ],
+      },
+      getDefaultProvidersPath()
+    );
+
+    const { app, close } = await createMcpProxy({
+      db,
+      config: { ...loadConfig(), downstreamMcpUrl: null },
+      sessionId,
+    });
+
+    try {
+      // Waits for the stdio handshake, which reports { tools: {} }
+      await app.inject({
+        method: "POST",
+        url: "/",
+        payload: { jsonrpc: "2.0", method: "tools/list", id: 1 },
+      });
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/",
+        payload: {
+          jsonrpc: "2.0",
+          method: "initialize",
+          params: { protocolVersion: "2025-03-26", capabilities: {} },
+          id: 2,
+        },
+      });
+
+      expect(response.json()).toEqual({
+        jsonrpc: "2.0",
+        result: {
+          protocolVersion: "2025-03-26",
+          capabilities: { tools: {} },
+          serverInfo: { name: "agent-recorder-hub", version: "1.0" },
+        },
+        id: 2,
+      });
+    } finally {
+      await close();
+      fs.rmSync(scriptDir, { recursive: true, force: true });
+      if (fs.existsSync(getDefaultProvidersPath())) {
+        fs.unlinkSync(getDefaultProvidersPath());
+      }
+    }
+  });
 });
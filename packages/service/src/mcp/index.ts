@@ -3,5 +3,12 @@
  */
 
 export { createMcpProxy, type McpProxyOptions } from "./proxy.js";
-export { recordToolCall, type RecordToolCallOptions } from "./recorder.js";
+export {
+  recordToolCall,
+  startToolCall,
+  finishToolCall,
+  type RecordToolCallOptions,
+  type StartToolCallOptions,
+  type FinishToolCallOptions,
+} from "./recorder.js";
 export * from "./types.js";
@@ -0,0 +1,114 @@
+/**
+ * Tests for hub provider health tracking, retries and circuit breaking.
+ * Uses a fake clock so cooldowns don't slow the suite.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  ProviderCircuitOpenError,
+  ProviderHealthTracker,
+} from "./provider-health.js";
+
+describe("ProviderHealthTracker", () => {
+  let clock = 0;
+
+  function createTracker(retries = 0): ProviderHealthTracker {
+    clock = 1_000;
+    return new ProviderHealthTracker({
+      retries,
+      retryDelayMs: 1,
+      breakerThreshold: 2,
+      breakerCooldownMs: 30_000,
+      now: () => clock,
+    });
+  }
+
+  const fail = () => Promise.reject(new Error("ECONNREFUSED"));
+
+  it("tracks error rate, latency and last success", async () => {
+    const tracker = createTracker();
+    await tracker.call("a", () => Promise.resolve("ok"), { retry: false });
+    tracker.recordSuccess("a", 30);
+    await expect(tracker.call("a", fail, { retry: false })).rejects.toThrow(
+      "ECONNREFUSED"
+    );
+
+    const health = tracker.getHealth("a", "http");
+    expect(health.errorRate).toBeCloseTo(1 / 3);
+    expect(health.avgLatencyMs).toBe(10);
+    expect(health.lastSuccessAt).toBe(new Date(1_000).toISOString());
+    expect(health.lastError).toBe("ECONNREFUSED");
+    expect(health.circuit).toBe("closed");
+  });
+
+  it("opens after consecutive failures and closes after a successful trial", async () => {
+    const tracker = createTracker();
+    for (let i = 0; i < 2; i++) {
+      await tracker.call("a", fail, { retry: false }).catch(() => null);
+    }
+
+    expect(tracker.getCircuitState("a")).toBe("open");
+    await expect(
+      tracker.call("a", () => Promise.resolve("ok"), { retry: false })
+    ).rejects.toBeInstanceOf(ProviderCircuitOpenError);
+
+    // After the cooldown one trial goes through; a concurrent one doesn't
+    clock += 30_000;
+    expect(tracker.getCircuitState("a")).toBe("half_open");
+    expect(tracker.tryAcquire("a")).toBe(true);
+    expect(tracker.tryAcquire("a")).toBe(false);
+    tracker.recordSuccess("a", 5);
+    expect(tracker.getHealth("a", "http")).toMatchObject({
+      circuit: "closed",
+      consecutiveFailures: 0,
+      retryAt: null,
+    });
+  });
+
+  it("re-opens when the half-open trial fails", () => {
+    const tracker = createTracker();
+    tracker.recordFailure("a", 1, "HTTP 503");
+    tracker.recordFailure("a", 1, "HTTP 503");
+
+    clock += 30_000;
+    expect(tracker.tryAcquire("a")).toBe(true);
+    tracker.recordFailure("a", 1, "HTTP 503");
+    expect(tracker.getCircuitState("a")).toBe("open");
+    expect(tracker.getHealth("a", "http").retryAt).toBe(
+      new Date(clock + 30_000).toISOString()
+    );
+  });
+
+  it("retries transient failures but not timeouts or failed results", async () => {
+    const tracker = createTracker(1);
+    let attempts = 0;
+    const flaky = () =>
+      ++attempts === 1 ? fail() : Promise.resolve({ status: 200 });
+    await expect(tracker.call("a", flaky, { retry: true })).resolves.toEqual({
+      status: 200,
+    });
+    expect(attempts).toBe(2);
+
+    attempts = 0;
+    const timeout = Object.assign(new Error("aborted"), { name: "AbortError" });
+    await expect(
+      tracker.call(
+        "b",
+        () => {
+          attempts++;
+          return Promise.reject(timeout);
+        },
+        { retry: true }
+      )
+    ).rejects.toBe(timeout);
+    expect(attempts).toBe(1);
+
+    // The last failed result is returned to the caller as-is
+    const result = await tracker.call("c", () => Promise.resolve(503), {
+      retry: true,
+      failureOf: (status) => (status >= 500 ? `HTTP ${status}` : null),
+    });
+    expect(result).toBe(503);
+    expect(tracker.getHealth("c", "http").failures).toBe(2);
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Health tracking, retries and circuit breaking for hub providers.
+ *
+ * Every request the hub sends to a provider is recorded as a success or a
+ * failure. Only transport-level problems count as failures (unreachable,
+ * timeout, HTTP 5xx/429); JSON-RPC errors mean the provider is healthy.
+ * After `breakerThreshold` consecutive failures the provider's circuit
+ * opens and requests fast-fail until the cooldown passes, then a single
+ * trial request decides whether it closes again.
+ */
+
+import type {
+  HubResilienceConfig,
+  Provider,
+  ProviderCircuitState,
+  ProviderHealth,
+} from "@agent-recorder/core";
+
+/** Number of recent requests the error rate and latency are computed over */
+const DEFAULT_WINDOW_SIZE = 20;
+
+/**
+ * Thrown instead of calling a provider whose circuit is open.
+ */
+export class ProviderCircuitOpenError extends Error {
+  override name = "ProviderCircuitOpenError";
+
+  constructor(
+    readonly providerId: string,
+    readonly retryAt: string | null
+  ) {
+    super(`Provider ${providerId} is unavailable (circuit open)`);
+  }
+}
+
+export interface ProviderHealthTrackerOptions extends HubResilienceConfig {
+  /** Number of recent requests for error rate and latency (default: 20) */
+  windowSize?: number;
+  /** Clock in ms, for tests (default: Date.now) */
+  now?: () => number;
+}
+
+export interface ProviderCallOptions<T> {
+  /** Retry transient failures (idempotent methods only) */
+  retry: boolean;
+  /** Describe a resolved result that is a failure (e.g. HTTP 503), or null */
+  failureOf?: (result: T) => string | null;
+  /** Release a failed result before retrying (e.g. cancel a response body) */
+  discard?: (result: T) => void;
+}
+
+interface ProviderStats {
+  /** Recent outcomes, oldest first */
+  window: { ok: boolean; latencyMs: number }[];
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastLatencyMs: number | null;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  /** When the circuit opened (null while closed) */
+  openedAt: number | null;
+  /** When the current half-open trial request started */
+  trialStartedAt: number | null;
+}
+
+/**
+ * Describe an HTTP response that counts against a provider's health.
+ */
+export function httpFailureOf(response: Response): string | null {
+  return response.status >= 500 || response.status === 429
+    ? `HTTP ${response.status}`
+    : null;
+}
+
+/**
+ * In-memory health of each provider the hub talks to.
+ * State resets when the daemon restarts.
+ */
+export class ProviderHealthTracker {
+  private stats = new Map<string, ProviderStats>();
+  private options: Required<ProviderHealthTrackerOptions>;
+
+  constructor(options: ProviderHealthTrackerOptions) {
+    this.options = {
+      windowSize: DEFAULT_WINDOW_SIZE,
+      now: Date.now,
+      ...options,
+    };
+  }
+
+  private statsFor(providerId: string): ProviderStats {
+    let stats = this.stats.get(providerId);
+    if (!stats) {
+      stats = {
+        window: [],
+        requests: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        lastLatencyMs: null,
+        lastSuccessAt: null,
+        lastFailureAt: null,
+        lastError: null,
+        openedAt: null,
+        trialStartedAt: null,
+      };
+      this.stats.set(providerId, stats);
+    }
+    return stats;
+  }
+
+  private record(stats: ProviderStats, ok: boolean, latencyMs: number): void {
+    stats.window.push({ ok, latencyMs });
+    if (stats.window.length > this.options.windowSize) {
+      stats.window.shift();
+    }
+    stats.requests++;
+    stats.lastLatencyMs = latencyMs;
+  }
+
+  /**
+   * Check whether a request may be sent. While the circuit is open this
+   * returns false; once the cooldown has passed, the first caller claims
+   * the half-open trial (which expires after another cooldown, in case the
+   * trial never reports back).
+   */
+  tryAcquire(providerId: string): boolean {
+    const stats = this.statsFor(providerId);
+    if (stats.openedAt === null) return true;
+
+    const now = this.options.now();
+    const { breakerCooldownMs } = this.options;
+    if (now < stats.openedAt + breakerCooldownMs) return false;
+    if (
+      stats.trialStartedAt !== null &&
+      now < stats.trialStartedAt + breakerCooldownMs
+    ) {
+      return false;
+    }
+    stats.trialStartedAt = now;
+    return true;
+  }
+
+  recordSuccess(providerId: string, latencyMs: number): void {
+    const stats = this.statsFor(providerId);
+    this.record(stats, true, latencyMs);
+    stats.consecutiveFailures = 0;
+    stats.lastSuccessAt = this.options.now();
+    stats.openedAt = null;
+    stats.trialStartedAt = null;
+  }
+
+  recordFailure(providerId: string, latencyMs: number, error: string): void {
+    const stats = this.statsFor(providerId);
+    const now = this.options.now();
+    this.record(stats, false, latencyMs);
+    stats.failures++;
+    stats.consecutiveFailures++;
+    stats.lastFailureAt = now;
+    stats.lastError = error;
+
+    // A failed trial re-opens the circuit for another cooldown
+    if (
+      stats.openedAt !== null ||
+      stats.consecutiveFailures >= this.options.breakerThreshold
+    ) {
+      stats.openedAt = now;
+      stats.trialStartedAt = null;
+    }
+  }
+
+  /** When an open circuit lets the next trial through (null while closed) */
+  private retryAt(stats: ProviderStats): string | null {
+    return stats.openedAt === null
+      ? null
+      : new Date(stats.openedAt + this.options.breakerCooldownMs).toISOString();
+  }
+
+  getCircuitState(providerId: string): ProviderCircuitState {
+    const stats = this.stats.get(providerId);
+    if (!stats || stats.openedAt === null) return "closed";
+    return this.options.now() < stats.openedAt + this.options.breakerCooldownMs
+      ? "open"
+      : "half_open";
+  }
+
+  getHealth(providerId: string, type: Provider["type"]): ProviderHealth {
+    const stats = this.statsFor(providerId);
+    const { window } = stats;
+    const toIso = (ms: number | null) =>
+      ms === null ? null : new Date(ms).toISOString();
+
+    return {
+      id: providerId,
+      type,
+      circuit: this.getCircuitState(providerId),
+      errorRate:
+        window.length > 0
+          ? window.filter((o) => !o.ok).length / window.length
+          : null,
+      requests: stats.requests,
+      failures: stats.failures,
+      consecutiveFailures: stats.consecutiveFailures,
+      avgLatencyMs:
+        window.length > 0
+          ? Math.round(
+              window.reduce((sum, o) => sum + o.latencyMs, 0) / window.length
+            )
+          : null,
+      lastLatencyMs: stats.lastLatencyMs,
+      lastSuccessAt: toIso(stats.lastSuccessAt),
+      lastFailureAt: toIso(stats.lastFailureAt),
+      lastError: stats.lastError,
+      retryAt: this.retryAt(stats),
+    };
+  }
+
+  /**
+   * Run a provider request through the circuit breaker, recording each
+   * attempt. With `retry`, transient failures are retried with exponential
+   * backoff (timeouts are not, since they already took the full timeout).
+   * A failed result from the last attempt is returned to the caller as-is.
+   *
+   * @throws ProviderCircuitOpenError if the circuit is open
+   */
+  async call<T>(
+    providerId: string,
+    run: () => Promise<T>,
+    options: ProviderCallOptions<T>
+  ): Promise<T> {
+    const { retries, retryDelayMs, now } = this.options;
+
+    for (let attempt = 0; ; attempt++) {
+      if (!this.tryAcquire(providerId)) {
+        throw new ProviderCircuitOpenError(
+          providerId,
+          this.retryAt(this.statsFor(providerId))
+        );
+      }
+
+      const startedAt = now();
+      let result: T | undefined;
+      let threw = false;
+      let error: unknown;
+      let failure: string | null;
+      try {
+        result = await run();
+        failure = options.failureOf?.(result) ?? null;
+      } catch (caught) {
+        threw = true;
+        error = caught;
+        failure = caught instanceof Error ? caught.message : String(caught);
+      }
+
+      const latencyMs = now() - startedAt;
+      if (failure === null) {
+        this.recordSuccess(providerId, latencyMs);
+        return result as T;
+      }
+      this.recordFailure(providerId, latencyMs, failure);
+
+      const isTimeout = error instanceof Error && error.name === "AbortError";
+      if (!options.retry || isTimeout || attempt >= retries) {
+        if (threw) throw error;
+        return result as T;
+      }
+
+      if (!threw) options.discard?.(result as T);
+      await new Promise((resolve) =>
+        setTimeout(resolve, retryDelayMs * 2 ** attempt)
+      );
+    }
+  }
+}
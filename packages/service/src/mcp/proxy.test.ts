@@ -17,6 +17,7 @@ import {
   runMigrations,
   createSession,
   getEventsBySession,
+  getSessionById,
   loadConfig,
   type Config,
 } from "@agent-recorder/core";
@@ -316,6 +317,45 @@ describe("MCP Proxy - Error Handling", () => {
     await proxy.close();
   });
 
+  it("rejects an empty batch and answers invalid batch items in place", async () => {
+    const proxy = await createMcpProxy({
+      db,
+      config: { ...loadConfig(), mcpProxyPort: 0, downstreamMcpUrl: null },
+      sessionId: null,
+    });
+
+    const empty = await proxy.app.inject({
+      method: "POST",
+      url: "/",
+      payload: [],
+    });
+    expect(empty.statusCode).toBe(400);
+
+    const mixed = await proxy.app.inject({
+      method: "POST",
+      url: "/",
+      payload: [{ jsonrpc: "1.0", method: "x", id: 1 }, 42],
+    });
+    expect(mixed.statusCode).toBe(200);
+    expect(mixed.json()).toEqual([
+      {
+        jsonrpc: "2.0",
+        error: {
+          code: -32600,
+          message: "Invalid JSON-RPC version (expected 2.0)",
+        },
+        id: null,
+      },
+      {
+        jsonrpc: "2.0",
+        error: { code: -32600, message: "Request body must be an object" },
+        id: null,
+      },
+    ]);
+
+    await proxy.close();
+  });
+
   it("returns 503 when downstream URL is not configured", async () => {
     const config: Config = {
       ...loadConfig(),
@@ -452,11 +492,12 @@ describe("MCP Proxy - Error Handling", () => {
     });
     await proxy.app.ready();
 
-    // Send an array (valid JSON but not a valid JSON-RPC request object)
+    // Send a string (valid JSON but not a JSON-RPC request or batch)
     const response = await proxy.app.inject({
       method: "POST",
       url: "/",
-      payload: [1, 2, 3],
+      headers: { "content-type": "application/json" },
+      payload: JSON.stringify("tools/list"),
     });
 
     expect(response.statusCode).toBe(400);
@@ -632,3 +673,288 @@ describe("MCP Proxy - Error Handling", () => {
   });
   */
 });
+
+describe("MCP Proxy - SSE streaming", () => {
+  let downstreamServer: FastifyInstance;
+  let db: Database.Database;
+  let proxy: Awaited<ReturnType<typeof createMcpProxy>>;
+  let sessionId: string;
+  let releaseFinal: () => void = () => {};
+
+  beforeEach(async () => {
+    // Downstream replies to tools/call with a progress notification, waits
+    // until the test releases it, then sends another and the final result
+    downstreamServer = Fastify({ logger: false });
+    downstreamServer.post("/", async (request, reply) => {
+      const body = request.body as { id?: unknown };
+      const release = new Promise<void>((resolve) => {
+        releaseFinal = resolve;
+      });
+      const frame = (message: unknown) =>
+        `event: message\ndata: ${JSON.stringify(message)}\n\n`;
+      const progress = (value: number) =>
+        frame({
+          jsonrpc: "2.0",
+          method: "notifications/progress",
+          params: { progressToken: "t1", progress: value, total: 2 },
+        });
+
+      reply.hijack();
+      reply.raw.writeHead(200, { "Content-Type": "text/event-stream" });
+      reply.raw.write(progress(1));
+      await release;
+      reply.raw.write(progress(2));
+      reply.raw.end(
+        frame({
+          jsonrpc: "2.0",
+          result: { content: [{ type: "text", text: "done" }] },
+          id: body.id ?? null,
+        })
+      );
+    });
+    await downstreamServer.listen({ port: 0, host: "127.0.0.1" });
+    const address = downstreamServer.server.address();
+    const downstreamPort =
+      typeof address === "object" && address ? address.port : 3000;
+
+    db = openMemoryDatabase();
+    runMigrations(db, join(__dirname, "..", "..", "..", "core", "migrations"));
+    sessionId = randomUUID();
+    createSession(db, sessionId, new Date().toISOString());
+
+    proxy = await createMcpProxy({
+      db,
+      config: {
+        ...loadConfig(),
+        mcpProxyPort: 0,
+        downstreamMcpUrl: `http://127.0.0.1:${downstreamPort}`,
+      },
+      sessionId,
+    });
+    await proxy.app.listen({ port: 0, host: "127.0.0.1" });
+  });
+
+  afterEach(async () => {
+    await proxy.close();
+    await downstreamServer.close();
+    db.close();
+  });
+
+  function proxyUrl(): string {
+    const address = proxy.app.server.address();
+    const port = typeof address === "object" && address ? address.port : 0;
+    return `http://127.0.0.1:${port}/`;
+  }
+
+  it("streams frames to the client before the downstream finishes", async () => {
+    const response = await fetch(proxyUrl(), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name: "build", arguments: {} },
+        id: 7,
+      }),
+    });
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let received = "";
+    while (!received.includes("\n\n")) {
+      const { value } = await reader.read();
+      received += decoder.decode(value, { stream: true });
+    }
+
+    // First progress frame arrived while the call is still running
+    expect(received).toContain('"progress":1');
+    expect(getEventsBySession(db, sessionId)[0]!.status).toBe("running");
+
+    releaseFinal();
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      received += decoder.decode(value, { stream: true });
+    }
+    expect(received).toContain('"progress":2');
+    expect(received).toContain('"text":"done"');
+  });
+
+  it("records progress notifications as child events of the tool call", async () => {
+    const pending = proxy.app.inject({
+      method: "POST",
+      url: "/",
+      payload: {
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name: "build", arguments: {} },
+        id: 8,
+      },
+    });
+    // Let the first frame through, then finish the stream
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    releaseFinal();
+    await pending;
+
+    const events = getEventsBySession(db, sessionId);
+    const call = events.find((e) => e.mcpMethod === "tools/call")!;
+    const progress = events.filter(
+      (e) => e.mcpMethod === "notifications/progress"
+    );
+
+    expect(call.status).toBe("success");
+    expect(JSON.parse(call.outputJson!)).toEqual({
+      content: [{ type: "text", text: "done" }],
+    });
+    expect(progress).toHaveLength(2);
+    expect(progress.every((e) => e.parentEventId === call.id)).toBe(true);
+    expect(progress.map((e) => JSON.parse(e.inputJson!).progress)).toEqual([
+      1, 2,
+    ]);
+  });
+});
+
+describe("MCP Proxy - Streamable HTTP sessions", () => {
+  let downstreamServer: FastifyInstance;
+  let db: Database.Database;
+  let proxy: Awaited<ReturnType<typeof createMcpProxy>>;
+  let deletedSessions: string[];
+
+  beforeEach(async () => {
+    // Downstream issues "upstream-1" on initialize and echoes the session
+    // header it receives on every other request
+    deletedSessions = [];
+    downstreamServer = Fastify({ logger: false });
+    downstreamServer.post("/", async (request, reply) => {
+      const body = request.body as { method: string; id?: unknown };
+      if (body.method === "initialize") {
+        reply.header("Mcp-Session-Id", "upstream-1");
+        return { jsonrpc: "2.0", result: { capabilities: {} }, id: body.id };
+      }
+      return {
+        jsonrpc: "2.0",
+        result: { upstreamSession: request.headers["mcp-session-id"] ?? null },
+        id: body.id ?? null,
+      };
+    });
+    downstreamServer.get("/", async (request, reply) => {
+      reply.hijack();
+      reply.raw.writeHead(200, { "Content-Type": "text/event-stream" });
+      reply.raw.end(
+        `data: ${JSON.stringify({ upstreamSession: request.headers["mcp-session-id"] })}\n\n`
+      );
+    });
+    downstreamServer.delete("/", async (request, reply) => {
+      deletedSessions.push(String(request.headers["mcp-session-id"]));
+      return reply.code(204).send();
+    });
+    await downstreamServer.listen({ port: 0, host: "127.0.0.1" });
+    const address = downstreamServer.server.address();
+    const downstreamPort =
+      typeof address === "object" && address ? address.port : 3000;
+
+    db = openMemoryDatabase();
+    runMigrations(db, join(__dirname, "..", "..", "..", "core", "migrations"));
+    const daemonSessionId = randomUUID();
+    createSession(db, daemonSessionId, new Date().toISOString());
+
+    proxy = await createMcpProxy({
+      db,
+      config: {
+        ...loadConfig(),
+        mcpProxyPort: 0,
+        downstreamMcpUrl: `http://127.0.0.1:${downstreamPort}`,
+      },
+      sessionId: daemonSessionId,
+    });
+  });
+
+  afterEach(async () => {
+    await proxy.close();
+    await downstreamServer.close();
+    db.close();
+  });
+
+  async function initialize(): Promise<string> {
+    const response = await proxy.app.inject({
+      method: "POST",
+      url: "/",
+      payload: { jsonrpc: "2.0", method: "initialize", params: {}, id: 1 },
+    });
+    return String(response.headers["mcp-session-id"]);
+  }
+
+  it("issues its own session id on initialize and records a session", async () => {
+    const mcpSessionId = await initialize();
+
+    expect(mcpSessionId).not.toBe("upstream-1");
+    expect(getSessionById(db, mcpSessionId)?.status).toBe("active");
+  });
+
+  it("maps the session to the upstream's id and records calls under it", async () => {
+    const mcpSessionId = await initialize();
+
+    const response = await proxy.app.inject({
+      method: "POST",
+      url: "/",
+      headers: { "mcp-session-id": mcpSessionId },
+      payload: {
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name: "read", arguments: {} },
+        id: 2,
+      },
+    });
+
+    expect(response.headers["mcp-session-id"]).toBe(mcpSessionId);
+    expect(response.json().result).toEqual({ upstreamSession: "upstream-1" });
+    expect(getEventsBySession(db, mcpSessionId)).toHaveLength(1);
+  });
+
+  it("returns 404 for unknown session ids", async () => {
+    const response = await proxy.app.inject({
+      method: "POST",
+      url: "/",
+      headers: { "mcp-session-id": "missing" },
+      payload: { jsonrpc: "2.0", method: "tools/list", id: 3 },
+    });
+
+    expect(response.statusCode).toBe(404);
+    expect(response.json().error.code).toBe(-32001);
+  });
+
+  it("relays the upstream GET stream with the mapped session id", async () => {
+    const mcpSessionId = await initialize();
+
+    const response = await proxy.app.inject({
+      method: "GET",
+      url: "/",
+      headers: { "mcp-session-id": mcpSessionId },
+    });
+
+    expect(response.headers["content-type"]).toBe("text/event-stream");
+    expect(response.body).toContain('"upstreamSession":"upstream-1"');
+  });
+
+  it("ends the session upstream and locally on DELETE", async () => {
+    const mcpSessionId = await initialize();
+
+    const response = await proxy.app.inject({
+      method: "DELETE",
+      url: "/",
+      headers: { "mcp-session-id": mcpSessionId },
+    });
+
+    expect(response.statusCode).toBe(204);
+    expect(deletedSessions).toEqual(["upstream-1"]);
+    expect(getSessionById(db, mcpSessionId)?.status).toBe("completed");
+
+    const again = await proxy.app.inject({
+      method: "DELETE",
+      url: "/",
+      headers: { "mcp-session-id": mcpSessionId },
+    });
+    expect(again.statusCode).toBe(404);
+  });
+});
@@ -1,29 +1,77 @@
 /**
  * MCP Proxy using Streamable HTTP transport.
- * Handles POST requests only, returns application/json responses.
- * Records tools/call events to the database.
- * Supports hub mode: aggregates multiple HTTP providers.
+ * Handles POST (JSON responses relayed as-is, SSE streamed through as it
+ * arrives), GET (server-to-client SSE channel) and DELETE (end session),
+ * issuing its own Mcp-Session-Id per client connection.
+ * Records tools/call, prompts/get and resources/read events to the database.
+ * Supports hub mode: aggregates tools, resources and prompts from multiple
+ * HTTP and stdio providers.
  */
 
-import Fastify, { type FastifyInstance } from "fastify";
+import Fastify, {
+  type FastifyInstance,
+  type FastifyReply,
+  type FastifyRequest,
+} from "fastify";
 import type Database from "better-sqlite3";
-import type { Config, HttpProvider } from "@agent-recorder/core";
+import type {
+  Config,
+  HttpProvider,
+  Provider,
+  ProvidersFile,
+  StdioProvider,
+} from "@agent-recorder/core";
 import {
   readProvidersFile,
   getDefaultProvidersPath,
+  SseParser,
+  type SseMessage,
 } from "@agent-recorder/core";
 import { readFileSync } from "node:fs";
+import { randomUUID } from "node:crypto";
 import {
+  type JsonRpcErrorResponse,
   type JsonRpcRequest,
   type JsonRpcResponse,
-  isToolsCallRequest,
   isErrorResponse,
 } from "./types.js";
-import { recordToolCall } from "./recorder.js";
+import { recordToolCall, startToolCall, finishToolCall } from "./recorder.js";
+import {
+  StdioProviderClient,
+  StdioProviderTimeoutError,
+} from "./stdio-provider.js";
+import {
+  McpSessionStore,
+  MCP_SESSION_HEADER,
+  DEFAULT_UPSTREAM_KEY,
+  getSessionHeader,
+  upstreamSessionHeaders,
+  type McpSession,
+} from "./sessions.js";
+import {
+  getHubCapabilities,
+  getHubListMethod,
+  getRoutedCall,
+  isIdempotentMethod,
+  namespaceName,
+  namespaceRoutedResult,
+  parseNamespacedName,
+  setRoutedName,
+  type RoutedCall,
+} from "./hub-methods.js";
+import {
+  ProviderCircuitOpenError,
+  ProviderHealthTracker,
+  httpFailureOf,
+} from "./provider-health.js";
+import { ToolPolicy } from "./tool-policy.js";
 
 /** Default request timeout in milliseconds */
 const DEFAULT_TIMEOUT_MS = 60_000;
 
+/** MCP protocol version the hub offers when it answers initialize itself */
+const HUB_PROTOCOL_VERSION = "2024-11-05";
+
 /** Upstreams registry shape */
 interface UpstreamEntry {
   url: string;
@@ -65,6 +113,16 @@ const HOP_BY_HOP_HEADERS = new Set([
   "trailer",
 ]);
 
+/** A recorded call whose downstream response is streamed (SSE) */
+interface StreamedToolCall {
+  requestId: string | number | null | undefined;
+  mcpMethod: string;
+  toolName: string;
+  toolInput: unknown;
+  upstreamKey: string | null;
+  startedAt: string;
+}
+
 export interface McpProxyOptions {
   db: Database.Database;
   config: Config;
@@ -80,6 +138,168 @@ export interface CreateMcpProxyResult {
   close: () => Promise<void>;
 }
 
+/**
+ * Reply for an Mcp-Session-Id the proxy doesn't know (expired or never
+ * issued). Per the spec, the client must start over with initialize.
+ */
+function sendSessionNotFound(
+  reply: FastifyReply,
+  id: string | number | null | undefined
+): FastifyReply {
+  return reply.code(404).send({
+    jsonrpc: "2.0",
+    error: { code: -32001, message: "Session not found" },
+    id: id ?? null,
+  });
+}
+
+/**
+ * Error for a request fast-failed because its provider's circuit is open.
+ */
+function circuitOpenResponse(
+  error: ProviderCircuitOpenError,
+  id: string | number | null | undefined
+): JsonRpcErrorResponse {
+  return {
+    jsonrpc: "2.0",
+    error: {
+      code: -32000,
+      message: error.message,
+      data: { category: "circuit_open", retryAt: error.retryAt },
+    },
+    id: id ?? null,
+  };
+}
+
+/**
+ * Error for a tools/call rejected by the hub's tool policy.
+ */
+function policyDeniedResponse(
+  providerId: string,
+  toolName: string,
+  reason: string,
+  id: string | number | null | undefined
+): JsonRpcErrorResponse {
+  return {
+    jsonrpc: "2.0",
+    error: {
+      code: -32000,
+      message: `Tool ${namespaceName(providerId, toolName)} is denied by policy (${reason})`,
+      data: { category: "policy_denied" },
+    },
+    id: id ?? null,
+  };
+}
+
+/**
+ * Map a downstream HTTP error status to a user-friendly message and a
+ * stable category for the JSON-RPC error data.
+ */
+function describeHttpError(
+  statusCode: number,
+  statusText: string
+): { userMessage: string; category: string } {
+  if (statusCode === 401 || statusCode === 403) {
+    // Extra hint for common OAuth-only servers
+    console.error(
+      "  Note: Some MCP servers (e.g., Figma remote) only support OAuth, not Personal Access Tokens."
+    );
+    return {
+      userMessage: `Authentication failed (HTTP ${statusCode}). The upstream server rejected the credentials.`,
+      category: "auth_error",
+    };
+  }
+  if (statusCode === 404) {
+    return {
+      userMessage: `Upstream endpoint not found (HTTP ${statusCode}). Check the URL is correct.`,
+      category: "not_found",
+    };
+  }
+  if (statusCode >= 500) {
+    return {
+      userMessage: `Upstream server error (HTTP ${statusCode} ${statusText})`,
+      category: "server_error",
+    };
+  }
+  return {
+    userMessage: `Upstream returned HTTP ${statusCode} ${statusText}`,
+    category: "http_error",
+  };
+}
+
+/**
+ * Read the responses to a forwarded batch, from a JSON array (or single
+ * object) body or from the messages of an SSE body.
+ * Throws if the body isn't valid JSON.
+ */
+async function readBatchResponses(
+  response: Response
+): Promise<JsonRpcResponse[]> {
+  const text = await response.text();
+  if (response.status === 202 || !text.trim()) return [];
+
+  let messages: unknown[];
+  const contentType = response.headers.get("content-type") ?? "";
+  if (contentType.includes("text/event-stream")) {
+    const parser = new SseParser();
+    messages = [...parser.push(text), ...parser.end()].flatMap((m) => {
+      try {
+        return [JSON.parse(m.data) as unknown];
+      } catch {
+        return [];
+      }
+    });
+  } else {
+    messages = [JSON.parse(text) as unknown];
+  }
+
+  return messages
+    .flat()
+    .filter(
+      (m): m is JsonRpcResponse =>
+        typeof m === "object" &&
+        m !== null &&
+        "id" in m &&
+        ("result" in m || "error" in m)
+    );
+}
+
+/**
+ * Serialize an SSE message, rewriting the result of a JSON-RPC response in
+ * its data. Other messages keep their data.
+ */
+function formatSseMessage(
+  message: SseMessage,
+  rewriteResult: (result: unknown) => unknown
+): string {
+  let data = message.data;
+  try {
+    const payload = JSON.parse(data) as unknown;
+    if (
+      payload &&
+      typeof payload === "object" &&
+      !Array.isArray(payload) &&
+      "result" in payload
+    ) {
+      data = JSON.stringify({
+        ...payload,
+        result: rewriteResult(payload.result),
+      });
+    }
+  } catch {
+    // Not JSON: forward as is
+  }
+
+  let frame = "";
+  if (message.id !== null) frame += `id: ${message.id}\n`;
+  if (message.event !== "message") frame += `event: ${message.event}\n`;
+  if (message.retry !== null) frame += `retry: ${message.retry}\n`;
+  for (const line of data.split("\n")) {
+    frame += `data: ${line}\n`;
+  }
+  return frame + "\n";
+}
+
 /**
  * Validate minimal JSON-RPC 2.0 request shape.
  * Returns error message if invalid, null if valid.
@@ -127,6 +347,11 @@ function buildForwardHeaders(
       continue;
     }
 
+    // Session ids are per upstream (mapped from the proxy's own id)
+    if (lowerKey === MCP_SESSION_HEADER) {
+      continue;
+    }
+
     // Preserve authorization and other safe headers
     if (value !== undefined) {
       headers[key] = Array.isArray(value) ? value.join(", ") : value;
@@ -137,20 +362,19 @@ function buildForwardHeaders(
 }
 
 /**
- * Load HTTP providers from providers.json.
+ * Select HTTP and stdio providers from providers.json.
  * If no providers found and downstreamMcpUrl is set, creates implicit "default" provider.
  */
-function loadHttpProviders(
-  providersPath: string,
+function loadProviders(
+  providersFile: ProvidersFile,
   downstreamMcpUrl: string | null
-): HttpProvider[] {
-  const providersFile = readProvidersFile(providersPath);
-  const httpProviders = providersFile.providers.filter(
-    (p): p is HttpProvider => p.type === "http"
+): Provider[] {
+  const providers = providersFile.providers.filter(
+    (p) => p.type === "http" || p.type === "stdio"
   );
 
   // Fallback: if no providers and downstreamMcpUrl is set, create implicit default
-  if (httpProviders.length === 0 && downstreamMcpUrl) {
+  if (providers.length === 0 && downstreamMcpUrl) {
     return [
       {
         id: "default",
@@ -160,17 +384,68 @@ function loadHttpProviders(
     ];
   }
 
-  return httpProviders;
+  return providers;
 }
 
 /**
- * Call tools/list on a single provider.
- * Returns tools array or null on error.
+ * Extract the item array from a provider's list response.
+ * Returns null (and logs when debugging) if the response is unusable.
  */
-async function fetchProviderTools(
+function extractListItems(
+  providerId: string,
+  method: string,
+  data: JsonRpcResponse,
+  debugProxy: boolean
+): unknown[] | null {
+  const { resultKey } = getHubListMethod(method)!;
+
+  if (isErrorResponse(data)) {
+    if (debugProxy) {
+      console.warn(
+        `[Hub] Provider ${providerId} ${method} error: ${data.error.message}`
+      );
+    }
+    return null;
+  }
+
+  const result = data.result;
+  if (
+    !result ||
+    typeof result !== "object" ||
+    Array.isArray(result) ||
+    !(resultKey in result)
+  ) {
+    if (debugProxy) {
+      console.warn(
+        `[Hub] Provider ${providerId} ${method} result missing ${resultKey}`
+      );
+    }
+    return null;
+  }
+
+  const items = (result as Record<string, unknown>)[resultKey];
+  if (!Array.isArray(items)) {
+    if (debugProxy) {
+      console.warn(`[Hub] Provider ${providerId} ${method} returned non-array`);
+    }
+    return null;
+  }
+
+  return items;
+}
+
+/**
+ * Call a list method on a single HTTP provider.
+ * Returns the item array, or null if the provider's answer is unusable.
+ * Throws if the provider is unreachable, times out or answers HTTP 5xx/429
+ * (failures that count against its health).
+ */
+async function fetchHttpProviderList(
   provider: HttpProvider,
+  method: string,
   timeoutMs: number,
-  debugProxy: boolean
+  debugProxy: boolean,
+  sessionHeaders: Record<string, string> = {}
 ): Promise<unknown[] | null> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
@@ -182,146 +457,154 @@ async function fetchProviderTools(
         "Content-Type": "application/json",
         Accept: "application/json, text/event-stream",
         ...(provider.headers ?? {}),
+        ...sessionHeaders,
       },
       body: JSON.stringify({
         jsonrpc: "2.0",
-        method: "tools/list",
+        method,
         id: 1,
       }),
       signal: controller.signal,
     });
 
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      if (debugProxy) {
-        console.warn(
-          `[Hub] Provider ${provider.id} tools/list failed: HTTP ${response.status}`
-        );
-      }
-      return null;
-    }
-
-    const data = (await response.json()) as JsonRpcResponse;
-
-    if (isErrorResponse(data)) {
-      if (debugProxy) {
-        console.warn(
-          `[Hub] Provider ${provider.id} tools/list error: ${data.error.message}`
-        );
-      }
-      return null;
+    const failure = httpFailureOf(response);
+    if (failure) {
+      await response.body?.cancel();
+      throw new Error(failure);
     }
 
-    const result = data.result;
-    if (
-      !result ||
-      typeof result !== "object" ||
-      Array.isArray(result) ||
-      !("tools" in result)
-    ) {
+    if (!response.ok) {
       if (debugProxy) {
         console.warn(
-          `[Hub] Provider ${provider.id} tools/list result missing tools`
+          `[Hub] Provider ${provider.id} ${method} failed: HTTP ${response.status}`
         );
       }
       return null;
     }
 
-    const tools = (result as { tools: unknown }).tools;
-    if (!Array.isArray(tools)) {
+    const data = (await response
+      .json()
+      .catch(() => null)) as JsonRpcResponse | null;
+    if (!data) {
       if (debugProxy) {
-        console.warn(
-          `[Hub] Provider ${provider.id} tools/list returned non-array`
-        );
+        console.warn(`[Hub] Provider ${provider.id} ${method} invalid JSON`);
       }
       return null;
     }
-
-    return tools;
-  } catch (error) {
+    return extractListItems(provider.id, method, data, debugProxy);
+  } finally {
     clearTimeout(timeoutId);
-    if (debugProxy) {
-      const msg = error instanceof Error ? error.message : "Unknown error";
-      console.warn(`[Hub] Provider ${provider.id} unreachable: ${msg}`);
-    }
-    return null;
   }
 }
 
 /**
- * Aggregate tools/list from all HTTP providers with namespacing.
+ * Call a list method on a single stdio provider over its child's stdio.
+ * Returns the item array, or null if the answer is unusable.
+ * Throws if the child is unavailable or times out.
+ */
+async function fetchStdioProviderList(
+  client: StdioProviderClient,
+  method: string,
+  timeoutMs: number,
+  debugProxy: boolean
+): Promise<unknown[] | null> {
+  const data = await client.request(method, undefined, timeoutMs);
+  return extractListItems(client.provider.id, method, data, debugProxy);
+}
+
+/**
+ * Aggregate a list method (tools, resources, resource templates, prompts)
+ * from all providers with namespacing. List calls are idempotent, so
+ * transient provider failures are retried; providers that still fail (or
+ * whose circuit is open) are omitted, as are tools the policy denies.
  * Returns merged JSON-RPC response.
  */
-async function aggregateToolsList(
-  providers: HttpProvider[],
+async function aggregateList(
+  method: string,
+  providers: Provider[],
+  stdioClients: Map<string, StdioProviderClient>,
+  providerHealth: ProviderHealthTracker,
+  toolPolicy: ToolPolicy,
+  sessionHeadersFor: (
+    provider: HttpProvider
+  ) => Promise<Record<string, string>>,
   requestId: string | number | null | undefined,
   timeoutMs: number,
   debugProxy: boolean
 ): Promise<JsonRpcResponse> {
-  const allTools: unknown[] = [];
+  const { resultKey, idField } = getHubListMethod(method)!;
+  const allItems: unknown[] = [];
 
-  // Fetch tools from each provider in parallel
+  // Fetch items from each provider in parallel
   const results = await Promise.all(
-    providers.map((p) => fetchProviderTools(p, timeoutMs, debugProxy))
+    providers.map(async (p): Promise<unknown[] | null> => {
+      let run: () => Promise<unknown[] | null>;
+      if (p.type === "http") {
+        const headers = await sessionHeadersFor(p);
+        run = () =>
+          fetchHttpProviderList(p, method, timeoutMs, debugProxy, headers);
+      } else {
+        const client = stdioClients.get(p.id);
+        if (!client) return null;
+        run = () =>
+          fetchStdioProviderList(client, method, timeoutMs, debugProxy);
+      }
+
+      try {
+        return await providerHealth.call(p.id, run, { retry: true });
+      } catch (error) {
+        if (debugProxy) {
+          const msg = error instanceof Error ? error.message : "Unknown error";
+          console.warn(`[Hub] Provider ${p.id} unavailable: ${msg}`);
+        }
+        return null;
+      }
+    })
   );
 
   // Merge results with namespacing
   for (let i = 0; i < providers.length; i++) {
     const provider = providers[i]!;
-    const tools = results[i];
+    const items = results[i];
 
-    if (!tools) {
+    if (!items) {
       // Provider failed - skip but log
       if (debugProxy) {
-        console.log(`[Hub] Omitting tools from ${provider.id} (failed)`);
+        console.log(`[Hub] Omitting ${resultKey} from ${provider.id} (failed)`);
       }
       continue;
     }
 
-    // Namespace each tool with provider ID
-    for (const tool of tools) {
+    // Namespace each item with provider ID
+    const exposed =
+      method === "tools/list"
+        ? toolPolicy.filterTools(provider.id, items)
+        : items;
+    for (const item of exposed) {
       if (
-        tool &&
-        typeof tool === "object" &&
-        !Array.isArray(tool) &&
-        "name" in tool &&
-        typeof tool.name === "string"
+        item &&
+        typeof item === "object" &&
+        !Array.isArray(item) &&
+        typeof (item as Record<string, unknown>)[idField] === "string"
       ) {
-        const namespacedTool = {
-          ...tool,
-          name: `${provider.id}.${tool.name}`,
-        };
-        allTools.push(namespacedTool);
+        allItems.push({
+          ...item,
+          [idField]: namespaceName(
+            provider.id,
+            (item as Record<string, string>)[idField]!
+          ),
+        });
       }
     }
   }
 
   return {
     jsonrpc: "2.0",
-    result: { tools: allTools },
+    result: { [resultKey]: allItems },
     id: requestId ?? null,
   };
 }
 
-/**
- * Parse namespaced tool name into provider ID and tool name.
- * Returns null if format is invalid.
- */
-function parseNamespacedTool(
-  name: string
-): { providerId: string; toolName: string } | null {
-  const dotIndex = name.indexOf(".");
-  if (dotIndex === -1 || dotIndex === 0 || dotIndex === name.length - 1) {
-    return null;
-  }
-
-  return {
-    providerId: name.slice(0, dotIndex),
-    toolName: name.slice(dotIndex + 1),
-  };
-}
-
 /**
  * Create an MCP proxy server.
  */
@@ -333,28 +616,879 @@ export async function createMcpProxy(
     downstreamMcpUrl,
     upstreamsPath,
     redactKeys,
+    redactPatterns,
     mcpProxyPort,
     debugProxy,
   } = config;
 
-  // Load HTTP providers for hub mode
-  const providersPath = getDefaultProvidersPath();
-  const httpProviders = loadHttpProviders(providersPath, downstreamMcpUrl);
+  // Load providers and tool policies for hub mode
+  const providersFile = readProvidersFile(getDefaultProvidersPath());
+  const providers = loadProviders(providersFile, downstreamMcpUrl);
+  const toolPolicy = new ToolPolicy(providersFile.policy);
 
-  if (debugProxy && httpProviders.length > 0) {
+  if (debugProxy && providers.length > 0) {
     console.log(
-      `[Hub] Loaded ${httpProviders.length} HTTP provider(s):`,
-      httpProviders.map((p) => p.id).join(", ")
+      `[Hub] Loaded ${providers.length} provider(s):`,
+      providers.map((p) => `${p.id} (${p.type})`).join(", ")
     );
   }
 
+  // Spawn stdio providers up front so the handshake is done by first use
+  const stdioClients = new Map<string, StdioProviderClient>();
+  for (const provider of providers) {
+    if (provider.type === "stdio") {
+      const client = new StdioProviderClient({ provider, debugProxy });
+      stdioClients.set(provider.id, client);
+      client.start();
+    }
+  }
+
+  // Rolling health per provider; open circuits fast-fail requests
+  const providerHealth = new ProviderHealthTracker(config.hub);
+
+  // Capabilities HTTP providers reported when a session initialized them
+  const httpCapabilities = new Map<string, Record<string, unknown>>();
+
   const app = Fastify({ logger: false });
 
+  // Client sessions (Mcp-Session-Id), each recorded as its own session
+  const mcpSessions = new McpSessionStore({ db, record: sessionId !== null });
+
+  app.addHook("onClose", async () => {
+    await Promise.all([...stdioClients.values()].map((c) => c.stop()));
+    mcpSessions.endAll();
+  });
+
+  /**
+   * Initialize an HTTP provider on behalf of a client session (once), so
+   * requests routed to it carry the provider's own Mcp-Session-Id.
+   * Providers that reject initialize or issue no id are used sessionless.
+   */
+  const ensureProviderSession = (
+    provider: HttpProvider,
+    session: McpSession
+  ): Promise<string | null> => {
+    const existing = session.upstreamSessions.get(provider.id);
+    if (existing) return existing;
+
+    const headers = {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      ...(provider.headers ?? {}),
+    };
+    const initialize = async (): Promise<string | null> => {
+      try {
+        const response = await fetch(provider.url, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            jsonrpc: "2.0",
+            method: "initialize",
+            params: session.initializeParams ?? {
+              protocolVersion: HUB_PROTOCOL_VERSION,
+              capabilities: {},
+              clientInfo: { name: "agent-recorder-hub", version: "1.0" },
+            },
+            id: 0,
+          }),
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+        const [initialized] = await readBatchResponses(response).catch(
+          () => []
+        );
+        const upstreamId = response.headers.get(MCP_SESSION_HEADER);
+        if (!response.ok) return null;
+
+        const result = (
+          initialized && "result" in initialized
+            ? initialized.result
+            : undefined
+        ) as { capabilities?: unknown } | undefined;
+        if (typeof result?.capabilities === "object" && result.capabilities) {
+          httpCapabilities.set(
+            provider.id,
+            result.capabilities as Record<string, unknown>
+          );
+        }
+
+        await fetch(provider.url, {
+          method: "POST",
+          headers: {
+            ...headers,
+            ...(upstreamId && { "Mcp-Session-Id": upstreamId }),
+          },
+          body: JSON.stringify({
+            jsonrpc: "2.0",
+            method: "notifications/initialized",
+          }),
+          signal: AbortSignal.timeout(timeoutMs),
+        }).then((r) => r.text());
+        return upstreamId;
+      } catch (error) {
+        if (debugProxy) {
+          const msg = error instanceof Error ? error.message : "Unknown error";
+          console.warn(
+            `[Hub] Provider ${provider.id} initialize failed: ${msg}`
+          );
+        }
+        return null;
+      }
+    };
+
+    const pending = initialize();
+    session.upstreamSessions.set(provider.id, pending);
+    return pending;
+  };
+
+  /**
+   * Find the provider a routed call's prefixed name points at. Tool names
+   * are always namespaced in hub mode, so an unknown prefix is reported
+   * (provider null); prompt names and resource URIs may contain dots of
+   * their own, so those fall through to the downstream unchanged.
+   */
+  const resolveHubTarget = (
+    call: RoutedCall
+  ): { provider: Provider | null; providerId: string; name: string } | null => {
+    if (providers.length === 0) return null;
+
+    const parsed = parseNamespacedName(call.name);
+    if (!parsed) return null;
+
+    const provider = providers.find((p) => p.id === parsed.providerId);
+    if (!provider && call.method !== "tools/call") return null;
+    return { provider: provider ?? null, ...parsed };
+  };
+
+  /**
+   * Route a call (tools/call, prompts/get, resources/read) to a stdio
+   * provider and record it. Mirrors the HTTP path: 504 on timeout, 502 when
+   * the provider is unavailable, 503 while its circuit is open, otherwise
+   * 200 with the provider's response.
+   */
+  const callStdioProvider = async (
+    provider: StdioProvider,
+    body: JsonRpcRequest,
+    call: RoutedCall,
+    startedAt: string,
+    recordSessionId: string | null,
+    batchId: string | null = null
+  ): Promise<{ statusCode: number; response: JsonRpcResponse }> => {
+    const record = (
+      output: unknown,
+      status: "success" | "error" | "timeout"
+    ) => {
+      if (!recordSessionId) return;
+      recordToolCall({
+        db,
+        sessionId: recordSessionId,
+        toolName: call.name,
+        mcpMethod: call.method,
+        upstreamKey: provider.id,
+        batchId,
+        input: call.input,
+        output,
+        status,
+        startedAt,
+        endedAt: new Date().toISOString(),
+        redactKeys,
+        redactPatterns,
+        debugProxy,
+      });
+    };
+
+    try {
+      const client = stdioClients.get(provider.id)!;
+      const response = await providerHealth.call(
+        provider.id,
+        () => client.request(body.method, body.params, timeoutMs),
+        { retry: isIdempotentMethod(body.method) }
+      );
+
+      if (isErrorResponse(response)) {
+        record(response.error, "error");
+        return {
+          statusCode: 200,
+          response: { ...response, id: body.id ?? null },
+        };
+      }
+      record(response.result, "success");
+      return {
+        statusCode: 200,
+        response: {
+          ...response,
+          result: namespaceRoutedResult(
+            call.method,
+            provider.id,
+            response.result
+          ),
+          id: body.id ?? null,
+        },
+      };
+    } catch (error) {
+      if (error instanceof ProviderCircuitOpenError) {
+        const response = circuitOpenResponse(error, body.id);
+        record(
+          { code: response.error.code, message: response.error.message },
+          "error"
+        );
+        return { statusCode: 503, response };
+      }
+      if (error instanceof StdioProviderTimeoutError) {
+        record({ error: "Request timeout" }, "timeout");
+        return {
+          statusCode: 504,
+          response: {
+            jsonrpc: "2.0",
+            error: {
+              code: -32000,
+              message: "Request timeout",
+              data: { category: "timeout" },
+            },
+            id: body.id ?? null,
+          },
+        };
+      }
+
+      const errorMessage = `Cannot connect to stdio provider: ${provider.id}`;
+      console.error(
+        `${errorMessage} (${error instanceof Error ? error.message : "Unknown error"})`
+      );
+      record({ code: -32000, message: errorMessage }, "error");
+      return {
+        statusCode: 502,
+        response: {
+          jsonrpc: "2.0",
+          error: {
+            code: -32000,
+            message: errorMessage,
+            data: { category: "downstream_unreachable" },
+          },
+          id: body.id ?? null,
+        },
+      };
+    }
+  };
+
+  /**
+   * Stream a downstream SSE response to the client frame by frame while
+   * teeing it into the recorder. A recorded call is opened as a running event,
+   * progress notifications become its child events and the final JSON-RPC
+   * response completes it. With `rewriteResult` (hub-routed calls), messages
+   * are re-serialized so the client sees the rewritten result.
+   */
+  const streamSseResponse = async (
+    downstreamResponse: Response,
+    reply: FastifyReply,
+    call: StreamedToolCall | null,
+    recordSessionId: string | null,
+    extraHeaders: Record<string, string> = {},
+    rewriteResult?: (result: unknown) => unknown
+  ): Promise<void> => {
+    reply.hijack();
+    const client = reply.raw;
+    client.writeHead(downstreamResponse.status, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      ...extraHeaders,
+    });
+
+    const eventId =
+      call && recordSessionId
+        ? startToolCall({
+            db,
+            sessionId: recordSessionId,
+            toolName: call.toolName,
+            mcpMethod: call.mcpMethod,
+            upstreamKey: call.upstreamKey,
+            input: call.toolInput,
+            startedAt: call.startedAt,
+            redactKeys,
+            redactPatterns,
+            debugProxy,
+          })
+        : null;
+
+    const reader = downstreamResponse.body?.getReader();
+    const parser = new SseParser();
+    const decoder = new TextDecoder();
+    let finalResponse = null as JsonRpcResponse | null;
+    let clientClosed = false;
+
+    client.on("close", () => {
+      if (client.writableFinished) return;
+      clientClosed = true;
+      reader?.cancel().catch(() => {});
+    });
+
+    const handleMessages = (messages: SseMessage[]) => {
+      if (!call) return;
+
+      for (const message of messages) {
+        let payload: unknown;
+        try {
+          payload = JSON.parse(message.data);
+        } catch {
+          continue;
+        }
+        if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+          continue;
+        }
+
+        const msg = payload as Record<string, unknown>;
+        if (msg.method === "notifications/progress") {
+          if (eventId && recordSessionId) {
+            const now = new Date().toISOString();
+            recordToolCall({
+              db,
+              sessionId: recordSessionId,
+              parentEventId: eventId,
+              toolName: call.toolName,
+              mcpMethod: "notifications/progress",
+              upstreamKey: call.upstreamKey,
+              input: msg.params ?? null,
+              output: null,
+              status: "success",
+              startedAt: now,
+              endedAt: now,
+              redactKeys,
+              redactPatterns,
+              debugProxy,
+            });
+          }
+        } else if (
+          ("result" in msg || "error" in msg) &&
+          msg.id === (call.requestId ?? null)
+        ) {
+          finalResponse = msg as unknown as JsonRpcResponse;
+        }
+      }
+    };
+
+    let streamError: string | null = null;
+    try {
+      if (reader) {
+        for (;;) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          const messages = parser.push(decoder.decode(value, { stream: true }));
+          // Forward before recording; bytes pass through unchanged unless
+          // results are rewritten
+          if (!clientClosed) {
+            client.write(
+              rewriteResult
+                ? messages
+                    .map((m) => formatSseMessage(m, rewriteResult))
+                    .join("")
+                : value
+            );
+          }
+          handleMessages(messages);
+        }
+      }
+      const trailing = parser.end();
+      if (rewriteResult && !clientClosed) {
+        client.write(
+          trailing.map((m) => formatSseMessage(m, rewriteResult)).join("")
+        );
+      }
+      handleMessages(trailing);
+    } catch (error) {
+      if (!clientClosed) {
+        streamError = error instanceof Error ? error.message : "Unknown error";
+        console.error(`Downstream SSE stream failed: ${streamError}`);
+      }
+    } finally {
+      client.end();
+    }
+
+    if (!eventId) return;
+
+    const endedAt = new Date().toISOString();
+    if (finalResponse) {
+      const isError = isErrorResponse(finalResponse);
+      finishToolCall({
+        db,
+        eventId,
+        output: isErrorResponse(finalResponse)
+          ? finalResponse.error
+          : finalResponse.result,
+        status: isError ? "error" : "success",
+        endedAt,
+        redactKeys,
+        redactPatterns,
+        debugProxy,
+      });
+    } else {
+      finishToolCall({
+        db,
+        eventId,
+        output: clientClosed
+          ? null
+          : { error: streamError ?? "Stream ended without a response" },
+        status: clientClosed ? "cancelled" : "error",
+        endedAt,
+        redactKeys,
+        redactPatterns,
+        debugProxy,
+      });
+    }
+  };
+
+  /**
+   * Handle a JSON-RPC batch. Requests are grouped per upstream and each
+   * group is forwarded as one batch; hub-local methods (list methods, stdio
+   * providers) are answered directly. Responses are reassembled in request
+   * order and every recorded call carries the batch's correlation id.
+   */
+  const handleBatch = async (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    items: unknown[],
+    upstreamKeyStr: string | null
+  ) => {
+    if (items.length === 0) {
+      return reply.code(400).send({
+        jsonrpc: "2.0",
+        error: { code: -32600, message: "Empty batch" },
+        id: null,
+      });
+    }
+
+    // Batches never carry initialize, so the session comes from the header
+    const requestHeaders = request.headers as Record<
+      string,
+      string | string[] | undefined
+    >;
+    const headerSessionId = getSessionHeader(requestHeaders);
+    const mcpSession = headerSessionId
+      ? (mcpSessions.get(headerSessionId) ?? null)
+      : null;
+    if (headerSessionId && !mcpSession) {
+      return sendSessionNotFound(reply, null);
+    }
+    if (mcpSession) {
+      reply.header("Mcp-Session-Id", mcpSession.id);
+    }
+    const recordSessionId =
+      sessionId && mcpSession?.recorded ? mcpSession.id : sessionId;
+
+    // Router mode: an unknown upstream fails the whole batch, as it would
+    // a single request
+    const routerUpstream = upstreamKeyStr
+      ? loadUpstreamsRegistry(upstreamsPath)[upstreamKeyStr]
+      : undefined;
+    if (upstreamKeyStr && !routerUpstream) {
+      return reply.code(404).send({
+        jsonrpc: "2.0",
+        error: { code: -32000, message: `Unknown upstream: ${upstreamKeyStr}` },
+        id: null,
+      });
+    }
+
+    const batchId = randomUUID();
+    const startedAt = new Date().toISOString();
+    const isHubOnly =
+      providers.length > 0 && !upstreamKeyStr && !downstreamMcpUrl;
+
+    const responses: (JsonRpcResponse | null)[] = items.map(() => null);
+    const calls = new Map<number, RoutedCall>();
+    // Provider each hub-routed item went to (for result namespacing)
+    const hubRouted = new Map<number, string>();
+    const groups = new Map<
+      string,
+      {
+        url: string;
+        headers: Record<string, string>;
+        upstreamKey: string | null;
+        provider: HttpProvider | null;
+        indexes: number[];
+      }
+    >();
+    const localWork: Promise<void>[] = [];
+
+    const errorResponse = (
+      id: string | number | null | undefined,
+      message: string,
+      data?: Record<string, unknown>
+    ): JsonRpcResponse => ({
+      jsonrpc: "2.0",
+      error: { code: -32000, message, ...(data && { data }) },
+      id: id ?? null,
+    });
+
+    const record = (
+      index: number,
+      upstreamKey: string | null,
+      output: unknown,
+      status: "success" | "error" | "timeout",
+      errorCategory?: "policy_denied"
+    ) => {
+      const call = calls.get(index);
+      if (!call || !recordSessionId) return;
+      recordToolCall({
+        db,
+        sessionId: recordSessionId,
+        toolName: call.name,
+        mcpMethod: call.method,
+        upstreamKey,
+        batchId,
+        input: call.input,
+        output,
+        status,
+        ...(errorCategory && { errorCategory }),
+        startedAt,
+        endedAt: new Date().toISOString(),
+        redactKeys,
+        redactPatterns,
+        debugProxy,
+      });
+    };
+
+    const addToGroup = (
+      key: string,
+      route: {
+        url: string;
+        headers: Record<string, string>;
+        upstreamKey: string | null;
+        provider: HttpProvider | null;
+      },
+      index: number
+    ) => {
+      const group = groups.get(key) ?? { ...route, indexes: [] };
+      group.indexes.push(index);
+      groups.set(key, group);
+    };
+
+    items.forEach((item, index) => {
+      const validationError = validateJsonRpcRequest(item);
+      if (validationError) {
+        responses[index] = {
+          jsonrpc: "2.0",
+          error: { code: -32600, message: validationError },
+          id: null,
+        };
+        return;
+      }
+      const body = item as JsonRpcRequest;
+
+      // Hub mode: answered by the hub itself
+      if (getHubListMethod(body.method) && providers.length > 0) {
+        localWork.push(
+          aggregateList(
+            body.method,
+            providers,
+            stdioClients,
+            providerHealth,
+            toolPolicy,
+            async (provider) => {
+              if (!mcpSession) return {};
+              await ensureProviderSession(provider, mcpSession);
+              return upstreamSessionHeaders(mcpSession, provider.id);
+            },
+            body.id,
+            timeoutMs,
+            debugProxy
+          ).then((response) => {
+            responses[index] = response;
+          })
+        );
+        return;
+      }
+      if (isHubOnly && body.method.startsWith("notifications/")) {
+        return;
+      }
+
+      // Hub mode: namespaced calls go to their provider
+      const routedCall = getRoutedCall(body);
+      const hubTarget = routedCall ? resolveHubTarget(routedCall) : null;
+      if (routedCall) {
+        calls.set(
+          index,
+          hubTarget?.provider
+            ? { ...routedCall, name: hubTarget.name }
+            : routedCall
+        );
+      }
+
+      if (hubTarget) {
+        const { provider } = hubTarget;
+        if (!provider) {
+          const errorMessage = `Cannot connect to Unknown provider: ${hubTarget.providerId}`;
+          record(
+            index,
+            hubTarget.providerId,
+            { code: -32000, message: errorMessage },
+            "error"
+          );
+          responses[index] = errorResponse(body.id, errorMessage, {
+            category: "downstream_unreachable",
+          });
+          return;
+        }
+
+        if (body.method === "tools/call") {
+          const decision = toolPolicy.check(provider.id, hubTarget.name);
+          if (!decision.allowed) {
+            const response = policyDeniedResponse(
+              provider.id,
+              hubTarget.name,
+              decision.reason,
+              body.id
+            );
+            record(
+              index,
+              provider.id,
+              { code: response.error.code, message: response.error.message },
+              "error",
+              "policy_denied"
+            );
+            responses[index] = response;
+            return;
+          }
+        }
+
+        setRoutedName(body, hubTarget.name);
+
+        if (provider.type === "stdio") {
+          localWork.push(
+            callStdioProvider(
+              provider,
+              body,
+              calls.get(index)!,
+              startedAt,
+              recordSessionId,
+              batchId
+            ).then(({ response }) => {
+              responses[index] = response;
+            })
+          );
+          return;
+        }
+
+        hubRouted.set(index, provider.id);
+
+        addToGroup(
+          provider.id,
+          {
+            url: provider.url,
+            headers: provider.headers ?? {},
+            upstreamKey: provider.id,
+            provider,
+          },
+          index
+        );
+        return;
+      }
+
+      // Router mode, then legacy single downstream
+      if (routerUpstream && upstreamKeyStr) {
+        addToGroup(
+          upstreamKeyStr,
+          {
+            url: routerUpstream.url,
+            headers: routerUpstream.headers ?? {},
+            upstreamKey: upstreamKeyStr,
+            provider: null,
+          },
+          index
+        );
+      } else if (downstreamMcpUrl) {
+        addToGroup(
+          DEFAULT_UPSTREAM_KEY,
+          {
+            url: downstreamMcpUrl,
+            headers: {},
+            upstreamKey: null,
+            provider: null,
+          },
+          index
+        );
+      } else if (body.id !== undefined) {
+        responses[index] = errorResponse(
+          body.id,
+          "Downstream MCP server not configured"
+        );
+      }
+    });
+
+    // Forward one batch per upstream
+    const forwardGroup = async (
+      key: string,
+      group: NonNullable<ReturnType<typeof groups.get>>
+    ) => {
+      const bodies = group.indexes.map((i) => items[i] as JsonRpcRequest);
+      const fail = (
+        message: string,
+        data: Record<string, unknown>,
+        output: unknown,
+        status: "error" | "timeout"
+      ) => {
+        for (const [n, body] of bodies.entries()) {
+          const index = group.indexes[n]!;
+          record(index, group.upstreamKey, output, status);
+          if (body.id !== undefined) {
+            responses[index] = errorResponse(body.id, message, data);
+          }
+        }
+      };
+
+      if (group.provider && mcpSession) {
+        await ensureProviderSession(group.provider, mcpSession);
+      }
+
+      if (debugProxy) {
+        console.log(
+          `[PROXY] Routing batch of ${bodies.length} to ${group.url} (upstream: ${group.upstreamKey ?? "legacy"})`
+        );
+      }
+
+      // Each attempt gets its own timeout; the last one also covers
+      // reading the response
+      const headers = {
+        ...buildForwardHeaders(requestHeaders),
+        ...group.headers,
+        ...(await upstreamSessionHeaders(mcpSession, key)),
+      };
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      const forward = () => {
+        clearTimeout(timeoutId);
+        const controller = new AbortController();
+        timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+        return fetch(group.url, {
+          method: "POST",
+          headers,
+          body: JSON.stringify(bodies),
+          signal: controller.signal,
+        });
+      };
+
+      let groupResponses: JsonRpcResponse[];
+      try {
+        // Hub providers go through health tracking; only all-idempotent
+        // batches are retried
+        const response = group.provider
+          ? await providerHealth.call(group.provider.id, forward, {
+              retry: bodies.every((b) => isIdempotentMethod(b.method)),
+              failureOf: httpFailureOf,
+              discard: (r) => void r.body?.cancel().catch(() => {}),
+            })
+          : await forward();
+
+        if (!response.ok) {
+          await response.text().catch(() => "");
+          console.error(
+            `Downstream returned HTTP ${response.status} ${response.statusText}`
+          );
+          console.error(`  Target URL: ${group.url}`);
+          const { userMessage, category } = describeHttpError(
+            response.status,
+            response.statusText
+          );
+          fail(
+            userMessage,
+            { category, httpStatus: response.status },
+            { error: userMessage, httpStatus: response.status },
+            "error"
+          );
+          return;
+        }
+        groupResponses = await readBatchResponses(response);
+      } catch (error) {
+        if (error instanceof ProviderCircuitOpenError) {
+          const { error: rpcError } = circuitOpenResponse(error, null);
+          fail(
+            rpcError.message,
+            rpcError.data as Record<string, unknown>,
+            { code: rpcError.code, message: rpcError.message },
+            "error"
+          );
+          return;
+        }
+        if (error instanceof Error && error.name === "AbortError") {
+          fail(
+            "Request timeout",
+            { category: "timeout" },
+            { error: "Request timeout" },
+            "timeout"
+          );
+          return;
+        }
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        console.error(`Failed to forward batch to downstream: ${errorMessage}`);
+        console.error(`  Target URL: ${group.url}`);
+        fail(
+          "Failed to connect to downstream MCP server",
+          { category: "downstream_unreachable" },
+          { error: "Failed to connect to downstream MCP server" },
+          "error"
+        );
+        return;
+      } finally {
+        clearTimeout(timeoutId);
+      }
+
+      const byId = new Map(groupResponses.map((r) => [r.id, r]));
+      for (const [n, body] of bodies.entries()) {
+        if (body.id === undefined) continue;
+        const index = group.indexes[n]!;
+        const response =
+          byId.get(body.id) ??
+          errorResponse(body.id, "Missing response in downstream batch");
+        if (isErrorResponse(response)) {
+          record(index, group.upstreamKey, response.error, "error");
+          responses[index] = response;
+          continue;
+        }
+        record(index, group.upstreamKey, response.result, "success");
+        const providerId = hubRouted.get(index);
+        responses[index] = providerId
+          ? {
+              ...response,
+              result: namespaceRoutedResult(
+                body.method,
+                providerId,
+                response.result
+              ),
+            }
+          : response;
+      }
+    };
+
+    await Promise.all([
+      ...localWork,
+      ...[...groups].map(([key, group]) => forwardGroup(key, group)),
+    ]);
+
+    // Notifications get no response; a batch of only those gets 202
+    const batchResponse = responses.filter(
+      (r): r is JsonRpcResponse => r !== null
+    );
+    if (batchResponse.length === 0) {
+      return reply.code(202).send();
+    }
+    return reply.code(200).send(batchResponse);
+  };
+
   // Health check endpoint
   app.get("/health", async () => {
     return { status: "ok", proxy: true };
   });
 
+  // Hub provider health: circuit state, error rate, latency
+  app.get("/hub/providers", async () => {
+    return {
+      providers: providers.map((p) => {
+        const client = stdioClients.get(p.id);
+        return {
+          ...providerHealth.getHealth(p.id, p.type),
+          ...(client && { processState: client.getState() }),
+        };
+      }),
+    };
+  });
+
   // MCP POST handler
   app.post("/", async (request, reply) => {
     // Parse upstream key from query param
@@ -364,6 +1498,11 @@ export async function createMcpProxy(
         : null;
     const upstreamKeyStr = typeof upstreamKey === "string" ? upstreamKey : null;
 
+    // JSON-RPC batch
+    if (Array.isArray(request.body)) {
+      return handleBatch(request, reply, request.body, upstreamKeyStr);
+    }
+
     // Validate minimal JSON-RPC shape
     const validationError = validateJsonRpcRequest(request.body);
     if (validationError) {
@@ -379,10 +1518,67 @@ export async function createMcpProxy(
 
     const body = request.body as JsonRpcRequest;
 
-    // Hub mode: Handle tools/list by aggregating from all providers
-    if (body.method === "tools/list" && httpProviders.length > 0) {
-      const response = await aggregateToolsList(
-        httpProviders,
+    // Streamable HTTP sessions: initialize starts one, later requests must
+    // carry a known id (sessionless clients are still accepted)
+    const headerSessionId = getSessionHeader(
+      request.headers as Record<string, string | string[] | undefined>
+    );
+    const isHubOnly =
+      providers.length > 0 && !upstreamKeyStr && !downstreamMcpUrl;
+    const mcpSession: McpSession | null =
+      body.method === "initialize"
+        ? mcpSessions.create(body.params, isHubOnly ? "hub" : "mcp-client")
+        : headerSessionId
+          ? (mcpSessions.get(headerSessionId) ?? null)
+          : null;
+    if (headerSessionId && !mcpSession) {
+      return sendSessionNotFound(reply, body.id);
+    }
+    if (mcpSession) {
+      reply.header("Mcp-Session-Id", mcpSession.id);
+    }
+    const recordSessionId =
+      sessionId && mcpSession?.recorded ? mcpSession.id : sessionId;
+
+    // Hub mode without a downstream: the hub is the server the client talks to
+    if (isHubOnly && body.method === "initialize") {
+      const params = (body.params ?? {}) as { protocolVersion?: unknown };
+      return reply.code(200).send({
+        jsonrpc: "2.0",
+        result: {
+          protocolVersion:
+            typeof params.protocolVersion === "string"
+              ? params.protocolVersion
+              : HUB_PROTOCOL_VERSION,
+          capabilities: getHubCapabilities(
+            providers.map((provider) =>
+              provider.type === "stdio"
+                ? (stdioClients.get(provider.id)?.getCapabilities() ?? null)
+                : (httpCapabilities.get(provider.id) ?? null)
+            )
+          ),
+          serverInfo: { name: "agent-recorder-hub", version: "1.0" },
+        },
+        id: body.id ?? null,
+      });
+    }
+    if (isHubOnly && body.method.startsWith("notifications/")) {
+      return reply.code(202).send();
+    }
+
+    // Hub mode: Handle list methods by aggregating from all providers
+    if (getHubListMethod(body.method) && providers.length > 0) {
+      const response = await aggregateList(
+        body.method,
+        providers,
+        stdioClients,
+        providerHealth,
+        toolPolicy,
+        async (provider) => {
+          if (!mcpSession) return {};
+          await ensureProviderSession(provider, mcpSession);
+          return upstreamSessionHeaders(mcpSession, provider.id);
+        },
         body.id,
         timeoutMs,
         debugProxy
@@ -390,71 +1586,118 @@ export async function createMcpProxy(
       return reply.code(200).send(response);
     }
 
-    // Declare variables for tool call tracking
+    // Declare variables for recorded call tracking (tools/call,
+    // prompts/get, resources/read)
     const startedAt = new Date().toISOString();
-    const isToolCall = isToolsCallRequest(body);
-    let toolName: string | null = null;
-    let toolInput: unknown = null;
-
-    if (isToolCall) {
-      const params = body.params as { name: string; arguments?: unknown };
-      toolName = params.name;
-      toolInput = params.arguments ?? {};
-    }
+    const routedCall = getRoutedCall(body);
+    const isRecordedCall = routedCall !== null;
+    let toolName: string | null = routedCall?.name ?? null;
+    const toolInput: unknown = routedCall?.input ?? null;
 
     // Determine downstream URL based on router/hub mode logic
     let finalDownstreamUrl: string | null = null;
     let finalUpstreamKey: string | null = upstreamKeyStr;
+    let hubProviderId: string | null = null;
+
+    // Hub mode: Parse namespaced name for routed calls
+    const hubTarget = routedCall ? resolveHubTarget(routedCall) : null;
+    if (routedCall && hubTarget) {
+      const { provider } = hubTarget;
 
-    // Hub mode: Parse namespaced tool name for tools/call
-    if (isToolCall && toolName && httpProviders.length > 0) {
-      const parsed = parseNamespacedTool(toolName);
+      if (!provider) {
+        // Record error event with JSON-RPC error structure
+        const errorMessage = `Cannot connect to Unknown provider: ${hubTarget.providerId}`;
+        if (recordSessionId) {
+          recordToolCall({
+            db,
+            sessionId: recordSessionId,
+            toolName: hubTarget.name,
+            mcpMethod: body.method,
+            upstreamKey: hubTarget.providerId,
+            input: toolInput,
+            output: {
+              code: -32000,
+              message: errorMessage,
+            },
+            status: "error",
+            startedAt,
+            endedAt: new Date().toISOString(),
+            redactKeys,
+            redactPatterns,
+            debugProxy,
+          });
+        }
 
-      if (parsed) {
-        // Find provider by ID
-        const provider = httpProviders.find((p) => p.id === parsed.providerId);
+        return reply.code(404).send({
+          jsonrpc: "2.0",
+          error: {
+            code: -32000,
+            message: errorMessage,
+            data: { category: "downstream_unreachable" },
+          },
+          id: body.id ?? null,
+        });
+      }
 
-        if (!provider) {
-          // Record error event with JSON-RPC error structure
-          const errorMessage = `Cannot connect to Unknown provider: ${parsed.providerId}`;
-          if (sessionId) {
+      // Tool policy: denied tools never reach the provider
+      if (body.method === "tools/call") {
+        const decision = toolPolicy.check(provider.id, hubTarget.name);
+        if (!decision.allowed) {
+          const response = policyDeniedResponse(
+            provider.id,
+            hubTarget.name,
+            decision.reason,
+            body.id
+          );
+          if (recordSessionId) {
             recordToolCall({
               db,
-              sessionId,
-              toolName: parsed.toolName,
-              mcpMethod: "tools/call",
-              upstreamKey: parsed.providerId,
+              sessionId: recordSessionId,
+              toolName: hubTarget.name,
+              mcpMethod: body.method,
+              upstreamKey: provider.id,
               input: toolInput,
               output: {
-                code: -32000,
-                message: errorMessage,
+                code: response.error.code,
+                message: response.error.message,
               },
               status: "error",
+              errorCategory: "policy_denied",
               startedAt,
               endedAt: new Date().toISOString(),
               redactKeys,
+              redactPatterns,
               debugProxy,
             });
           }
-
-          return reply.code(404).send({
-            jsonrpc: "2.0",
-            error: {
-              code: -32000,
-              message: errorMessage,
-              data: { category: "downstream_unreachable" },
-            },
-            id: body.id ?? null,
-          });
+          // A JSON-RPC error with HTTP 200, as in the batch path
+          return reply.send(response);
         }
+      }
 
-        // Route to provider URL
-        finalDownstreamUrl = provider.url;
-        finalUpstreamKey = parsed.providerId;
-        // Rewrite tool name without namespace prefix
-        toolName = parsed.toolName;
-        (body.params as { name: string }).name = parsed.toolName;
+      // Rewrite name without namespace prefix
+      toolName = hubTarget.name;
+      setRoutedName(body, hubTarget.name);
+
+      if (provider.type === "stdio") {
+        const { statusCode, response } = await callStdioProvider(
+          provider,
+          body,
+          { ...routedCall, name: hubTarget.name },
+          startedAt,
+          recordSessionId
+        );
+        return reply.code(statusCode).send(response);
       }
+
+      if (mcpSession) {
+        await ensureProviderSession(provider, mcpSession);
+      }
+
+      // Route to provider URL
+      finalDownstreamUrl = provider.url;
+      finalUpstreamKey = provider.id;
+      hubProviderId = provider.id;
     }
 
     // Router mode: lookup upstream in registry
@@ -507,6 +1750,13 @@ export async function createMcpProxy(
       }
     }
 
+    // Map the client's session to the one this upstream issued
+    const sessionKey = finalUpstreamKey ?? DEFAULT_UPSTREAM_KEY;
+    Object.assign(
+      forwardHeaders,
+      await upstreamSessionHeaders(mcpSession, sessionKey)
+    );
+
     // Log routing decision if debug enabled
     if (debugProxy) {
       console.log(
@@ -514,33 +1764,72 @@ export async function createMcpProxy(
       );
     }
 
-    // Create abort controller for timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    // Forward request to downstream, with a timeout per attempt
+    const downstreamUrl = finalDownstreamUrl;
+    const forward = async (): Promise<Response> => {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        return await fetch(downstreamUrl, {
+          method: "POST",
+          headers: forwardHeaders,
+          body: JSON.stringify(body),
+          signal: controller.signal,
+        });
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    };
 
-    // Forward request to downstream
     let downstreamResponse: Response;
     try {
-      downstreamResponse = await fetch(finalDownstreamUrl, {
-        method: "POST",
-        headers: forwardHeaders,
-        body: JSON.stringify(body),
-        signal: controller.signal,
-      });
+      // Hub providers go through health tracking and the circuit breaker;
+      // idempotent methods are retried on transient failures
+      downstreamResponse = hubProviderId
+        ? await providerHealth.call(hubProviderId, forward, {
+            retry: isIdempotentMethod(body.method),
+            failureOf: httpFailureOf,
+            discard: (r) => void r.body?.cancel().catch(() => {}),
+          })
+        : await forward();
     } catch (error) {
-      clearTimeout(timeoutId);
+      // Fast-fail while the provider's circuit is open
+      if (error instanceof ProviderCircuitOpenError) {
+        const response = circuitOpenResponse(error, body.id);
+        if (isRecordedCall && toolName && recordSessionId) {
+          recordToolCall({
+            db,
+            sessionId: recordSessionId,
+            toolName,
+            mcpMethod: body.method,
+            upstreamKey: finalUpstreamKey,
+            input: toolInput,
+            output: {
+              code: response.error.code,
+              message: response.error.message,
+            },
+            status: "error",
+            startedAt,
+            endedAt: new Date().toISOString(),
+            redactKeys,
+            redactPatterns,
+            debugProxy,
+          });
+        }
+        return reply.code(503).send(response);
+      }
 
       // Check if this was a timeout
       if (error instanceof Error && error.name === "AbortError") {
         const endedAt = new Date().toISOString();
 
-        // Record timeout if this was a tools/call
-        if (isToolCall && toolName && sessionId) {
+        // Record timeout if this was a recorded call
+        if (isRecordedCall && toolName && recordSessionId) {
           recordToolCall({
             db,
-            sessionId,
+            sessionId: recordSessionId,
             toolName,
-            mcpMethod: "tools/call",
+            mcpMethod: body.method,
             upstreamKey: finalUpstreamKey,
             input: toolInput,
             output: { error: "Request timeout" },
@@ -548,6 +1837,7 @@ export async function createMcpProxy(
             startedAt,
             endedAt,
             redactKeys,
+            redactPatterns,
             debugProxy,
           });
         }
@@ -583,7 +1873,15 @@ export async function createMcpProxy(
       });
     }
 
-    clearTimeout(timeoutId);
+    // Remember the session id the upstream issued on initialize
+    const downstreamSessionId =
+      downstreamResponse.headers.get(MCP_SESSION_HEADER);
+    if (mcpSession && downstreamSessionId) {
+      mcpSession.upstreamSessions.set(
+        sessionKey,
+        Promise.resolve(downstreamSessionId)
+      );
+    }
 
     // Check for HTTP-level errors before parsing response body
     if (!downstreamResponse.ok) {
@@ -606,35 +1904,19 @@ export async function createMcpProxy(
         console.error(`  Response body: ${errorBody.slice(0, 200)}`);
       }
 
-      // Map HTTP status to user-friendly message
-      let userMessage: string;
-      let category: string;
-      if (statusCode === 401 || statusCode === 403) {
-        userMessage = `Authentication failed (HTTP ${statusCode}). The upstream server rejected the credentials.`;
-        category = "auth_error";
-        // Extra hint for common OAuth-only servers
-        console.error(
-          "  Note: Some MCP servers (e.g., Figma remote) only support OAuth, not Personal Access Tokens."
-        );
-      } else if (statusCode === 404) {
-        userMessage = `Upstream endpoint not found (HTTP ${statusCode}). Check the URL is correct.`;
-        category = "not_found";
-      } else if (statusCode >= 500) {
-        userMessage = `Upstream server error (HTTP ${statusCode} ${statusText})`;
-        category = "server_error";
-      } else {
-        userMessage = `Upstream returned HTTP ${statusCode} ${statusText}`;
-        category = "http_error";
-      }
+      const { userMessage, category } = describeHttpError(
+        statusCode,
+        statusText
+      );
 
       // Record failed tool call if applicable
-      if (isToolCall && toolName && sessionId) {
+      if (isRecordedCall && toolName && recordSessionId) {
         const endedAt = new Date().toISOString();
         recordToolCall({
           db,
-          sessionId,
+          sessionId: recordSessionId,
           toolName,
-          mcpMethod: "tools/call",
+          mcpMethod: body.method,
           upstreamKey: finalUpstreamKey,
           input: toolInput,
           output: { error: userMessage, httpStatus: statusCode },
@@ -642,6 +1924,7 @@ export async function createMcpProxy(
           startedAt,
           endedAt,
           redactKeys,
+          redactPatterns,
           debugProxy,
         });
       }
@@ -657,33 +1940,37 @@ export async function createMcpProxy(
       });
     }
 
-    // Check response content type to handle SSE vs JSON
+    // SSE responses are streamed through as they arrive
     const contentType = downstreamResponse.headers.get("content-type") ?? "";
-    const isSSE = contentType.includes("text/event-stream");
+    if (contentType.includes("text/event-stream")) {
+      const routedProviderId = hubProviderId;
+      await streamSseResponse(
+        downstreamResponse,
+        reply,
+        isRecordedCall && toolName
+          ? {
+              requestId: body.id,
+              mcpMethod: body.method,
+              toolName,
+              toolInput,
+              upstreamKey: finalUpstreamKey,
+              startedAt,
+            }
+          : null,
+        recordSessionId,
+        mcpSession ? { "Mcp-Session-Id": mcpSession.id } : {},
+        routedProviderId
+          ? (result) =>
+              namespaceRoutedResult(body.method, routedProviderId, result)
+          : undefined
+      );
+      return reply;
+    }
 
     // Parse downstream response
     let responseBody: JsonRpcResponse;
     try {
-      if (isSSE) {
-        // Handle SSE response - extract JSON from the stream
-        const text = await downstreamResponse.text();
-        // SSE format: "event: message\ndata: {...}\n\n"
-        // Extract the last complete JSON object from the data lines
-        const dataLines = text
-          .split("\n")
-          .filter((line) => line.startsWith("data: "))
-          .map((line) => line.slice(6)); // Remove "data: " prefix
-
-        if (dataLines.length === 0) {
-          throw new Error("No data in SSE response");
-        }
-
-        // Use the last data line (final response)
-        const lastData = dataLines[dataLines.length - 1];
-        responseBody = JSON.parse(lastData!) as JsonRpcResponse;
-      } else {
-        responseBody = (await downstreamResponse.json()) as JsonRpcResponse;
-      }
+      responseBody = (await downstreamResponse.json()) as JsonRpcResponse;
     } catch (parseError) {
       console.error("Failed to parse downstream response");
       if (debugProxy) {
@@ -705,8 +1992,8 @@ export async function createMcpProxy(
 
     const endedAt = new Date().toISOString();
 
-    // Record tool call event if this was a tools/call request and we have a session
-    if (isToolCall && toolName && sessionId) {
+    // Record the call if it was a recorded method and we have a session
+    if (isRecordedCall && toolName && recordSessionId) {
       const status = isErrorResponse(responseBody) ? "error" : "success";
       const output = isErrorResponse(responseBody)
         ? responseBody.error
@@ -714,9 +2001,9 @@ export async function createMcpProxy(
 
       recordToolCall({
         db,
-        sessionId,
+        sessionId: recordSessionId,
         toolName,
-        mcpMethod: "tools/call",
+        mcpMethod: body.method,
         upstreamKey: finalUpstreamKey,
         input: toolInput,
         output,
@@ -724,16 +2011,191 @@ export async function createMcpProxy(
         startedAt,
         endedAt,
         redactKeys,
+        redactPatterns,
         debugProxy,
       });
     }
 
+    // Hub-routed resources/read: contents keep the prefixed URIs
+    if (hubProviderId && !isErrorResponse(responseBody)) {
+      responseBody = {
+        ...responseBody,
+        result: namespaceRoutedResult(
+          body.method,
+          hubProviderId,
+          responseBody.result
+        ),
+      };
+    }
+
+    // Notifications and responses are acknowledged without a body
+    if (downstreamResponse.status === 202) {
+      return reply.code(202).send();
+    }
+
     // Preserve downstream HTTP status code and return response unchanged
     reply.code(downstreamResponse.status);
     reply.header("Content-Type", "application/json");
     return reply.send(responseBody);
   });
 
+  /**
+   * Resolve an upstream key (provider id, router key or "default") to the
+   * URL and configured headers used to reach it.
+   */
+  const resolveUpstream = (
+    key: string
+  ): { url: string; headers: Record<string, string> } | null => {
+    const provider = providers.find((p) => p.id === key);
+    if (provider?.type === "http") {
+      return { url: provider.url, headers: provider.headers ?? {} };
+    }
+    if (key === DEFAULT_UPSTREAM_KEY && downstreamMcpUrl) {
+      return { url: downstreamMcpUrl, headers: {} };
+    }
+    const upstream = loadUpstreamsRegistry(upstreamsPath)[key];
+    return upstream
+      ? { url: upstream.url, headers: upstream.headers ?? {} }
+      : null;
+  };
+
+  // Open GET streams, aborted on shutdown so close() doesn't hang
+  const openStreams = new Set<AbortController>();
+  app.addHook("preClose", async () => {
+    for (const controller of openStreams) controller.abort();
+  });
+
+  // Server-to-client SSE channel, relayed from the client's upstream
+  app.get("/", async (request, reply) => {
+    const query = request.query as Record<string, unknown>;
+    const upstreamKey =
+      typeof query.upstream === "string"
+        ? query.upstream
+        : DEFAULT_UPSTREAM_KEY;
+
+    const headerSessionId = getSessionHeader(
+      request.headers as Record<string, string | string[] | undefined>
+    );
+    const mcpSession = headerSessionId
+      ? (mcpSessions.get(headerSessionId) ?? null)
+      : null;
+    if (headerSessionId && !mcpSession) {
+      return sendSessionNotFound(reply, null);
+    }
+
+    // Hub mode has no single upstream to listen to
+    const target =
+      upstreamKey === DEFAULT_UPSTREAM_KEY && !downstreamMcpUrl
+        ? null
+        : resolveUpstream(upstreamKey);
+    if (!target) {
+      return reply.code(405).header("Allow", "POST, DELETE").send();
+    }
+
+    const controller = new AbortController();
+    let downstreamResponse: Response;
+    try {
+      downstreamResponse = await fetch(target.url, {
+        method: "GET",
+        headers: {
+          ...buildForwardHeaders(
+            request.headers as Record<string, string | string[] | undefined>
+          ),
+          Accept: "text/event-stream",
+          ...target.headers,
+          ...(await upstreamSessionHeaders(mcpSession, upstreamKey)),
+        },
+        signal: controller.signal,
+      });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : "Unknown error";
+      console.error(`Failed to open downstream event stream: ${msg}`);
+      return reply.code(502).send({
+        jsonrpc: "2.0",
+        error: {
+          code: -32000,
+          message: "Failed to connect to downstream MCP server",
+        },
+        id: null,
+      });
+    }
+
+    // Upstreams without a GET stream answer 405; relay the status as-is
+    if (!downstreamResponse.ok || !downstreamResponse.body) {
+      await downstreamResponse.text().catch(() => "");
+      return reply.code(downstreamResponse.status).send();
+    }
+
+    reply.hijack();
+    const client = reply.raw;
+    client.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      ...(mcpSession && { "Mcp-Session-Id": mcpSession.id }),
+    });
+    openStreams.add(controller);
+    client.on("close", () => controller.abort());
+
+    try {
+      const reader = downstreamResponse.body.getReader();
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        client.write(value);
+      }
+    } catch {
+      // Client went away or the upstream dropped the stream
+    }
+    openStreams.delete(controller);
+    client.end();
+    return reply;
+  });
+
+  // End a session here and on every upstream it touched
+  app.delete("/", async (request, reply) => {
+    const headerSessionId = getSessionHeader(
+      request.headers as Record<string, string | string[] | undefined>
+    );
+    if (!headerSessionId) {
+      return reply.code(400).send({
+        jsonrpc: "2.0",
+        error: { code: -32600, message: "Missing Mcp-Session-Id header" },
+        id: null,
+      });
+    }
+
+    const mcpSession = mcpSessions.end(headerSessionId);
+    if (!mcpSession) {
+      return sendSessionNotFound(reply, null);
+    }
+
+    // Best effort: upstreams clean up on their own timeouts anyway
+    await Promise.all(
+      [...mcpSession.upstreamSessions.keys()].map(async (key) => {
+        const target = resolveUpstream(key);
+        const sessionHeaders = await upstreamSessionHeaders(mcpSession, key);
+        if (!target || !sessionHeaders["Mcp-Session-Id"]) return;
+        try {
+          const response = await fetch(target.url, {
+            method: "DELETE",
+            headers: { ...target.headers, ...sessionHeaders },
+            signal: AbortSignal.timeout(timeoutMs),
+          });
+          await response.text();
+        } catch (error) {
+          if (debugProxy) {
+            const msg =
+              error instanceof Error ? error.message : "Unknown error";
+            console.warn(`[PROXY] Failed to end session on ${key}: ${msg}`);
+          }
+        }
+      })
+    );
+
+    return reply.code(204).send();
+  });
+
   const start = async () => {
     await app.listen({ port: mcpProxyPort, host: "127.0.0.1" });
     console.log(`MCP proxy listening on http://127.0.0.1:${mcpProxyPort}`);
@@ -5,13 +5,12 @@
  */
 
 import type Database from "better-sqlite3";
-import { randomUUID } from "node:crypto";
 import {
-  allocateSequence,
-  deriveErrorCategory,
-  insertEvent,
-  redactAndTruncate,
+  ingestEvent,
+  ingestCompletion,
+  type ErrorCategory,
   type EventStatus,
+  type RedactionPattern,
 } from "@agent-recorder/core";
 
 export interface RecordToolCallOptions {
@@ -21,12 +20,18 @@ export interface RecordToolCallOptions {
   toolName: string;
   mcpMethod?: string;
   upstreamKey?: string | null;
+  /** Correlation ID shared by calls from one JSON-RPC batch */
+  batchId?: string | null;
   input: unknown;
   output: unknown;
   status: EventStatus;
+  /** Explicit error category (default: derived from status and output) */
+  errorCategory?: ErrorCategory | null;
   startedAt: string;
   endedAt: string;
   redactKeys: string[];
+  /** Secret formats redacted from string values (default: built-in detectors) */
+  redactPatterns?: readonly RedactionPattern[];
   /** Enable debug logging (metadata only, no payloads) */
   debugProxy?: boolean;
 }
@@ -46,53 +51,48 @@ export function recordToolCall(options: RecordToolCallOptions): string | null {
     toolName,
     mcpMethod,
     upstreamKey,
+    batchId,
     input,
     output,
     status,
+    errorCategory,
     startedAt,
     endedAt,
     redactKeys,
+    redactPatterns,
     debugProxy,
   } = options;
 
   try {
-    // Allocate sequence atomically
-    const sequence = allocateSequence(db, sessionId);
-
-    // Redact and truncate input/output
-    const inputJson = redactAndTruncate(input, redactKeys);
-    const outputJson = redactAndTruncate(output, redactKeys);
-
-    // Derive error category from status and redacted output (no content logging)
-    const errorCategory = deriveErrorCategory(status, outputJson);
-
-    // Generate event ID
-    const eventId = randomUUID();
-
-    // Insert event with proper column mapping:
+    // Shared pipeline: atomic sequence allocation, redaction/truncation of
+    // input/output and error category derivation (no content logging).
+    // Column mapping:
     // - agentName = "claude-code" (stable identifier for the agent)
     // - toolName = actual tool name from params.name
     // - mcpMethod = "tools/call" (or whatever MCP method was invoked)
     // - upstreamKey = server key from router mode (null for legacy single-upstream)
-    insertEvent(db, {
-      id: eventId,
-      sessionId,
-      parentEventId: parentEventId ?? null,
-      sequence,
-      eventType: "tool_call",
-      agentRole: "assistant",
-      agentName: "claude-code",
-      skillName: null,
-      toolName,
-      mcpMethod: mcpMethod ?? "tools/call",
-      upstreamKey: upstreamKey ?? null,
-      startedAt,
-      endedAt,
-      status,
-      inputJson,
-      outputJson,
-      errorCategory,
-    });
+    const event = ingestEvent(
+      db,
+      {
+        sessionId,
+        parentEventId: parentEventId ?? null,
+        eventType: "tool_call",
+        agentRole: "assistant",
+        agentName: "claude-code",
+        skillName: null,
+        toolName,
+        mcpMethod: mcpMethod ?? "tools/call",
+        upstreamKey: upstreamKey ?? null,
+        batchId: batchId ?? null,
+        startedAt,
+        endedAt,
+        status,
+        input,
+        output,
+        ...(errorCategory !== undefined && { errorCategory }),
+      },
+      { redactKeys, ...(redactPatterns && { redactPatterns }) }
+    );
 
     // Debug logging: metadata only, no payloads
     if (debugProxy) {
@@ -100,14 +100,123 @@ export function recordToolCall(options: RecordToolCallOptions): string | null {
         new Date(endedAt).getTime() - new Date(startedAt).getTime();
       const upstreamInfo = upstreamKey ? ` upstream=${upstreamKey}` : "";
       console.log(
-        `[DEBUG] tool_call: session=${sessionId} seq=${sequence} tool=${toolName}${upstreamInfo} status=${status} duration=${durationMs}ms`
+        `[DEBUG] tool_call: session=${sessionId} seq=${event.sequence} tool=${toolName}${upstreamInfo} status=${status} duration=${durationMs}ms`
       );
     }
 
-    return eventId;
+    return event.id;
   } catch (error) {
     // Fail-open: log error but don't throw
     console.error("Failed to record tool call:", error);
     return null;
   }
 }
+
+/** Options for opening a running tool call (streamed responses) */
+export type StartToolCallOptions = Omit<
+  RecordToolCallOptions,
+  "output" | "status" | "errorCategory" | "endedAt"
+>;
+
+/**
+ * Record a tool call as running, to be completed with finishToolCall.
+ * Used when the response streams in, so child events (progress
+ * notifications) can reference it before the call ends.
+ * Fails open like recordToolCall.
+ *
+ * @returns The event ID if successful, null if recording failed
+ */
+export function startToolCall(options: StartToolCallOptions): string | null {
+  const {
+    db,
+    sessionId,
+    parentEventId,
+    toolName,
+    mcpMethod,
+    upstreamKey,
+    batchId,
+    input,
+    startedAt,
+    redactKeys,
+    redactPatterns,
+  } = options;
+
+  try {
+    const event = ingestEvent(
+      db,
+      {
+        sessionId,
+        parentEventId: parentEventId ?? null,
+        eventType: "tool_call",
+        agentRole: "assistant",
+        agentName: "claude-code",
+        skillName: null,
+        toolName,
+        mcpMethod: mcpMethod ?? "tools/call",
+        upstreamKey: upstreamKey ?? null,
+        batchId: batchId ?? null,
+        startedAt,
+        endedAt: null,
+        status: "running",
+        input,
+      },
+      { redactKeys, ...(redactPatterns && { redactPatterns }) }
+    );
+    return event.id;
+  } catch (error) {
+    console.error("Failed to record tool call:", error);
+    return null;
+  }
+}
+
+export interface FinishToolCallOptions {
+  db: Database.Database;
+  eventId: string;
+  output: unknown;
+  status: EventStatus;
+  endedAt: string;
+  redactKeys: string[];
+  /** Secret formats redacted from string values (default: built-in detectors) */
+  redactPatterns?: readonly RedactionPattern[];
+  /** Enable debug logging (metadata only, no payloads) */
+  debugProxy?: boolean;
+}
+
+/**
+ * Complete a tool call opened with startToolCall.
+ * Fails open: catches errors, logs them, and continues.
+ */
+export function finishToolCall(options: FinishToolCallOptions): void {
+  const {
+    db,
+    eventId,
+    output,
+    status,
+    endedAt,
+    redactKeys,
+    redactPatterns,
+    debugProxy,
+  } = options;
+
+  try {
+    const event = ingestCompletion(
+      db,
+      eventId,
+      { status, endedAt, output },
+      { redactKeys, ...(redactPatterns && { redactPatterns }) }
+    );
+
+    if (debugProxy && event) {
+      const durationMs =
+        new Date(endedAt).getTime() - new Date(event.startedAt).getTime();
+      const upstreamInfo = event.upstreamKey
+        ? ` upstream=${event.upstreamKey}`
+        : "";
+      console.log(
+        `[DEBUG] tool_call: session=${event.sessionId} seq=${event.sequence} tool=${event.toolName}${upstreamInfo} status=${status} duration=${durationMs}ms`
+      );
+    }
+  } catch (error) {
+    console.error("Failed to record tool call:", error);
+  }
+}
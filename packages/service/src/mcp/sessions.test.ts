@@ -0,0 +1,57 @@
+/**
+ * Tests for the proxy's MCP session store: recording and idle expiry.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  openMemoryDatabase,
+  runMigrations,
+  getSessionById,
+} from "@agent-recorder/core";
+import type Database from "better-sqlite3";
+import { join, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { McpSessionStore } from "./sessions.js";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+describe("McpSessionStore", () => {
+  let db: Database.Database;
+  let store: McpSessionStore;
+
+  beforeEach(() => {
+    db = openMemoryDatabase();
+    runMigrations(db, join(__dirname, "..", "..", "..", "core", "migrations"));
+    store = new McpSessionStore({ db, record: true, idleTimeoutMs: 1000 });
+  });
+
+  afterEach(() => {
+    store.endAll();
+    db.close();
+  });
+
+  it("records each session with its client type", () => {
+    const hub = store.create({}, "hub");
+    const client = store.create({}, "mcp-client");
+
+    expect(getSessionById(db, hub.id)).toMatchObject({
+      status: "active",
+      clientType: "hub",
+    });
+    expect(getSessionById(db, client.id)!.clientType).toBe("mcp-client");
+  });
+
+  it("ends sessions that stay idle past the timeout", () => {
+    const idle = store.create({}, "hub");
+    const active = store.create({}, "hub");
+    const start = idle.lastSeenAt;
+
+    active.lastSeenAt = start + 800;
+    store.endIdle(start + 1500);
+
+    expect(store.get(idle.id)).toBeUndefined();
+    expect(getSessionById(db, idle.id)!.status).toBe("completed");
+    expect(store.get(active.id)).toBe(active);
+    expect(getSessionById(db, active.id)!.status).toBe("active");
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Streamable HTTP session tracking for the MCP proxy.
+ *
+ * The proxy issues its own Mcp-Session-Id on `initialize` and maps it to
+ * the session id each upstream handed out, so one client connection can
+ * span several upstreams in hub mode. Each MCP session is recorded as its
+ * own recorder session with the same id. Clients that disappear without a
+ * DELETE are expired after an idle timeout.
+ */
+
+import { randomUUID } from "node:crypto";
+import { hostname } from "node:os";
+import type Database from "better-sqlite3";
+import {
+  createSession,
+  endSession,
+  setSessionContext,
+  type ClientType,
+  type SessionStatus,
+} from "@agent-recorder/core";
+
+/** Header carrying the Streamable HTTP session id (lowercase for lookups) */
+export const MCP_SESSION_HEADER = "mcp-session-id";
+
+/** Upstream key used for the legacy single downstream */
+export const DEFAULT_UPSTREAM_KEY = "default";
+
+/** End sessions with no requests for this long (default: 30 minutes) */
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** A client session issued by the proxy */
+export interface McpSession {
+  /** Proxy-issued Mcp-Session-Id (also the recorder session id) */
+  id: string;
+  /** Whether a recorder session was created for it */
+  recorded: boolean;
+  /** Params of the client's initialize, replayed to lazily initialized providers */
+  initializeParams: unknown;
+  /**
+   * Upstream session ids by upstream key (provider id, router key or
+   * "default"); null when the upstream doesn't use sessions.
+   */
+  upstreamSessions: Map<string, Promise<string | null>>;
+  /** Time of the last request (ms since epoch), for idle expiry */
+  lastSeenAt: number;
+}
+
+export interface McpSessionStoreOptions {
+  db: Database.Database;
+  /** Create a recorder session per MCP session (off when not recording) */
+  record: boolean;
+  /** End sessions idle for longer than this (default: 30 minutes) */
+  idleTimeoutMs?: number;
+}
+
+/**
+ * In-memory registry of proxy-issued MCP sessions.
+ * Sessions don't survive a daemon restart or an idle timeout; clients get
+ * 404 and re-initialize.
+ */
+export class McpSessionStore {
+  private sessions = new Map<string, McpSession>();
+  private db: Database.Database;
+  private record: boolean;
+  private idleTimeoutMs: number;
+  private sweepTimer: ReturnType<typeof setInterval>;
+
+  constructor(options: McpSessionStoreOptions) {
+    this.db = options.db;
+    this.record = options.record;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.sweepTimer = setInterval(
+      () => this.endIdle(),
+      Math.min(this.idleTimeoutMs, 60_000)
+    );
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Start a session for a client's initialize request.
+   * Recording failures are logged; the session still works for proxying.
+   */
+  create(initializeParams: unknown, clientType: ClientType): McpSession {
+    const session: McpSession = {
+      id: randomUUID(),
+      recorded: false,
+      initializeParams,
+      upstreamSessions: new Map(),
+      lastSeenAt: Date.now(),
+    };
+
+    if (this.record) {
+      try {
+        createSession(this.db, session.id, new Date().toISOString());
+        setSessionContext(this.db, session.id, {
+          clientType,
+          hostname: hostname(),
+        });
+        session.recorded = true;
+      } catch (error) {
+        console.error("Failed to record MCP session:", error);
+      }
+    }
+
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  /** Look up a session, marking it as active */
+  get(id: string): McpSession | undefined {
+    const session = this.sessions.get(id);
+    if (session) {
+      session.lastSeenAt = Date.now();
+    }
+    return session;
+  }
+
+  /** Remove a session and end its recorder session */
+  end(id: string, status: SessionStatus = "completed"): McpSession | null {
+    const session = this.sessions.get(id);
+    if (!session) return null;
+
+    this.sessions.delete(id);
+    if (session.recorded) {
+      try {
+        endSession(this.db, id, new Date().toISOString(), status);
+      } catch (error) {
+        console.error("Failed to end MCP session:", error);
+      }
+    }
+    return session;
+  }
+
+  /** End sessions with no requests within the idle timeout */
+  endIdle(now: number = Date.now()): void {
+    for (const session of [...this.sessions.values()]) {
+      if (now - session.lastSeenAt >= this.idleTimeoutMs) {
+        this.end(session.id);
+      }
+    }
+  }
+
+  /** End every open session and stop expiring them (proxy shutdown) */
+  endAll(status: SessionStatus = "completed"): void {
+    clearInterval(this.sweepTimer);
+    for (const id of [...this.sessions.keys()]) {
+      this.end(id, status);
+    }
+  }
+}
+
+/**
+ * Read the Mcp-Session-Id request header.
+ */
+export function getSessionHeader(
+  headers: Record<string, string | string[] | undefined>
+): string | null {
+  const value = headers[MCP_SESSION_HEADER];
+  const id = Array.isArray(value) ? value[0] : value;
+  return id ? id : null;
+}
+
+/**
+ * Headers carrying an upstream's session id, if it issued one.
+ */
+export async function upstreamSessionHeaders(
+  session: McpSession | null,
+  upstreamKey: string
+): Promise<Record<string, string>> {
+  const upstreamId = await session?.upstreamSessions.get(upstreamKey);
+  return upstreamId ? { "Mcp-Session-Id": upstreamId } : {};
+}
@@ -0,0 +1,119 @@
+/**
+ * Tests for the hub's stdio provider runtime.
+ * Verifies the handshake, request routing, timeouts and crash restarts.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import * as fs from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  StdioProviderClient,
+  StdioProviderTimeoutError,
+} from "./stdio-provider.js";
+
+/**
+ * Mock stdio MCP server. Requires the initialize handshake before tools,
+ * exits on the "crash" tool and never answers the "hang" tool.
+ */
+const MOCK_SERVER = `
+import { createInterface } from "node:readline";
+let initialized = false;
+createInterface({ input: process.stdin }).on("line", (line) => {
+  const msg = JSON.parse(line);
+  if (msg.method === "notifications/initialized") initialized = true;
+  if (msg.id === undefined) return;
+  const send = (body) =>
+    process.stdout.write(JSON.stringify({ jsonrpc: "2.0", ...body, id: msg.id }) + "\\n");
+  if (msg.method === "initialize") {
+    send({ result: { protocolVersion: msg.params.protocolVersion, capabilities: {} } });
+  } else if (!initialized) {
+    send({ error: { code: -32002, message: "Not initialized" } });
+  } else if (msg.params.name === "crash") {
+    process.exit(1);
+  } else if (msg.params.name !== "hang") {
+    send({ result: { pid: process.pid } });
+  }
+});
+`;
+
+describe("StdioProviderClient", () => {
+  let scriptDir: string;
+  let scriptPath: string;
+  let client: StdioProviderClient | null = null;
+
+  beforeAll(() => {
+    scriptDir = fs.mkdtempSync(join(tmpdir(), "ar-stdio-provider-"));
+    scriptPath = join(scriptDir, "server.mjs");
+    fs.writeFileSync(scriptPath, MOCK_SERVER);
+  });
+
+  afterAll(() => {
+    fs.rmSync(scriptDir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    await client?.stop();
+    client = null;
+  });
+
+  function startClient(): StdioProviderClient {
+    client = new StdioProviderClient({
+      provider: {
+        id: "mock",
+        type: "stdio",
+        command: process.execPath,
+        args: [scriptPath],
+      },
+      restartDelayMs: 20,
+    });
+    client.start();
+    return client;
+  }
+
+  it("completes the handshake before routing requests", async () => {
+    const provider = startClient();
+
+    const response = await provider.request(
+      "tools/call",
+      { name: "read" },
+      5000
+    );
+
+    expect(provider.getState()).toBe("ready");
+    expect("result" in response && response.result).toHaveProperty("pid");
+  });
+
+  it("times out requests the child never answers", async () => {
+    const provider = startClient();
+
+    await expect(
+      provider.request("tools/call", { name: "hang" }, 200)
+    ).rejects.toBeInstanceOf(StdioProviderTimeoutError);
+  });
+
+  it("restarts a crashed child and serves later requests", async () => {
+    const provider = startClient();
+    const first = await provider.request("tools/call", { name: "a" }, 5000);
+
+    await expect(
+      provider.request("tools/call", { name: "crash" }, 5000)
+    ).rejects.toThrow("exited");
+
+    const second = await provider.request("tools/call", { name: "b" }, 5000);
+    const pidOf = (r: typeof first) =>
+      "result" in r ? (r.result as { pid: number }).pid : null;
+    expect(pidOf(second)).not.toBeNull();
+    expect(pidOf(second)).not.toBe(pidOf(first));
+  });
+
+  it("rejects requests after stop", async () => {
+    const provider = startClient();
+    await provider.stop();
+
+    expect(provider.getState()).toBe("stopped");
+    await expect(
+      provider.request("tools/call", { name: "read" }, 1000)
+    ).rejects.toThrow("not running");
+  });
+});
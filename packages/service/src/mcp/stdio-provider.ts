@@ -0,0 +1,362 @@
+/**
+ * Stdio provider runtime for hub mode.
+ *
+ * Spawns a stdio MCP server, performs the initialize handshake and routes
+ * JSON-RPC requests over the child's stdin/stdout (newline-delimited JSON).
+ * Crashed children are restarted with exponential backoff.
+ */
+
+import { spawn, type ChildProcess } from "node:child_process";
+import { createInterface } from "node:readline";
+import type { StdioProvider } from "@agent-recorder/core";
+import type { JsonRpcResponse } from "./types.js";
+
+/** MCP protocol version offered during the handshake */
+const PROTOCOL_VERSION = "2024-11-05";
+
+/** Timeout for the initialize handshake */
+const HANDSHAKE_TIMEOUT_MS = 30_000;
+
+/** A child that stayed up this long resets the restart backoff */
+const STABLE_UPTIME_MS = 60_000;
+
+/** Lifecycle state of a stdio provider */
+export type StdioProviderState =
+  | "starting"
+  | "ready"
+  | "restarting"
+  | "stopped";
+
+export interface StdioProviderClientOptions {
+  provider: StdioProvider;
+  /** Forward child stderr and log lifecycle events */
+  debugProxy?: boolean;
+  /** First restart delay in ms, doubled after each crash (default: 1000) */
+  restartDelayMs?: number;
+  /** Upper bound for the restart delay in ms (default: 30000) */
+  maxRestartDelayMs?: number;
+}
+
+/**
+ * Error thrown when a stdio provider doesn't answer in time.
+ * Named like fetch's abort so callers can treat both transports alike.
+ */
+export class StdioProviderTimeoutError extends Error {
+  override name = "AbortError";
+}
+
+interface PendingRequest {
+  resolve: (response: JsonRpcResponse) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface ReadyWaiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Supervised connection to one stdio MCP server.
+ */
+export class StdioProviderClient {
+  readonly provider: StdioProvider;
+  private debugProxy: boolean;
+  private restartDelayMs: number;
+  private maxRestartDelayMs: number;
+
+  private child: ChildProcess | null = null;
+  private state: StdioProviderState = "stopped";
+  private startedAt = 0;
+  private restartAttempts = 0;
+  private restartTimer: ReturnType<typeof setTimeout> | null = null;
+  private nextId = 1;
+  private capabilities: Record<string, unknown> | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private readyWaiters: ReadyWaiter[] = [];
+
+  constructor(options: StdioProviderClientOptions) {
+    this.provider = options.provider;
+    this.debugProxy = options.debugProxy ?? false;
+    this.restartDelayMs = options.restartDelayMs ?? 1000;
+    this.maxRestartDelayMs = options.maxRestartDelayMs ?? 30_000;
+  }
+
+  /** Current lifecycle state */
+  getState(): StdioProviderState {
+    return this.state;
+  }
+
+  /** Server capabilities from the last handshake (null until initialized) */
+  getCapabilities(): Record<string, unknown> | null {
+    return this.capabilities;
+  }
+
+  /** Spawn the child process and start the handshake */
+  start(): void {
+    if (this.state !== "stopped") return;
+    this.spawnChild();
+  }
+
+  /**
+   * Send a JSON-RPC request and wait for its response.
+   * Waits for the handshake (or a pending restart) within the same timeout.
+   * The response carries the hub's internal id; callers restore their own.
+   */
+  async request(
+    method: string,
+    params: unknown,
+    timeoutMs: number
+  ): Promise<JsonRpcResponse> {
+    const deadline = Date.now() + timeoutMs;
+    await this.whenReady(timeoutMs);
+    return this.send(method, params, Math.max(0, deadline - Date.now()));
+  }
+
+  /** Stop the child and fail everything still waiting on it */
+  async stop(): Promise<void> {
+    this.state = "stopped";
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+
+    const error = new Error(`Provider ${this.provider.id} stopped`);
+    this.failPending(error);
+    for (const waiter of this.readyWaiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(error);
+    }
+
+    const child = this.child;
+    this.child = null;
+    if (child && child.exitCode === null && child.signalCode === null) {
+      await new Promise<void>((resolve) => {
+        const killTimer = setTimeout(() => child.kill("SIGKILL"), 2000);
+        child.once("exit", () => {
+          clearTimeout(killTimer);
+          resolve();
+        });
+        child.stdin?.end();
+        child.kill("SIGTERM");
+      });
+    }
+  }
+
+  private log(message: string): void {
+    if (this.debugProxy) {
+      console.log(`[Hub] Provider ${this.provider.id}: ${message}`);
+    }
+  }
+
+  private spawnChild(): void {
+    const { command, args = [], env } = this.provider;
+    this.state = "starting";
+    this.startedAt = Date.now();
+
+    const child = spawn(command, args, {
+      env: { ...process.env, ...env },
+      stdio: ["pipe", "pipe", "pipe"],
+      // Don't use shell - direct execution is safer
+      shell: false,
+    });
+    this.child = child;
+    this.log(`spawned ${command} (pid ${child.pid ?? "?"})`);
+
+    child.on("error", (err) => {
+      console.error(
+        `[Hub] Provider ${this.provider.id} failed to start: ${err.message}`
+      );
+      this.handleExit(child);
+    });
+    child.on("exit", (code, signal) => {
+      this.log(`exited with code ${code}, signal ${signal}`);
+      this.handleExit(child);
+    });
+    // Writes to a dead child surface as exit; don't crash the daemon
+    child.stdin?.on("error", () => {});
+
+    if (child.stdout) {
+      const rl = createInterface({ input: child.stdout, crlfDelay: Infinity });
+      rl.on("line", (line) => this.handleLine(line));
+    }
+
+    // Never let a full stderr pipe block the child
+    if (child.stderr) {
+      if (this.debugProxy) {
+        child.stderr.pipe(process.stderr);
+      } else {
+        child.stderr.resume();
+      }
+    }
+
+    void this.handshake(child);
+  }
+
+  private async handshake(child: ChildProcess): Promise<void> {
+    try {
+      const response = await this.send(
+        "initialize",
+        {
+          protocolVersion: PROTOCOL_VERSION,
+          capabilities: {},
+          clientInfo: { name: "agent-recorder-hub", version: "1.0" },
+        },
+        HANDSHAKE_TIMEOUT_MS
+      );
+      if ("error" in response) {
+        throw new Error(response.error.message);
+      }
+      if (this.child !== child) return;
+
+      const result = response.result as { capabilities?: unknown } | undefined;
+      this.capabilities =
+        typeof result?.capabilities === "object" && result.capabilities
+          ? (result.capabilities as Record<string, unknown>)
+          : {};
+      this.write({ jsonrpc: "2.0", method: "notifications/initialized" });
+      this.state = "ready";
+      this.log("initialized");
+
+      for (const waiter of this.readyWaiters.splice(0)) {
+        clearTimeout(waiter.timer);
+        waiter.resolve();
+      }
+    } catch (error) {
+      if (this.child !== child || this.state === "stopped") return;
+      console.error(
+        `[Hub] Provider ${this.provider.id} handshake failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      // Exit handler schedules the restart
+      child.kill("SIGKILL");
+    }
+  }
+
+  private handleExit(child: ChildProcess): void {
+    if (this.child !== child) return;
+    this.child = null;
+
+    this.failPending(new Error(`Provider ${this.provider.id} exited`));
+    if (this.state === "stopped") return;
+
+    if (Date.now() - this.startedAt >= STABLE_UPTIME_MS) {
+      this.restartAttempts = 0;
+    }
+    const delay = Math.min(
+      this.restartDelayMs * 2 ** this.restartAttempts,
+      this.maxRestartDelayMs
+    );
+    this.restartAttempts++;
+    this.state = "restarting";
+    console.error(
+      `[Hub] Provider ${this.provider.id} exited; restarting in ${delay}ms`
+    );
+
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      if (this.state === "restarting") {
+        this.spawnChild();
+      }
+    }, delay);
+    this.restartTimer.unref();
+  }
+
+  private handleLine(line: string): void {
+    if (!line.trim()) return;
+
+    let message: Record<string, unknown>;
+    try {
+      message = JSON.parse(line) as Record<string, unknown>;
+    } catch {
+      this.log("ignored non-JSON output line");
+      return;
+    }
+
+    // Server-to-client requests (sampling, roots) aren't supported by the hub
+    if (typeof message.method === "string") {
+      if (message.id !== undefined && message.id !== null) {
+        this.write({
+          jsonrpc: "2.0",
+          error: { code: -32601, message: "Method not found" },
+          id: message.id,
+        });
+      }
+      return;
+    }
+
+    if (typeof message.id !== "number") return;
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+
+    this.pending.delete(message.id);
+    clearTimeout(pending.timer);
+    pending.resolve(message as unknown as JsonRpcResponse);
+  }
+
+  private whenReady(timeoutMs: number): Promise<void> {
+    if (this.state === "ready") return Promise.resolve();
+    if (this.state === "stopped") {
+      return Promise.reject(
+        new Error(`Provider ${this.provider.id} is not running`)
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: ReadyWaiter = {
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.readyWaiters = this.readyWaiters.filter((w) => w !== waiter);
+          reject(
+            new StdioProviderTimeoutError(
+              `Provider ${this.provider.id} not ready`
+            )
+          );
+        }, timeoutMs),
+      };
+      this.readyWaiters.push(waiter);
+    });
+  }
+
+  private send(
+    method: string,
+    params: unknown,
+    timeoutMs: number
+  ): Promise<JsonRpcResponse> {
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(
+          new StdioProviderTimeoutError(
+            `Provider ${this.provider.id} timed out on ${method}`
+          )
+        );
+      }, timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+
+      this.write({
+        jsonrpc: "2.0",
+        method,
+        ...(params !== undefined && { params }),
+        id,
+      });
+    });
+  }
+
+  private write(message: Record<string, unknown>): void {
+    this.child?.stdin?.write(JSON.stringify(message) + "\n");
+  }
+
+  private failPending(error: Error): void {
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+    this.pending.clear();
+  }
+}
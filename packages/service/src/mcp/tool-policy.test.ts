@@ -0,0 +1,52 @@
+/**
+ * Tests for hub tool policies (allow/deny globs and read-only mode).
+ */
+
+import { describe, it, expect } from "vitest";
+import { ToolPolicy } from "./tool-policy.js";
+
+describe("ToolPolicy", () => {
+  it("applies deny over allow, with per-provider policies overriding the default", () => {
+    const policy = new ToolPolicy({
+      default: { deny: ["*"] },
+      providers: {
+        github: { allow: ["get_*", "list_*"], deny: ["get_secret*"] },
+      },
+    });
+
+    expect(policy.check("github", "list_issues")).toEqual({ allowed: true });
+    expect(policy.check("github", "get_secret_value")).toEqual({
+      allowed: false,
+      reason: "matches a deny pattern",
+    });
+    expect(policy.check("github", "create_issue")).toEqual({
+      allowed: false,
+      reason: "not in the allow list",
+    });
+    expect(policy.check("other", "anything").allowed).toBe(false);
+    expect(new ToolPolicy(undefined).check("other", "anything").allowed).toBe(
+      true
+    );
+  });
+
+  it("exposes only tools annotated read-only in read-only mode", () => {
+    const policy = new ToolPolicy({ providers: { fs: { readOnly: true } } });
+
+    // Nothing has been listed yet, so nothing is known to be read-only
+    expect(policy.check("fs", "read_file").allowed).toBe(false);
+
+    const tools = policy.filterTools("fs", [
+      { name: "read_file", annotations: { readOnlyHint: true } },
+      { name: "write_file", annotations: { readOnlyHint: false } },
+      { name: "move_file" },
+    ]);
+    expect(tools).toEqual([
+      { name: "read_file", annotations: { readOnlyHint: true } },
+    ]);
+    expect(policy.check("fs", "read_file").allowed).toBe(true);
+    expect(policy.check("fs", "write_file")).toEqual({
+      allowed: false,
+      reason: "provider is read-only",
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Hub tool policies from providers.json.
+ *
+ * Each provider's tools can be restricted with allow and deny globs and a
+ * read-only mode. Denied tools are left out of the aggregated tools/list
+ * and calls to them are rejected before they reach the provider.
+ */
+
+import {
+  globToRegExp,
+  type ProviderToolPolicy,
+  type ProvidersPolicy,
+} from "@agent-recorder/core";
+
+/** Outcome of checking a tool call against the policy */
+export type ToolPolicyDecision =
+  | { allowed: true }
+  | { allowed: false; reason: string };
+
+/** Compiled form of a provider's policy */
+interface CompiledPolicy {
+  allow: RegExp[] | null;
+  deny: RegExp[];
+  readOnly: boolean;
+}
+
+/** Compile glob patterns, ignoring anything that isn't a string */
+function compilePatterns(patterns: unknown): RegExp[] | null {
+  if (!Array.isArray(patterns)) return null;
+  return patterns
+    .filter((p): p is string => typeof p === "string")
+    .map(globToRegExp);
+}
+
+function compilePolicy(policy: ProviderToolPolicy): CompiledPolicy {
+  return {
+    allow: compilePatterns(policy.allow),
+    deny: compilePatterns(policy.deny) ?? [],
+    readOnly: policy.readOnly === true,
+  };
+}
+
+/**
+ * Policy evaluator for the hub. Read-only mode relies on the tool
+ * annotations seen in each provider's tools/list, so a call to a tool the
+ * hub hasn't listed as read-only is rejected.
+ */
+export class ToolPolicy {
+  private defaultPolicy: CompiledPolicy | null;
+  private providerPolicies = new Map<string, CompiledPolicy>();
+  /** Tools each read-only provider annotated as read-only */
+  private readOnlyTools = new Map<string, Set<string>>();
+
+  constructor(policy: ProvidersPolicy | undefined) {
+    this.defaultPolicy = policy?.default ? compilePolicy(policy.default) : null;
+    for (const [providerId, providerPolicy] of Object.entries(
+      policy?.providers ?? {}
+    )) {
+      this.providerPolicies.set(providerId, compilePolicy(providerPolicy));
+    }
+  }
+
+  private policyFor(providerId: string): CompiledPolicy | null {
+    return this.providerPolicies.get(providerId) ?? this.defaultPolicy;
+  }
+
+  /**
+   * Check a call to one of a provider's tools (name without hub prefix).
+   */
+  check(providerId: string, toolName: string): ToolPolicyDecision {
+    const policy = this.policyFor(providerId);
+    if (!policy) return { allowed: true };
+
+    if (policy.deny.some((re) => re.test(toolName))) {
+      return { allowed: false, reason: "matches a deny pattern" };
+    }
+    if (policy.allow && !policy.allow.some((re) => re.test(toolName))) {
+      return { allowed: false, reason: "not in the allow list" };
+    }
+    if (policy.readOnly && !this.readOnlyTools.get(providerId)?.has(toolName)) {
+      return { allowed: false, reason: "provider is read-only" };
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Filter a provider's tools/list items down to the tools the policy
+   * exposes, remembering which are annotated read-only.
+   */
+  filterTools(providerId: string, tools: unknown[]): unknown[] {
+    const policy = this.policyFor(providerId);
+    if (!policy) return tools;
+
+    if (policy.readOnly) {
+      const readOnly = new Set<string>();
+      for (const tool of tools) {
+        const { name, annotations } = (tool ?? {}) as {
+          name?: unknown;
+          annotations?: { readOnlyHint?: unknown };
+        };
+        if (typeof name === "string" && annotations?.readOnlyHint === true) {
+          readOnly.add(name);
+        }
+      }
+      this.readOnlyTools.set(providerId, readOnly);
+    }
+
+    return tools.filter((tool) => {
+      const name = (tool as { name?: unknown } | null)?.name;
+      return typeof name === "string" && this.check(providerId, name).allowed;
+    });
+  }
+}
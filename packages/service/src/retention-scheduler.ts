@@ -0,0 +1,101 @@
+/**
+ * Retention scheduler for daemon.
+ * Applies the configured retention policy on boot and then periodically.
+ */
+
+import type Database from "better-sqlite3";
+import {
+  pruneSessions,
+  type PruneOptions,
+  type PruneResult,
+  type RetentionPolicy,
+} from "@agent-recorder/core";
+
+export interface RetentionScheduler {
+  /** Apply the policy immediately. Returns null if the policy is disabled. */
+  runNow(): PruneResult | null;
+  stop(): void;
+}
+
+/**
+ * Convert a retention policy into prune options.
+ * Returns null if no limit is configured.
+ */
+export function policyToPruneOptions(
+  policy: RetentionPolicy,
+  now: Date = new Date()
+): PruneOptions | null {
+  const options: PruneOptions = {
+    payloadsOnly: policy.payloadsOnly,
+    vacuum: true,
+  };
+
+  if (policy.maxAgeMs !== null) {
+    options.olderThan = new Date(now.getTime() - policy.maxAgeMs).toISOString();
+  }
+  if (policy.keepLast !== null) {
+    options.keepLast = policy.keepLast;
+  }
+  if (policy.maxDbSizeBytes !== null) {
+    options.maxDbSizeBytes = policy.maxDbSizeBytes;
+  }
+
+  const hasLimit =
+    options.olderThan !== undefined ||
+    options.keepLast !== undefined ||
+    options.maxDbSizeBytes !== undefined;
+
+  return hasLimit ? options : null;
+}
+
+/**
+ * Create a retention scheduler. Does nothing if no limit is configured.
+ * Fails open: prune errors are logged, never thrown.
+ */
+export function createRetentionScheduler(
+  db: Database.Database,
+  policy: RetentionPolicy,
+  protectedSessionIds: string[]
+): RetentionScheduler {
+  const runNow = (): PruneResult | null => {
+    const options = policyToPruneOptions(policy);
+    if (!options) {
+      return null;
+    }
+
+    try {
+      const result = pruneSessions(db, { ...options, protectedSessionIds });
+      if (result.sessionIds.length > 0) {
+        const action = result.payloadsOnly ? "Dropped payloads for" : "Pruned";
+        console.log(
+          `[Retention] ${action} ${result.sessionIds.length} session(s), ${result.eventCount} event(s)`
+        );
+      }
+      return result;
+    } catch (error) {
+      console.error(
+        "[Retention] Prune failed:",
+        error instanceof Error ? error.message : "Unknown error"
+      );
+      return null;
+    }
+  };
+
+  let timer: ReturnType<typeof setInterval> | null = null;
+  if (policyToPruneOptions(policy)) {
+    runNow();
+    timer = setInterval(runNow, policy.intervalMs);
+    // Don't keep the process alive just for retention
+    timer.unref();
+  }
+
+  return {
+    runNow,
+    stop() {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+    },
+  };
+}
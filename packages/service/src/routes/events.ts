@@ -5,38 +5,52 @@
 import type { FastifyInstance } from "fastify";
 import type Database from "better-sqlite3";
 import {
-  insertEvent,
+  ingestEvent,
+  parsePayloadJson,
   getEventsBySession,
   getEventsBySessionPaginated,
   countEventsBySession,
   getLatestToolCallEvent,
+  type IngestOptions,
   type InsertEventInput,
 } from "@agent-recorder/core";
 
 interface EventsRoutesOptions {
   db: Database.Database;
+  ingest: IngestOptions;
 }
 
+/** Event body for POST /api/events (sequence is allocated when omitted) */
+type PostEventBody = Omit<InsertEventInput, "sequence"> & {
+  sequence?: number;
+};
+
 export async function registerEventsRoutes(
   app: FastifyInstance,
   options: EventsRoutesOptions
 ): Promise<void> {
-  const { db } = options;
+  const { db, ingest } = options;
 
-  // Insert a new event
-  app.post<{ Body: InsertEventInput }>(
-    "/api/events",
-    async (request, reply) => {
-      try {
-        const event = insertEvent(db, request.body);
-        return reply.code(201).send(event);
-      } catch (error) {
-        console.error("Failed to insert event:", error);
-        // Fail-open: log error but return 500, don't crash
-        return reply.code(500).send({ error: "Failed to insert event" });
-      }
+  // Insert a new event (payloads are redacted and truncated on the way in)
+  app.post<{ Body: PostEventBody }>("/api/events", async (request, reply) => {
+    try {
+      const { inputJson, outputJson, ...rest } = request.body;
+      const event = ingestEvent(
+        db,
+        {
+          ...rest,
+          input: parsePayloadJson(inputJson),
+          output: parsePayloadJson(outputJson),
+        },
+        ingest
+      );
+      return reply.code(201).send(event);
+    } catch (error) {
+      console.error("Failed to insert event:", error);
+      // Fail-open: log error but return 500, don't crash
+      return reply.code(500).send({ error: "Failed to insert event" });
     }
-  );
+  });
 
   // Get events for a session with optional after/limit for tailing
   app.get<{
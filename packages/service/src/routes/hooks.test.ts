@@ -0,0 +1,530 @@
+/**
+ * Tests for Claude Code hooks endpoint.
+ * Verifies PreToolUse/PostToolUse pairing, closing of unmatched calls and
+ * replay of spooled events.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  openMemoryDatabase,
+  runMigrations,
+  getEventById,
+  getEventsBySession,
+  getSessionById,
+  appendToHookSpool,
+} from "@agent-recorder/core";
+import { createServer } from "../server.js";
+import { replaySpooledHookEvents } from "../hook-spool-replay.js";
+import type { FastifyInstance } from "fastify";
+import type Database from "better-sqlite3";
+import { join, dirname } from "node:path";
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { fileURLToPath } from "node:url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+describe("Hooks routes", () => {
+  let app: FastifyInstance;
+  let db: Database.Database;
+  const sessionId = "hooks-test-session";
+
+  beforeEach(async () => {
+    db = openMemoryDatabase();
+    const migrationsDir = join(
+      __dirname,
+      "..",
+      "..",
+      "..",
+      "core",
+      "migrations"
+    );
+    runMigrations(db, migrationsDir);
+
+    app = await createServer({ db });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    db.close();
+  });
+
+  async function sendHook(hookType: string, body: Record<string, unknown>) {
+    return app.inject({
+      method: "POST",
+      url: "/api/hooks",
+      payload: { hook_type: hookType, session_id: sessionId, ...body },
+    });
+  }
+
+  it("opens a running event on PreToolUse and completes it on PostToolUse", async () => {
+    await sendHook("PreToolUse", {
+      tool_name: "Bash",
+      tool_input: { command: "ls" },
+      tool_use_id: "toolu_1",
+    });
+
+    let events = getEventsBySession(db, sessionId);
+    expect(events).toHaveLength(1);
+    expect(events[0]!.status).toBe("running");
+    expect(events[0]!.endedAt).toBeNull();
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await sendHook("PostToolUse", {
+      tool_name: "Bash",
+      tool_input: { command: "ls" },
+      tool_use_id: "toolu_1",
+      tool_response: { stdout: "a.txt" },
+    });
+
+    events = getEventsBySession(db, sessionId);
+    expect(events).toHaveLength(1);
+    const [event] = events;
+    expect(event!.status).toBe("success");
+    expect(JSON.parse(event!.outputJson!)).toEqual({ stdout: "a.txt" });
+    expect(Date.parse(event!.endedAt!)).toBeGreaterThan(
+      Date.parse(event!.startedAt)
+    );
+  });
+
+  it("pairs by tool name and input when no tool_use_id is sent", async () => {
+    await sendHook("PreToolUse", {
+      tool_name: "Read",
+      tool_input: { file_path: "/a" },
+    });
+    await sendHook("PreToolUse", {
+      tool_name: "Read",
+      tool_input: { file_path: "/b" },
+    });
+    await sendHook("PostToolUse", {
+      tool_name: "Read",
+      tool_input: { file_path: "/b" },
+      tool_response: "b",
+    });
+
+    const events = getEventsBySession(db, sessionId);
+    expect(events).toHaveLength(2);
+    expect(events[0]!.status).toBe("running");
+    expect(events[1]!.status).toBe("success");
+  });
+
+  it("records a zero-duration event for PostToolUse without PreToolUse", async () => {
+    await sendHook("PostToolUse", {
+      tool_name: "mcp__github__create_issue",
+      tool_input: { title: "x" },
+      tool_response: { ok: true },
+    });
+
+    const [event] = getEventsBySession(db, sessionId);
+    expect(event!.status).toBe("success");
+    expect(event!.toolName).toBe("create_issue");
+    expect(event!.upstreamKey).toBe("github");
+    expect(event!.endedAt).toBe(event!.startedAt);
+  });
+
+  it("marks unmatched calls as error on Stop", async () => {
+    await sendHook("PreToolUse", {
+      tool_name: "Bash",
+      tool_input: { command: "false" },
+      tool_use_id: "toolu_2",
+    });
+    await sendHook("Stop", {});
+
+    const [event] = getEventsBySession(db, sessionId);
+    expect(event!.status).toBe("error");
+    expect(event!.endedAt).not.toBeNull();
+    expect(event!.errorCategory).toBe("unknown");
+
+    // A late PostToolUse no longer matches and is recorded separately
+    await sendHook("PostToolUse", {
+      tool_name: "Bash",
+      tool_input: { command: "false" },
+      tool_use_id: "toolu_2",
+    });
+    expect(getEventsBySession(db, sessionId)).toHaveLength(2);
+  });
+
+  it("marks unmatched calls as cancelled on SessionEnd", async () => {
+    await sendHook("PreToolUse", {
+      tool_name: "Bash",
+      tool_input: { command: "sleep 100" },
+      tool_use_id: "toolu_3",
+    });
+    await sendHook("SessionEnd", { end_reason: "logout" });
+
+    const [event] = getEventsBySession(db, sessionId);
+    expect(event!.status).toBe("cancelled");
+    expect(event!.errorCategory).toBeNull();
+  });
+
+  it("closes calls blocked by a guardrail without extra events", async () => {
+    await sendHook("PreToolUse", {
+      tool_name: "Bash",
+      tool_input: { command: "rm -rf /" },
+      tool_use_id: "toolu_blocked",
+      guardrail: {
+        action: "block",
+        rule: "no-force-delete",
+        reason: "Recursive force deletes are not allowed",
+      },
+    });
+    await sendHook("PreToolUse", {
+      tool_name: "Bash",
+      tool_input: { command: "rm -rf /tmp/cache" },
+      tool_use_id: "toolu_allowed",
+      guardrail: {
+        action: "allow",
+        rule: "allow-tmp-cleanup",
+        reason: "Allowed by guardrail rule",
+      },
+    });
+
+    const events = getEventsBySession(db, sessionId);
+    expect(events).toHaveLength(2);
+    const [blocked, allowed] = events;
+    expect(blocked).toMatchObject({
+      status: "error",
+      errorCategory: "policy_denied",
+    });
+    expect(JSON.parse(blocked!.outputJson!)).toEqual({
+      decision: "block",
+      rule: "no-force-delete",
+      reason: "Recursive force deletes are not allowed",
+    });
+    expect(allowed!.status).toBe("running");
+
+    // Only the allowed call is still pending
+    await sendHook("Stop", {});
+    expect(getEventById(db, allowed!.id)!.status).toBe("error");
+    expect(getEventById(db, blocked!.id)!.errorCategory).toBe("policy_denied");
+  });
+
+  it("uses handler timestamps and skips duplicate deliveries", async () => {
+    await sendHook("PreToolUse", {
+      tool_name: "Bash",
+      tool_input: { command: "ls" },
+      tool_use_id: "toolu_t",
+      timestamp: "2026-01-02T03:04:05.000Z",
+      idempotency_key: "key-pre",
+    });
+    const post = {
+      tool_name: "Bash",
+      tool_input: { command: "ls" },
+      tool_use_id: "toolu_t",
+      tool_response: "ok",
+      timestamp: "2026-01-02T03:04:07.500Z",
+      idempotency_key: "key-post",
+    };
+    await sendHook("PostToolUse", post);
+    const duplicate = await sendHook("PostToolUse", post);
+    expect(duplicate.json()).toEqual({ ok: true, duplicate: true });
+
+    const events = getEventsBySession(db, sessionId);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      status: "success",
+      startedAt: "2026-01-02T03:04:05.000Z",
+      endedAt: "2026-01-02T03:04:07.500Z",
+    });
+    expect(getSessionById(db, sessionId)!.startedAt).toBe(
+      "2026-01-02T03:04:05.000Z"
+    );
+  });
+
+  it("keeps a delivery retryable when processing it fails", async () => {
+    const pre = {
+      tool_name: "Bash",
+      tool_input: { command: "ls" },
+      tool_use_id: "toolu_f",
+      idempotency_key: "key-failed",
+    };
+    db.exec(
+      "CREATE TEMP TRIGGER fail_insert BEFORE INSERT ON events BEGIN SELECT RAISE(ABORT, 'disk full'); END"
+    );
+    const failed = await sendHook("PreToolUse", pre);
+    expect(failed.json()).toEqual({ ok: true, error: "logged" });
+
+    db.exec("DROP TRIGGER fail_insert");
+    const retried = await sendHook("PreToolUse", pre);
+    expect(retried.json()).toEqual({ ok: true });
+    expect(getEventsBySession(db, sessionId)).toHaveLength(1);
+  });
+
+  it("keeps tracking a call when its completion is rolled back", async () => {
+    await sendHook("PreToolUse", {
+      tool_name: "Task",
+      tool_input: { subagent_type: "Explore", prompt: "look" },
+      tool_use_id: "toolu_task",
+    });
+    const post = {
+      tool_name: "Task",
+      tool_input: { subagent_type: "Explore", prompt: "look" },
+      tool_use_id: "toolu_task",
+      tool_response: "done",
+      idempotency_key: "key-post",
+    };
+    db.exec(
+      "CREATE TEMP TRIGGER fail_update BEFORE UPDATE ON events BEGIN SELECT RAISE(ABORT, 'disk full'); END"
+    );
+    const failed = await sendHook("PostToolUse", post);
+    expect(failed.json()).toEqual({ ok: true, error: "logged" });
+
+    db.exec("DROP TRIGGER fail_update");
+    await sendHook("PreToolUse", { tool_name: "Read", tool_use_id: "toolu_r" });
+    await sendHook("PostToolUse", post);
+
+    const events = getEventsBySession(db, sessionId);
+    expect(events).toHaveLength(2);
+    const [task, read] = events;
+    expect(task!.status).toBe("success");
+    // The subagent was still open when Read started
+    expect(read!.parentEventId).toBe(task!.id);
+  });
+
+  it("replays spooled events once, keeping their times", async () => {
+    const tempDir = mkdtempSync(join(tmpdir(), "ar-hooks-spool-"));
+    const spoolPath = join(tempDir, "hook-spool.jsonl");
+    try {
+      const base = { session_id: sessionId, tool_name: "Read" };
+      appendToHookSpool(
+        {
+          ...base,
+          hook_type: "PreToolUse",
+          tool_input: { file_path: "a.txt" },
+          tool_use_id: "toolu_s",
+          timestamp: "2026-01-02T03:00:00.000Z",
+          idempotency_key: "spool-pre",
+        },
+        spoolPath
+      );
+      appendToHookSpool(
+        {
+          ...base,
+          hook_type: "PostToolUse",
+          tool_input: { file_path: "a.txt" },
+          tool_use_id: "toolu_s",
+          tool_response: "text",
+          timestamp: "2026-01-02T03:00:01.000Z",
+          idempotency_key: "spool-post",
+        },
+        spoolPath
+      );
+      // Replaying the same events again records nothing new
+      const copy = readFileSync(spoolPath, "utf-8");
+
+      expect(await replaySpooledHookEvents(app, spoolPath)).toEqual({
+        replayed: 2,
+        failed: 0,
+      });
+      writeFileSync(spoolPath, copy);
+      await replaySpooledHookEvents(app, spoolPath);
+
+      const events = getEventsBySession(db, sessionId);
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        toolName: "Read",
+        status: "success",
+        startedAt: "2026-01-02T03:00:00.000Z",
+        endedAt: "2026-01-02T03:00:01.000Z",
+      });
+      expect(existsSync(spoolPath)).toBe(false);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("nests tool calls under the Task that spawned the subagent", async () => {
+    const taskInput = { subagent_type: "Explore", prompt: "find tests" };
+    await sendHook("PreToolUse", {
+      tool_name: "Task",
+      tool_input: taskInput,
+      tool_use_id: "toolu_task",
+    });
+    await sendHook("PreToolUse", {
+      tool_name: "Grep",
+      tool_input: { pattern: "describe" },
+      tool_use_id: "toolu_grep",
+    });
+    await sendHook("PostToolUse", {
+      tool_name: "Grep",
+      tool_input: { pattern: "describe" },
+      tool_use_id: "toolu_grep",
+      tool_response: "3 files",
+    });
+    await sendHook("SubagentStop", {});
+
+    let events = getEventsBySession(db, sessionId);
+    const task = events.find((e) => e.toolName === "Task")!;
+    const grep = events.find((e) => e.toolName === "Grep")!;
+    expect(task.eventType).toBe("subagent_call");
+    expect(task.agentName).toBe("Explore");
+    expect(task.status).toBe("success");
+    expect(task.endedAt).not.toBeNull();
+    expect(grep.parentEventId).toBe(task.id);
+    expect(grep.agentRole).toBe("subagent");
+    expect(grep.agentName).toBe("Explore");
+
+    // Task result arrives after SubagentStop; later calls are top-level again
+    await sendHook("PostToolUse", {
+      tool_name: "Task",
+      tool_input: taskInput,
+      tool_use_id: "toolu_task",
+      tool_response: { summary: "done" },
+    });
+    await sendHook("PreToolUse", {
+      tool_name: "Read",
+      tool_input: { file_path: "/a" },
+      tool_use_id: "toolu_read",
+    });
+    await sendHook("Stop", {});
+
+    events = getEventsBySession(db, sessionId);
+    expect(events).toHaveLength(3);
+    const completedTask = events.find((e) => e.id === task.id)!;
+    expect(completedTask.status).toBe("success");
+    expect(JSON.parse(completedTask.outputJson!)).toEqual({ summary: "done" });
+    const read = events.find((e) => e.toolName === "Read")!;
+    expect(read.parentEventId).toBeNull();
+    expect(read.agentName).toBe("claude-code");
+    expect(read.status).toBe("error");
+  });
+
+  it("attributes calls to the innermost open subagent", async () => {
+    await sendHook("PreToolUse", {
+      tool_name: "Task",
+      tool_input: { subagent_type: "planner" },
+      tool_use_id: "toolu_outer",
+    });
+    await sendHook("PreToolUse", {
+      tool_name: "Task",
+      tool_input: { subagent_type: "reviewer" },
+      tool_use_id: "toolu_inner",
+    });
+    await sendHook("PreToolUse", {
+      tool_name: "Read",
+      tool_input: { file_path: "/b" },
+      tool_use_id: "toolu_read",
+    });
+    await sendHook("SubagentStop", { subagent_type: "reviewer" });
+    await sendHook("PreToolUse", {
+      tool_name: "Write",
+      tool_input: { file_path: "/c" },
+      tool_use_id: "toolu_write",
+    });
+
+    const events = getEventsBySession(db, sessionId);
+    const outer = events.find(
+      (e) => e.agentName === "planner" && e.toolName === "Task"
+    )!;
+    const inner = events.find(
+      (e) => e.agentName === "reviewer" && e.toolName === "Task"
+    )!;
+    expect(inner.parentEventId).toBe(outer.id);
+    expect(inner.status).toBe("success");
+    expect(outer.status).toBe("running");
+    expect(events.find((e) => e.toolName === "Read")!.parentEventId).toBe(
+      inner.id
+    );
+    expect(events.find((e) => e.toolName === "Write")!.parentEventId).toBe(
+      outer.id
+    );
+  });
+
+  it("records session start source and ends the session on SessionEnd", async () => {
+    await sendHook("SessionStart", { start_source: "startup" });
+
+    let session = getSessionById(db, sessionId)!;
+    expect(session.status).toBe("active");
+    expect(session.startSource).toBe("startup");
+
+    await sendHook("SessionEnd", {
+      end_reason: "logout",
+      statistics: { duration_ms: 120000, tool_calls: 7, tokens_used: 5400 },
+    });
+
+    session = getSessionById(db, sessionId)!;
+    expect(session.status).toBe("completed");
+    expect(session.endedAt).not.toBeNull();
+    expect(session.endReason).toBe("logout");
+    expect(session.statsDurationMs).toBe(120000);
+    expect(session.statsToolCalls).toBe(7);
+    expect(session.statsTokensUsed).toBe(5400);
+  });
+
+  it("maps abnormal end reasons to session status", async () => {
+    await sendHook("SessionEnd", { end_reason: "interrupted" });
+    expect(getSessionById(db, sessionId)!.status).toBe("cancelled");
+
+    await sendHook("SessionEnd", { end_reason: "error" });
+    expect(getSessionById(db, sessionId)!.status).toBe("error");
+  });
+
+  it("reopens an ended session when it is resumed", async () => {
+    await sendHook("SessionEnd", { end_reason: "prompt_input_exit" });
+    await sendHook("SessionStart", { start_source: "resume" });
+
+    const session = getSessionById(db, sessionId)!;
+    expect(session.status).toBe("active");
+    expect(session.endedAt).toBeNull();
+    expect(session.endReason).toBeNull();
+    expect(session.startSource).toBe("resume");
+  });
+
+  it("records session context when the session is created", async () => {
+    const context = {
+      cwd: "/home/dev/project",
+      gitBranch: "main",
+      gitCommit: "abc123",
+      clientType: "claude-code",
+      hostname: "devbox",
+    };
+    await sendHook("SessionStart", { start_source: "startup", context });
+    // Later events do not overwrite the start context
+    await sendHook("Stop", { context: { ...context, gitBranch: "other" } });
+
+    const session = getSessionById(db, sessionId)!;
+    expect(session.cwd).toBe("/home/dev/project");
+    expect(session.gitBranch).toBe("main");
+    expect(session.gitCommit).toBe("abc123");
+    expect(session.clientType).toBe("claude-code");
+    expect(session.hostname).toBe("devbox");
+
+    const response = await app.inject({
+      method: "GET",
+      url: "/api/sessions?project=/home/dev",
+    });
+    expect(response.json().map((s: { id: string }) => s.id)).toEqual([
+      sessionId,
+    ]);
+
+    const other = await app.inject({
+      method: "GET",
+      url: "/api/sessions?project=/home/dev/proj",
+    });
+    expect(other.json()).toEqual([]);
+  });
+
+  it("redacts and truncates hook payloads before storing them", async () => {
+    const token = "ghp_" + "a1B2c3D4e5F6g7H8i9J0k1L2m3N4o5P6q7R8";
+    await sendHook("PostToolUse", {
+      tool_name: "Bash",
+      tool_input: { command: `GH_TOKEN=${token} gh pr list`, password: "pw" },
+      tool_response: { stdout: "y".repeat(20000) },
+    });
+
+    const [event] = getEventsBySession(db, sessionId);
+    expect(event!.inputJson).not.toContain(token);
+    expect(event!.inputJson).toContain("[REDACTED:github_token]");
+    expect(JSON.parse(event!.inputJson!).password).toBe("[REDACTED]");
+    expect(event!.outputJson!.length).toBeLessThanOrEqual(10240);
+    expect(event!.outputJson!.endsWith("...[TRUNCATED]")).toBe(true);
+  });
+});
@@ -3,21 +3,66 @@
  *
  * This endpoint is called by the agent-recorder-hook handler script
  * which is configured in Claude Code's .claude/settings.json.
+ *
+ * PreToolUse opens a running event which the matching PostToolUse completes,
+ * so recorded durations are real. Calls that never see a PostToolUse are
+ * closed when the agent stops (error) or the session ends (cancelled).
+ *
+ * A Task PreToolUse opens a subagent_call; tool calls made while it is open
+ * are recorded as its children and SubagentStop closes it. Hooks do not say
+ * which subagent issued a call, so concurrent subagents are attributed to
+ * the most recently started one.
+ *
+ * A call blocked by a guardrail in the hook handler is closed right away
+ * with the policy_denied error category and the decision as its output;
+ * allowed calls are recorded like any other.
+ *
+ * Sessions record the context (cwd, git branch/commit, host) sent by the
+ * hook handler when they are created.
+ *
+ * Events are timed by the handler's timestamp, so events spooled while the
+ * daemon was down and replayed later keep their original times. Events with
+ * an idempotency key that was already processed are ignored.
+ * SessionStart records the start source (and reopens resumed sessions);
+ * SessionEnd ends the session with its end reason and reported statistics,
+ * and with AR_IMPORT_TRANSCRIPTS=1 fills gaps from the session transcript.
  */
 
 import type { FastifyInstance } from "fastify";
 import type Database from "better-sqlite3";
-import { randomUUID } from "node:crypto";
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
 import {
-  insertEvent,
+  ingestEvent,
+  ingestCompletion,
+  getEventById,
   createSession,
   getSessionById,
-  allocateSequence,
-  type InsertEventInput,
+  endSession,
+  parseTranscript,
+  recordHookDelivery,
+  recordSessionStart,
+  runEventTransaction,
+  setSessionContext,
+  type GuardrailDecision,
+  type IngestOptions,
+  type Session,
+  type SessionContext,
+  type SessionStatistics,
+  type SessionStatus,
 } from "@agent-recorder/core";
+import {
+  getMcpMethod,
+  getSubagentType,
+  parseToolName,
+} from "../claude-tools.js";
+import { importTranscript } from "../transcript-import.js";
 
 interface HooksRoutesOptions {
   db: Database.Database;
+  ingest: IngestOptions;
+  /** Import the session's transcript on SessionEnd */
+  importTranscripts?: boolean;
   debug?: boolean;
 }
 
@@ -29,6 +74,7 @@ interface HookEventPayload {
   tool_name?: string;
   tool_input?: Record<string, unknown>;
   tool_response?: unknown;
+  tool_use_id?: string;
   subagent_type?: string;
   message?: string;
   start_source?: string;
@@ -38,6 +84,14 @@ interface HookEventPayload {
     tool_calls?: number;
     tokens_used?: number;
   };
+  /** Session context collected by the hook handler */
+  context?: SessionContext;
+  /** Guardrail decision the hook handler made for a PreToolUse */
+  guardrail?: GuardrailDecision;
+  /** When the hook fired (ISO 8601), set by the hook handler */
+  timestamp?: string;
+  /** Unique per hook event, for deduplicating replayed deliveries */
+  idempotency_key?: string;
 }
 
 /** Truncate a string for logging */
@@ -48,12 +102,12 @@ function truncateForLog(value: unknown, maxLength = 100): string {
   return str.slice(0, maxLength) + "...";
 }
 
-/** Format tool call for logging */
+/** Format tool call for logging (from the redacted, stored payloads) */
 function formatToolCallLog(
   toolName: string,
   upstreamKey: string | null,
-  input: Record<string, unknown> | undefined,
-  output: unknown | undefined
+  input: string | null,
+  output: string | null
 ): string {
   const server = upstreamKey ?? "builtin";
   const inputSummary = input ? truncateForLog(input, 150) : "(no input)";
@@ -62,8 +116,19 @@ function formatToolCallLog(
   return `[${server}] ${toolName}\n  Input:  ${inputSummary}\n  Output: ${outputSummary}`;
 }
 
-/** Get or create a session by ID */
-function getOrCreateSession(db: Database.Database, sessionId: string) {
+/** When the hook fired: the handler's timestamp if valid, else now */
+function getEventTime(payload: HookEventPayload): string {
+  const time = payload.timestamp ? Date.parse(payload.timestamp) : NaN;
+  return new Date(isNaN(time) ? Date.now() : time).toISOString();
+}
+
+/** Get or create a session by ID, recording its context on creation */
+function getOrCreateSession(
+  db: Database.Database,
+  sessionId: string,
+  context: SessionContext | undefined,
+  startedAt: string
+) {
   // Check if session exists
   const existing = getSessionById(db, sessionId);
   if (existing) {
@@ -71,192 +136,525 @@ function getOrCreateSession(db: Database.Database, sessionId: string) {
   }
 
   // Create new session with the provided ID
-  const now = new Date().toISOString();
-  return createSession(db, sessionId, now);
+  const session = createSession(db, sessionId, startedAt);
+  return context
+    ? (setSessionContext(db, session.id, context) ?? session)
+    : session;
 }
 
-/** Map Claude Code tool names to our event model */
-function parseToolName(toolName: string): {
-  eventType: "tool_call" | "subagent_call" | "skill_call";
-  cleanName: string;
-  upstreamKey: string | null;
-} {
-  // MCP tool names are prefixed with "mcp__<server>__<tool>"
-  if (toolName.startsWith("mcp__")) {
-    const parts = toolName.split("__");
-    if (parts.length >= 3) {
-      const serverKey = parts[1];
-      const mcpToolName = parts.slice(2).join("__");
-      return {
-        eventType: "tool_call",
-        cleanName: mcpToolName ?? toolName,
-        upstreamKey: serverKey ?? null,
-      };
-    }
+/**
+ * Key used to pair a PreToolUse with its PostToolUse.
+ * Prefers Claude Code's tool_use_id; falls back to a hash of tool name and input.
+ */
+function toolCallKey(payload: HookEventPayload): string {
+  if (payload.tool_use_id) {
+    return `id:${payload.tool_use_id}`;
   }
+  const hash = createHash("sha256")
+    .update(payload.tool_name ?? "")
+    .update("\0")
+    .update(JSON.stringify(payload.tool_input ?? null))
+    .digest("hex");
+  return `hash:${hash}`;
+}
 
-  // Task tool = subagent call
-  if (toolName === "Task") {
-    return {
-      eventType: "subagent_call",
-      cleanName: toolName,
-      upstreamKey: null,
-    };
+/**
+ * Map a SessionEnd reason to a session status.
+ * Normal exits ("logout", "clear", "prompt_input_exit", "other") complete
+ * the session; interrupted or failed sessions are marked accordingly.
+ */
+function sessionStatusFromEndReason(reason: string | undefined): SessionStatus {
+  const normalized = reason?.toLowerCase() ?? "";
+  if (/error|crash|fail/.test(normalized)) {
+    return "error";
   }
-
-  // Skill tool = skill call
-  if (toolName === "Skill") {
-    return {
-      eventType: "skill_call",
-      cleanName: toolName,
-      upstreamKey: null,
-    };
+  if (/interrupt|abort|cancel|kill/.test(normalized)) {
+    return "cancelled";
   }
+  return "completed";
+}
 
-  // Built-in tools (Bash, Read, Write, Edit, Glob, Grep, etc.)
+/** Convert hook statistics (snake_case) to session statistics */
+function toSessionStatistics(
+  statistics: NonNullable<HookEventPayload["statistics"]>
+): SessionStatistics {
   return {
-    eventType: "tool_call",
-    cleanName: toolName,
-    upstreamKey: "builtin",
+    ...(statistics.duration_ms !== undefined && {
+      durationMs: statistics.duration_ms,
+    }),
+    ...(statistics.tool_calls !== undefined && {
+      toolCalls: statistics.tool_calls,
+    }),
+    ...(statistics.tokens_used !== undefined && {
+      tokensUsed: statistics.tokens_used,
+    }),
   };
 }
 
+/** A subagent_call opened by a Task PreToolUse and not yet stopped */
+interface OpenSubagent {
+  eventId: string;
+  /** Subagent type (e.g., "Explore"), used as agentName for its tool calls */
+  agentName: string;
+}
+
 export async function registerHooksRoutes(
   app: FastifyInstance,
   options: HooksRoutesOptions
 ): Promise<void> {
-  const { db, debug = false } = options;
+  const { db, ingest, importTranscripts = false, debug = false } = options;
 
-  // Receive hook events from Claude Code
-  app.post<{ Body: HookEventPayload }>("/api/hooks", async (request, reply) => {
-    const startTime = Date.now();
+  // Running tool calls per session: session ID → (call key → event IDs, oldest first).
+  // Hash keys can repeat when identical calls overlap, hence the queue.
+  const pending = new Map<string, Map<string, string[]>>();
 
-    try {
-      const payload = request.body;
+  // Open subagents per session (innermost last)
+  const subagents = new Map<string, OpenSubagent[]>();
+
+  /**
+   * Copy a session's call tracking, so it can be put back when the
+   * transaction that changed it rolls back
+   */
+  const snapshotTracking = (sessionId: string) => {
+    const sessionPending = pending.get(sessionId);
+    return {
+      pending: sessionPending
+        ? new Map([...sessionPending].map(([key, queue]) => [key, [...queue]]))
+        : undefined,
+      subagents: subagents.get(sessionId)?.slice(),
+    };
+  };
+
+  /** Restore a session's call tracking from a snapshot */
+  const restoreTracking = (
+    sessionId: string,
+    snapshot: ReturnType<typeof snapshotTracking>
+  ): void => {
+    if (snapshot.pending) {
+      pending.set(sessionId, snapshot.pending);
+    } else {
+      pending.delete(sessionId);
+    }
+    if (snapshot.subagents) {
+      subagents.set(sessionId, snapshot.subagents);
+    } else {
+      subagents.delete(sessionId);
+    }
+  };
+
+  /** Parent event and agent attribution for a new call in a session */
+  const currentAgent = (sessionId: string) => {
+    const open = subagents.get(sessionId);
+    const innermost = open?.[open.length - 1];
+    return innermost
+      ? {
+          parentEventId: innermost.eventId,
+          agentRole: "subagent",
+          agentName: innermost.agentName,
+        }
+      : { parentEventId: null, agentRole: "main", agentName: "claude-code" };
+  };
 
+  /** Remove a subagent from the open stack (no-op if already stopped) */
+  const removeSubagent = (sessionId: string, eventId: string): void => {
+    const open = subagents.get(sessionId);
+    if (!open) return;
+    const remaining = open.filter((subagent) => subagent.eventId !== eventId);
+    if (remaining.length > 0) {
+      subagents.set(sessionId, remaining);
+    } else {
+      subagents.delete(sessionId);
+    }
+  };
+
+  /** Close the subagent that just stopped, preferring one of the reported type */
+  const stopSubagent = (
+    sessionId: string,
+    subagentType: string | undefined,
+    endedAt: string
+  ): void => {
+    const open = subagents.get(sessionId);
+    if (!open || open.length === 0) return;
+
+    const stopped =
+      [...open].reverse().find((s) => s.agentName === subagentType) ??
+      open[open.length - 1]!;
+    removeSubagent(sessionId, stopped.eventId);
+
+    // PostToolUse for the Task will follow and attach the subagent's result
+    ingestCompletion(
+      db,
+      stopped.eventId,
+      { status: "success", endedAt },
+      ingest
+    );
+
+    if (debug) {
+      console.log(
+        `[hooks] Closed subagent ${stopped.agentName} (event ${stopped.eventId})`
+      );
+    }
+  };
+
+  /** Take the oldest running event for a tool call key, if any */
+  const takePendingCall = (sessionId: string, key: string): string | null => {
+    const sessionPending = pending.get(sessionId);
+    const queue = sessionPending?.get(key);
+    if (!sessionPending || !queue) return null;
+
+    const eventId = queue.shift() ?? null;
+    if (queue.length === 0) {
+      sessionPending.delete(key);
+    }
+    if (sessionPending.size === 0) {
+      pending.delete(sessionId);
+    }
+    return eventId;
+  };
+
+  /** Close every running tool call in a session with the given status */
+  const closePendingCalls = (
+    sessionId: string,
+    status: "error" | "cancelled",
+    endedAt: string
+  ): void => {
+    const sessionPending = pending.get(sessionId);
+    if (!sessionPending) return;
+
+    let closed = 0;
+    for (const queue of sessionPending.values()) {
+      for (const eventId of queue) {
+        // Subagents closed by SubagentStop may still await their PostToolUse
+        if (getEventById(db, eventId)?.status !== "running") continue;
+        ingestCompletion(db, eventId, { status, endedAt }, ingest);
+        closed++;
+      }
+    }
+    pending.delete(sessionId);
+    subagents.delete(sessionId);
+
+    if (debug) {
+      console.log(
+        `[hooks] Closed ${closed} unmatched tool call(s) as ${status} for session ${sessionId}`
+      );
+    }
+  };
+
+  /** Fill gaps left by dropped hook calls from the session's transcript */
+  const backfillFromTranscript = (
+    sessionId: string,
+    transcriptPath: string
+  ): void => {
+    try {
+      const transcript = parseTranscript(readFileSync(transcriptPath, "utf-8"));
+      const result = importTranscript(db, transcript, ingest, sessionId);
       if (debug) {
         console.log(
-          `[hooks] Received ${payload.hook_type} for session ${payload.session_id}`
+          `[hooks] Transcript import: ${result.inserted} inserted, ${result.repaired} repaired`
         );
       }
+    } catch (error) {
+      console.error(
+        `[hooks] Transcript import failed for session ${sessionId}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  };
 
-      // Ensure session exists
-      const session = getOrCreateSession(db, payload.session_id);
+  /**
+   * Record a hook event by type.
+   * Returns an error message for payloads missing required fields.
+   */
+  const processHook = (
+    payload: HookEventPayload,
+    session: Session,
+    eventTime: string
+  ): string | null => {
+    switch (payload.hook_type) {
+      case "PreToolUse": {
+        if (!payload.tool_name) {
+          return "Missing tool_name";
+        }
 
-      // Handle different hook types
-      switch (payload.hook_type) {
-        case "PreToolUse": {
-          // We record on PostToolUse to get the response, but we could
-          // optionally record PreToolUse for "started" events
+        const { eventType, cleanName, upstreamKey } = parseToolName(
+          payload.tool_name
+        );
+        const agent = currentAgent(session.id);
+        const isSubagent = eventType === "subagent_call";
+
+        const event = ingestEvent(
+          db,
+          {
+            sessionId: session.id,
+            parentEventId: agent.parentEventId,
+            eventType,
+            agentRole: isSubagent ? "subagent" : agent.agentRole,
+            agentName: isSubagent
+              ? getSubagentType(payload.tool_input)
+              : agent.agentName,
+            toolName: cleanName,
+            mcpMethod: getMcpMethod(payload.tool_input),
+            upstreamKey: upstreamKey,
+            startedAt: eventTime,
+            endedAt: null,
+            status: "running",
+            input: payload.tool_input,
+          },
+          ingest
+        );
+
+        // A call blocked by a guardrail never runs: close it right away
+        const { guardrail } = payload;
+        if (guardrail?.action === "block") {
+          ingestCompletion(
+            db,
+            event.id,
+            {
+              status: "error",
+              endedAt: eventTime,
+              output: {
+                decision: "block",
+                rule: guardrail.rule,
+                reason: guardrail.reason,
+              },
+              errorCategory: "policy_denied",
+            },
+            ingest
+          );
           if (debug) {
             console.log(
-              `[hooks] PreToolUse: ${payload.tool_name} (not recording yet)`
+              `[hooks] Guardrail ${guardrail.rule} blocked ${cleanName} (event ${event.id})`
             );
           }
           break;
         }
 
-        case "PostToolUse": {
-          if (!payload.tool_name) {
-            return reply.code(400).send({ error: "Missing tool_name" });
-          }
+        // Track the call so PostToolUse can complete it
+        const key = toolCallKey(payload);
+        let sessionPending = pending.get(session.id);
+        if (!sessionPending) {
+          sessionPending = new Map();
+          pending.set(session.id, sessionPending);
+        }
+        const queue = sessionPending.get(key) ?? [];
+        queue.push(event.id);
+        sessionPending.set(key, queue);
+
+        // Calls made until SubagentStop belong to this subagent
+        if (isSubagent) {
+          const open = subagents.get(session.id) ?? [];
+          open.push({ eventId: event.id, agentName: event.agentName });
+          subagents.set(session.id, open);
+        }
 
-          const { eventType, cleanName, upstreamKey } = parseToolName(
-            payload.tool_name
+        if (debug) {
+          console.log(
+            `[hooks] Started ${eventType}: ${cleanName} (event ${event.id})`
           );
-          const now = new Date().toISOString();
-          const sequence = allocateSequence(db, session.id);
+        }
+        break;
+      }
 
-          // Determine MCP method from tool input if available
-          let mcpMethod = "tools/call";
-          if (payload.tool_input?.method) {
-            mcpMethod = String(payload.tool_input.method);
-          }
+      case "PostToolUse": {
+        if (!payload.tool_name) {
+          return "Missing tool_name";
+        }
 
-          const eventInput: InsertEventInput = {
-            id: randomUUID(),
-            sessionId: session.id,
-            parentEventId: null,
-            sequence,
-            eventType,
-            agentRole: "main",
-            agentName: "claude-code",
-            toolName: cleanName,
-            mcpMethod,
-            upstreamKey: upstreamKey,
-            startedAt: now,
-            endedAt: now,
-            status: "success", // PostToolUse only fires on success
-            inputJson: payload.tool_input
-              ? JSON.stringify(payload.tool_input)
-              : null,
-            outputJson: payload.tool_response
-              ? JSON.stringify(payload.tool_response)
-              : null,
-          };
+        const { eventType, cleanName, upstreamKey } = parseToolName(
+          payload.tool_name
+        );
 
-          const event = insertEvent(db, eventInput);
+        // Complete the running event opened by PreToolUse, if any
+        const pendingId = takePendingCall(session.id, toolCallKey(payload));
+        if (pendingId && eventType === "subagent_call") {
+          // Task finished without a SubagentStop
+          removeSubagent(session.id, pendingId);
+        }
+        const completed = pendingId
+          ? ingestCompletion(
+              db,
+              pendingId,
+              {
+                status: "success", // PostToolUse only fires on success
+                endedAt: eventTime,
+                output: payload.tool_response,
+              },
+              ingest
+            )
+          : null;
+
+        // Without a PreToolUse (hook not installed, daemon restarted),
+        // record a zero-duration event as before
+        const agent = currentAgent(session.id);
+        const event =
+          completed ??
+          ingestEvent(
+            db,
+            {
+              sessionId: session.id,
+              parentEventId: agent.parentEventId,
+              eventType,
+              agentRole:
+                eventType === "subagent_call" ? "subagent" : agent.agentRole,
+              agentName:
+                eventType === "subagent_call"
+                  ? getSubagentType(payload.tool_input)
+                  : agent.agentName,
+              toolName: cleanName,
+              mcpMethod: getMcpMethod(payload.tool_input),
+              upstreamKey: upstreamKey,
+              startedAt: eventTime,
+              endedAt: eventTime,
+              status: "success",
+              input: payload.tool_input,
+              output: payload.tool_response,
+            },
+            ingest
+          );
 
-          // Always log tool calls with details (useful for debugging)
-          const isMcpTool = upstreamKey && upstreamKey !== "builtin";
-          if (isMcpTool || debug) {
-            console.log(
-              `[hooks] ${formatToolCallLog(cleanName, upstreamKey, payload.tool_input, payload.tool_response)}`
-            );
-          }
+        // Always log tool calls with details (useful for debugging)
+        const isMcpTool = upstreamKey && upstreamKey !== "builtin";
+        if (isMcpTool || debug) {
+          console.log(
+            `[hooks] ${formatToolCallLog(cleanName, upstreamKey, event.inputJson, event.outputJson)}`
+          );
+        }
 
-          if (debug) {
-            console.log(
-              `[hooks] Recorded ${eventType}: ${cleanName} (event ${event.id})`
-            );
-          }
-          break;
+        if (debug) {
+          console.log(
+            `[hooks] Recorded ${eventType}: ${cleanName} (event ${event.id})`
+          );
         }
+        break;
+      }
 
-        case "Stop": {
-          // Agent finished - could record session end metadata
-          if (debug) {
-            console.log(`[hooks] Stop: session ${payload.session_id}`);
-          }
-          break;
+      case "Stop": {
+        // Agent finished - tools that never reported PostToolUse failed
+        // or were denied (PostToolUse only fires on success)
+        closePendingCalls(session.id, "error", eventTime);
+        if (debug) {
+          console.log(`[hooks] Stop: session ${payload.session_id}`);
         }
+        break;
+      }
 
-        case "SubagentStop": {
-          // Subagent finished - could update parent event
-          if (debug) {
-            console.log(
-              `[hooks] SubagentStop: ${payload.subagent_type ?? "unknown"}`
-            );
-          }
-          break;
+      case "SubagentStop": {
+        stopSubagent(session.id, payload.subagent_type, eventTime);
+        if (debug) {
+          console.log(
+            `[hooks] SubagentStop: ${payload.subagent_type ?? "unknown"}`
+          );
         }
+        break;
+      }
 
-        case "SessionStart": {
-          if (debug) {
-            console.log(
-              `[hooks] SessionStart: ${payload.session_id} (${payload.start_source ?? "unknown"})`
-            );
-          }
-          break;
+      case "SessionStart": {
+        recordSessionStart(db, session.id, payload.start_source ?? null);
+        if (payload.context) {
+          setSessionContext(db, session.id, payload.context);
         }
+        if (debug) {
+          console.log(
+            `[hooks] SessionStart: ${payload.session_id} (${payload.start_source ?? "unknown"})`
+          );
+        }
+        break;
+      }
 
-        case "SessionEnd": {
-          if (debug) {
-            console.log(
-              `[hooks] SessionEnd: ${payload.session_id} (${payload.end_reason ?? "unknown"})`
-            );
-            if (payload.statistics) {
-              console.log(`[hooks] Statistics:`, payload.statistics);
-            }
+      case "SessionEnd": {
+        // Session ended mid-call
+        closePendingCalls(session.id, "cancelled", eventTime);
+        endSession(
+          db,
+          session.id,
+          eventTime,
+          sessionStatusFromEndReason(payload.end_reason),
+          {
+            ...(payload.end_reason && { endReason: payload.end_reason }),
+            ...(payload.statistics && {
+              statistics: toSessionStatistics(payload.statistics),
+            }),
           }
-          break;
+        );
+        if (importTranscripts && payload.transcript_path) {
+          backfillFromTranscript(session.id, payload.transcript_path);
         }
+        if (debug) {
+          console.log(
+            `[hooks] SessionEnd: ${payload.session_id} (${payload.end_reason ?? "unknown"})`
+          );
+          if (payload.statistics) {
+            console.log(`[hooks] Statistics:`, payload.statistics);
+          }
+        }
+        break;
+      }
 
-        default: {
-          if (debug) {
-            console.log(`[hooks] Unknown hook type: ${payload.hook_type}`);
+      default: {
+        if (debug) {
+          console.log(`[hooks] Unknown hook type: ${payload.hook_type}`);
+        }
+      }
+    }
+
+    return null;
+  };
+
+  // Receive hook events from Claude Code
+  app.post<{ Body: HookEventPayload }>("/api/hooks", async (request, reply) => {
+    const startTime = Date.now();
+
+    try {
+      const payload = request.body;
+      const eventTime = getEventTime(payload);
+
+      if (debug) {
+        console.log(
+          `[hooks] Received ${payload.hook_type} for session ${payload.session_id}`
+        );
+      }
+
+      // Ensure session exists
+      const session = getOrCreateSession(
+        db,
+        payload.session_id,
+        payload.context,
+        eventTime
+      );
+
+      // Record the delivery and the event together, so a delivery whose
+      // processing fails is not marked as done; events already processed
+      // (e.g. replayed from the spool) are skipped
+      const tracking = snapshotTracking(session.id);
+      let outcome: { duplicate: boolean; error: string | null };
+      try {
+        outcome = runEventTransaction(db, () => {
+          if (
+            payload.idempotency_key &&
+            !recordHookDelivery(db, payload.idempotency_key, session.id)
+          ) {
+            return { duplicate: true, error: null };
           }
+          return {
+            duplicate: false,
+            error: processHook(payload, session, eventTime),
+          };
+        });
+      } catch (error) {
+        // Rolled back: the tracked calls must match the database again
+        restoreTracking(session.id, tracking);
+        throw error;
+      }
+      if (outcome.duplicate) {
+        if (debug) {
+          console.log(
+            `[hooks] Skipped duplicate ${payload.hook_type} (${payload.idempotency_key})`
+          );
         }
+        return reply.code(200).send({ ok: true, duplicate: true });
+      }
+      if (outcome.error) {
+        return reply.code(400).send({ error: outcome.error });
       }
 
       const elapsed = Date.now() - startTime;
@@ -0,0 +1,123 @@
+/**
+ * Import endpoints - backfill recordings from outside sources.
+ */
+
+import type { FastifyInstance } from "fastify";
+import type Database from "better-sqlite3";
+import { readFileSync } from "node:fs";
+import {
+  findTranscriptPath,
+  importSessions,
+  parseSessionExport,
+  parseTranscript,
+  SessionImportConflictError,
+  type IngestOptions,
+  type SessionExport,
+} from "@agent-recorder/core";
+import { importTranscript } from "../transcript-import.js";
+
+interface ImportRoutesOptions {
+  db: Database.Database;
+  ingest: IngestOptions;
+}
+
+/** Transcript import request: a transcript path, a session ID, or both */
+interface TranscriptImportBody {
+  /** Transcript file (default: found by session ID in ~/.claude/projects) */
+  path?: string;
+  /** Session to import into (default: the transcript's session ID) */
+  sessionId?: string;
+}
+
+/** Session export import request */
+interface SessionImportBody {
+  /** Content of a JSON or JSONL export */
+  content?: string;
+  remapIds?: boolean;
+  skipExisting?: boolean;
+}
+
+/** Exports can be much larger than Fastify's default 1 MB body limit */
+const IMPORT_BODY_LIMIT = 256 * 1024 * 1024;
+
+export async function registerImportRoutes(
+  app: FastifyInstance,
+  options: ImportRoutesOptions
+): Promise<void> {
+  const { db, ingest } = options;
+
+  // Re-insert sessions from `agent-recorder export` (json or jsonl)
+  app.post<{ Body: SessionImportBody }>(
+    "/api/import",
+    { bodyLimit: IMPORT_BODY_LIMIT },
+    async (request, reply) => {
+      const { content, remapIds, skipExisting } = request.body ?? {};
+      if (typeof content !== "string") {
+        return reply.code(400).send({ error: "Missing export content" });
+      }
+
+      let exports: SessionExport[];
+      try {
+        exports = parseSessionExport(content);
+      } catch (error) {
+        return reply.code(400).send({
+          error: error instanceof Error ? error.message : "Invalid export",
+        });
+      }
+
+      try {
+        return importSessions(db, exports, {
+          remapIds: remapIds === true,
+          skipExisting: skipExisting === true,
+        });
+      } catch (error) {
+        if (error instanceof SessionImportConflictError) {
+          return reply.code(409).send({ error: error.message, id: error.id });
+        }
+        console.error("Failed to import sessions:", error);
+        return reply.code(500).send({ error: "Failed to import sessions" });
+      }
+    }
+  );
+
+  // Backfill a session's tool calls from its Claude Code transcript
+  app.post<{ Body: TranscriptImportBody }>(
+    "/api/import/transcript",
+    async (request, reply) => {
+      const { path, sessionId } = request.body ?? {};
+      if (!path && !sessionId) {
+        return reply.code(400).send({ error: "Specify path or sessionId" });
+      }
+
+      const transcriptPath = path ?? findTranscriptPath(sessionId!);
+      if (!transcriptPath) {
+        return reply
+          .code(404)
+          .send({ error: `No transcript found for session ${sessionId}` });
+      }
+
+      let content: string;
+      try {
+        content = readFileSync(transcriptPath, "utf-8");
+      } catch {
+        return reply
+          .code(404)
+          .send({ error: `Cannot read transcript: ${transcriptPath}` });
+      }
+
+      const transcript = parseTranscript(content);
+      if (!sessionId && !transcript.sessionId) {
+        return reply
+          .code(400)
+          .send({ error: "Transcript has no session ID; specify sessionId" });
+      }
+
+      try {
+        return importTranscript(db, transcript, ingest, sessionId);
+      } catch (error) {
+        console.error("Failed to import transcript:", error);
+        return reply.code(500).send({ error: "Failed to import transcript" });
+      }
+    }
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * Retention endpoint - prune old sessions on demand.
+ */
+
+import type { FastifyInstance } from "fastify";
+import type Database from "better-sqlite3";
+import {
+  parseDuration,
+  pruneSessions,
+  type PruneOptions,
+} from "@agent-recorder/core";
+
+interface RetentionRoutesOptions {
+  db: Database.Database;
+  currentSessionId: string | null;
+}
+
+/** Prune request body */
+interface PruneRequestBody {
+  /** Duration such as "30d" - prune sessions with no activity for this long */
+  olderThan?: string;
+  keepLast?: number;
+  maxDbSizeMb?: number;
+  payloadsOnly?: boolean;
+  dryRun?: boolean;
+  /** Run VACUUM after pruning (default: true) */
+  vacuum?: boolean;
+}
+
+export async function registerRetentionRoutes(
+  app: FastifyInstance,
+  options: RetentionRoutesOptions
+): Promise<void> {
+  const { db, currentSessionId } = options;
+
+  app.post<{ Body: PruneRequestBody }>("/api/prune", async (request, reply) => {
+    const body = request.body ?? {};
+    const pruneOptions: PruneOptions = {
+      payloadsOnly: body.payloadsOnly ?? false,
+      dryRun: body.dryRun ?? false,
+      vacuum: body.vacuum ?? true,
+      protectedSessionIds: currentSessionId ? [currentSessionId] : [],
+    };
+
+    if (body.olderThan !== undefined) {
+      const ms = parseDuration(body.olderThan);
+      if (ms === null) {
+        return reply
+          .code(400)
+          .send({ error: `Invalid duration: ${body.olderThan}` });
+      }
+      pruneOptions.olderThan = new Date(Date.now() - ms).toISOString();
+    }
+    // A bad limit must never widen the selection (null or NaN would
+    // select every session)
+    if (body.keepLast !== undefined) {
+      if (!Number.isInteger(body.keepLast) || body.keepLast < 1) {
+        return reply
+          .code(400)
+          .send({ error: "keepLast must be a positive integer" });
+      }
+      pruneOptions.keepLast = body.keepLast;
+    }
+    if (body.maxDbSizeMb !== undefined) {
+      if (
+        typeof body.maxDbSizeMb !== "number" ||
+        !Number.isFinite(body.maxDbSizeMb) ||
+        body.maxDbSizeMb <= 0
+      ) {
+        return reply
+          .code(400)
+          .send({ error: "maxDbSizeMb must be a positive number" });
+      }
+      pruneOptions.maxDbSizeBytes = Math.round(body.maxDbSizeMb * 1024 * 1024);
+    }
+
+    if (
+      pruneOptions.olderThan === undefined &&
+      pruneOptions.keepLast === undefined &&
+      pruneOptions.maxDbSizeBytes === undefined
+    ) {
+      return reply.code(400).send({
+        error: "Specify at least one of olderThan, keepLast, maxDbSizeMb",
+      });
+    }
+
+    try {
+      return pruneSessions(db, pruneOptions);
+    } catch (error) {
+      console.error("Failed to prune sessions:", error);
+      return reply.code(500).send({ error: "Failed to prune sessions" });
+    }
+  });
+}
@@ -0,0 +1,62 @@
+/**
+ * Full-text search endpoint over recorded event payloads.
+ */
+
+import type { FastifyInstance } from "fastify";
+import type Database from "better-sqlite3";
+import { searchEvents } from "@agent-recorder/core";
+
+interface SearchRoutesOptions {
+  db: Database.Database;
+}
+
+export async function registerSearchRoutes(
+  app: FastifyInstance,
+  options: SearchRoutesOptions
+): Promise<void> {
+  const { db } = options;
+
+  // Search event inputs/outputs across all sessions (or one via ?session=)
+  app.get<{
+    Querystring: {
+      q?: string;
+      session?: string;
+      tool?: string;
+      status?: string;
+      error?: string;
+      sinceSeq?: string;
+      limit?: string;
+    };
+  }>("/api/search", async (request, reply) => {
+    const { q, session, tool, status, sinceSeq, limit } = request.query;
+    const errorCategory = request.query.error;
+
+    if (!q || !q.trim()) {
+      return reply.code(400).send({ error: "Missing query parameter: q" });
+    }
+    if (limit !== undefined && !/^[1-9]\d*$/.test(limit)) {
+      return reply
+        .code(400)
+        .send({ error: "limit must be a positive integer" });
+    }
+    if (sinceSeq !== undefined && !/^\d+$/.test(sinceSeq)) {
+      return reply
+        .code(400)
+        .send({ error: "sinceSeq must be a non-negative integer" });
+    }
+
+    try {
+      return searchEvents(db, q, {
+        ...(session ? { sessionId: session } : {}),
+        ...(tool ? { toolName: tool } : {}),
+        ...(status ? { status } : {}),
+        ...(errorCategory ? { errorCategory } : {}),
+        ...(sinceSeq ? { sinceSeq: parseInt(sinceSeq, 10) } : {}),
+        ...(limit ? { limit: parseInt(limit, 10) } : {}),
+      });
+    } catch (error) {
+      console.error("Failed to search events:", error);
+      return reply.code(500).send({ error: "Failed to search events" });
+    }
+  });
+}
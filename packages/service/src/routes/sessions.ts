@@ -77,13 +77,16 @@ export async function registerSessionsRoutes(
     }
   );
 
-  // List sessions with last activity
-  app.get<{ Querystring: { status?: SessionStatus } }>(
+  // List sessions with last activity (optionally filtered by status/project)
+  app.get<{ Querystring: { status?: SessionStatus; project?: string } }>(
     "/api/sessions",
     async (request) => {
       try {
-        const { status } = request.query;
-        return listSessionsWithActivity(db, status);
+        const { status, project } = request.query;
+        return listSessionsWithActivity(db, {
+          ...(status && { status }),
+          ...(project && { project }),
+        });
       } catch (error) {
         console.error("Failed to list sessions:", error);
         return [];
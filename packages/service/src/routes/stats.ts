@@ -0,0 +1,70 @@
+/**
+ * Stats endpoint - call volume, error rate and latency across sessions.
+ */
+
+import type { FastifyInstance } from "fastify";
+import type Database from "better-sqlite3";
+import {
+  getCallStats,
+  parseDuration,
+  STATS_GROUP_BY,
+  type StatsGroupBy,
+} from "@agent-recorder/core";
+
+interface StatsRoutesOptions {
+  db: Database.Database;
+}
+
+interface StatsQuery {
+  /** Duration such as "7d" - only count calls started this recently */
+  since?: string;
+  groupBy?: string;
+  /** Number of most-failing tools to report */
+  limit?: string;
+}
+
+export async function registerStatsRoutes(
+  app: FastifyInstance,
+  options: StatsRoutesOptions
+): Promise<void> {
+  const { db } = options;
+
+  app.get<{ Querystring: StatsQuery }>("/api/stats", async (request, reply) => {
+    const { since, groupBy, limit } = request.query;
+
+    let sinceIso: string | undefined;
+    if (since !== undefined) {
+      const ms = parseDuration(since);
+      if (ms === null) {
+        return reply.code(400).send({ error: `Invalid duration: ${since}` });
+      }
+      sinceIso = new Date(Date.now() - ms).toISOString();
+    }
+
+    if (
+      groupBy !== undefined &&
+      !STATS_GROUP_BY.includes(groupBy as StatsGroupBy)
+    ) {
+      return reply.code(400).send({
+        error: `Invalid groupBy. Use one of: ${STATS_GROUP_BY.join(", ")}`,
+      });
+    }
+
+    if (limit !== undefined && !/^[1-9]\d*$/.test(limit)) {
+      return reply
+        .code(400)
+        .send({ error: "limit must be a positive integer" });
+    }
+
+    try {
+      return getCallStats(db, {
+        ...(sinceIso && { since: sinceIso }),
+        ...(groupBy && { groupBy: groupBy as StatsGroupBy }),
+        ...(limit && { failingLimit: parseInt(limit, 10) }),
+      });
+    } catch (error) {
+      console.error("Failed to compute stats:", error);
+      return reply.code(500).send({ error: "Failed to compute stats" });
+    }
+  });
+}
@@ -0,0 +1,220 @@
+/**
+ * Tests for STDIO proxy telemetry endpoint.
+ * Verifies request/response correlation and orphan sweeping on child exit.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  openMemoryDatabase,
+  runMigrations,
+  getEventsBySession,
+} from "@agent-recorder/core";
+import { createServer } from "../server.js";
+import type { FastifyInstance } from "fastify";
+import type Database from "better-sqlite3";
+import { join, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+describe("STDIO telemetry routes", () => {
+  let app: FastifyInstance;
+  let db: Database.Database;
+  const sessionId = "stdio-test-session";
+
+  beforeEach(async () => {
+    db = openMemoryDatabase();
+    const migrationsDir = join(
+      __dirname,
+      "..",
+      "..",
+      "..",
+      "core",
+      "migrations"
+    );
+    runMigrations(db, migrationsDir);
+
+    app = await createServer({ db });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    db.close();
+  });
+
+  /** Identifies the sending proxy: the server it wraps and its process */
+  interface ProxyFields {
+    upstream?: string;
+    instance?: string;
+  }
+
+  async function sendRequest(
+    id: string | number,
+    name: string,
+    proxy: ProxyFields = {}
+  ) {
+    return app.inject({
+      method: "POST",
+      url: "/api/stdio",
+      payload: {
+        timestamp: "2026-01-01T00:00:00.000Z",
+        direction: "request",
+        method: "tools/call",
+        id,
+        sessionId,
+        ...proxy,
+        raw: JSON.stringify({
+          jsonrpc: "2.0",
+          method: "tools/call",
+          params: { name, arguments: { path: "/tmp" } },
+          id,
+        }),
+      },
+    });
+  }
+
+  async function sendResponse(
+    id: string | number,
+    body: Record<string, unknown>,
+    isError = false,
+    proxy: ProxyFields = {}
+  ) {
+    return app.inject({
+      method: "POST",
+      url: "/api/stdio",
+      payload: {
+        timestamp: "2026-01-01T00:00:01.500Z",
+        direction: "response",
+        id,
+        isError,
+        sessionId,
+        ...proxy,
+        raw: JSON.stringify({ jsonrpc: "2.0", ...body, id }),
+      },
+    });
+  }
+
+  it("completes a running event when the response arrives", async () => {
+    await sendRequest(1, "read_file");
+
+    let events = getEventsBySession(db, sessionId);
+    expect(events).toHaveLength(1);
+    expect(events[0]!.status).toBe("running");
+
+    await sendResponse(1, { result: { content: [{ type: "text" }] } });
+
+    events = getEventsBySession(db, sessionId);
+    expect(events[0]!.status).toBe("success");
+    expect(events[0]!.endedAt).toBe("2026-01-01T00:00:01.500Z");
+    expect(JSON.parse(events[0]!.outputJson!)).toEqual({
+      content: [{ type: "text" }],
+    });
+    expect(events[0]!.errorCategory).toBeNull();
+  });
+
+  it("records JSON-RPC errors with an error category", async () => {
+    await sendRequest("abc", "write_file");
+    await sendResponse(
+      "abc",
+      { error: { code: -32601, message: "Method not found" } },
+      true
+    );
+
+    const [event] = getEventsBySession(db, sessionId);
+    expect(event!.status).toBe("error");
+    expect(event!.errorCategory).toBe("jsonrpc_error");
+  });
+
+  it("does not confuse numeric and string ids", async () => {
+    await sendRequest(1, "first");
+    await sendRequest("1", "second");
+    await sendResponse("1", { result: {} });
+
+    const events = getEventsBySession(db, sessionId);
+    expect(events.find((e) => e.toolName === "first")!.status).toBe("running");
+    expect(events.find((e) => e.toolName === "second")!.status).toBe("success");
+  });
+
+  it("sweeps pending calls to timeout when the child exits", async () => {
+    await sendRequest(1, "done");
+    await sendRequest(2, "orphan");
+    await sendResponse(1, { result: {} });
+
+    await app.inject({
+      method: "POST",
+      url: "/api/stdio",
+      payload: {
+        timestamp: "2026-01-01T00:00:05.000Z",
+        direction: "exit",
+        sessionId,
+        raw: JSON.stringify({ code: 1, signal: null }),
+      },
+    });
+
+    const events = getEventsBySession(db, sessionId);
+    const orphan = events.find((e) => e.toolName === "orphan")!;
+    expect(orphan.status).toBe("timeout");
+    expect(orphan.endedAt).toBe("2026-01-01T00:00:05.000Z");
+    expect(orphan.errorCategory).toBe("downstream_timeout");
+    expect(events.find((e) => e.toolName === "done")!.status).toBe("success");
+  });
+
+  it("correlates ids per wrapped server in a shared session", async () => {
+    await sendRequest(1, "search_repos", { upstream: "github" });
+    await sendRequest(1, "list_files", { upstream: "filesystem" });
+    await sendResponse(1, { result: {} }, false, { upstream: "filesystem" });
+
+    await app.inject({
+      method: "POST",
+      url: "/api/stdio",
+      payload: {
+        timestamp: "2026-01-01T00:00:05.000Z",
+        direction: "exit",
+        sessionId,
+        upstream: "github",
+        raw: JSON.stringify({ code: 1, signal: null }),
+      },
+    });
+
+    const events = getEventsBySession(db, sessionId);
+    expect(events.map((e) => [e.toolName, e.upstreamKey, e.status])).toEqual([
+      ["search_repos", "github", "timeout"],
+      ["list_files", "filesystem", "success"],
+    ]);
+  });
+
+  it("correlates ids per proxy process of the same server", async () => {
+    const first = { upstream: "github", instance: "proxy-a" };
+    const second = { upstream: "github", instance: "proxy-b" };
+    await sendRequest(1, "search_repos", first);
+    await sendRequest(1, "get_issue", second);
+    await sendResponse(1, { result: {} }, false, second);
+
+    await app.inject({
+      method: "POST",
+      url: "/api/stdio",
+      payload: {
+        timestamp: "2026-01-01T00:00:05.000Z",
+        direction: "exit",
+        sessionId,
+        ...first,
+        raw: JSON.stringify({ code: 0, signal: null }),
+      },
+    });
+
+    const events = getEventsBySession(db, sessionId);
+    expect(events.map((e) => [e.toolName, e.status])).toEqual([
+      ["search_repos", "timeout"],
+      ["get_issue", "success"],
+    ]);
+  });
+
+  it("ignores responses without a matching request", async () => {
+    const response = await sendResponse(99, { result: {} });
+
+    expect(response.statusCode).toBe(200);
+    expect(getEventsBySession(db, sessionId)).toHaveLength(0);
+  });
+});
@@ -2,21 +2,29 @@
  * STDIO Proxy telemetry endpoint.
  *
  * Receives telemetry from the STDIO proxy (agent-recorder-proxy).
+ * tools/call requests are recorded as running events and completed when the
+ * matching JSON-RPC response arrives. Requests are correlated per proxy
+ * process (session + upstream + instance), since every wrapped server
+ * numbers its own ids and one server may be launched by several clients.
+ * Calls still pending when the child process exits are swept to "timeout".
  */
 
 import type { FastifyInstance } from "fastify";
 import type Database from "better-sqlite3";
 import { randomUUID } from "node:crypto";
 import {
-  insertEvent,
+  ingestEvent,
+  ingestCompletion,
   createSession,
   getSessionById,
-  allocateSequence,
-  type InsertEventInput,
+  setSessionContext,
+  type IngestOptions,
+  type SessionContext,
 } from "@agent-recorder/core";
 
 interface StdioRoutesOptions {
   db: Database.Database;
+  ingest: IngestOptions;
   debug?: boolean;
 }
 
@@ -24,8 +32,8 @@ interface StdioRoutesOptions {
 interface StdioTelemetryPayload {
   /** Timestamp when message was captured */
   timestamp: string;
-  /** Direction: client → server or server → client */
-  direction: "request" | "response";
+  /** Direction: client → server, server → client, or child process exit */
+  direction: "request" | "response" | "exit";
   /** Raw JSON-RPC message */
   raw: string;
   /** Parsed method (if request) */
@@ -36,16 +44,49 @@ interface StdioTelemetryPayload {
   isError?: boolean;
   /** Session ID for correlation */
   sessionId?: string;
+  /** Upstream key of the wrapped server (default: "stdio") */
+  upstream?: string;
+  /** Id of the proxy process (a UUID generated at startup) */
+  instance?: string;
+  /** Session context collected by the proxy at startup */
+  context?: SessionContext;
 }
 
-/** Get or create a session by ID */
-function getOrCreateSession(db: Database.Database, sessionId: string) {
+/** Upstream key for proxies that don't name their server */
+const DEFAULT_UPSTREAM_KEY = "stdio";
+
+/** Key for a JSON-RPC id (keeps 1 and "1" distinct) */
+function rpcIdKey(id: string | number): string {
+  return JSON.stringify(id);
+}
+
+/** Key for one proxy process: its session, the server it wraps and its id */
+function proxyKey(
+  sessionId: string,
+  payload: Pick<StdioTelemetryPayload, "upstream" | "instance">
+): string {
+  return JSON.stringify([
+    sessionId,
+    payload.upstream ?? DEFAULT_UPSTREAM_KEY,
+    payload.instance ?? null,
+  ]);
+}
+
+/** Get or create a session by ID, recording its context on creation */
+function getOrCreateSession(
+  db: Database.Database,
+  sessionId: string,
+  context: SessionContext | undefined
+) {
   const existing = getSessionById(db, sessionId);
   if (existing) {
     return existing;
   }
   const now = new Date().toISOString();
-  return createSession(db, sessionId, now);
+  const session = createSession(db, sessionId, now);
+  return context
+    ? (setSessionContext(db, session.id, context) ?? session)
+    : session;
 }
 
 /** Parse tool name from JSON-RPC params */
@@ -69,11 +110,86 @@ function extractToolInfo(
   return { toolName: null, input: null };
 }
 
+/** Extract the result (or error object) from a raw JSON-RPC response */
+function extractResponseOutput(raw: string): unknown {
+  try {
+    const parsed = JSON.parse(raw) as { result?: unknown; error?: unknown };
+    return parsed.error ?? parsed.result ?? null;
+  } catch {
+    return null;
+  }
+}
+
 export async function registerStdioRoutes(
   app: FastifyInstance,
   options: StdioRoutesOptions
 ): Promise<void> {
-  const { db, debug = false } = options;
+  const { db, ingest, debug = false } = options;
+
+  // Pending tools/call events per proxy: proxy key → (rpc id → event ID)
+  const pending = new Map<string, Map<string, string>>();
+
+  /** Complete the pending event matching a response, if any */
+  const completePendingCall = (
+    sessionId: string,
+    payload: StdioTelemetryPayload
+  ): void => {
+    if (payload.id === undefined || payload.id === null) return;
+
+    const proxy = proxyKey(sessionId, payload);
+    const proxyPending = pending.get(proxy);
+    const key = rpcIdKey(payload.id);
+    const eventId = proxyPending?.get(key);
+    if (!proxyPending || !eventId) return;
+
+    proxyPending.delete(key);
+    if (proxyPending.size === 0) {
+      pending.delete(proxy);
+    }
+
+    const status = payload.isError ? "error" : "success";
+
+    ingestCompletion(
+      db,
+      eventId,
+      {
+        status,
+        endedAt: payload.timestamp,
+        output: extractResponseOutput(payload.raw),
+      },
+      ingest
+    );
+
+    if (debug) {
+      console.log(`[stdio] Completed tool call ${eventId} (${status})`);
+    }
+  };
+
+  /** Sweep calls that never got a response to "timeout" */
+  const sweepPendingCalls = (
+    sessionId: string,
+    payload: StdioTelemetryPayload
+  ): void => {
+    const proxy = proxyKey(sessionId, payload);
+    const proxyPending = pending.get(proxy);
+    if (!proxyPending) return;
+
+    for (const eventId of proxyPending.values()) {
+      ingestCompletion(
+        db,
+        eventId,
+        { status: "timeout", endedAt: payload.timestamp },
+        ingest
+      );
+    }
+
+    if (debug) {
+      console.log(
+        `[stdio] Swept ${proxyPending.size} orphaned call(s) for session ${sessionId} (${payload.upstream ?? DEFAULT_UPSTREAM_KEY})`
+      );
+    }
+    pending.delete(proxy);
+  };
 
   // Receive telemetry from STDIO proxy
   app.post<{ Body: StdioTelemetryPayload }>(
@@ -94,41 +210,52 @@ export async function registerStdioRoutes(
           payload.method === "tools/call"
         ) {
           const sessionId = payload.sessionId ?? "stdio-" + randomUUID();
-          const session = getOrCreateSession(db, sessionId);
-          const sequence = allocateSequence(db, session.id);
+          const session = getOrCreateSession(db, sessionId, payload.context);
 
           const { toolName, input } = extractToolInfo(
             payload.raw,
             payload.method
           );
 
-          const eventInput: InsertEventInput = {
-            id: randomUUID(),
-            sessionId: session.id,
-            parentEventId: null,
-            sequence,
-            eventType: "tool_call",
-            agentRole: "main",
-            agentName: "mcp-client",
-            toolName: toolName,
-            mcpMethod: payload.method,
-            upstreamKey: "stdio",
-            startedAt: payload.timestamp,
-            endedAt: null,
-            status: "running",
-            inputJson: input ? JSON.stringify(input) : null,
-            outputJson: null,
-          };
-
-          insertEvent(db, eventInput);
+          const event = ingestEvent(
+            db,
+            {
+              sessionId: session.id,
+              parentEventId: null,
+              eventType: "tool_call",
+              agentRole: "main",
+              agentName: "mcp-client",
+              toolName: toolName,
+              mcpMethod: payload.method,
+              upstreamKey: payload.upstream ?? DEFAULT_UPSTREAM_KEY,
+              startedAt: payload.timestamp,
+              endedAt: null,
+              status: "running",
+              input,
+            },
+            ingest
+          );
+
+          // Track the request id so the response can complete the event
+          if (payload.id !== undefined && payload.id !== null) {
+            const proxy = proxyKey(session.id, payload);
+            let proxyPending = pending.get(proxy);
+            if (!proxyPending) {
+              proxyPending = new Map();
+              pending.set(proxy, proxyPending);
+            }
+            proxyPending.set(rpcIdKey(payload.id), event.id);
+          }
 
           if (debug) {
             console.log(`[stdio] Recorded tool call: ${toolName}`);
           }
+        } else if (payload.direction === "response" && payload.sessionId) {
+          completePendingCall(payload.sessionId, payload);
+        } else if (payload.direction === "exit" && payload.sessionId) {
+          sweepPendingCalls(payload.sessionId, payload);
         }
 
-        // TODO: Match responses to requests by id to update status and output
-
         return reply.code(200).send({ ok: true });
       } catch (error) {
         console.error("[stdio] Error processing telemetry:", error);
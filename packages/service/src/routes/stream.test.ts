@@ -0,0 +1,185 @@
+/**
+ * Tests for the live event stream (SSE).
+ * Verifies live inserts/updates, session filtering and Last-Event-ID replay.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  openMemoryDatabase,
+  runMigrations,
+  createSession,
+  ingestEvent,
+  ingestCompletion,
+  type BaseEvent,
+  type IngestOptions,
+} from "@agent-recorder/core";
+import { createServer } from "../server.js";
+import type { FastifyInstance } from "fastify";
+import type Database from "better-sqlite3";
+import { join, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+interface StreamMessage {
+  id: string | null;
+  event: string;
+  data: BaseEvent;
+}
+
+describe("event stream route", () => {
+  let app: FastifyInstance;
+  let db: Database.Database;
+  let baseUrl: string;
+  const ingest: IngestOptions = { redactKeys: [] };
+
+  beforeEach(async () => {
+    db = openMemoryDatabase();
+    const migrationsDir = join(
+      __dirname,
+      "..",
+      "..",
+      "..",
+      "core",
+      "migrations"
+    );
+    runMigrations(db, migrationsDir);
+    createSession(db, "session-a", new Date().toISOString());
+    createSession(db, "session-b", new Date().toISOString());
+
+    app = await createServer({ db, ingest });
+    await app.listen({ port: 0, host: "127.0.0.1" });
+    const address = app.server.address();
+    const port = typeof address === "object" && address ? address.port : 0;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await app.close();
+    db.close();
+  });
+
+  function record(sessionId: string, toolName: string): BaseEvent {
+    return ingestEvent(
+      db,
+      {
+        sessionId,
+        eventType: "tool_call",
+        agentRole: "main",
+        agentName: "claude-code",
+        toolName,
+        startedAt: new Date().toISOString(),
+        status: "running",
+      },
+      ingest
+    );
+  }
+
+  /** Open a stream and collect messages until `count` have arrived */
+  async function collect(
+    query: string,
+    count: number,
+    afterOpen: () => void = () => {},
+    headers: Record<string, string> = {}
+  ): Promise<StreamMessage[]> {
+    const controller = new AbortController();
+    const response = await fetch(`${baseUrl}/api/stream?${query}`, {
+      headers,
+      signal: controller.signal,
+    });
+    expect(response.headers.get("content-type")).toBe("text/event-stream");
+
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    const messages: StreamMessage[] = [];
+    let buffer = "";
+    let opened = false;
+
+    while (messages.length < count) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let end: number;
+      while ((end = buffer.indexOf("\n\n")) !== -1) {
+        const block = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        const fields = new Map<string, string>();
+        for (const line of block.split("\n")) {
+          const colon = line.indexOf(":");
+          if (colon > 0) {
+            fields.set(line.slice(0, colon), line.slice(colon + 1).trim());
+          }
+        }
+        if (fields.has("data")) {
+          messages.push({
+            id: fields.get("id") ?? null,
+            event: fields.get("event") ?? "message",
+            data: JSON.parse(fields.get("data")!) as BaseEvent,
+          });
+        }
+      }
+
+      if (!opened) {
+        opened = true;
+        afterOpen();
+      }
+    }
+
+    controller.abort();
+    return messages;
+  }
+
+  it("pushes inserts and completions for a session", async () => {
+    const messages = await collect("session=session-a", 2, () => {
+      const event = record("session-a", "Read");
+      record("session-b", "Ignored");
+      ingestCompletion(
+        db,
+        event.id,
+        { status: "success", endedAt: new Date().toISOString() },
+        ingest
+      );
+    });
+
+    expect(messages.map((m) => m.event)).toEqual(["insert", "update"]);
+    expect(messages[0]!.id).toBe("1");
+    expect(messages[0]!.data.toolName).toBe("Read");
+    expect(messages[1]!.id).toBeNull();
+    expect(messages[1]!.data.status).toBe("success");
+  });
+
+  it("replays events after Last-Event-ID before streaming live", async () => {
+    record("session-a", "first");
+    record("session-a", "second");
+    record("session-a", "third");
+
+    const messages = await collect(
+      "session=session-a",
+      3,
+      () => record("session-a", "live"),
+      { "Last-Event-ID": "1" }
+    );
+
+    expect(messages.map((m) => m.data.toolName)).toEqual([
+      "second",
+      "third",
+      "live",
+    ]);
+    expect(messages.map((m) => m.id)).toEqual(["2", "3", "4"]);
+  });
+
+  it("streams every session with session=*", async () => {
+    const messages = await collect("session=*", 2, () => {
+      record("session-a", "a");
+      record("session-b", "b");
+    });
+
+    expect(messages.map((m) => m.data.sessionId)).toEqual([
+      "session-a",
+      "session-b",
+    ]);
+    expect(messages.every((m) => m.id === null)).toBe(true);
+  });
+});
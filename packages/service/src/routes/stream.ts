@@ -0,0 +1,128 @@
+/**
+ * Live event streaming endpoint (Server-Sent Events).
+ *
+ * Pushes events as they are inserted and completed, so the TUI and
+ * `sessions tail` don't have to poll. Single-session streams carry the
+ * event sequence as the SSE id; reconnecting with Last-Event-ID (or
+ * ?after=) replays everything recorded since.
+ */
+
+import type { FastifyInstance } from "fastify";
+import type { ServerResponse } from "node:http";
+import type Database from "better-sqlite3";
+import {
+  getEventsBySessionPaginated,
+  subscribeEventChanges,
+  type BaseEvent,
+  type EventChangeType,
+} from "@agent-recorder/core";
+
+interface StreamRoutesOptions {
+  db: Database.Database;
+  /** Interval between keep-alive comments (default: 15s) */
+  heartbeatMs?: number;
+}
+
+/** Session filter matching every session */
+const ALL_SESSIONS = "*";
+
+/** Page size when replaying missed events */
+const REPLAY_BATCH_SIZE = 500;
+
+/**
+ * Format one SSE message.
+ * Updates carry no id so they don't move the client's resume point.
+ */
+function formatMessage(
+  event: BaseEvent,
+  change: EventChangeType,
+  withId: boolean
+): string {
+  const id = withId && change === "insert" ? `id: ${event.sequence}\n` : "";
+  return `${id}event: ${change}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/** Parse a resume point from Last-Event-ID or ?after= (0 when absent) */
+function parseResumeSequence(value: string | undefined): number {
+  const sequence = value ? parseInt(value, 10) : 0;
+  return Number.isFinite(sequence) && sequence > 0 ? sequence : 0;
+}
+
+export async function registerStreamRoutes(
+  app: FastifyInstance,
+  options: StreamRoutesOptions
+): Promise<void> {
+  const { db, heartbeatMs = 15_000 } = options;
+  const openStreams = new Set<ServerResponse>();
+
+  // Long-lived streams would otherwise keep the server from closing
+  app.addHook("preClose", async () => {
+    for (const stream of openStreams) {
+      stream.end();
+    }
+    openStreams.clear();
+  });
+
+  // Stream events for one session, or all sessions with ?session=*
+  app.get<{
+    Querystring: { session?: string; after?: string };
+  }>("/api/stream", async (request, reply) => {
+    const sessionId = request.query.session ?? ALL_SESSIONS;
+    const allSessions = sessionId === ALL_SESSIONS;
+    const lastEventId = request.headers["last-event-id"];
+    const after = parseResumeSequence(
+      (Array.isArray(lastEventId) ? lastEventId[0] : lastEventId) ??
+        request.query.after
+    );
+
+    reply.hijack();
+    const stream = reply.raw;
+    stream.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    // Ask clients to wait a little before reconnecting
+    stream.write("retry: 1000\n\n");
+
+    const send = (event: BaseEvent, change: EventChangeType) => {
+      if (!allSessions && event.sessionId !== sessionId) return;
+      stream.write(formatMessage(event, change, !allSessions));
+    };
+
+    // Replay and subscribe in the same tick so no write can slip between
+    // them (all recording happens synchronously in this process).
+    // Cross-session streams are live-only: sequences are per session.
+    try {
+      if (!allSessions && after > 0) {
+        let cursor = after;
+        for (;;) {
+          const missed = getEventsBySessionPaginated(db, sessionId, {
+            after: cursor,
+            limit: REPLAY_BATCH_SIZE,
+          });
+          for (const event of missed) {
+            send(event, "insert");
+            cursor = event.sequence;
+          }
+          if (missed.length < REPLAY_BATCH_SIZE) break;
+        }
+      }
+    } catch (error) {
+      console.error("Failed to replay events for stream:", error);
+    }
+
+    const unsubscribe = subscribeEventChanges(db, send);
+    const heartbeat = setInterval(() => {
+      stream.write(": ping\n\n");
+    }, heartbeatMs);
+    heartbeat.unref();
+    openStreams.add(stream);
+
+    stream.on("close", () => {
+      unsubscribe();
+      clearInterval(heartbeat);
+      openStreams.delete(stream);
+    });
+  });
+}
@@ -182,6 +182,154 @@ describe("Agent Recorder Service", () => {
     });
     expect(res2.statusCode).toBe(500); // Fails due to unique constraint
   });
+
+  it("POST /api/events allocates sequence and redacts payloads", async () => {
+    const createSessionRes = await app.inject({
+      method: "POST",
+      url: "/api/sessions",
+    });
+    const session = createSessionRes.json();
+
+    const res = await app.inject({
+      method: "POST",
+      url: "/api/events",
+      payload: {
+        id: randomUUID(),
+        sessionId: session.id,
+        eventType: "tool_call" as EventType,
+        agentRole: "assistant",
+        agentName: "claude",
+        startedAt: new Date().toISOString(),
+        status: "success" as EventStatus,
+        inputJson: JSON.stringify({ api_key: "sk-live", query: "ok" }),
+      },
+    });
+
+    expect(res.statusCode).toBe(201);
+    const event = res.json();
+    expect(event.sequence).toBe(1);
+    expect(JSON.parse(event.inputJson)).toEqual({
+      api_key: "[REDACTED]",
+      query: "ok",
+    });
+  });
+
+  it("POST /api/import re-imports an exported session", async () => {
+    const session = (
+      await app.inject({ method: "POST", url: "/api/sessions" })
+    ).json();
+    await app.inject({
+      method: "POST",
+      url: "/api/events",
+      payload: {
+        sessionId: session.id,
+        eventType: "tool_call" as EventType,
+        agentRole: "main",
+        agentName: "claude-code",
+        toolName: "Read",
+        startedAt: new Date().toISOString(),
+        status: "success" as EventStatus,
+      },
+    });
+    const events = (
+      await app.inject({ url: `/api/sessions/${session.id}/events` })
+    ).json();
+
+    // Same shape as `agent-recorder export --format jsonl`
+    const content = [
+      { type: "session", ...session },
+      ...events.map((event: object) => ({ type: "event", ...event })),
+    ]
+      .map((record) => JSON.stringify(record))
+      .join("\n");
+
+    const conflict = await app.inject({
+      method: "POST",
+      url: "/api/import",
+      payload: { content },
+    });
+    expect(conflict.statusCode).toBe(409);
+    expect(conflict.json().id).toBe(session.id);
+
+    const copy = await app.inject({
+      method: "POST",
+      url: "/api/import",
+      payload: { content, remapIds: true },
+    });
+    expect(copy.statusCode).toBe(200);
+    const [imported] = copy.json().sessions;
+    expect(imported).toMatchObject({ sourceId: session.id, events: 1 });
+    expect(imported.id).not.toBe(session.id);
+
+    const invalid = await app.inject({
+      method: "POST",
+      url: "/api/import",
+      payload: { content: '{"type":"event"}' },
+    });
+    expect(invalid.statusCode).toBe(400);
+    expect(invalid.json().error).toMatch(/^Line 1: /);
+  });
+
+  it("GET /api/search rejects invalid limits", async () => {
+    for (const limit of ["abc", "0", "-1"]) {
+      const res = await app.inject({
+        url: `/api/search?q=read&limit=${limit}`,
+      });
+      expect(res.statusCode).toBe(400);
+    }
+    const ok = await app.inject({
+      url: "/api/search?q=read&limit=5&tool=Read",
+    });
+    expect(ok.statusCode).toBe(200);
+  });
+
+  it("GET /api/stats aggregates calls across sessions", async () => {
+    const res = await app.inject({
+      url: "/api/stats?since=7d&groupBy=tool",
+    });
+    expect(res.statusCode).toBe(200);
+    const stats = res.json();
+    expect(stats.groupBy).toBe("tool");
+    expect(stats.totals.calls).toBeGreaterThan(0);
+    expect(stats.groups.map((g: { key: string }) => g.key)).toContain("Read");
+
+    const badSince = await app.inject({ url: "/api/stats?since=soon" });
+    expect(badSince.statusCode).toBe(400);
+    const badGroup = await app.inject({ url: "/api/stats?groupBy=week" });
+    expect(badGroup.statusCode).toBe(400);
+    for (const limit of ["0", "-1", "ten"]) {
+      const badLimit = await app.inject({ url: `/api/stats?limit=${limit}` });
+      expect(badLimit.statusCode).toBe(400);
+    }
+  });
+
+  it("POST /api/prune rejects invalid limits", async () => {
+    const invalid = [
+      { keepLast: null },
+      { keepLast: -1 },
+      { keepLast: 0 },
+      { keepLast: 1.5 },
+      { maxDbSizeMb: null },
+      { maxDbSizeMb: -10 },
+      { maxDbSizeMb: 0 },
+      { maxDbSizeMb: "big" },
+    ];
+    for (const limits of invalid) {
+      const res = await app.inject({
+        method: "POST",
+        url: "/api/prune",
+        payload: { ...limits, dryRun: true },
+      });
+      expect(res.statusCode).toBe(400);
+    }
+
+    const ok = await app.inject({
+      method: "POST",
+      url: "/api/prune",
+      payload: { keepLast: 100, dryRun: true },
+    });
+    expect(ok.statusCode).toBe(200);
+  });
 });
 
 describe("Agent Recorder Service - Current Session", () => {
@@ -6,16 +6,32 @@
 import { createServer as createTcpServer } from "node:net";
 import Fastify, { type FastifyInstance } from "fastify";
 import type Database from "better-sqlite3";
+import { loadConfig, type IngestOptions } from "@agent-recorder/core";
 import { registerHealthRoutes } from "./routes/health.js";
 import { registerSessionsRoutes } from "./routes/sessions.js";
 import { registerEventsRoutes } from "./routes/events.js";
 import { registerHooksRoutes } from "./routes/hooks.js";
 import { registerStdioRoutes } from "./routes/stdio.js";
+import { registerSearchRoutes } from "./routes/search.js";
+import { registerRetentionRoutes } from "./routes/retention.js";
+import { registerStatsRoutes } from "./routes/stats.js";
+import { registerStreamRoutes } from "./routes/stream.js";
+import { registerImportRoutes } from "./routes/import.js";
 
 export interface CreateServerOptions {
   db: Database.Database;
   currentSessionId?: string | null;
   debug?: boolean;
+  /** Redaction/truncation for recorded payloads (default: from environment config) */
+  ingest?: IngestOptions;
+  /** Import the Claude Code transcript on SessionEnd (default: from environment config) */
+  importTranscripts?: boolean;
+}
+
+/** Ingestion settings from AR_REDACT_KEYS / AR_REDACT_PATTERNS */
+function ingestOptionsFromEnv(): IngestOptions {
+  const { redactKeys, redactPatterns } = loadConfig();
+  return { redactKeys, redactPatterns };
 }
 
 /**
@@ -25,6 +41,9 @@ export async function createServer(
   options: CreateServerOptions
 ): Promise<FastifyInstance> {
   const { db, currentSessionId, debug } = options;
+  const ingest = options.ingest ?? ingestOptionsFromEnv();
+  const importTranscripts =
+    options.importTranscripts ?? loadConfig().importTranscripts;
 
   const app = Fastify({
     logger: true,
@@ -36,9 +55,22 @@ export async function createServer(
     db,
     currentSessionId: currentSessionId ?? null,
   });
-  await registerEventsRoutes(app, { db });
-  await registerHooksRoutes(app, { db, debug: debug ?? false });
-  await registerStdioRoutes(app, { db, debug: debug ?? false });
+  await registerEventsRoutes(app, { db, ingest });
+  await registerHooksRoutes(app, {
+    db,
+    ingest,
+    importTranscripts,
+    debug: debug ?? false,
+  });
+  await registerImportRoutes(app, { db, ingest });
+  await registerStdioRoutes(app, { db, ingest, debug: debug ?? false });
+  await registerSearchRoutes(app, { db });
+  await registerStreamRoutes(app, { db });
+  await registerRetentionRoutes(app, {
+    db,
+    currentSessionId: currentSessionId ?? null,
+  });
+  await registerStatsRoutes(app, { db });
 
   return app;
 }
@@ -44,6 +44,14 @@ describe("SessionManager", () => {
     expect(session!.endedAt).toBeNull();
   });
 
+  it("records the client type of the proxy mode", () => {
+    const legacy = createSessionManager(db);
+    const hub = createSessionManager(db, "hub");
+
+    expect(getSessionById(db, legacy.sessionId)!.clientType).toBe("mcp-client");
+    expect(getSessionById(db, hub.sessionId)!.clientType).toBe("hub");
+  });
+
   it("ends session with cancelled status by default", () => {
     const manager = createSessionManager(db);
     const sessionId = manager.sessionId;
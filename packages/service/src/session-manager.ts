@@ -4,9 +4,12 @@
  */
 
 import type Database from "better-sqlite3";
+import { hostname } from "node:os";
 import {
   startSession,
   endSession,
+  setSessionContext,
+  type ClientType,
   type SessionStatus,
 } from "@agent-recorder/core";
 
@@ -18,10 +21,21 @@ export interface SessionManager {
 /**
  * Create a session manager that starts a new session immediately.
  * The session is created in the database with status "active".
+ *
+ * @param clientType - "hub" when the proxy serves providers.json providers,
+ *   "mcp-client" when it forwards to a single downstream or routes upstreams
  */
-export function createSessionManager(db: Database.Database): SessionManager {
+export function createSessionManager(
+  db: Database.Database,
+  clientType: ClientType = "mcp-client"
+): SessionManager {
   // Core generates the ID
   const session = startSession(db);
+  // Daemon sessions record proxied MCP traffic from any project
+  setSessionContext(db, session.id, {
+    clientType,
+    hostname: hostname(),
+  });
   console.log(`Session started: ${session.id}`);
 
   return {
@@ -0,0 +1,288 @@
+/**
+ * Tests for transcript import: backfilling new sessions, repairing calls
+ * the hooks missed, and the import endpoint.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  openMemoryDatabase,
+  runMigrations,
+  getEventsBySession,
+  getSessionById,
+  parseTranscript,
+  subscribeEventChanges,
+} from "@agent-recorder/core";
+import type { FastifyInstance } from "fastify";
+import type Database from "better-sqlite3";
+import { join, dirname } from "node:path";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { fileURLToPath } from "node:url";
+import { createServer } from "./server.js";
+import { importTranscript } from "./transcript-import.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const sessionId = "transcript-session";
+const ingest = { redactKeys: ["password"] };
+
+/** Transcript lines for a tool call and (unless result is null) its result */
+function toolCallLines(
+  id: string,
+  name: string,
+  input: Record<string, unknown>,
+  times: [string, string | null],
+  options: { result?: unknown; sidechain?: boolean } = {}
+): string[] {
+  const base = { sessionId, isSidechain: options.sidechain ?? false };
+  const lines: Record<string, unknown>[] = [
+    {
+      ...base,
+      type: "assistant",
+      timestamp: times[0],
+      message: { content: [{ type: "tool_use", id, name, input }] },
+    },
+  ];
+  if (times[1]) {
+    lines.push({
+      ...base,
+      type: "user",
+      timestamp: times[1],
+      message: {
+        content: [
+          {
+            type: "tool_result",
+            tool_use_id: id,
+            content: options.result ?? "ok",
+          },
+        ],
+      },
+    });
+  }
+  return lines.map((entry) => JSON.stringify(entry));
+}
+
+describe("Transcript import", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = openMemoryDatabase();
+    runMigrations(db, join(__dirname, "..", "..", "core", "migrations"));
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("backfills an unrecorded session with subagent nesting", () => {
+    const transcript = parseTranscript(
+      [
+        ...toolCallLines(
+          "toolu_task",
+          "Task",
+          { subagent_type: "Explore", prompt: "find it" },
+          ["2026-01-01T10:00:00.000Z", "2026-01-01T10:00:10.000Z"]
+        ),
+        ...toolCallLines(
+          "toolu_grep",
+          "Grep",
+          { pattern: "x" },
+          ["2026-01-01T10:00:02.000Z", "2026-01-01T10:00:03.000Z"],
+          { sidechain: true }
+        ),
+        ...toolCallLines("toolu_gh", "mcp__github__search", { q: "bug" }, [
+          "2026-01-01T10:00:11.000Z",
+          null,
+        ]),
+      ].join("\n")
+    );
+
+    const result = importTranscript(db, transcript, ingest);
+    expect(result).toEqual({
+      sessionId,
+      createdSession: true,
+      inserted: 3,
+      repaired: 0,
+      unchanged: 0,
+    });
+
+    const session = getSessionById(db, sessionId)!;
+    expect(session.startedAt).toBe("2026-01-01T10:00:00.000Z");
+    expect(session.endedAt).toBe("2026-01-01T10:00:11.000Z");
+
+    const [task, grep, search] = getEventsBySession(db, sessionId);
+    expect(task).toMatchObject({
+      eventType: "subagent_call",
+      agentName: "Explore",
+      status: "success",
+      startedAt: "2026-01-01T10:00:00.000Z",
+      endedAt: "2026-01-01T10:00:10.000Z",
+    });
+    expect(grep).toMatchObject({
+      parentEventId: task!.id,
+      agentRole: "subagent",
+      agentName: "Explore",
+      toolName: "Grep",
+    });
+    expect(search).toMatchObject({
+      upstreamKey: "github",
+      toolName: "search",
+      parentEventId: null,
+      status: "cancelled",
+    });
+
+    // Importing again changes nothing
+    expect(importTranscript(db, transcript, ingest)).toMatchObject({
+      createdSession: false,
+      inserted: 0,
+      unchanged: 3,
+    });
+    expect(getEventsBySession(db, sessionId)).toHaveLength(3);
+  });
+
+  describe("with hooks", () => {
+    let app: FastifyInstance;
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = mkdtempSync(join(tmpdir(), "ar-transcript-import-"));
+      app = await createServer({ db, ingest, importTranscripts: true });
+      await app.ready();
+    });
+
+    afterEach(async () => {
+      await app.close();
+      rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    async function sendHook(hookType: string, body: Record<string, unknown>) {
+      return app.inject({
+        method: "POST",
+        url: "/api/hooks",
+        payload: { hook_type: hookType, session_id: sessionId, ...body },
+      });
+    }
+
+    it("repairs calls whose PostToolUse was dropped on SessionEnd", async () => {
+      const transcriptPath = join(tempDir, `${sessionId}.jsonl`);
+      writeFileSync(
+        transcriptPath,
+        [
+          ...toolCallLines(
+            "toolu_1",
+            "Bash",
+            { command: "make", password: "pw" },
+            ["2026-01-01T10:00:00.000Z", "2026-01-01T10:00:05.000Z"],
+            { result: "built" }
+          ),
+          ...toolCallLines("toolu_2", "Read", { file_path: "a.txt" }, [
+            "2026-01-01T10:00:06.000Z",
+            "2026-01-01T10:00:07.000Z",
+          ]),
+        ].join("\n")
+      );
+
+      // Only the PreToolUse of the first call reached the daemon
+      await sendHook("PreToolUse", {
+        tool_name: "Bash",
+        tool_input: { command: "make", password: "pw" },
+        tool_use_id: "toolu_1",
+        timestamp: "2026-01-01T10:00:00.000Z",
+      });
+      await sendHook("SessionEnd", {
+        transcript_path: transcriptPath,
+        end_reason: "logout",
+      });
+
+      const [bash, read] = getEventsBySession(db, sessionId);
+      expect(bash).toMatchObject({
+        toolName: "Bash",
+        status: "success",
+        endedAt: "2026-01-01T10:00:05.000Z",
+        outputJson: JSON.stringify("built"),
+      });
+      expect(read).toMatchObject({
+        toolName: "Read",
+        status: "success",
+        startedAt: "2026-01-01T10:00:06.000Z",
+      });
+    });
+
+    it("orders backfilled calls by start time and publishes them after commit", async () => {
+      const transcriptPath = join(tempDir, `${sessionId}.jsonl`);
+      writeFileSync(
+        transcriptPath,
+        [
+          ...toolCallLines("toolu_1", "Glob", { pattern: "*.ts" }, [
+            "2026-01-01T10:00:00.000Z",
+            "2026-01-01T10:00:01.000Z",
+          ]),
+          ...toolCallLines("toolu_2", "Read", { file_path: "a.txt" }, [
+            "2026-01-01T10:00:02.000Z",
+            "2026-01-01T10:00:03.000Z",
+          ]),
+        ].join("\n")
+      );
+
+      // Only the second call was recorded by the hooks
+      const read = {
+        tool_name: "Read",
+        tool_input: { file_path: "a.txt" },
+        tool_use_id: "toolu_2",
+      };
+      await sendHook("PreToolUse", {
+        ...read,
+        timestamp: "2026-01-01T10:00:02.000Z",
+      });
+      await sendHook("PostToolUse", {
+        ...read,
+        tool_response: "ok",
+        timestamp: "2026-01-01T10:00:03.000Z",
+      });
+
+      const published: string[] = [];
+      subscribeEventChanges(db, (event, change) => {
+        // Listeners only ever see committed rows
+        if (!db.inTransaction) {
+          published.push(`${change}:${event.toolName}:${event.sequence}`);
+        }
+      });
+      await sendHook("SessionEnd", { transcript_path: transcriptPath });
+
+      expect(
+        getEventsBySession(db, sessionId).map((e) => [e.toolName, e.sequence])
+      ).toEqual([
+        ["Glob", 1],
+        ["Read", 2],
+      ]);
+      expect(published).toEqual(["insert:Glob:1"]);
+    });
+
+    it("imports a transcript by path through the endpoint", async () => {
+      const transcriptPath = join(tempDir, "t.jsonl");
+      writeFileSync(
+        transcriptPath,
+        toolCallLines("toolu_1", "Glob", { pattern: "*.ts" }, [
+          "2026-01-01T10:00:00.000Z",
+          "2026-01-01T10:00:01.000Z",
+        ]).join("\n")
+      );
+
+      const response = await app.inject({
+        method: "POST",
+        url: "/api/import/transcript",
+        payload: { path: transcriptPath },
+      });
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ sessionId, inserted: 1 });
+
+      const missing = await app.inject({
+        method: "POST",
+        url: "/api/import/transcript",
+        payload: { path: join(tempDir, "missing.jsonl") },
+      });
+      expect(missing.statusCode).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Backfill of a session's tool calls from its Claude Code transcript.
+ *
+ * Each transcript call is matched to a recorded event of the same tool and
+ * (redacted) input, oldest first, like the hooks endpoint pairs calls
+ * without a tool_use_id. Matched events that are still running, or were
+ * closed without a result because their PostToolUse never arrived, are
+ * completed from the transcript; calls with no recorded event are inserted.
+ * Calls made by subagents are nested under the Task call whose run they
+ * fall within (the most recently started one, if several overlap).
+ * Inserted calls are put in order with the recorded ones by start time.
+ */
+
+import type Database from "better-sqlite3";
+import {
+  createSession,
+  endSession,
+  getEventsBySession,
+  getSessionById,
+  ingestCompletion,
+  ingestEvent,
+  preparePayload,
+  renumberEventsByStartTime,
+  runEventTransaction,
+  setSessionContext,
+  type BaseEvent,
+  type IngestOptions,
+  type Transcript,
+  type TranscriptToolCall,
+} from "@agent-recorder/core";
+import {
+  getMcpMethod,
+  getSubagentType,
+  parseToolName,
+} from "./claude-tools.js";
+
+export interface TranscriptImportResult {
+  sessionId: string;
+  /** The session was created by the import (not recorded before) */
+  createdSession: boolean;
+  /** Calls recorded as new events */
+  inserted: number;
+  /** Recorded events completed from the transcript */
+  repaired: number;
+  /** Calls that were already recorded */
+  unchanged: number;
+}
+
+/** A Task call and the subagent_call event recording it */
+interface SubagentRun {
+  call: TranscriptToolCall;
+  eventId: string;
+  agentName: string;
+}
+
+/** Key matching a transcript call to a recorded event */
+function matchKey(
+  toolName: string,
+  upstreamKey: string | null,
+  inputJson: string | null
+): string {
+  return `${toolName}\0${upstreamKey ?? ""}\0${inputJson ?? ""}`;
+}
+
+/** Whether a recorded event lacks the result the transcript has */
+function needsRepair(event: BaseEvent, call: TranscriptToolCall): boolean {
+  if (call.endedAt === null) return false;
+  if (event.status === "running") return true;
+  // Closed by Stop/SessionEnd because its PostToolUse never arrived
+  return (
+    (event.status === "error" || event.status === "cancelled") &&
+    event.outputJson === null
+  );
+}
+
+/** The subagent run a sidechain call was made in, if any */
+function findSubagentRun(
+  runs: SubagentRun[],
+  call: TranscriptToolCall
+): SubagentRun | null {
+  const startedAt = Date.parse(call.startedAt);
+  for (let i = runs.length - 1; i >= 0; i--) {
+    const run = runs[i]!;
+    const runStart = Date.parse(run.call.startedAt);
+    const runEnd =
+      run.call.endedAt === null ? Infinity : Date.parse(run.call.endedAt);
+    if (runStart <= startedAt && startedAt <= runEnd) {
+      return run;
+    }
+  }
+  return null;
+}
+
+/**
+ * Import a parsed transcript into a session (default: the transcript's own
+ * session ID), creating the session if it was never recorded. Runs in a
+ * single transaction; the live event feed sees the changes once it commits.
+ *
+ * @throws Error if no session ID is given and the transcript has none
+ */
+export function importTranscript(
+  db: Database.Database,
+  transcript: Transcript,
+  ingest: IngestOptions,
+  sessionId: string | null = transcript.sessionId
+): TranscriptImportResult {
+  if (!sessionId) {
+    throw new Error("Transcript has no session ID");
+  }
+
+  return runEventTransaction(db, (): TranscriptImportResult => {
+    const result: TranscriptImportResult = {
+      sessionId,
+      createdSession: false,
+      inserted: 0,
+      repaired: 0,
+      unchanged: 0,
+    };
+    const fallbackTime = new Date().toISOString();
+
+    if (!getSessionById(db, sessionId)) {
+      createSession(db, sessionId, transcript.startedAt ?? fallbackTime);
+      setSessionContext(db, sessionId, {
+        clientType: "claude-code",
+        ...(transcript.cwd && { cwd: transcript.cwd }),
+        ...(transcript.gitBranch && { gitBranch: transcript.gitBranch }),
+      });
+      result.createdSession = true;
+    }
+
+    // Recorded calls by tool and input, oldest first
+    const recorded = new Map<string, BaseEvent[]>();
+    for (const event of getEventsBySession(db, sessionId)) {
+      const key = matchKey(
+        event.toolName ?? "",
+        event.upstreamKey,
+        event.inputJson
+      );
+      const queue = recorded.get(key) ?? [];
+      queue.push(event);
+      recorded.set(key, queue);
+    }
+
+    const subagentRuns: SubagentRun[] = [];
+
+    for (const call of transcript.toolCalls) {
+      const { eventType, cleanName, upstreamKey } = parseToolName(
+        call.toolName
+      );
+      const isSubagent = eventType === "subagent_call";
+      const match = recorded
+        .get(
+          matchKey(cleanName, upstreamKey, preparePayload(call.input, ingest))
+        )
+        ?.shift();
+
+      let eventId: string;
+      if (match) {
+        eventId = match.id;
+        if (needsRepair(match, call)) {
+          ingestCompletion(
+            db,
+            match.id,
+            {
+              status: call.isError ? "error" : "success",
+              endedAt: call.endedAt!,
+              output: call.output,
+            },
+            ingest
+          );
+          result.repaired++;
+        } else {
+          result.unchanged++;
+        }
+      } else {
+        const subagent = call.sidechain
+          ? findSubagentRun(subagentRuns, call)
+          : null;
+        const event = ingestEvent(
+          db,
+          {
+            sessionId,
+            parentEventId: subagent?.eventId ?? null,
+            eventType,
+            agentRole: isSubagent || subagent ? "subagent" : "main",
+            agentName: isSubagent
+              ? getSubagentType(call.input)
+              : (subagent?.agentName ?? "claude-code"),
+            toolName: cleanName,
+            mcpMethod: getMcpMethod(call.input),
+            upstreamKey,
+            startedAt: call.startedAt,
+            // A call without a result never finished before the session ended
+            endedAt: call.endedAt ?? transcript.endedAt ?? call.startedAt,
+            status:
+              call.endedAt === null
+                ? "cancelled"
+                : call.isError
+                  ? "error"
+                  : "success",
+            input: call.input,
+            output: call.output,
+          },
+          ingest
+        );
+        eventId = event.id;
+        result.inserted++;
+      }
+
+      if (isSubagent && !call.sidechain) {
+        subagentRuns.push({
+          call,
+          eventId,
+          agentName: getSubagentType(call.input),
+        });
+      }
+    }
+
+    if (result.inserted > 0) {
+      renumberEventsByStartTime(db, sessionId);
+    }
+    if (result.createdSession) {
+      endSession(db, sessionId, transcript.endedAt ?? fallbackTime);
+    }
+
+    return result;
+  });
+}
@@ -51,6 +51,8 @@ function parseArgs(argv: string[]): {
       options.endpoint = argv[++i];
     } else if (arg === "--session" || arg === "-s") {
       options.sessionId = argv[++i];
+    } else if (arg === "--upstream" || arg === "-u") {
+      options.upstreamKey = argv[++i];
     } else if (arg === "--cwd" || arg === "-c") {
       options.cwd = argv[++i];
     } else if (arg === "--debug" || arg === "-d") {
@@ -90,6 +92,7 @@ OPTIONS:
   -o, --output <file>     Write JSONL logs to file
   -e, --endpoint <url>    POST telemetry to HTTP endpoint
   -s, --session <id>      Session ID for correlation (auto-generated if not set)
+  -u, --upstream <key>    Upstream key for the wrapped server (default: stdio)
   -c, --cwd <dir>         Working directory for child process
   -d, --debug             Enable debug logging to stderr
   -h, --help              Show this help message
@@ -152,6 +155,7 @@ async function main(): Promise<void> {
     outputFile: options.outputFile,
     endpoint: options.endpoint,
     sessionId: options.sessionId ?? randomUUID(),
+    upstreamKey: options.upstreamKey,
     debug: options.debug ?? false,
   };
 
@@ -16,8 +16,13 @@
  */
 
 import { spawn, type ChildProcess } from "node:child_process";
+import { randomUUID } from "node:crypto";
 import { createWriteStream, type WriteStream } from "node:fs";
 import { createInterface } from "node:readline";
+import {
+  collectSessionContext,
+  type SessionContext,
+} from "@agent-recorder/core";
 import type {
   ProxyOptions,
   ProxyState,
@@ -59,6 +64,14 @@ export class StdioProxy {
   private logStream: WriteStream | null = null;
   private readMutex = new ReadMutex();
   private shutdownRequested = false;
+  /** Session context (cwd, git, host), collected once at start */
+  private context: SessionContext | null = null;
+  /** Exit telemetry, sent once whether the child or the proxy stops first */
+  private exitReport: Promise<void> | null = null;
+  /** Last queued POST; each waits for the previous so messages stay in order */
+  private telemetry: Promise<void> = Promise.resolve();
+  /** Tells this process's calls apart from other proxies of the same server */
+  private readonly instanceId = randomUUID();
 
   constructor(options: ProxyOptions) {
     this.options = options;
@@ -76,8 +89,12 @@ export class StdioProxy {
     }
   }
 
-  /** Record a message to file and/or endpoint */
-  private async recordMessage(message: McpMessage): Promise<void> {
+  /**
+   * Record a message to file and/or endpoint.
+   * POSTs are queued so the recorder never sees a response before its
+   * request; the returned promise settles once this message is sent.
+   */
+  private recordMessage(message: McpMessage, timeoutMs = 2000): Promise<void> {
     const line = JSON.stringify(message) + "\n";
 
     // Write to file if configured
@@ -86,26 +103,42 @@ export class StdioProxy {
     }
 
     // POST to endpoint if configured
-    if (this.options.endpoint) {
-      try {
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), 2000);
-
-        await fetch(this.options.endpoint, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            ...message,
-            sessionId: this.options.sessionId,
-          }),
-          signal: controller.signal,
-        });
-
-        clearTimeout(timeout);
-      } catch {
-        // Fail silently - don't block the proxy
-        this.log(`Failed to POST to endpoint: ${this.options.endpoint}`);
-      }
+    const endpoint = this.options.endpoint;
+    if (endpoint) {
+      this.telemetry = this.telemetry.then(() =>
+        this.postMessage(endpoint, message, timeoutMs)
+      );
+    }
+    return this.telemetry;
+  }
+
+  /** POST one message to the endpoint (never rejects) */
+  private async postMessage(
+    endpoint: string,
+    message: McpMessage,
+    timeoutMs: number
+  ): Promise<void> {
+    try {
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), timeoutMs);
+
+      await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...message,
+          sessionId: this.options.sessionId,
+          upstream: this.options.upstreamKey,
+          instance: this.instanceId,
+          context: this.context,
+        }),
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeout);
+    } catch {
+      // Fail silently - don't block the proxy
+      this.log(`Failed to POST to endpoint: ${endpoint}`);
     }
   }
 
@@ -137,6 +170,41 @@ export class StdioProxy {
     return message;
   }
 
+  /**
+   * Tell the recorder the server is gone so calls without a response can be
+   * closed out. Sent once; later callers wait for the same report.
+   */
+  private reportExit(
+    code: number | null,
+    signal: string | null,
+    timeoutMs = 2000
+  ): Promise<void> {
+    this.exitReport ??= new Promise<void>((resolve) => {
+      // The deadline covers telemetry still queued ahead of the report
+      const deadline = setTimeout(resolve, timeoutMs);
+      void this.recordMessage(
+        {
+          timestamp: new Date().toISOString(),
+          direction: "exit",
+          raw: JSON.stringify({ code, signal }),
+        },
+        timeoutMs
+      ).finally(() => {
+        clearTimeout(deadline);
+        resolve();
+      });
+    });
+    return this.exitReport;
+  }
+
+  /** Close the log file, if any */
+  private closeLog(): void {
+    if (this.logStream) {
+      this.logStream.end();
+      this.logStream = null;
+    }
+  }
+
   /** Set up signal handlers for clean shutdown */
   private setupSignalHandlers(): void {
     const shutdown = (signal: string) => {
@@ -176,6 +244,13 @@ export class StdioProxy {
     // Set up signal handlers
     this.setupSignalHandlers();
 
+    if (this.options.endpoint) {
+      this.context = collectSessionContext(
+        "mcp-client",
+        this.options.cwd ?? process.cwd()
+      );
+    }
+
     // Build environment - pass through all env vars
     const env = {
       ...process.env,
@@ -210,14 +285,15 @@ export class StdioProxy {
       this.log(`Child process exited with code ${code}, signal ${signal}`);
       this.state.running = false;
 
-      // Close log stream
-      if (this.logStream) {
-        this.logStream.end();
-        this.logStream = null;
-      }
+      // stop() reports the exit and exits itself
+      if (this.shutdownRequested) return;
 
-      // Exit with same code as child
-      process.exit(code ?? 0);
+      void this.reportExit(code, signal).finally(() => {
+        this.closeLog();
+
+        // Exit with same code as child
+        process.exit(code ?? 0);
+      });
     });
 
     // Pipe stdin from parent to child (requests)
@@ -330,13 +406,7 @@ export class StdioProxy {
           this.log("Force killing child process");
           this.child.kill("SIGKILL");
         }
-      }, 5000);
-    }
-
-    // Close log stream
-    if (this.logStream) {
-      this.logStream.end();
-      this.logStream = null;
+      }, 5000).unref();
     }
 
     this.state.running = false;
@@ -346,10 +416,11 @@ export class StdioProxy {
       `Stats: ${this.state.requestCount} requests, ${this.state.responseCount} responses`
     );
 
-    // Exit if child hasn't exited yet
-    if (!this.child?.killed) {
-      setTimeout(() => process.exit(exitCode), 100);
-    }
+    // Report the exit before going, but don't hold up shutdown for long
+    void this.reportExit(null, "SIGTERM", 1000).finally(() => {
+      this.closeLog();
+      process.exit(exitCode);
+    });
   }
 
   /** Get current proxy state */
@@ -26,8 +26,8 @@ export interface JsonRpcResponse {
 export interface McpMessage {
   /** Timestamp when message was captured */
   timestamp: string;
-  /** Direction: client → server or server → client */
-  direction: "request" | "response";
+  /** Direction: client → server, server → client, or child process exit */
+  direction: "request" | "response" | "exit";
   /** Raw JSON-RPC message */
   raw: string;
   /** Parsed method (if request) */
@@ -56,6 +56,8 @@ export interface ProxyOptions {
   debug?: boolean | undefined;
   /** Session ID for correlation */
   sessionId?: string | undefined;
+  /** Upstream key identifying the wrapped server (e.g. its config key) */
+  upstreamKey?: string | undefined;
 }
 
 /** Proxy state */